@@ -4,7 +4,9 @@ import { useEffect, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useProjectStore } from "@/lib/stores/project-store";
 import { EditorProvider } from "@/components/providers/editor-provider";
+import { RecoveryDialog } from "@/components/editor/recovery-dialog";
 import { usePlaybackControls } from "@/lib/hooks/use-playback-controls";
+import { useAutoSnapshots } from "@/lib/hooks/use-auto-snapshots";
 import { isValidUUID } from "@/lib/utils";
 import dynamic from "next/dynamic";
 
@@ -33,6 +35,7 @@ export default function Editor() {
   const isInitializingRef = useRef<boolean>(false);
 
   usePlaybackControls();
+  useAutoSnapshots();
 
   useEffect(() => {
     let isCancelled = false;
@@ -154,6 +157,7 @@ export default function Editor() {
   return (
     <EditorProvider>
        <EditorLayout projectId={projectId} />
+       <RecoveryDialog />
     </EditorProvider>
   );
 }
@@ -1,11 +1,19 @@
 "use client";
 
 import { Button } from "../ui/button";
-import { ChevronDown, ArrowLeft, SquarePen, Trash } from "lucide-react";
+import {
+  ChevronDown,
+  ArrowLeft,
+  SquarePen,
+  Trash,
+  PackageOpen,
+  Package,
+} from "lucide-react";
 import { HeaderBase } from "../header-base";
 import { useProjectStore } from "@/lib/stores/project-store";
 import { KeyboardShortcutsHelp } from "../keyboard-shortcuts-help";
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -20,12 +28,22 @@ import { useRouter } from "next/navigation";
 import { FaDiscord } from "react-icons/fa6";
 import { PanelPresetSelector } from "./panel-preset-selector";
 import { ExportButton } from "./export-button";
+import { VersionHistory } from "./version-history";
+import { RelinkMediaDialog } from "./relink-media-dialog";
 import { ThemeToggle } from "../theme-toggle";
+import { ExportPackageDialog } from "./project-package-dialog";
+import {
+  PACKAGE_EXTENSION,
+  importProjectPackage,
+} from "@/lib/storage/project-package";
 
 export function EditorHeader() {
-  const { activeProject, renameProject, deleteProject } = useProjectStore();
+  const { activeProject, renameProject, deleteProject, loadAllProjects } =
+    useProjectStore();
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
+  const [isExportPackageOpen, setIsExportPackageOpen] = useState(false);
+  const packageInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
   const handleNameSave = async (newName: string) => {
@@ -48,6 +66,27 @@ export function EditorHeader() {
     }
   };
 
+  const handleImportPackage = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const toastId = toast.loading(`Importing ${file.name}...`);
+    try {
+      const projectId = await importProjectPackage(file);
+      await loadAllProjects();
+      toast.success("Project imported", { id: toastId });
+      router.push(`/editor/${projectId}`);
+    } catch (error) {
+      console.error("Failed to import project package:", error);
+      toast.error("Failed to import project package", {
+        id: toastId,
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
   const leftContent = (
     <div className="flex items-center gap-2">
       <DropdownMenu>
@@ -74,6 +113,20 @@ export function EditorHeader() {
             <SquarePen className="h-4 w-4" />
             Rename project
           </DropdownMenuItem>
+          <DropdownMenuItem
+            className="flex items-center gap-1.5"
+            onClick={() => setIsExportPackageOpen(true)}
+          >
+            <Package className="h-4 w-4" />
+            Export package
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="flex items-center gap-1.5"
+            onClick={() => packageInputRef.current?.click()}
+          >
+            <PackageOpen className="h-4 w-4" />
+            Import package
+          </DropdownMenuItem>
           <DropdownMenuItem
             variant="destructive"
             className="flex items-center gap-1.5"
@@ -108,6 +161,17 @@ export function EditorHeader() {
         onConfirm={handleDelete}
         projectName={activeProject?.name || ""}
       />
+      <ExportPackageDialog
+        isOpen={isExportPackageOpen}
+        onOpenChange={setIsExportPackageOpen}
+      />
+      <input
+        ref={packageInputRef}
+        type="file"
+        accept={PACKAGE_EXTENSION}
+        className="hidden"
+        onChange={handleImportPackage}
+      />
     </div>
   );
 
@@ -115,6 +179,8 @@ export function EditorHeader() {
     <nav className="flex items-center gap-2">
       <PanelPresetSelector />
       <KeyboardShortcutsHelp />
+      <RelinkMediaDialog />
+      <VersionHistory />
       <ExportButton />
       <ThemeToggle />
     </nav>
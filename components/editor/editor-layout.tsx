@@ -9,6 +9,7 @@ import { MediaPanel } from "@/components/editor/media-panel";
 import { PropertiesPanel } from "@/components/editor/properties-panel";
 import { Timeline } from "@/components/editor/timeline";
 import { PreviewPanel } from "@/components/editor/preview-panel";
+import { ScopesPanel } from "@/components/editor/scopes-panel";
 import { EditorHeader } from "@/components/editor/editor-header";
 import { usePanelStore } from "@/lib/stores/panel-store";
 import { EngineProvider } from "@/components/providers/engine-provider";
@@ -111,7 +112,7 @@ export default function EditorLayout({ projectId }: EditorLayoutProps) {
                         onResize={setPreviewPanel}
                         className="min-w-0 min-h-0 flex-1"
                       >
-                        <PreviewPanel />
+                        <PreviewArea />
                       </ResizablePanel>
 
                       <ResizableHandle withHandle />
@@ -187,7 +188,7 @@ export default function EditorLayout({ projectId }: EditorLayoutProps) {
                         onResize={setPreviewPanel}
                         className="min-w-0 min-h-0 flex-1"
                       >
-                        <PreviewPanel />
+                        <PreviewArea />
                       </ResizablePanel>
                     </ResizablePanelGroup>
                   </ResizablePanel>
@@ -291,7 +292,7 @@ export default function EditorLayout({ projectId }: EditorLayoutProps) {
                 onResize={setPreviewPanel}
                 className="min-w-0 min-h-0"
               >
-                <PreviewPanel />
+                <PreviewArea />
               </ResizablePanel>
             </ResizablePanelGroup>
           ) : (
@@ -332,7 +333,7 @@ export default function EditorLayout({ projectId }: EditorLayoutProps) {
                     onResize={setPreviewPanel}
                     className="min-w-0 min-h-0 flex-1"
                   >
-                    <PreviewPanel />
+                    <PreviewArea />
                   </ResizablePanel>
 
                   <ResizableHandle withHandle />
@@ -370,3 +371,41 @@ export default function EditorLayout({ projectId }: EditorLayoutProps) {
   );
 }
 
+// The preview with the scopes docked to its right. The preview stays the
+// first panel so toggling the scopes doesn't remount its canvas
+function PreviewArea() {
+  const { showScopes, scopesPanel, setScopesPanel } = usePanelStore();
+
+  return (
+    <ResizablePanelGroup
+      direction="horizontal"
+      className="h-full w-full gap-[0.19rem]"
+    >
+      <ResizablePanel
+        id="preview"
+        order={1}
+        defaultSize={showScopes ? 100 - scopesPanel : 100}
+        minSize={40}
+        className="min-w-0 min-h-0"
+      >
+        <PreviewPanel />
+      </ResizablePanel>
+      {showScopes && (
+        <>
+          <ResizableHandle withHandle />
+          <ResizablePanel
+            id="scopes"
+            order={2}
+            defaultSize={scopesPanel}
+            minSize={15}
+            maxSize={60}
+            onResize={setScopesPanel}
+            className="min-w-0 min-h-0"
+          >
+            <ScopesPanel />
+          </ResizablePanel>
+        </>
+      )}
+    </ResizablePanelGroup>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { TransitionUpIcon } from "../icons";
 import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
 import { Button } from "../ui/button";
@@ -8,16 +8,41 @@ import { Label } from "../ui/label";
 import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
 import { Progress } from "../ui/progress";
 import { Checkbox } from "../ui/checkbox";
-import { cn } from "@/lib/utils";
+import { cn, downloadBlob } from "@/lib/utils";
 import {
   exportProject,
+  getSupportedVideoCodecs,
   getExportMimeType,
   getExportFileExtension,
   DEFAULT_EXPORT_OPTIONS,
+  EXPORT_PRESETS,
 } from "@/lib/export";
 import { useProjectStore } from "@/lib/stores/project-store";
-import { Check, Copy, Download, RotateCcw, X } from "lucide-react";
-import { ExportFormat, ExportQuality, ExportResult } from "@/types/export";
+import { useExportQueueStore } from "@/lib/stores/export-queue-store";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import {
+  getSubtitleMimeType,
+  serializeSubtitles,
+  trackToCues,
+  type SubtitleFormat,
+} from "@/lib/subtitles";
+import { TextTrackSelect } from "./text-track-select";
+import {
+  Check,
+  Copy,
+  Download,
+  ListPlus,
+  RotateCcw,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  ExportFormat,
+  ExportQuality,
+  ExportJob,
+  ExportResult,
+  ExportVideoCodec,
+} from "@/types/export";
 import { PropertyGroup } from "./properties-panel/property-item";
 
 export function ExportButton() {
@@ -76,12 +101,51 @@ function ExportPopover({
   const [quality, setQuality] = useState<ExportQuality>(
     DEFAULT_EXPORT_OPTIONS.quality
   );
+  const [webmCodec, setWebmCodec] = useState<ExportVideoCodec>("vp9");
+  const [supportedWebmCodecs, setSupportedWebmCodecs] = useState<
+    ExportVideoCodec[] | null
+  >(null);
   const [includeAudio, setIncludeAudio] = useState<boolean>(
     DEFAULT_EXPORT_OPTIONS.includeAudio || true
   );
+  const [includeSubtitles, setIncludeSubtitles] = useState(false);
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>("srt");
+  const [subtitleTrackId, setSubtitleTrackId] = useState("");
+  const { tracks } = useTimelineStore();
   const [isExporting, setIsExporting] = useState(false);
   const [progress, setProgress] = useState(0);
   const [exportResult, setExportResult] = useState<ExportResult | null>(null);
+  const cancelRequested = useRef(false);
+  const [queuePresetIds, setQueuePresetIds] = useState<string[]>([]);
+  const { enqueue, isRunning: isQueueRunning } = useExportQueueStore();
+
+  const canvasWidth = activeProject?.canvasSize.width;
+  const canvasHeight = activeProject?.canvasSize.height;
+  useEffect(() => {
+    if (!canvasWidth || !canvasHeight) return;
+    let cancelled = false;
+    getSupportedVideoCodecs("webm", {
+      width: canvasWidth,
+      height: canvasHeight,
+      fps: activeProject?.fps,
+      quality,
+    }).then((codecs) => {
+      if (cancelled) return;
+      setSupportedWebmCodecs(codecs);
+      setWebmCodec((codec) =>
+        codecs.length === 0 || codecs.includes(codec) ? codec : codecs[0]
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasWidth, canvasHeight, activeProject?.fps, quality]);
+
+  const textTracks = tracks.filter((track) => track.type === "text");
+  const subtitleTrack = includeSubtitles
+    ? (textTracks.find((track) => track.id === subtitleTrackId) ??
+      textTracks[0])
+    : undefined;
 
   const handleExport = async () => {
     if (!activeProject) return;
@@ -89,17 +153,23 @@ function ExportPopover({
     setIsExporting(true);
     setProgress(0);
     setExportResult(null);
+    cancelRequested.current = false;
 
     const result = await exportProject({
       format,
       quality,
+      videoCodec: format === "webm" ? webmCodec : "h264",
       fps: activeProject.fps,
       includeAudio,
       onProgress: setProgress,
-      onCancel: () => false, // TODO: Add cancel functionality
+      onCancel: () => cancelRequested.current,
     });
 
     setIsExporting(false);
+    if (result.cancelled) {
+      setProgress(0);
+      return;
+    }
     setExportResult(result);
 
     if (result.success && result.buffer) {
@@ -107,15 +177,19 @@ function ExportPopover({
       const mimeType = getExportMimeType(format);
       const extension = getExportFileExtension(format);
       const blob = new Blob([result.buffer], { type: mimeType });
-      const url = URL.createObjectURL(blob);
+      downloadBlob(blob, `${activeProject.name}${extension}`);
 
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${activeProject.name}${extension}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Sidecar subtitles share the video's base name so players pick them up
+      if (subtitleTrack) {
+        const content = serializeSubtitles(
+          trackToCues(subtitleTrack, activeProject.canvasSize),
+          subtitleFormat
+        );
+        downloadBlob(
+          new Blob([content], { type: getSubtitleMimeType(subtitleFormat) }),
+          `${activeProject.name}.${subtitleFormat}`
+        );
+      }
 
       onOpenChange(false);
       setExportResult(null);
@@ -174,10 +248,51 @@ function ExportPopover({
                         <div className="flex items-center space-x-2">
                           <RadioGroupItem value="webm" id="webm" />
                           <Label htmlFor="webm">
-                            WebM (VP9) - Smaller file size
+                            WebM (VP9/AV1 + Opus) - Smaller file size
                           </Label>
                         </div>
                       </RadioGroup>
+                      {format === "webm" && (
+                        <RadioGroup
+                          value={webmCodec}
+                          onValueChange={(value) =>
+                            setWebmCodec(value as ExportVideoCodec)
+                          }
+                          className="pl-6"
+                        >
+                          {(
+                            [
+                              ["vp9", "VP9 - Fast to encode"],
+                              ["av1", "AV1 - Smallest files, slower"],
+                            ] as const
+                          ).map(([codec, label]) => {
+                            const unsupported =
+                              supportedWebmCodecs !== null &&
+                              !supportedWebmCodecs.includes(codec);
+                            return (
+                              <div
+                                key={codec}
+                                className="flex items-center space-x-2"
+                              >
+                                <RadioGroupItem
+                                  value={codec}
+                                  id={codec}
+                                  disabled={unsupported}
+                                />
+                                <Label
+                                  htmlFor={codec}
+                                  className={cn(
+                                    unsupported && "text-muted-foreground"
+                                  )}
+                                >
+                                  {label}
+                                  {unsupported && " (not supported)"}
+                                </Label>
+                              </div>
+                            );
+                          })}
+                        </RadioGroup>
+                      )}
                     </PropertyGroup>
 
                     <PropertyGroup
@@ -230,12 +345,115 @@ function ExportPopover({
                         </Label>
                       </div>
                     </PropertyGroup>
+
+                    <PropertyGroup
+                      title="Subtitles"
+                      titleClassName="text-sm"
+                      defaultExpanded={false}
+                    >
+                      <div className="flex flex-col gap-3">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="include-subtitles"
+                            checked={includeSubtitles}
+                            disabled={textTracks.length === 0}
+                            onCheckedChange={(checked) =>
+                              setIncludeSubtitles(!!checked)
+                            }
+                          />
+                          <Label htmlFor="include-subtitles">
+                            Sidecar subtitles file
+                          </Label>
+                        </div>
+                        {subtitleTrack && (
+                          <>
+                            <TextTrackSelect
+                              value={subtitleTrack.id}
+                              onValueChange={setSubtitleTrackId}
+                            />
+                            <RadioGroup
+                              value={subtitleFormat}
+                              onValueChange={(value) =>
+                                setSubtitleFormat(value as SubtitleFormat)
+                              }
+                            >
+                              <div className="flex items-center space-x-2">
+                                <RadioGroupItem value="srt" id="srt" />
+                                <Label htmlFor="srt">
+                                  SRT - Widest support
+                                </Label>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <RadioGroupItem value="vtt" id="vtt" />
+                                <Label htmlFor="vtt">
+                                  WebVTT - Keeps styling and position
+                                </Label>
+                              </div>
+                            </RadioGroup>
+                          </>
+                        )}
+                      </div>
+                    </PropertyGroup>
+
+                    <PropertyGroup
+                      title="Render queue"
+                      titleClassName="text-sm"
+                      defaultExpanded={false}
+                    >
+                      <div className="flex flex-col gap-3">
+                        {EXPORT_PRESETS.map((preset) => (
+                          <div
+                            key={preset.id}
+                            className="flex items-center space-x-2"
+                          >
+                            <Checkbox
+                              id={`preset-${preset.id}`}
+                              checked={queuePresetIds.includes(preset.id)}
+                              onCheckedChange={(checked) =>
+                                setQueuePresetIds((ids) =>
+                                  checked
+                                    ? [...ids, preset.id]
+                                    : ids.filter((id) => id !== preset.id)
+                                )
+                              }
+                            />
+                            <Label htmlFor={`preset-${preset.id}`}>
+                              {preset.name} ({preset.format.toUpperCase()})
+                            </Label>
+                          </div>
+                        ))}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          disabled={queuePresetIds.length === 0}
+                          onClick={() => {
+                            enqueue(
+                              EXPORT_PRESETS.filter((preset) =>
+                                queuePresetIds.includes(preset.id)
+                              ),
+                              includeAudio
+                            );
+                            setQueuePresetIds([]);
+                          }}
+                        >
+                          <ListPlus className="w-4 h-4" />
+                          Add to queue
+                        </Button>
+                      </div>
+                    </PropertyGroup>
                   </div>
 
-                  <Button onClick={handleExport} className="w-full gap-2">
+                  <Button
+                    onClick={handleExport}
+                    className="w-full gap-2"
+                    disabled={isQueueRunning}
+                  >
                     <Download className="w-4 h-4" />
-                    Export
+                    {isQueueRunning ? "Queue is rendering..." : "Export"}
                   </Button>
+
+                  <ExportQueue />
                 </>
               )}
 
@@ -254,7 +472,9 @@ function ExportPopover({
                   <Button
                     variant="outline"
                     className="rounded-md w-full"
-                    onClick={() => {}}
+                    onClick={() => {
+                      cancelRequested.current = true;
+                    }}
                   >
                     Cancel
                   </Button>
@@ -268,6 +488,119 @@ function ExportPopover({
   );
 }
 
+const JOB_STATUS_LABELS: Record<ExportJob["status"], string> = {
+  queued: "Queued",
+  rendering: "Rendering",
+  complete: "Finished",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+function ExportQueue() {
+  const { activeProject } = useProjectStore();
+  const { jobs, cancelJob, rerunJob, removeJob, clearFinished, runQueue } =
+    useExportQueueStore();
+  const projectJobs = jobs
+    .filter((job) => job.projectId === activeProject?.id)
+    .reverse();
+
+  if (!activeProject || projectJobs.length === 0) return null;
+
+  const hasFinished = projectJobs.some(
+    (job) => job.status !== "queued" && job.status !== "rendering"
+  );
+  // Queued jobs left over from a reload wait until they are started again
+  const hasWaiting =
+    projectJobs.some((job) => job.status === "queued") &&
+    !projectJobs.some((job) => job.status === "rendering");
+
+  return (
+    <div className="flex flex-col gap-2 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Exports</p>
+        <div className="flex gap-1">
+          {hasWaiting && (
+            <Button
+              variant="text"
+              size="sm"
+              className="text-xs h-6"
+              onClick={runQueue}
+            >
+              Start
+            </Button>
+          )}
+          {hasFinished && (
+            <Button
+              variant="text"
+              size="sm"
+              className="text-xs h-6"
+              onClick={() => clearFinished(activeProject.id)}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 max-h-56 overflow-y-auto">
+        {projectJobs.map((job) => (
+          <div key={job.id} className="flex flex-col gap-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs truncate">{job.preset.name}</p>
+                <p
+                  className={cn(
+                    "text-xs text-muted-foreground truncate",
+                    job.status === "failed" && "text-red-400"
+                  )}
+                  title={job.error}
+                >
+                  {job.status === "rendering"
+                    ? `${JOB_STATUS_LABELS[job.status]} ${Math.round(job.progress * 100)}%`
+                    : (job.error ?? JOB_STATUS_LABELS[job.status])}
+                </p>
+              </div>
+              <div className="flex shrink-0">
+                {job.status === "queued" || job.status === "rendering" ? (
+                  <Button
+                    variant="text"
+                    size="icon"
+                    title="Cancel"
+                    onClick={() => cancelJob(job.id)}
+                  >
+                    <X className="!size-4" />
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="text"
+                      size="icon"
+                      title="Render again"
+                      onClick={() => rerunJob(job.id)}
+                    >
+                      <RotateCcw className="!size-4" />
+                    </Button>
+                    <Button
+                      variant="text"
+                      size="icon"
+                      title="Remove from history"
+                      onClick={() => removeJob(job.id)}
+                    >
+                      <Trash2 className="!size-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+            {job.status === "rendering" && (
+              <Progress value={job.progress * 100} className="h-1" />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function ExportError({
   error,
   onRetry,
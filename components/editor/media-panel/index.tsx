@@ -9,6 +9,10 @@ import { StickersView } from "./views/stickers";
 import { Separator } from "@/components/ui/separator";
 import { SettingsView } from "./views/settings";
 import { Captions } from "./views/captions";
+import { ColorView } from "./views/color";
+import { KeyView } from "./views/key";
+import { AdjustmentView } from "./views/adjustment";
+import { LayoutView } from "./views/layout";
 
 export function MediaPanel() {
   const { activeTab } = useMediaPanelStore();
@@ -34,11 +38,10 @@ export function MediaPanel() {
         Filters view coming soon...
       </div>
     ),
-    adjustment: (
-      <div className="p-4 text-muted-foreground">
-        Adjustment view coming soon...
-      </div>
-    ),
+    adjustment: <AdjustmentView />,
+    color: <ColorView />,
+    key: <KeyView />,
+    layout: <LayoutView />,
     settings: <SettingsView />,
   };
 
@@ -7,9 +7,12 @@ import {
   VideoIcon,
   BlendIcon,
   SlidersHorizontalIcon,
+  PaletteIcon,
+  PipetteIcon,
   LucideIcon,
   TypeIcon,
   SettingsIcon,
+  LayoutGridIcon,
 } from "lucide-react";
 import { create } from "zustand";
 
@@ -23,6 +26,9 @@ export type Tab =
   | "captions"
   | "filters"
   | "adjustment"
+  | "color"
+  | "key"
+  | "layout"
   | "settings";
 
 export const tabs: { [key in Tab]: { icon: LucideIcon; label: string } } = {
@@ -62,6 +68,18 @@ export const tabs: { [key in Tab]: { icon: LucideIcon; label: string } } = {
     icon: SlidersHorizontalIcon,
     label: "Adjustment",
   },
+  color: {
+    icon: PaletteIcon,
+    label: "Color",
+  },
+  key: {
+    icon: PipetteIcon,
+    label: "Key",
+  },
+  layout: {
+    icon: LayoutGridIcon,
+    label: "Layout",
+  },
   settings: {
     icon: SettingsIcon,
     label: "Settings",
@@ -0,0 +1,41 @@
+import { SlidersHorizontal } from "lucide-react";
+import { DraggableMediaItem } from "@/components/ui/draggable-item";
+import { PanelBaseView as BaseView } from "@/components/editor/panel-base-view";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import type { AdjustmentItemDragData } from "@/types/timeline";
+
+const ADJUSTMENT_LAYER: AdjustmentItemDragData = {
+  id: "temp-adjustment-id",
+  type: "adjustment",
+  name: "Adjustment layer",
+};
+
+export function AdjustmentView() {
+  return (
+    <BaseView>
+      <div className="flex flex-col gap-3">
+        <DraggableMediaItem
+          name={ADJUSTMENT_LAYER.name}
+          preview={
+            <div className="flex flex-col items-center justify-center gap-1 w-full h-full bg-panel-accent rounded">
+              <SlidersHorizontal className="size-5" />
+              <span className="text-xs select-none">Adjustment</span>
+            </div>
+          }
+          dragData={ADJUSTMENT_LAYER}
+          aspectRatio={1}
+          onAddToTimeline={(currentTime) =>
+            useTimelineStore
+              .getState()
+              .addElementAtTime(ADJUSTMENT_LAYER, currentTime)
+          }
+          showLabel={false}
+        />
+        <p className="text-xs text-muted-foreground text-balance">
+          Filters added to an adjustment layer apply to every track beneath it
+          while the layer is on the timeline.
+        </p>
+      </div>
+    </BaseView>
+  );
+}
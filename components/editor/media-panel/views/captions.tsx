@@ -4,19 +4,38 @@ import { PanelBaseView as BaseView } from "@/components/editor/panel-base-view";
 import { Language, LanguageSelect } from "@/components/language-select";
 import { useState, useRef, useEffect } from "react";
 import { extractTimelineAudio } from "@/lib/export";
-import { encryptWithRandomKey, arrayBufferToBase64 } from "@/lib/zk-encryption";
+import { transcriptionService } from "@/lib/transcription/transcription-service";
+import { groupWordsIntoCaptions } from "@/lib/transcription/utils";
 import { useTimelineStore } from "@/lib/stores/timeline-store";
-import { DEFAULT_TEXT_ELEMENT } from "@/lib/text-constants";
-import { Loader2, Shield, Trash2, Upload } from "lucide-react";
+import { useProjectStore } from "@/lib/stores/project-store";
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import { TextElement } from "@/types/timeline";
+  CAPTION_STYLE_PRESETS,
+  DEFAULT_CAPTION_ELEMENT,
+} from "@/lib/text-constants";
+import {
+  cuesToTextElements,
+  detectSubtitleFormat,
+  getSubtitleMimeType,
+  parseSubtitles,
+  serializeSubtitles,
+  trackToCues,
+  type SubtitleFormat,
+} from "@/lib/subtitles";
+import { downloadBlob } from "@/lib/utils";
+import { Download, FileText, Loader2, Shield } from "lucide-react";
+import { CaptionWord, TextElement } from "@/types/timeline";
+import {
+  NEW_TRACK_VALUE,
+  TextTrackSelect,
+} from "@/components/editor/text-track-select";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 export const languages: Language[] = [
   { code: "US", name: "English" },
@@ -30,22 +49,41 @@ export const languages: Language[] = [
   { code: "CN", name: "Chinese" },
 ];
 
-const PRIVACY_DIALOG_KEY = "opencut-transcription-privacy-accepted";
+// Flag codes above mapped to the language codes Whisper expects
+const WHISPER_LANGUAGES: Record<string, string> = {
+  US: "en",
+  ES: "es",
+  IT: "it",
+  FR: "fr",
+  DE: "de",
+  PT: "pt",
+  RU: "ru",
+  JP: "ja",
+  CN: "zh",
+};
+
+// Minimum time a caption stays on screen, in seconds
+const MIN_CAPTION_DURATION = 0.8;
+
+const STATIC_CAPTION_PRESET = "static";
 
 export function Captions() {
   const [selectedCountry, setSelectedCountry] = useState("auto");
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStep, setProcessingStep] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
-  const [showPrivacyDialog, setShowPrivacyDialog] = useState(false);
-  const [hasAcceptedPrivacy, setHasAcceptedPrivacy] = useState(false);
+  const [missingFiles, setMissingFiles] = useState<string[]>([]);
+  const [captionPreset, setCaptionPreset] = useState(
+    CAPTION_STYLE_PRESETS[0].id
+  );
   const containerRef = useRef<HTMLDivElement>(null);
   const { insertTrackAt, addElementToTrack } = useTimelineStore();
 
-  // Check if user has already accepted privacy on mount
+  // Check that the local model files are in place on mount
   useEffect(() => {
-    const hasAccepted = localStorage.getItem(PRIVACY_DIALOG_KEY) === "true";
-    setHasAcceptedPrivacy(hasAccepted);
+    transcriptionService
+      .checkAvailability()
+      .then(({ missingFiles }) => setMissingFiles(missingFiles));
   }, []);
 
   const handleGenerateTranscript = async () => {
@@ -56,120 +94,68 @@ export function Captions() {
 
       const audioBlob = await extractTimelineAudio();
 
-      setProcessingStep("Encrypting audio...");
-
-      // Encrypt the audio with a random key (zero-knowledge)
-      const audioBuffer = await audioBlob.arrayBuffer();
-      const encryptionResult = await encryptWithRandomKey(audioBuffer);
-
-      // Convert encrypted data to blob for upload
-      const encryptedBlob = new Blob([encryptionResult.encryptedData]);
-
-      setProcessingStep("Uploading...");
-      const uploadResponse = await fetch("/api/get-upload-url", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ fileExtension: "wav" }),
-      });
-
-      if (!uploadResponse.ok) {
-        const error = await uploadResponse.json();
-        throw new Error(error.message || "Failed to get upload URL");
-      }
-
-      const { uploadUrl, fileName } = await uploadResponse.json();
-
-      // Upload to R2
-      await fetch(uploadUrl, {
-        method: "PUT",
-        body: encryptedBlob,
+      const transcript = await transcriptionService.transcribe(audioBlob, {
+        language:
+          selectedCountry === "auto"
+            ? undefined
+            : WHISPER_LANGUAGES[selectedCountry],
+        onProgress: (_progress, step) => setProcessingStep(step),
       });
 
-      setProcessingStep("Transcribing...");
-
-      // Call Modal transcription API with encryption parameters
-      const transcriptionResponse = await fetch("/api/transcribe", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          filename: fileName,
-          language:
-            selectedCountry === "auto" ? "auto" : selectedCountry.toLowerCase(),
-          // Send the raw encryption key and IV (zero-knowledge)
-          decryptionKey: arrayBufferToBase64(encryptionResult.key),
-          iv: arrayBufferToBase64(encryptionResult.iv),
-        }),
-      });
+      console.log("Transcription completed:", transcript);
 
-      if (!transcriptionResponse.ok) {
-        const error = await transcriptionResponse.json();
-        throw new Error(error.message || "Transcription failed");
+      if (transcript.words.length === 0) {
+        throw new Error("No speech found in the timeline audio");
       }
 
-      const { text, segments } = await transcriptionResponse.json();
-
-      console.log("Transcription completed:", { text, segments });
-
       const shortCaptions: Array<{
         text: string;
         startTime: number;
         duration: number;
+        words: CaptionWord[];
       }> = [];
 
       let globalEndTime = 0; // Track the end time of the last caption globally
 
-      segments.forEach((segment: any) => {
-        const words = segment.text.trim().split(/\s+/);
-        const segmentDuration = segment.end - segment.start;
-        const wordsPerSecond = words.length / segmentDuration;
-
-        // Split into chunks of 2-4 words
-        const chunks: string[] = [];
-        for (let i = 0; i < words.length; i += 3) {
-          chunks.push(words.slice(i, i + 3).join(" "));
-        }
-
-        // Calculate timing for each chunk to place them sequentially
-        let chunkStartTime = segment.start;
-        chunks.forEach((chunk) => {
-          const chunkWords = chunk.split(/\s+/).length;
-          const chunkDuration = Math.max(0.8, chunkWords / wordsPerSecond); // Minimum 0.8s per chunk
-
-          let adjustedStartTime = chunkStartTime;
-
-          // Prevent overlapping: if this caption would start before the last one ends,
-          // start it right after the last one ends
-          if (adjustedStartTime < globalEndTime) {
-            adjustedStartTime = globalEndTime;
-          }
-
-          shortCaptions.push({
-            text: chunk,
-            startTime: adjustedStartTime,
-            duration: chunkDuration,
-          });
-
-          // Update global end time
-          globalEndTime = adjustedStartTime + chunkDuration;
-
-          // Next chunk starts when this one ends (for within-segment timing)
-          chunkStartTime += chunkDuration;
+      groupWordsIntoCaptions(transcript).forEach((chunk) => {
+        // Prevent overlapping: start right after the previous caption ends
+        const startTime = Math.max(chunk[0].start, globalEndTime);
+        const endTime = Math.max(
+          chunk[chunk.length - 1].end,
+          startTime + MIN_CAPTION_DURATION
+        );
+
+        shortCaptions.push({
+          text: chunk.map((word) => word.text).join(" "),
+          startTime,
+          duration: endTime - startTime,
+          // Word times are relative to the caption element start
+          words: chunk.map((word) => ({
+            text: word.text,
+            start: word.start - startTime,
+            end: word.end - startTime,
+          })),
         });
+
+        globalEndTime = endTime;
       });
 
+      const captionStyle = CAPTION_STYLE_PRESETS.find(
+        (preset) => preset.id === captionPreset
+      )?.style;
+
       // Create a single track for all captions
       const captionTrackId = insertTrackAt("text", 0);
 
       // Add all caption elements to the same track
       shortCaptions.forEach((caption, index) => {
         addElementToTrack(captionTrackId, {
-          ...DEFAULT_TEXT_ELEMENT,
+          ...DEFAULT_CAPTION_ELEMENT,
           name: `Caption ${index + 1}`,
           content: caption.text,
           duration: caption.duration,
           startTime: caption.startTime,
-          fontSize: 65, // Larger for captions
-          fontWeight: "bold", // Bold for captions
+          ...(captionStyle && { words: caption.words, captionStyle }),
         } as TextElement);
       });
 
@@ -198,6 +184,24 @@ export function Captions() {
         />
       </PropertyGroup>
 
+      <PropertyGroup title="Animation">
+        <Select value={captionPreset} onValueChange={setCaptionPreset}>
+          <SelectTrigger className="bg-panel-accent">
+            <SelectValue placeholder="Select a caption style" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={STATIC_CAPTION_PRESET}>Static</SelectItem>
+            {CAPTION_STYLE_PRESETS.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </PropertyGroup>
+
+      <SubtitleFile />
+
       <div className="flex flex-col gap-4">
         {error && (
           <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
@@ -205,99 +209,130 @@ export function Captions() {
           </div>
         )}
 
+        {missingFiles.length > 0 && (
+          <div className="p-3 bg-muted border rounded-md space-y-1">
+            <p className="text-sm">
+              Transcription model not found. Add these files to{" "}
+              <code>public</code> to enable captions:
+            </p>
+            {missingFiles.map((file) => (
+              <p key={file} className="text-xs text-muted-foreground">
+                {file}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <p className="flex items-start gap-2 text-xs text-muted-foreground">
+          <Shield className="h-4 w-4 flex-shrink-0" />
+          Speech recognition runs locally in your browser. Audio never leaves
+          your device.
+        </p>
+
         <Button
           className="w-full"
-          onClick={() => {
-            if (hasAcceptedPrivacy) {
-              handleGenerateTranscript();
-            } else {
-              setShowPrivacyDialog(true);
-            }
-          }}
-          disabled={isProcessing}
+          onClick={handleGenerateTranscript}
+          disabled={isProcessing || missingFiles.length > 0}
         >
           {isProcessing && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
           {isProcessing ? processingStep : "Generate transcript"}
         </Button>
-
-        <Dialog open={showPrivacyDialog} onOpenChange={setShowPrivacyDialog}>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle className="flex items-center gap-2">
-                <Shield className="h-5 w-5" />
-                Audio Processing Notice
-              </DialogTitle>
-              <DialogDescription className="space-y-3">
-                <p>
-                  To generate captions, we need to process your timeline audio
-                  using speech-to-text technology.
-                </p>
-
-                <div className="space-y-2 pt-2">
-                  <div className="flex items-start gap-2">
-                    <Shield className="h-4 w-4 flex-shrink-0" />
-                    <span className="text-sm">
-                      Zero-knowledge encryption - we cannot decrypt your files
-                      even if we wanted to
-                    </span>
-                  </div>
-
-                  <div className="flex items-start gap-2">
-                    <Shield className="h-4 w-4 flex-shrink-0" />
-                    <span className="text-sm">
-                      Encryption keys generated randomly in your browser, never
-                      stored anywhere
-                    </span>
-                  </div>
-
-                  <div className="flex items-start gap-2">
-                    <Upload className="h-4 w-4 flex-shrink-0" />
-                    <span className="text-sm">
-                      Audio encrypted before upload - raw audio never leaves
-                      your device
-                    </span>
-                  </div>
-
-                  <div className="flex items-start gap-2">
-                    <Trash2 className="h-4 w-4 flex-shrink-0" />
-                    <span className="text-sm">
-                      Everything permanently deleted within seconds after
-                      transcription
-                    </span>
-                  </div>
-                </div>
-
-                <p className="text-xs text-muted-foreground">
-                  <strong>True zero-knowledge privacy:</strong> Encryption keys
-                  are generated randomly in your browser and never stored
-                  anywhere. It's cryptographically impossible for us, our cloud
-                  providers, or anyone else to decrypt your audio files.
-                </p>
-              </DialogDescription>
-            </DialogHeader>
-            <DialogFooter className="gap-2">
-              <Button
-                variant="outline"
-                onClick={() => setShowPrivacyDialog(false)}
-                disabled={isProcessing}
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={() => {
-                  localStorage.setItem(PRIVACY_DIALOG_KEY, "true");
-                  setHasAcceptedPrivacy(true);
-                  setShowPrivacyDialog(false);
-                  handleGenerateTranscript();
-                }}
-                disabled={isProcessing}
-              >
-                Continue & Generate Captions
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
       </div>
     </BaseView>
   );
 }
+
+function SubtitleFile() {
+  const [trackId, setTrackId] = useState(NEW_TRACK_VALUE);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { tracks, insertTrackAt, addElementToTrack } = useTimelineStore();
+  const { activeProject } = useProjectStore();
+
+  // Fall back to a new track when the selected one is deleted
+  const track = tracks.find((t) => t.id === trackId);
+  const selectedTrackId = track ? trackId : NEW_TRACK_VALUE;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !activeProject) return;
+
+    try {
+      const content = await file.text();
+      const cues = parseSubtitles(
+        content,
+        detectSubtitleFormat(content, file.name)
+      );
+      const elements = cuesToTextElements(cues, activeProject.canvasSize);
+      if (elements.length === 0) {
+        throw new Error("No cues found in subtitle file");
+      }
+
+      const targetTrackId = track ? track.id : insertTrackAt("text", 0);
+      for (const element of elements) {
+        addElementToTrack(targetTrackId, element);
+      }
+      setTrackId(targetTrackId);
+      toast.success(`Imported ${elements.length} captions from ${file.name}`);
+    } catch (error) {
+      console.error("Subtitle import failed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import subtitles"
+      );
+    }
+  };
+
+  const handleExport = (format: SubtitleFormat) => {
+    if (!track || !activeProject) return;
+    const content = serializeSubtitles(
+      trackToCues(track, activeProject.canvasSize),
+      format
+    );
+    downloadBlob(
+      new Blob([content], { type: getSubtitleMimeType(format) }),
+      `${activeProject.name}.${format}`
+    );
+  };
+
+  return (
+    <PropertyGroup title="Subtitle file">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".srt,.vtt"
+        className="hidden"
+        onChange={handleImport}
+      />
+      <div className="flex flex-col gap-2">
+        <TextTrackSelect
+          value={selectedTrackId}
+          onValueChange={setTrackId}
+          allowNewTrack
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <FileText className="mr-1 h-4 w-4" />
+          Import SRT / VTT
+        </Button>
+        <div className="flex gap-2">
+          {(["srt", "vtt"] as const).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              disabled={!track}
+              onClick={() => handleExport(format)}
+            >
+              <Download className="mr-1 h-4 w-4" />
+              Export {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </PropertyGroup>
+  );
+}
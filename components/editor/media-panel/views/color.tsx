@@ -0,0 +1,676 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { RotateCcw, Upload, X } from "lucide-react";
+import { PanelBaseView as BaseView } from "@/components/editor/panel-base-view";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "../../properties-panel/property-item";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import {
+  bake_curve,
+  default_color_grade,
+  default_hsl_qualifier,
+  parse_cube_lut,
+} from "@/lib/engine/utils/utils/color-grade";
+import type {
+  ColorCurvePoint,
+  ColorGrade,
+  ColorTriplet,
+  HslQualifier,
+  MediaElement,
+} from "@/types/timeline";
+
+type CurveChannel = keyof ColorGrade["curves"];
+
+// Wheel hue angles of red, green and blue, the puck is the sum of the three
+const CHANNEL_ANGLES = [0, (2 * Math.PI) / 3, (-2 * Math.PI) / 3];
+
+const WHEELS: {
+  key: "lift" | "gamma" | "gain";
+  label: string;
+  scale: number; // Largest per-channel offset at the wheel's edge
+}[] = [
+  { key: "lift", label: "Lift", scale: 0.25 },
+  { key: "gamma", label: "Gamma", scale: 0.5 },
+  { key: "gain", label: "Gain", scale: 0.5 },
+];
+
+const CURVE_CHANNELS: { key: CurveChannel; label: string; color: string }[] = [
+  { key: "master", label: "Luma", color: "currentColor" },
+  { key: "red", label: "Red", color: "#ef4444" },
+  { key: "green", label: "Green", color: "#22c55e" },
+  { key: "blue", label: "Blue", color: "#3b82f6" },
+];
+
+interface GradeProps {
+  grade: ColorGrade;
+  onStart: () => void;
+  onChange: (grade: ColorGrade) => void;
+}
+
+export function ColorView() {
+  const { tracks, selectedElements, updateElementColorGrade, pushHistory } =
+    useTimelineStore();
+  const { mediaFiles } = useMediaStore();
+
+  // Grades the first selected video or image clip
+  const target = selectedElements
+    .map(({ trackId, elementId }) => ({
+      trackId,
+      element: tracks
+        .find((track) => track.id === trackId)
+        ?.elements.find((element) => element.id === elementId),
+    }))
+    .find(
+      (entry): entry is { trackId: string; element: MediaElement } =>
+        entry.element?.type === "media" &&
+        mediaFiles.some(
+          (file) =>
+            file.id === (entry.element as MediaElement).mediaId &&
+            (file.type === "video" || file.type === "image")
+        )
+    );
+
+  if (!target) {
+    return (
+      <BaseView>
+        <p className="text-sm text-muted-foreground">
+          Select a video or image clip on the timeline to grade it
+        </p>
+      </BaseView>
+    );
+  }
+
+  const { trackId, element } = target;
+  const grade = element.colorGrade ?? default_color_grade();
+  const props: GradeProps = {
+    grade,
+    onStart: pushHistory,
+    onChange: (next) =>
+      updateElementColorGrade(trackId, element.id, next, false),
+  };
+
+  const page = (content: React.ReactNode) => (
+    <div className="space-y-5 p-5">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium truncate">{element.name}</span>
+        <div className="flex items-center gap-3 shrink-0">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Bypass
+            <Switch
+              checked={!!grade.bypassed}
+              onCheckedChange={(bypassed) =>
+                updateElementColorGrade(trackId, element.id, {
+                  ...grade,
+                  bypassed: bypassed || undefined,
+                })
+              }
+            />
+          </label>
+          <Button
+            variant="text"
+            size="icon"
+            title="Reset grade"
+            disabled={!element.colorGrade}
+            onClick={() =>
+              updateElementColorGrade(trackId, element.id, undefined)
+            }
+          >
+            <RotateCcw className="!size-3.5" />
+          </Button>
+        </div>
+      </div>
+      {content}
+    </div>
+  );
+
+  return (
+    <BaseView
+      defaultTab="wheels"
+      tabs={[
+        {
+          value: "wheels",
+          label: "Wheels",
+          content: page(<Wheels {...props} />),
+        },
+        {
+          value: "curves",
+          label: "Curves",
+          content: page(<Curves {...props} />),
+        },
+        { value: "hsl", label: "HSL", content: page(<Hsl {...props} />) },
+        { value: "lut", label: "LUT", content: page(<Lut {...props} />) },
+      ]}
+    />
+  );
+}
+
+function Wheels({ grade, onStart, onChange }: GradeProps) {
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {WHEELS.map(({ key, label, scale }) => (
+        <ColorWheel
+          key={key}
+          label={label}
+          value={grade[key]}
+          scale={scale}
+          onStart={onStart}
+          onChange={(value) => onChange({ ...grade, [key]: value })}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ColorWheel({
+  label,
+  value,
+  scale,
+  onStart,
+  onChange,
+}: {
+  label: string;
+  value: ColorTriplet;
+  scale: number;
+  onStart: () => void;
+  onChange: (value: ColorTriplet) => void;
+}) {
+  const wheelRef = useRef<HTMLDivElement>(null);
+  const master = (value[0] + value[1] + value[2]) / 3;
+  // Chroma part of the offsets projected back onto the wheel
+  const x =
+    ((2 / 3) *
+      value.reduce(
+        (sum, v, i) => sum + (v - master) * Math.cos(CHANNEL_ANGLES[i]),
+        0
+      )) /
+    scale;
+  const y =
+    ((2 / 3) *
+      value.reduce(
+        (sum, v, i) => sum + (v - master) * Math.sin(CHANNEL_ANGLES[i]),
+        0
+      )) /
+    scale;
+
+  const fromWheel = (wheelX: number, wheelY: number, base: number) =>
+    CHANNEL_ANGLES.map(
+      (angle) =>
+        base + scale * (wheelX * Math.cos(angle) + wheelY * Math.sin(angle))
+    ) as ColorTriplet;
+
+  const handlePointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = wheelRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    let px = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    let py = 1 - ((event.clientY - rect.top) / rect.height) * 2;
+    const radius = Math.hypot(px, py);
+    if (radius > 1) {
+      px /= radius;
+      py /= radius;
+    }
+    onChange(fromWheel(px, py, master));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <div
+        ref={wheelRef}
+        className="relative aspect-square w-full rounded-full cursor-crosshair touch-none"
+        style={{
+          background:
+            "radial-gradient(circle, rgb(128 128 128) 0%, rgb(128 128 128 / 0) 70%), conic-gradient(from 90deg, #f00, #f0f, #00f, #0ff, #0f0, #ff0, #f00)",
+        }}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          onStart();
+          handlePointer(event);
+        }}
+        onPointerMove={(event) => {
+          if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+            handlePointer(event);
+          }
+        }}
+        onDoubleClick={() => {
+          onStart();
+          onChange(fromWheel(0, 0, master));
+        }}
+      >
+        <div
+          className="absolute size-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow pointer-events-none"
+          style={{ left: `${50 + x * 50}%`, top: `${50 - y * 50}%` }}
+        />
+      </div>
+      <Slider
+        value={[master]}
+        min={-0.5}
+        max={0.5}
+        step={0.01}
+        onPointerDown={onStart}
+        onValueChange={([next]) =>
+          onChange(value.map((v) => v - master + next) as ColorTriplet)
+        }
+      />
+      <span className="text-[10px] tabular-nums text-muted-foreground">
+        {value.map((v) => v.toFixed(2)).join(" ")}
+      </span>
+    </div>
+  );
+}
+
+function Curves({ grade, onStart, onChange }: GradeProps) {
+  const [channel, setChannel] = useState<CurveChannel>("master");
+  const [dragging, setDragging] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const points = grade.curves[channel];
+  const { color } = CURVE_CHANNELS.find(({ key }) => key === channel)!;
+
+  const setPoints = (next: ColorCurvePoint[]) =>
+    onChange({ ...grade, curves: { ...grade.curves, [channel]: next } });
+
+  const toCurve = (event: React.PointerEvent): ColorCurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    return [
+      clamp((event.clientX - rect.left) / rect.width),
+      clamp(1 - (event.clientY - rect.top) / rect.height),
+    ];
+  };
+
+  const movePoint = (index: number, [x, y]: ColorCurvePoint) => {
+    const last = points.length - 1;
+    // End points only move vertically, the others stay between neighbours
+    const px =
+      index === 0
+        ? points[0][0]
+        : index === last
+          ? points[last][0]
+          : Math.min(
+              points[index + 1][0] - 0.01,
+              Math.max(points[index - 1][0] + 0.01, x)
+            );
+    setPoints(points.map((point, i) => (i === index ? [px, y] : point)));
+  };
+
+  const samples = bake_curve(points, 64);
+  const path = Array.from(samples)
+    .map((v, i) => `${i === 0 ? "M" : "L"}${i / 63},${1 - v}`)
+    .join(" ");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1">
+        {CURVE_CHANNELS.map(({ key, label }) => (
+          <Button
+            key={key}
+            size="sm"
+            variant={channel === key ? "secondary" : "text"}
+            className="px-2"
+            onClick={() => setChannel(key)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+        className="aspect-square w-full rounded-md border bg-panel-accent touch-none"
+        style={{ color }}
+        onPointerDown={(event) => {
+          const [x, y] = toCurve(event);
+          const index = points.findIndex(([px]) => px > x);
+          if (index <= 0) return;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          onStart();
+          setPoints([
+            ...points.slice(0, index),
+            [x, y],
+            ...points.slice(index),
+          ]);
+          setDragging(index);
+        }}
+        onPointerMove={(event) => {
+          if (dragging !== null) movePoint(dragging, toCurve(event));
+        }}
+        onPointerUp={() => setDragging(null)}
+      >
+        {[0.25, 0.5, 0.75].map((v) => (
+          <g
+            key={v}
+            className="text-border"
+            stroke="currentColor"
+            strokeWidth={0.004}
+          >
+            <line x1={v} y1={0} x2={v} y2={1} />
+            <line x1={0} y1={v} x2={1} y2={v} />
+          </g>
+        ))}
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={0.012} />
+        {points.map(([x, y], index) => (
+          <circle
+            key={index}
+            cx={x}
+            cy={1 - y}
+            r={0.025}
+            fill="white"
+            stroke="currentColor"
+            strokeWidth={0.008}
+            className="cursor-grab"
+            onPointerDown={(event) => {
+              event.stopPropagation();
+              svgRef.current?.setPointerCapture(event.pointerId);
+              onStart();
+              setDragging(index);
+            }}
+            onDoubleClick={() => {
+              if (index === 0 || index === points.length - 1) return;
+              onStart();
+              setPoints(points.filter((_, i) => i !== index));
+            }}
+          />
+        ))}
+      </svg>
+      <p className="text-xs text-muted-foreground">
+        Click to add a point, drag to move it, double-click to remove it.
+      </p>
+    </div>
+  );
+}
+
+function Hsl({ grade, onStart, onChange }: GradeProps) {
+  const { hsl } = grade;
+  const set = (updates: Partial<HslQualifier>) =>
+    hsl && onChange({ ...grade, hsl: { ...hsl, ...updates } });
+
+  return (
+    <div className="space-y-5">
+      <PropertyItem>
+        <PropertyItemLabel>Qualifier</PropertyItemLabel>
+        <Switch
+          checked={!!hsl}
+          onCheckedChange={(enabled) => {
+            onStart();
+            onChange({
+              ...grade,
+              hsl: enabled ? default_hsl_qualifier() : undefined,
+            });
+          }}
+        />
+      </PropertyItem>
+      {hsl && (
+        <>
+          <PropertyGroup title="Selection">
+            <div className="space-y-4">
+              <div
+                className="h-1.5 rounded-full"
+                style={{
+                  background:
+                    "linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)",
+                }}
+              />
+              <GradeSlider
+                label="Hue"
+                value={hsl.hue}
+                min={0}
+                max={360}
+                step={1}
+                onStart={onStart}
+                onChange={(hue) => set({ hue })}
+              />
+              <GradeSlider
+                label="Hue range"
+                value={hsl.range}
+                min={0}
+                max={360}
+                step={1}
+                onStart={onStart}
+                onChange={(range) => set({ range })}
+              />
+              <GradeSlider
+                label="Saturation min"
+                value={hsl.saturation[0]}
+                min={0}
+                max={1}
+                step={0.01}
+                onStart={onStart}
+                onChange={(v) =>
+                  set({
+                    saturation: [
+                      Math.min(v, hsl.saturation[1]),
+                      hsl.saturation[1],
+                    ],
+                  })
+                }
+              />
+              <GradeSlider
+                label="Saturation max"
+                value={hsl.saturation[1]}
+                min={0}
+                max={1}
+                step={0.01}
+                onStart={onStart}
+                onChange={(v) =>
+                  set({
+                    saturation: [
+                      hsl.saturation[0],
+                      Math.max(v, hsl.saturation[0]),
+                    ],
+                  })
+                }
+              />
+              <GradeSlider
+                label="Luminance min"
+                value={hsl.luminance[0]}
+                min={0}
+                max={1}
+                step={0.01}
+                onStart={onStart}
+                onChange={(v) =>
+                  set({
+                    luminance: [
+                      Math.min(v, hsl.luminance[1]),
+                      hsl.luminance[1],
+                    ],
+                  })
+                }
+              />
+              <GradeSlider
+                label="Luminance max"
+                value={hsl.luminance[1]}
+                min={0}
+                max={1}
+                step={0.01}
+                onStart={onStart}
+                onChange={(v) =>
+                  set({
+                    luminance: [
+                      hsl.luminance[0],
+                      Math.max(v, hsl.luminance[0]),
+                    ],
+                  })
+                }
+              />
+              <GradeSlider
+                label="Softness"
+                value={hsl.softness}
+                min={0}
+                max={1}
+                step={0.01}
+                onStart={onStart}
+                onChange={(softness) => set({ softness })}
+              />
+            </div>
+          </PropertyGroup>
+          <PropertyGroup title="Adjust">
+            <div className="space-y-4">
+              <GradeSlider
+                label="Hue shift"
+                value={hsl.adjust.hue}
+                min={-180}
+                max={180}
+                step={1}
+                onStart={onStart}
+                onChange={(hue) => set({ adjust: { ...hsl.adjust, hue } })}
+              />
+              <GradeSlider
+                label="Saturation"
+                value={hsl.adjust.saturation}
+                min={-1}
+                max={1}
+                step={0.01}
+                onStart={onStart}
+                onChange={(saturation) =>
+                  set({ adjust: { ...hsl.adjust, saturation } })
+                }
+              />
+              <GradeSlider
+                label="Lightness"
+                value={hsl.adjust.lightness}
+                min={-1}
+                max={1}
+                step={0.01}
+                onStart={onStart}
+                onChange={(lightness) =>
+                  set({ adjust: { ...hsl.adjust, lightness } })
+                }
+              />
+            </div>
+          </PropertyGroup>
+        </>
+      )}
+    </div>
+  );
+}
+
+function Lut({ grade, onStart, onChange }: GradeProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { lut } = grade;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parse_cube_lut(
+        await file.text(),
+        file.name.replace(/\.cube$/i, "")
+      );
+      onStart();
+      onChange({ ...grade, lut: parsed });
+      toast.success(`Loaded ${parsed.title} (${parsed.size}³)`);
+    } catch (error) {
+      console.error("LUT import failed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load the LUT"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".cube"
+        className="hidden"
+        onChange={handleImport}
+      />
+      {lut ? (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm truncate">
+              {lut.title}{" "}
+              <span className="text-muted-foreground">({lut.size}³)</span>
+            </span>
+            <Button
+              variant="text"
+              size="icon"
+              title="Remove LUT"
+              onClick={() => {
+                onStart();
+                onChange({ ...grade, lut: undefined });
+              }}
+            >
+              <X className="!size-3.5" />
+            </Button>
+          </div>
+          <GradeSlider
+            label="Intensity"
+            value={lut.intensity}
+            min={0}
+            max={1}
+            step={0.01}
+            onStart={onStart}
+            onChange={(intensity) =>
+              onChange({ ...grade, lut: { ...lut, intensity } })
+            }
+          />
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Load a 3D LUT in the .cube format. It is applied after the wheels,
+          curves and qualifier.
+        </p>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className={cn("w-full", lut && "text-muted-foreground")}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="!size-3.5" />
+        {lut ? "Replace LUT" : "Load .cube LUT"}
+      </Button>
+    </div>
+  );
+}
+
+export function GradeSlider({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onStart,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onStart: () => void;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <PropertyItem direction="column">
+      <PropertyItemLabel>
+        {label} ({Number(value.toFixed(2))})
+      </PropertyItemLabel>
+      <PropertyItemValue>
+        <Slider
+          value={[value]}
+          min={min}
+          max={max}
+          step={step}
+          onPointerDown={onStart}
+          onValueChange={([next]) => onChange(next)}
+        />
+      </PropertyItemValue>
+    </PropertyItem>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { Pipette, RotateCcw } from "lucide-react";
+import { PanelBaseView as BaseView } from "@/components/editor/panel-base-view";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "../../properties-panel/property-item";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import { useEditorStore } from "@/lib/stores/editor-store";
+import {
+  default_chroma_key,
+  default_luma_key,
+} from "@/lib/engine/utils/utils/keyer";
+import type { ColorTriplet, ElementKey, MediaElement } from "@/types/timeline";
+import { GradeSlider } from "./color";
+
+type KeyType = ElementKey["type"] | "none";
+
+const toHex = (color: ColorTriplet) =>
+  `#${color
+    .map((value) =>
+      Math.round(Math.min(1, Math.max(0, value)) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("")}`;
+
+const fromHex = (hex: string): ColorTriplet => [
+  parseInt(hex.slice(1, 3), 16) / 255,
+  parseInt(hex.slice(3, 5), 16) / 255,
+  parseInt(hex.slice(5, 7), 16) / 255,
+];
+
+export function KeyView() {
+  const { tracks, selectedElements, updateElementKey, pushHistory } =
+    useTimelineStore();
+  const { mediaFiles } = useMediaStore();
+  const { matteView, setMatteView, keyColorPick, setKeyColorPick } =
+    useEditorStore();
+
+  // Keys the first selected video or image clip
+  const target = selectedElements
+    .map(({ trackId, elementId }) => ({
+      trackId,
+      element: tracks
+        .find((track) => track.id === trackId)
+        ?.elements.find((element) => element.id === elementId),
+    }))
+    .find(
+      (entry): entry is { trackId: string; element: MediaElement } =>
+        entry.element?.type === "media" &&
+        mediaFiles.some(
+          (file) =>
+            file.id === (entry.element as MediaElement).mediaId &&
+            (file.type === "video" || file.type === "image")
+        )
+    );
+
+  if (!target) {
+    return (
+      <BaseView>
+        <p className="text-sm text-muted-foreground">
+          Select a video or image clip on the timeline to key it
+        </p>
+      </BaseView>
+    );
+  }
+
+  const { trackId, element } = target;
+  const { key } = element;
+  const picking =
+    keyColorPick?.trackId === trackId && keyColorPick.elementId === element.id;
+  const set = (next: ElementKey) =>
+    updateElementKey(trackId, element.id, next, false);
+
+  const setType = (type: KeyType) => {
+    if (type === (key?.type ?? "none")) return;
+    updateElementKey(
+      trackId,
+      element.id,
+      type === "chroma"
+        ? default_chroma_key()
+        : type === "luma"
+          ? default_luma_key()
+          : undefined
+    );
+  };
+
+  return (
+    <BaseView>
+      <div className="space-y-5">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium truncate">{element.name}</span>
+          <div className="flex items-center gap-3 shrink-0">
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              Bypass
+              <Switch
+                checked={!!key?.bypassed}
+                disabled={!key}
+                onCheckedChange={(bypassed) =>
+                  key &&
+                  updateElementKey(trackId, element.id, {
+                    ...key,
+                    bypassed: bypassed || undefined,
+                  })
+                }
+              />
+            </label>
+            <Button
+              variant="text"
+              size="icon"
+              title="Remove key"
+              disabled={!key}
+              onClick={() => updateElementKey(trackId, element.id, undefined)}
+            >
+              <RotateCcw className="!size-3.5" />
+            </Button>
+          </div>
+        </div>
+
+        <PropertyItem>
+          <PropertyItemLabel>Keyer</PropertyItemLabel>
+          <PropertyItemValue>
+            <Select
+              value={key?.type ?? "none"}
+              onValueChange={(value) => setType(value as KeyType)}
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="chroma">Chroma key</SelectItem>
+                <SelectItem value="luma">Luma key</SelectItem>
+              </SelectContent>
+            </Select>
+          </PropertyItemValue>
+        </PropertyItem>
+
+        <PropertyItem>
+          <PropertyItemLabel>Matte view</PropertyItemLabel>
+          <Switch checked={matteView} onCheckedChange={setMatteView} />
+        </PropertyItem>
+
+        {key?.type === "chroma" && (
+          <>
+            <PropertyGroup title="Key color">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="color"
+                  className="h-8 w-12 p-1 cursor-pointer"
+                  value={toHex(key.color)}
+                  onFocus={pushHistory}
+                  onChange={(event) =>
+                    set({ ...key, color: fromHex(event.target.value) })
+                  }
+                />
+                <span className="text-xs font-mono text-muted-foreground flex-1">
+                  {toHex(key.color)}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={cn(picking && "text-primary border-primary")}
+                  onClick={() =>
+                    setKeyColorPick(
+                      picking ? null : { trackId, elementId: element.id }
+                    )
+                  }
+                >
+                  <Pipette className="!size-3.5" />
+                  {picking ? "Click the preview" : "Pick"}
+                </Button>
+              </div>
+            </PropertyGroup>
+            <PropertyGroup title="Matte">
+              <div className="space-y-4">
+                <GradeSlider
+                  label="Tolerance"
+                  value={key.tolerance}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onStart={pushHistory}
+                  onChange={(tolerance) => set({ ...key, tolerance })}
+                />
+                <GradeSlider
+                  label="Edge softness"
+                  value={key.softness}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onStart={pushHistory}
+                  onChange={(softness) => set({ ...key, softness })}
+                />
+                <GradeSlider
+                  label="Spill suppression"
+                  value={key.spill}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onStart={pushHistory}
+                  onChange={(spill) => set({ ...key, spill })}
+                />
+              </div>
+            </PropertyGroup>
+          </>
+        )}
+
+        {key?.type === "luma" && (
+          <PropertyGroup title="Matte">
+            <div className="space-y-4">
+              <GradeSlider
+                label="Threshold"
+                value={key.threshold}
+                min={0}
+                max={1}
+                step={0.01}
+                onStart={pushHistory}
+                onChange={(threshold) => set({ ...key, threshold })}
+              />
+              <GradeSlider
+                label="Edge softness"
+                value={key.softness}
+                min={0}
+                max={1}
+                step={0.01}
+                onStart={pushHistory}
+                onChange={(softness) => set({ ...key, softness })}
+              />
+              <PropertyItem>
+                <PropertyItemLabel>Key out brights</PropertyItemLabel>
+                <Switch
+                  checked={!!key.invert}
+                  onCheckedChange={(invert) =>
+                    updateElementKey(trackId, element.id, {
+                      ...key,
+                      invert: invert || undefined,
+                    })
+                  }
+                />
+              </PropertyItem>
+            </div>
+          </PropertyGroup>
+        )}
+      </div>
+    </BaseView>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { PanelBaseView as BaseView } from "@/components/editor/panel-base-view";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "../../properties-panel/property-item";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import {
+  useProjectStore,
+  DEFAULT_CANVAS_SIZE,
+} from "@/lib/stores/project-store";
+import { useLayoutTemplatesStore } from "@/lib/stores/layout-templates-store";
+import { defaultTransform } from "@/lib/engine/adapters/timeline-adapter";
+import {
+  LAYOUT_TEMPLATES,
+  assignSlots,
+  slotFromElement,
+  type LayoutTemplate,
+  type LayoutTemplateStyle,
+} from "@/lib/layout-templates";
+import type { MediaElement } from "@/types/timeline";
+import { GradeSlider } from "./color";
+
+interface LayoutTarget {
+  trackId: string;
+  trackIndex: number;
+  element: MediaElement;
+  width: number;
+  height: number;
+}
+
+const STYLE_SLIDERS: {
+  property: Exclude<keyof LayoutTemplateStyle, "borderColor">;
+  label: string;
+  max: number;
+}[] = [
+  { property: "gap", label: "Gap", max: 96 },
+  { property: "radius", label: "Corner radius", max: 200 },
+  { property: "borderWidth", label: "Border", max: 32 },
+];
+
+export function LayoutView() {
+  const { tracks, selectedElements, applyLayout, pushHistory } =
+    useTimelineStore();
+  const { mediaFiles } = useMediaStore();
+  const { activeProject } = useProjectStore();
+  const { templates, style, saveTemplate, removeTemplate, setStyle } =
+    useLayoutTemplatesStore();
+  const [name, setName] = useState("");
+  const canvas = activeProject?.canvasSize ?? DEFAULT_CANVAS_SIZE;
+
+  // Selected video and image clips
+  const targets = selectedElements.flatMap(({ trackId, elementId }) => {
+    const trackIndex = tracks.findIndex((track) => track.id === trackId);
+    const element = tracks[trackIndex]?.elements.find(
+      (element) => element.id === elementId
+    );
+    if (element?.type !== "media") return [];
+    const media = mediaFiles.find((file) => file.id === element.mediaId);
+    if (
+      (media?.type !== "video" && media?.type !== "image") ||
+      !media.width ||
+      !media.height
+    ) {
+      return [];
+    }
+    return [
+      {
+        trackId,
+        trackIndex,
+        element,
+        width: media.width,
+        height: media.height,
+      } satisfies LayoutTarget,
+    ];
+  });
+
+  const apply = (template: LayoutTemplate) =>
+    applyLayout(
+      assignSlots(targets, template.slots).map(
+        ({ trackId, element, slot }) => ({
+          trackId,
+          elementId: element.id,
+          slot,
+        })
+      ),
+      style
+    );
+
+  // Style changes apply to the selected clips that are in a layout
+  const restyle = (next: Partial<LayoutTemplateStyle>, history = false) => {
+    setStyle(next);
+    const placed = targets.filter(({ element }) => element.layoutSlot);
+    if (placed.length === 0) return;
+    applyLayout(
+      placed.map(({ trackId, element }) => ({
+        trackId,
+        elementId: element.id,
+        slot: element.layoutSlot!,
+      })),
+      { ...style, ...next },
+      history
+    );
+  };
+
+  const save = () => {
+    saveTemplate({
+      name: name.trim() || `Layout ${templates.length + 1}`,
+      slots: [...targets]
+        .sort((a, b) => b.trackIndex - a.trackIndex)
+        .map(({ element, width, height }) =>
+          slotFromElement(
+            element,
+            element.transform ?? defaultTransform(width, height),
+            { width, height },
+            canvas
+          )
+        ),
+    });
+    setName("");
+  };
+
+  return (
+    <BaseView>
+      <div className="space-y-5">
+        <p className="text-sm text-muted-foreground">
+          {targets.length === 0
+            ? "Select video or image clips on the timeline to arrange them"
+            : `${targets.length} clip${targets.length === 1 ? "" : "s"} selected, lower tracks fill the first slots`}
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          {[...LAYOUT_TEMPLATES, ...templates].map((template) => (
+            <div key={template.id} className="relative">
+              <button
+                type="button"
+                disabled={targets.length === 0}
+                onClick={() => apply(template)}
+                className="w-full space-y-1.5 rounded-md border p-2 text-left hover:bg-accent disabled:opacity-50 disabled:pointer-events-none"
+              >
+                <TemplatePreview
+                  template={template}
+                  aspect={canvas.width / canvas.height}
+                />
+                <span className="block text-xs truncate">{template.name}</span>
+              </button>
+              {!LAYOUT_TEMPLATES.includes(template) && (
+                <Button
+                  variant="text"
+                  size="icon"
+                  title="Remove layout"
+                  className="absolute top-1 right-1"
+                  onClick={() => removeTemplate(template.id)}
+                >
+                  <Trash2 className="!size-3.5" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <PropertyGroup title="Style">
+          <div className="space-y-4">
+            {STYLE_SLIDERS.map(({ property, label, max }) => (
+              <GradeSlider
+                key={property}
+                label={label}
+                value={style[property]}
+                min={0}
+                max={max}
+                step={1}
+                onStart={() => pushHistory()}
+                onChange={(value) => restyle({ [property]: value })}
+              />
+            ))}
+            <PropertyItem>
+              <PropertyItemLabel>Border color</PropertyItemLabel>
+              <PropertyItemValue className="flex-none">
+                <input
+                  type="color"
+                  value={style.borderColor}
+                  onFocus={() => pushHistory()}
+                  onChange={(e) => restyle({ borderColor: e.target.value })}
+                  className="h-7 w-10 cursor-pointer rounded-sm bg-transparent"
+                />
+              </PropertyItemValue>
+            </PropertyItem>
+          </div>
+        </PropertyGroup>
+
+        <PropertyGroup title="Save layout">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="h-8 text-xs bg-panel-accent"
+            />
+            <Button size="sm" disabled={targets.length === 0} onClick={save}>
+              Save
+            </Button>
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Saves where the selected clips are now
+          </p>
+        </PropertyGroup>
+      </div>
+    </BaseView>
+  );
+}
+
+function TemplatePreview({
+  template,
+  aspect,
+}: {
+  template: LayoutTemplate;
+  aspect: number;
+}) {
+  return (
+    <div
+      className="relative w-full overflow-hidden rounded-sm bg-muted"
+      style={{ aspectRatio: aspect }}
+    >
+      {template.slots.map((slot, index) => (
+        <div
+          key={index}
+          className="absolute rounded-[2px] border border-background bg-primary/40"
+          style={{
+            left: `${slot.x * 100}%`,
+            top: `${slot.y * 100}%`,
+            width: `${slot.width * 100}%`,
+            height: `${slot.height * 100}%`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
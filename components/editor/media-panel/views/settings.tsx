@@ -24,7 +24,8 @@ import { cn } from "@/lib/utils";
 import { colors } from "@/data/colors/solid";
 import { patternCraftGradients } from "@/data/colors/pattern-craft";
 import { PipetteIcon, PlusIcon } from "lucide-react";
-import { useMemo, memo, useCallback } from "react";
+import { useMemo, memo, useCallback, useState } from "react";
+import type { ReframeMode } from "@/lib/reframe";
 import { syntaxUIGradients } from "@/data/colors/syntax-ui";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -84,13 +85,15 @@ function ProjectInfoView() {
     useProjectStore();
   const { canvasPresets } = useEditorStore();
   const { getDisplayName } = useAspectRatio();
+  const [reframe, setReframe] = useState<ReframeMode>("off");
 
   const handleAspectRatioChange = (value: string) => {
     const preset = canvasPresets.find((p) => p.name === value);
     if (preset) {
       updateCanvasSize(
         { width: preset.width, height: preset.height },
-        "preset"
+        "preset",
+        reframe
       );
     }
   };
@@ -130,6 +133,25 @@ function ProjectInfoView() {
         </PropertyItemValue>
       </PropertyItem>
 
+      <PropertyItem direction="column">
+        <PropertyItemLabel>Reframe clips on change</PropertyItemLabel>
+        <PropertyItemValue>
+          <Select
+            value={reframe}
+            onValueChange={(value) => setReframe(value as ReframeMode)}
+          >
+            <SelectTrigger className="bg-panel-accent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              <SelectItem value="center">Fill, centered</SelectItem>
+              <SelectItem value="subject">Fill, follow subject</SelectItem>
+            </SelectContent>
+          </Select>
+        </PropertyItemValue>
+      </PropertyItem>
+
       <PropertyItem direction="column">
         <PropertyItemLabel>Frame rate</PropertyItemLabel>
         <PropertyItemValue>
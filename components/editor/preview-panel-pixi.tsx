@@ -78,7 +78,7 @@ export function PreviewPanel() {
   useEffect(() => {
     try {
       const mediaFilesMap = new Map(mediaFiles.map(m => [m.id, m]));
-      const effects = tracksToEffects(tracks, mediaFilesMap);
+      const { effects } = tracksToEffects(tracks, mediaFilesMap);
       
       // Update engine state with new effects
       const currentEffects = engine.getEffects();
@@ -99,6 +99,8 @@ export function PreviewPanel() {
             engine.actions.historical.add_image_effect(effect, { omit: true });
           } else if (effect.kind === 'text') {
             engine.actions.historical.add_text_effect(effect, { omit: true });
+          } else if (effect.kind === 'adjustment') {
+            engine.actions.historical.add_adjustment_effect(effect);
           }
         }
       }
@@ -13,9 +13,19 @@ import { useMediaStore } from "@/lib/stores/media-store";
 import { usePlaybackStore } from "@/lib/stores/playback-store";
 import { useProjectStore, DEFAULT_CANVAS_SIZE } from "@/lib/stores/project-store";
 import { useSceneStore } from "@/lib/stores/scene-store";
+import { usePanelStore } from "@/lib/stores/panel-store";
 import { useEngine, useEngineState } from "@/components/providers/engine-provider";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, Expand, SkipBack, SkipForward } from "lucide-react";
+import {
+  Play,
+  Pause,
+  Expand,
+  SkipBack,
+  SkipForward,
+  Activity,
+  Contrast,
+  Unlink,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { formatTimeCode } from "@/lib/time";
 import { EditableTimecode } from "@/components/ui/editable-timecode";
@@ -24,9 +34,33 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "../ui/label";
 import { SocialsIcon } from "../icons";
-import { PLATFORM_LAYOUTS, type PlatformLayout } from "@/lib/stores/editor-store";
-import { tracksToEffects, syncMediaToEngine } from "@/lib/engine/adapters";
-import { TextElement, TimelineElement, TimelineTrack } from "@/types/timeline";
+import {
+  PLATFORM_LAYOUTS,
+  useEditorStore,
+  type PlatformLayout,
+} from "@/lib/stores/editor-store";
+import {
+  tracksToEffects,
+  tracksToXTracks,
+  rectToTransform,
+  syncMediaToEngine,
+} from "@/lib/engine/adapters";
+import {
+  ColorTriplet,
+  TextElement,
+  TimelineElement,
+  TimelineTrack,
+} from "@/types/timeline";
+import {
+  effect_props_changed,
+  without_effect_props,
+} from "@/lib/engine/utils/utils/effect-props";
+import {
+  MASK_ANIMATED_PROPERTIES,
+  mask_keyframe_property,
+} from "@/lib/engine/utils/utils/effect-mask";
+import { getKeyframeTime } from "./properties-panel/keyframe-toggle";
+import { useOfflineMedia } from "@/lib/hooks/use-offline-media";
 
 export function PreviewPanel() {
   const { tracks, getTotalDuration, updateTextElement } = useTimelineStore();
@@ -35,8 +69,8 @@ export function PreviewPanel() {
   const { currentScene } = useSceneStore();
   const engine = useEngine();
   
-  // ENGINE IS THE SINGLE SOURCE OF TRUTH - subscribe directly to engine state
-  // Following Omniclip pattern: UI reads from engine.state directly
+  // Playback is driven by the engine, subscribe directly to engine state.
+  // The timeline document lives in useTimelineStore and is synced into the engine below
   const engineState = useEngineState((state) => ({
     timecode: state.timecode,
     isPlaying: state.is_playing,
@@ -108,7 +142,8 @@ export function PreviewPanel() {
     const syncEffects = async () => {
       try {
         const mediaFilesMap = new Map(mediaFiles.map(m => [m.id, m]));
-        const { effects, pendingMediaIds } = tracksToEffects(tracks, mediaFilesMap);
+        const { effects, filters, transitions, pendingMediaIds } =
+          tracksToEffects(tracks, mediaFilesMap);
         
         if (!isMounted) return;
         
@@ -130,13 +165,57 @@ export function PreviewPanel() {
         
         if (!isMounted) return;
         
+        // Track volume, pan, mute and solo only change the mix, so they are
+        // synced separately and don't force the compositor to recreate
+        const engineTracks = tracksToXTracks(tracks);
+        if (
+          JSON.stringify(engineTracks) !==
+          JSON.stringify(engine.getState().tracks)
+        ) {
+          engine.actions.historical.set_tracks(engineTracks);
+        }
+
         // Update engine state with new effects
-        const currentEffects = engine.getEffects();
-        
-        // Only update if effects have changed
-        const effectsChanged = JSON.stringify(effects) !== JSON.stringify(currentEffects);
+        const currentState = engine.getState();
+        const currentEffects = currentState.effects;
         
-        if (effectsChanged && effects.length > 0) {
+        // Only update if effects, filters or transitions have changed.
+        // Effect props are compared on their own, like filters they are
+        // applied to the existing objects
+        const effectsChanged =
+          JSON.stringify({
+            effects: effects.map(without_effect_props),
+            transitions,
+          }) !==
+          JSON.stringify({
+            effects: currentEffects.map(without_effect_props),
+            transitions: currentState.transitions,
+          });
+        const filtersChanged =
+          JSON.stringify(filters) !== JSON.stringify(currentState.filters);
+        const propChanges = effectsChanged
+          ? []
+          : effects.filter((effect, i) =>
+              effect_props_changed(effect, currentEffects[i])
+            );
+
+        if (
+          !effectsChanged &&
+          (filtersChanged || propChanges.length > 0) &&
+          effects.length > 0
+        ) {
+          // Filter and prop edits rebuild the chains in place, recreating
+          // every object would restart video decoding on each slider step
+          engine.actions.historical.set_filters(filters);
+          for (const effect of propChanges) {
+            engine.actions.historical.apply_effect_props(effect);
+          }
+          const compositor = engine.controllers.compositor;
+          const state = engine.getState();
+          compositor.managers.filtersManager.restoreFilters(state);
+          compositor.update_canvas_objects(state);
+          compositor.compose_effects(state.effects, state.timecode);
+        } else if ((effectsChanged || filtersChanged) && effects.length > 0) {
           const compositor = engine.controllers.compositor;
           const media = engine.controllers.media;
           
@@ -170,8 +249,12 @@ export function PreviewPanel() {
               engine.actions.historical.add_image_effect(effect);
             } else if (effect.kind === 'text') {
               engine.actions.historical.add_text_effect(effect);
+            } else if (effect.kind === 'adjustment') {
+              engine.actions.historical.add_adjustment_effect(effect);
             }
           }
+          engine.actions.historical.set_filters(filters);
+          engine.actions.historical.set_transitions(transitions);
           
           // Recreate compositor objects from state (critical for video playback)
           // This mirrors omniclip's #recreate_project_from_localstorage_state
@@ -185,6 +268,7 @@ export function PreviewPanel() {
         } else if (effects.length === 0 && currentEffects.length > 0) {
           // Clear all effects
           engine.actions.historical.remove_all_effects();
+          engine.actions.historical.set_filters([]);
           try {
             engine.controllers.compositor.clear();
           } catch (e) {
@@ -206,6 +290,86 @@ export function PreviewPanel() {
     };
   }, [tracks, mediaFiles, engine]);
 
+  // Canvas drags edit the engine directly, write them back to the timeline so
+  // they are part of the document and its undo history
+  useEffect(() => {
+    if (!engine) return;
+    return engine.controllers.compositor.on_canvas_transform((effect) => {
+      const { tracks, updateElementTransform } = useTimelineStore.getState();
+      const track = tracks.find((t) =>
+        t.elements.some((element) => element.id === effect.id)
+      );
+      if (track) {
+        updateElementTransform(track.id, effect.id, rectToTransform(effect.rect));
+      }
+    });
+  }, [engine]);
+
+  const { matteView, maskEdit } = useEditorStore();
+  useEffect(() => {
+    if (!engine) return;
+    engine.controllers.compositor.managers.filtersManager.set_matte_view(
+      matteView
+    );
+  }, [engine, matteView]);
+
+  // Mask handles live on the PIXI canvas, which otherwise lets pointer
+  // events through to the overlays above it
+  useEffect(() => {
+    if (!engine) return;
+    const compositor = engine.controllers.compositor;
+    compositor.managers.maskManager.edit(
+      maskEdit?.elementId ?? null,
+      maskEdit?.maskId
+    );
+    const view = compositor.app.view as HTMLCanvasElement;
+    view.style.pointerEvents = maskEdit ? "auto" : "";
+    return () => {
+      view.style.pointerEvents = "";
+    };
+  }, [engine, maskEdit]);
+
+  // Mask handle drags edit the engine directly, write them back like
+  // canvas transforms. Animated values get a keyframe at the playhead
+  useEffect(() => {
+    if (!engine) return;
+    return engine.controllers.compositor.managers.maskManager.on_change(
+      (effect) => {
+        const { tracks, updateElementMasks, addKeyframe } =
+          useTimelineStore.getState();
+        const { currentTime } = usePlaybackStore.getState();
+        const track = tracks.find((t) =>
+          t.elements.some((element) => element.id === effect.id)
+        );
+        const element = track?.elements.find((e) => e.id === effect.id);
+        if (!track || !element || element.type === "adjustment") return;
+        const masks = effect.masks ?? [];
+        updateElementMasks(track.id, element.id, masks);
+        for (const mask of masks) {
+          const before = element.masks?.find((m) => m.id === mask.id);
+          for (const property of MASK_ANIMATED_PROPERTIES) {
+            const keyframeProperty = mask_keyframe_property(mask.id, property);
+            const keyframes = element.keyframes?.[keyframeProperty];
+            if (!keyframes?.length || before?.[property] === mask[property]) {
+              continue;
+            }
+            addKeyframe(
+              track.id,
+              element.id,
+              keyframeProperty,
+              {
+                time: getKeyframeTime(element, currentTime),
+                value: mask[property],
+                interpolation: "linear",
+              },
+              false
+            );
+          }
+        }
+      }
+    );
+  }, [engine]);
+
   // Mount PIXI canvas and set up playback loop - ONCE only
   // This effect should run only ONCE when the component mounts and engine is ready
   useEffect(() => {
@@ -415,6 +579,8 @@ export function PreviewPanel() {
               style={{ pointerEvents: 'none' }}
             />
             <LayoutGuideOverlay />
+            <OfflineMediaOverlay />
+            <KeyColorPickOverlay />
           </div>
         </div>
         <div className="p-4 bg-background">
@@ -472,6 +638,8 @@ export function PreviewPanel() {
               style={{ pointerEvents: 'none' }}
             />
             <LayoutGuideOverlay />
+            <OfflineMediaOverlay />
+            <KeyColorPickOverlay />
           </div>
         ) : null}
         <div className="flex-1" />
@@ -536,6 +704,8 @@ function PreviewToolbar({
   isPlaying,
 }: PreviewToolbarProps) {
   const duration = getTotalDuration();
+  const { showScopes, setShowScopes } = usePanelStore();
+  const { matteView, setMatteView } = useEditorStore();
 
   return (
     <div className="flex items-center justify-between gap-2 w-full px-3 py-2" data-toolbar>
@@ -581,15 +751,160 @@ function PreviewToolbar({
         />
       </div>
 
-      <Button
-        variant="text"
-        size="icon"
-        onClick={onToggleExpanded}
-        aria-label="Toggle fullscreen"
-      >
-        <Expand className="h-4 w-4" />
-      </Button>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="text"
+          size="icon"
+          onClick={() => setMatteView(!matteView)}
+          aria-label="Toggle matte view"
+          title="Matte view"
+          className={cn(matteView && "text-primary")}
+        >
+          <Contrast className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="text"
+          size="icon"
+          onClick={() => setShowScopes(!showScopes)}
+          aria-label="Toggle scopes"
+          className={cn(showScopes && "text-primary")}
+        >
+          <Activity className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="text"
+          size="icon"
+          onClick={onToggleExpanded}
+          aria-label="Toggle fullscreen"
+        >
+          <Expand className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Stands in for the clips at the playhead whose media is offline, the engine
+ * leaves them out until the media is relinked
+ */
+function OfflineMediaOverlay() {
+  const offline = useOfflineMedia();
+  const { tracks } = useTimelineStore();
+  const { currentTime } = usePlaybackStore();
+  const { setRelinkMediaOpen } = useEditorStore();
+
+  const offlineIds = new Set(offline.map((media) => media.id));
+  const names = tracks
+    .flatMap((track) => track.elements)
+    .filter(
+      (element) =>
+        element.type === "media" &&
+        offlineIds.has(element.mediaId) &&
+        !element.hidden &&
+        currentTime >= element.startTime &&
+        currentTime <
+          element.startTime +
+            element.duration -
+            element.trimStart -
+            element.trimEnd
+    )
+    .map((element) => element.name);
+
+  if (names.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+      <div className="flex max-w-[80%] flex-col items-center gap-2 rounded-md border border-dashed border-destructive bg-black/70 p-4 text-center text-white pointer-events-auto">
+        <Unlink className="h-5 w-5 text-destructive" />
+        <div className="text-sm font-medium">Media offline</div>
+        <div className="text-xs text-white/70 break-all">
+          {names.join(", ")}
+        </div>
+        <Button size="sm" onClick={() => setRelinkMediaOpen(true)}>
+          Relink
+        </Button>
+      </div>
     </div>
   );
 }
 
+// Averaged square around the clicked pixel, so noise doesn't decide the key
+const KEY_COLOR_SAMPLE_SIZE = 5;
+
+/**
+ * Covers the preview while a key color is picked. The color is read from the
+ * element's own source, without its key or grade, since that is what the key
+ * compares against
+ */
+function KeyColorPickOverlay() {
+  const engine = useEngine();
+  const { keyColorPick, setKeyColorPick } = useEditorStore();
+
+  useEffect(() => {
+    if (!keyColorPick) return;
+    const handleEscapeKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setKeyColorPick(null);
+    };
+    document.addEventListener("keydown", handleEscapeKey);
+    return () => document.removeEventListener("keydown", handleEscapeKey);
+  }, [keyColorPick, setKeyColorPick]);
+
+  if (!keyColorPick) return null;
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bounds.width);
+    canvas.height = Math.round(bounds.height);
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return;
+    const { trackId, elementId } = keyColorPick;
+    if (!engine.controllers.compositor.draw_effect_source(elementId, ctx)) {
+      setKeyColorPick(null);
+      return;
+    }
+
+    const half = Math.floor(KEY_COLOR_SAMPLE_SIZE / 2);
+    const x = Math.round(event.clientX - bounds.left) - half;
+    const y = Math.round(event.clientY - bounds.top) - half;
+    const { data } = ctx.getImageData(
+      Math.max(0, x),
+      Math.max(0, y),
+      KEY_COLOR_SAMPLE_SIZE,
+      KEY_COLOR_SAMPLE_SIZE
+    );
+    // Weighted by alpha, the sample may reach past the element's edge
+    const sum = [0, 0, 0];
+    let coverage = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3];
+      sum[0] += data[i] * alpha;
+      sum[1] += data[i + 1] * alpha;
+      sum[2] += data[i + 2] * alpha;
+      coverage += alpha;
+    }
+    if (coverage === 0) {
+      setKeyColorPick(null);
+      return;
+    }
+    const color = sum.map((value) => value / coverage / 255) as ColorTriplet;
+
+    const { tracks, updateElementKey } = useTimelineStore.getState();
+    const element = tracks
+      .find((track) => track.id === trackId)
+      ?.elements.find((element) => element.id === elementId);
+    if (element?.type === "media" && element.key?.type === "chroma") {
+      updateElementKey(trackId, elementId, { ...element.key, color });
+    }
+    setKeyColorPick(null);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 cursor-crosshair"
+      title="Click to pick the key color, Escape to cancel"
+      onClick={handleClick}
+    />
+  );
+}
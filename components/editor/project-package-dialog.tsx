@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { exportProjectPackage } from "@/lib/storage/project-package";
+import { downloadBlob } from "@/lib/utils";
+
+export function ExportPackageDialog({
+  isOpen,
+  onOpenChange,
+}: {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { activeProject, saveCurrentProject } = useProjectStore();
+  const [bundleMedia, setBundleMedia] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!activeProject) return;
+    setIsExporting(true);
+    try {
+      await saveCurrentProject();
+      const { blob, fileName } = await exportProjectPackage({
+        projectId: activeProject.id,
+        bundleMedia,
+      });
+      downloadBlob(blob, fileName);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to export project package:", error);
+      toast.error("Failed to export project package");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export project package</DialogTitle>
+          <DialogDescription>
+            Saves every scene, timeline and saved sound to an .alphax file that
+            opens in AlphaX on any browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="bundle-media">Include media files</Label>
+            <p className="text-xs text-muted-foreground">
+              Without them the package stays small and the media is relinked
+              after import.
+            </p>
+          </div>
+          <Switch
+            id="bundle-media"
+            checked={bundleMedia}
+            onCheckedChange={setBundleMedia}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={isExporting} onClick={handleExport}>
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
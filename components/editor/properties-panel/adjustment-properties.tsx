@@ -0,0 +1,35 @@
+import { AdjustmentElement } from "@/types/timeline";
+import { AnimatedProperties, AnimatedPropertyConfig } from "./media-properties";
+import { FilterProperties } from "./filter-properties";
+
+// The adjusted copy is drawn over the tracks beneath, so opacity is the
+// strength of the whole adjustment
+const ADJUSTMENT_ANIMATED_PROPERTIES: AnimatedPropertyConfig[] = [
+  {
+    property: "opacity",
+    label: "Opacity",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    defaultValue: 1,
+  },
+];
+
+export function AdjustmentProperties({
+  element,
+  trackId,
+}: {
+  element: AdjustmentElement;
+  trackId: string;
+}) {
+  return (
+    <div className="space-y-4 p-5">
+      <AnimatedProperties
+        element={element}
+        trackId={trackId}
+        properties={ADJUSTMENT_ANIMATED_PROPERTIES}
+      />
+      <FilterProperties element={element} trackId={trackId} />
+    </div>
+  );
+}
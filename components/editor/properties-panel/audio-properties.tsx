@@ -1,5 +1,27 @@
 import { MediaElement } from "@/types/timeline";
+import {
+  AnimatedProperties,
+  AUDIO_ANIMATED_PROPERTIES,
+} from "./media-properties";
+import { SpeedProperties } from "./speed-properties";
+import { MixProperties } from "./mix-properties";
 
-export function AudioProperties({ element }: { element: MediaElement }) {
-  return <div className="space-y-4 p-5">Audio properties</div>;
+export function AudioProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement;
+  trackId: string;
+}) {
+  return (
+    <div className="space-y-4 p-5">
+      <MixProperties element={element} trackId={trackId} />
+      <AnimatedProperties
+        element={element}
+        trackId={trackId}
+        properties={AUDIO_ANIMATED_PROPERTIES}
+      />
+      <SpeedProperties element={element} trackId={trackId} />
+    </div>
+  );
 }
@@ -0,0 +1,124 @@
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { BLEND_MODES } from "@/lib/engine/utils/utils/blend-mode";
+import type { BlendMode, MediaElement, TextElement } from "@/types/timeline";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+import {
+  KeyframeToggle,
+  getAnimatedValue,
+  useAnimatableProperty,
+} from "./keyframe-toggle";
+
+// "color-dodge" → "Color dodge"
+const blendModeLabel = (mode: BlendMode) =>
+  mode.charAt(0).toUpperCase() + mode.slice(1).replace("-", " ");
+
+export function BlendModeSelect({
+  element,
+  trackId,
+}: {
+  element: MediaElement | TextElement;
+  trackId: string;
+}) {
+  const { updateElementBlend } = useTimelineStore();
+
+  return (
+    <PropertyItem>
+      <PropertyItemLabel>Blend mode</PropertyItemLabel>
+      <PropertyItemValue className="flex-none w-32">
+        <Select
+          value={element.blendMode ?? "normal"}
+          onValueChange={(blendMode) =>
+            updateElementBlend(trackId, element.id, {
+              blendMode: blendMode as BlendMode,
+            })
+          }
+        >
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BLEND_MODES.map((mode) => (
+              <SelectItem key={mode} value={mode}>
+                {blendModeLabel(mode)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </PropertyItemValue>
+    </PropertyItem>
+  );
+}
+
+export function BlendProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement;
+  trackId: string;
+}) {
+  const { updateElementBlend, pushHistory } = useTimelineStore();
+  const { currentTime } = usePlaybackStore();
+  const setAnimatable = useAnimatableProperty(element, trackId);
+  const opacity = getAnimatedValue(
+    element,
+    "opacity",
+    currentTime,
+    element.opacity ?? 1
+  );
+
+  return (
+    <PropertyGroup title="Compositing">
+      <div className="space-y-4">
+        <PropertyItem direction="column">
+          <PropertyItemLabel>Opacity</PropertyItemLabel>
+          <PropertyItemValue>
+            <div className="flex items-center gap-2">
+              <Slider
+                value={[opacity]}
+                min={0}
+                max={1}
+                step={0.01}
+                onPointerDown={() => pushHistory()}
+                onValueChange={([next]) =>
+                  setAnimatable("opacity", next, () =>
+                    updateElementBlend(
+                      trackId,
+                      element.id,
+                      { opacity: next },
+                      false
+                    )
+                  )
+                }
+                className="w-full"
+              />
+              <span className="w-10 text-xs text-right tabular-nums">
+                {Math.round(opacity * 100)}%
+              </span>
+              <KeyframeToggle
+                element={element}
+                trackId={trackId}
+                property="opacity"
+                value={opacity}
+              />
+            </div>
+          </PropertyItemValue>
+        </PropertyItem>
+        <BlendModeSelect element={element} trackId={trackId} />
+      </div>
+    </PropertyGroup>
+  );
+}
@@ -0,0 +1,159 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ColorPicker } from "@/components/ui/color-picker";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { CAPTION_STYLE_PRESETS } from "@/lib/text-constants";
+import { uppercase } from "@/lib/utils";
+import type { CaptionStyle, TextElement } from "@/types/timeline";
+import {
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+
+export function CaptionProperties({
+  element,
+  trackId,
+  containerRef,
+}: {
+  element: TextElement;
+  trackId: string;
+  containerRef: React.RefObject<HTMLDivElement>;
+}) {
+  const { updateTextElement } = useTimelineStore();
+  const style = element.captionStyle;
+
+  const updateStyle = (updates: Partial<CaptionStyle>) => {
+    if (!style) return;
+    updateTextElement(trackId, element.id, {
+      captionStyle: { ...style, ...updates },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <PropertyItem direction="column">
+        <PropertyItemLabel>Preset</PropertyItemLabel>
+        <PropertyItemValue>
+          <div className="grid grid-cols-2 gap-1.5">
+            {CAPTION_STYLE_PRESETS.map((preset) => (
+              <Button
+                key={preset.id}
+                size="sm"
+                variant={
+                  style?.animation === preset.style.animation
+                    ? "default"
+                    : "outline"
+                }
+                className="h-7 text-xs"
+                onClick={() =>
+                  updateTextElement(trackId, element.id, {
+                    captionStyle: preset.style,
+                  })
+                }
+              >
+                {preset.label}
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              variant={style ? "outline" : "default"}
+              className="h-7 text-xs"
+              onClick={() =>
+                updateTextElement(trackId, element.id, {
+                  captionStyle: undefined,
+                })
+              }
+            >
+              Static
+            </Button>
+          </div>
+        </PropertyItemValue>
+      </PropertyItem>
+
+      {style && (
+        <>
+          <PropertyItem direction="column">
+            <PropertyItemLabel>Highlight color</PropertyItemLabel>
+            <PropertyItemValue>
+              <ColorPicker
+                value={uppercase(style.highlightColor.replace("#", ""))}
+                onChange={(color) =>
+                  updateStyle({ highlightColor: `#${color}` })
+                }
+                containerRef={containerRef}
+              />
+            </PropertyItemValue>
+          </PropertyItem>
+
+          {style.animation === "highlight" && (
+            <PropertyItem direction="column">
+              <PropertyItemLabel>Word background</PropertyItemLabel>
+              <PropertyItemValue>
+                <div className="flex items-center gap-2">
+                  <ColorPicker
+                    value={uppercase(
+                      (style.highlightBackground ?? "#000000").replace("#", "")
+                    )}
+                    onChange={(color) =>
+                      updateStyle({ highlightBackground: `#${color}` })
+                    }
+                    containerRef={containerRef}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    disabled={!style.highlightBackground}
+                    onClick={() =>
+                      updateStyle({ highlightBackground: undefined })
+                    }
+                  >
+                    None
+                  </Button>
+                </div>
+              </PropertyItemValue>
+            </PropertyItem>
+          )}
+
+          {(style.animation === "karaoke" ||
+            style.animation === "color-change") && (
+            <PropertyItem direction="column">
+              <PropertyItemLabel>
+                Upcoming words ({Math.round(style.upcomingOpacity * 100)}%)
+              </PropertyItemLabel>
+              <PropertyItemValue>
+                <Slider
+                  value={[style.upcomingOpacity]}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  onValueChange={([value]) =>
+                    updateStyle({ upcomingOpacity: value })
+                  }
+                />
+              </PropertyItemValue>
+            </PropertyItem>
+          )}
+
+          {style.animation === "pop-in" && (
+            <PropertyItem direction="column">
+              <PropertyItemLabel>
+                Pop scale ({style.popScale.toFixed(2)}x)
+              </PropertyItemLabel>
+              <PropertyItemValue>
+                <Slider
+                  value={[style.popScale]}
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  onValueChange={([value]) => updateStyle({ popScale: value })}
+                />
+              </PropertyItemValue>
+            </PropertyItem>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
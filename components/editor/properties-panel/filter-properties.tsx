@@ -0,0 +1,357 @@
+import {
+  ChevronDown,
+  ChevronUp,
+  Eye,
+  EyeOff,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import {
+  FilterSchemas,
+  get_filter_defaults,
+  set_filter_param,
+  type FilterParams,
+  type FilterParamValue,
+  type FilterPropertyConfig,
+  type FilterType,
+} from "@/lib/engine/controllers/controllers/compositor/parts/filter-manager";
+import type {
+  AdjustmentElement,
+  ElementFilter,
+  MediaElement,
+} from "@/types/timeline";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+
+const FILTER_TYPES = Object.keys(FilterSchemas) as FilterType[];
+
+// "BlurFilter" → "Blur", "innerStrength" → "Inner strength"
+const humanize = (name: string) => {
+  const words = name
+    .replace(/Filter$/, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export function FilterProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement | AdjustmentElement;
+  trackId: string;
+}) {
+  const { addElementFilter } = useTimelineStore();
+  const filters = element.filters ?? [];
+
+  return (
+    <PropertyGroup title="Filters">
+      <div className="space-y-4">
+        {filters.map((filter, index) => (
+          <FilterChainItem
+            key={filter.id}
+            element={element}
+            trackId={trackId}
+            filter={filter}
+            index={index}
+            count={filters.length}
+          />
+        ))}
+        <Select
+          value=""
+          onValueChange={(type) =>
+            addElementFilter(trackId, element.id, {
+              type,
+              params: get_filter_defaults(type as FilterType),
+            })
+          }
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <Plus className="size-3" />
+            <SelectValue placeholder="Add filter" />
+          </SelectTrigger>
+          <SelectContent>
+            {FILTER_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {humanize(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </PropertyGroup>
+  );
+}
+
+function FilterChainItem({
+  element,
+  trackId,
+  filter,
+  index,
+  count,
+}: {
+  element: MediaElement | AdjustmentElement;
+  trackId: string;
+  filter: ElementFilter;
+  index: number;
+  count: number;
+}) {
+  const {
+    updateElementFilter,
+    removeElementFilter,
+    moveElementFilter,
+    pushHistory,
+  } = useTimelineStore();
+  const schema = FilterSchemas[filter.type as FilterType] ?? {};
+  const params = filter.params as FilterParams;
+
+  const setParam = (path: string[], value: FilterParamValue) =>
+    updateElementFilter(
+      trackId,
+      element.id,
+      filter.id,
+      { params: set_filter_param(params, path, value) },
+      false
+    );
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span
+          className={cn(
+            "text-xs font-medium truncate",
+            filter.bypassed && "text-muted-foreground line-through"
+          )}
+        >
+          {humanize(filter.type)}
+        </span>
+        <div className="flex shrink-0">
+          <Button
+            variant="text"
+            size="icon"
+            title={filter.bypassed ? "Enable" : "Bypass"}
+            onClick={() =>
+              updateElementFilter(trackId, element.id, filter.id, {
+                bypassed: !filter.bypassed,
+              })
+            }
+          >
+            {filter.bypassed ? (
+              <EyeOff className="!size-3.5" />
+            ) : (
+              <Eye className="!size-3.5" />
+            )}
+          </Button>
+          <Button
+            variant="text"
+            size="icon"
+            title="Move up"
+            disabled={index === 0}
+            onClick={() =>
+              moveElementFilter(trackId, element.id, filter.id, index - 1)
+            }
+          >
+            <ChevronUp className="!size-3.5" />
+          </Button>
+          <Button
+            variant="text"
+            size="icon"
+            title="Move down"
+            disabled={index === count - 1}
+            onClick={() =>
+              moveElementFilter(trackId, element.id, filter.id, index + 1)
+            }
+          >
+            <ChevronDown className="!size-3.5" />
+          </Button>
+          <Button
+            variant="text"
+            size="icon"
+            title="Remove"
+            onClick={() => removeElementFilter(trackId, element.id, filter.id)}
+          >
+            <Trash2 className="!size-3.5" />
+          </Button>
+        </div>
+      </div>
+      {!filter.bypassed &&
+        Object.entries(schema).map(([key, config]) => (
+          <FilterParamControl
+            key={key}
+            label={humanize(key)}
+            config={config}
+            value={params[key]}
+            path={[key]}
+            onStart={pushHistory}
+            onChange={setParam}
+          />
+        ))}
+    </div>
+  );
+}
+
+function FilterParamControl({
+  label,
+  config,
+  value,
+  path,
+  onStart,
+  onChange,
+}: {
+  label: string;
+  config: FilterPropertyConfig;
+  value: FilterParamValue | undefined;
+  path: string[];
+  onStart: () => void;
+  onChange: (path: string[], value: FilterParamValue) => void;
+}) {
+  switch (config.type) {
+    case "number": {
+      const number = typeof value === "number" ? value : config.default;
+      const step = config.max - config.min <= 10 ? 0.01 : 1;
+      return (
+        <PropertyItem direction="column">
+          <PropertyItemLabel>
+            {label} ({Number(number.toFixed(2))})
+          </PropertyItemLabel>
+          <PropertyItemValue>
+            <Slider
+              value={[number]}
+              min={config.min}
+              max={config.max}
+              step={step}
+              onPointerDown={onStart}
+              onValueChange={([next]) => onChange(path, next)}
+              onDoubleClick={() => {
+                onStart();
+                onChange(path, config.default);
+              }}
+            />
+          </PropertyItemValue>
+        </PropertyItem>
+      );
+    }
+    case "boolean":
+      return (
+        <PropertyItem>
+          <PropertyItemLabel>{label}</PropertyItemLabel>
+          <Switch
+            checked={typeof value === "boolean" ? value : config.default}
+            onCheckedChange={(checked) => {
+              onStart();
+              onChange(path, checked);
+            }}
+          />
+        </PropertyItem>
+      );
+    case "color": {
+      const color = typeof value === "string" ? value : config.default;
+      return (
+        <PropertyItem>
+          <PropertyItemLabel>{label}</PropertyItemLabel>
+          <input
+            type="color"
+            className="h-6 w-10 cursor-pointer bg-transparent"
+            value={`#${color.replace("#", "")}`}
+            onFocus={onStart}
+            onChange={(e) => onChange(path, e.target.value)}
+          />
+        </PropertyItem>
+      );
+    }
+    case "choice": {
+      const options = Array.isArray(config.options)
+        ? config.options.map(String)
+        : Object.keys(config.options);
+      return (
+        <PropertyItem>
+          <PropertyItemLabel>{label}</PropertyItemLabel>
+          <Select
+            value={String(value ?? config.default)}
+            onValueChange={(next) => {
+              onStart();
+              onChange(path, next);
+            }}
+          >
+            <SelectTrigger className="h-7 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {humanize(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </PropertyItem>
+      );
+    }
+    case "object": {
+      const record =
+        value && typeof value === "object" && !Array.isArray(value)
+          ? value
+          : {};
+      return (
+        <>
+          {Object.entries(config.properties).map(([key, property]) => (
+            <FilterParamControl
+              key={key}
+              label={`${label} ${key}`}
+              config={property}
+              value={record[key]}
+              path={[...path, key]}
+              onStart={onStart}
+              onChange={onChange}
+            />
+          ))}
+        </>
+      );
+    }
+    case "array": {
+      const items = Array.isArray(value) ? value : [];
+      return (
+        <>
+          {config.items.map((item, i) => (
+            <FilterParamControl
+              key={i}
+              label={`${label} ${i + 1}`}
+              config={item}
+              value={items[i]}
+              path={path}
+              onStart={onStart}
+              // Arrays are stored whole, so an item edit replaces the array
+              onChange={(_, itemValue) =>
+                onChange(
+                  path,
+                  config.items.map((itemConfig, j) =>
+                    j === i ? itemValue : (items[j] ?? default_item(itemConfig))
+                  )
+                )
+              }
+            />
+          ))}
+        </>
+      );
+    }
+  }
+}
+
+const default_item = (config: FilterPropertyConfig) =>
+  "default" in config ? config.default : 0;
@@ -3,6 +3,7 @@
 import { useMediaStore } from "@/lib/stores/media-store";
 import { useTimelineStore } from "@/lib/stores/timeline-store";
 import { ScrollArea } from "../../ui/scroll-area";
+import { AdjustmentProperties } from "./adjustment-properties";
 import { AudioProperties } from "./audio-properties";
 import { MediaProperties } from "./media-properties";
 import { TextProperties } from "./text-properties";
@@ -27,18 +28,31 @@ export function PropertiesPanel() {
                 </div>
               );
             }
+            if (element?.type === "adjustment") {
+              return (
+                <div key={elementId}>
+                  <AdjustmentProperties element={element} trackId={trackId} />
+                </div>
+              );
+            }
             if (element?.type === "media") {
               const mediaFile = mediaFiles.find(
                 (file) => file.id === element.mediaId
               );
 
               if (mediaFile?.type === "audio") {
-                return <AudioProperties key={elementId} element={element} />;
+                return (
+                  <AudioProperties
+                    key={elementId}
+                    element={element}
+                    trackId={trackId}
+                  />
+                );
               }
 
               return (
                 <div key={elementId}>
-                  <MediaProperties element={element} />
+                  <MediaProperties element={element} trackId={trackId} />
                 </div>
               );
             }
@@ -0,0 +1,113 @@
+"use client";
+
+import { Diamond } from "lucide-react";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { cn } from "@/lib/utils";
+import { interpolate_keyframes } from "@/lib/engine/controllers/controllers/compositor/utils/interpolate_keyframes";
+import type { KeyframeProperty, TimelineElement } from "@/types/timeline";
+
+const KEYFRAME_TIME_EPSILON = 1 / 1000;
+
+/**
+ * Playhead position in keyframe time (seconds from the untrimmed element start)
+ */
+export function getKeyframeTime(element: TimelineElement, currentTime: number) {
+  return currentTime - element.startTime + element.trimStart;
+}
+
+/**
+ * Value of a property at the playhead, evaluated the same way the compositor does
+ */
+export function getAnimatedValue(
+  element: TimelineElement,
+  property: KeyframeProperty,
+  currentTime: number,
+  fallback: number
+) {
+  return (
+    interpolate_keyframes(
+      element.keyframes?.[property],
+      getKeyframeTime(element, currentTime)
+    ) ?? fallback
+  );
+}
+
+/**
+ * Returns a setter that writes a keyframe at the playhead when the property
+ * is already animated, and otherwise falls back to a static update.
+ */
+export function useAnimatableProperty(
+  element: TimelineElement,
+  trackId: string
+) {
+  const { addKeyframe } = useTimelineStore();
+  const { currentTime } = usePlaybackStore();
+
+  return (property: KeyframeProperty, value: number, setStatic: () => void) => {
+    const keyframes = element.keyframes?.[property];
+    if (!keyframes || keyframes.length === 0) {
+      setStatic();
+      return;
+    }
+    const time = getKeyframeTime(element, currentTime);
+    const existing = keyframes.find(
+      (k) => Math.abs(k.time - time) <= KEYFRAME_TIME_EPSILON
+    );
+    addKeyframe(trackId, element.id, property, {
+      time,
+      value,
+      interpolation: existing?.interpolation ?? "linear",
+      handles: existing?.handles,
+    });
+  };
+}
+
+interface KeyframeToggleProps {
+  element: TimelineElement;
+  trackId: string;
+  property: KeyframeProperty;
+  value: number;
+}
+
+export function KeyframeToggle({
+  element,
+  trackId,
+  property,
+  value,
+}: KeyframeToggleProps) {
+  const { addKeyframe, removeKeyframe } = useTimelineStore();
+  const { currentTime } = usePlaybackStore();
+
+  const time = getKeyframeTime(element, currentTime);
+  const keyframes = element.keyframes?.[property] ?? [];
+  const current = keyframes.find(
+    (k) => Math.abs(k.time - time) <= KEYFRAME_TIME_EPSILON
+  );
+
+  const handleClick = () => {
+    if (current) {
+      removeKeyframe(trackId, element.id, property, current.id);
+    } else {
+      addKeyframe(trackId, element.id, property, {
+        time,
+        value,
+        interpolation: "linear",
+      });
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      title={current ? "Remove keyframe" : "Add keyframe at playhead"}
+      className={cn(
+        "shrink-0 p-1 rounded-sm hover:bg-panel-accent",
+        keyframes.length > 0 ? "text-primary" : "text-muted-foreground"
+      )}
+    >
+      <Diamond className={cn("size-3", current && "fill-current")} />
+    </button>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect } from "react";
+import { Plus, SquareDashedMousePointer, Trash2 } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn, generateUUID } from "@/lib/utils";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { useEditorStore } from "@/lib/stores/editor-store";
+import {
+  default_mask,
+  mask_keyframe_property,
+  type MaskAnimatedProperty,
+} from "@/lib/engine/utils/utils/effect-mask";
+import type {
+  ElementMask,
+  ElementTrackMatte,
+  MediaElement,
+  TextElement,
+} from "@/types/timeline";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+import {
+  KeyframeToggle,
+  getAnimatedValue,
+  useAnimatableProperty,
+} from "./keyframe-toggle";
+
+const MASK_SHAPES: { shape: ElementMask["shape"]; label: string }[] = [
+  { shape: "rectangle", label: "Rectangle" },
+  { shape: "ellipse", label: "Ellipse" },
+  { shape: "bezier", label: "Bezier" },
+];
+
+const MASK_PROPERTIES: {
+  property: MaskAnimatedProperty;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { property: "x", label: "X", min: -1, max: 2, step: 0.01 },
+  { property: "y", label: "Y", min: -1, max: 2, step: 0.01 },
+  { property: "width", label: "Width", min: 0.01, max: 2, step: 0.01 },
+  { property: "height", label: "Height", min: 0.01, max: 2, step: 0.01 },
+  { property: "feather", label: "Feather", min: 0, max: 200, step: 1 },
+];
+
+type MatteType = ElementTrackMatte["type"] | "none";
+
+export function MaskProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement | TextElement;
+  trackId: string;
+}) {
+  const { updateElementMasks, updateElementTrackMatte } = useTimelineStore();
+  const { maskEdit, setMaskEdit } = useEditorStore();
+  const masks = element.masks ?? [];
+  const { trackMatte } = element;
+
+  // Handles belong to the selected element, drop them with the panel
+  useEffect(
+    () => () => {
+      const { maskEdit, setMaskEdit } = useEditorStore.getState();
+      if (maskEdit?.elementId === element.id) setMaskEdit(null);
+    },
+    [element.id]
+  );
+
+  const addMask = (shape: ElementMask["shape"]) => {
+    const mask = default_mask(generateUUID(), shape);
+    updateElementMasks(trackId, element.id, [...masks, mask]);
+    setMaskEdit({ trackId, elementId: element.id, maskId: mask.id });
+  };
+
+  return (
+    <PropertyGroup title="Masks">
+      <div className="space-y-4">
+        {masks.map((mask, index) => (
+          <MaskItem
+            key={mask.id}
+            element={element}
+            trackId={trackId}
+            mask={mask}
+            index={index}
+            editing={maskEdit?.maskId === mask.id}
+            onEdit={(editing) =>
+              setMaskEdit(
+                editing
+                  ? { trackId, elementId: element.id, maskId: mask.id }
+                  : null
+              )
+            }
+          />
+        ))}
+        <Select
+          value=""
+          onValueChange={(shape) => addMask(shape as ElementMask["shape"])}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <Plus className="size-3" />
+            <SelectValue placeholder="Add mask" />
+          </SelectTrigger>
+          <SelectContent>
+            {MASK_SHAPES.map(({ shape, label }) => (
+              <SelectItem key={shape} value={shape}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <PropertyItem>
+          <PropertyItemLabel>Track matte</PropertyItemLabel>
+          <PropertyItemValue className="flex-none w-28">
+            <Select
+              value={trackMatte?.type ?? "none"}
+              onValueChange={(value) =>
+                updateElementTrackMatte(
+                  trackId,
+                  element.id,
+                  value === "none"
+                    ? undefined
+                    : {
+                        ...trackMatte,
+                        type: value as ElementTrackMatte["type"],
+                      }
+                )
+              }
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(["none", "alpha", "luma"] as MatteType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type === "none"
+                      ? "None"
+                      : type === "alpha"
+                        ? "Alpha (track above)"
+                        : "Luma (track above)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </PropertyItemValue>
+        </PropertyItem>
+        {trackMatte && (
+          <PropertyItem>
+            <PropertyItemLabel>Invert matte</PropertyItemLabel>
+            <Switch
+              checked={!!trackMatte.invert}
+              onCheckedChange={(invert) =>
+                updateElementTrackMatte(trackId, element.id, {
+                  ...trackMatte,
+                  invert: invert || undefined,
+                })
+              }
+            />
+          </PropertyItem>
+        )}
+      </div>
+    </PropertyGroup>
+  );
+}
+
+function MaskItem({
+  element,
+  trackId,
+  mask,
+  index,
+  editing,
+  onEdit,
+}: {
+  element: MediaElement | TextElement;
+  trackId: string;
+  mask: ElementMask;
+  index: number;
+  editing: boolean;
+  onEdit: (editing: boolean) => void;
+}) {
+  const { updateElementMasks, pushHistory } = useTimelineStore();
+  const { currentTime } = usePlaybackStore();
+  const setAnimatable = useAnimatableProperty(element, trackId);
+  const masks = element.masks ?? [];
+  const label = MASK_SHAPES.find(({ shape }) => shape === mask.shape)?.label;
+
+  const update = (updates: Partial<ElementMask>, history = true) =>
+    updateElementMasks(
+      trackId,
+      element.id,
+      masks.map((m) => (m.id === mask.id ? { ...m, ...updates } : m)),
+      history
+    );
+
+  const remove = () => {
+    if (editing) onEdit(false);
+    updateElementMasks(
+      trackId,
+      element.id,
+      masks.filter((m) => m.id !== mask.id)
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium truncate">
+          {label} {index + 1}
+        </span>
+        <div className="flex items-center gap-2 shrink-0">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Invert
+            <Switch
+              checked={!!mask.invert}
+              onCheckedChange={(invert) =>
+                update({ invert: invert || undefined })
+              }
+            />
+          </label>
+          <Button
+            variant="text"
+            size="icon"
+            title={editing ? "Hide handles" : "Edit on canvas"}
+            className={cn(editing && "text-primary")}
+            onClick={() => onEdit(!editing)}
+          >
+            <SquareDashedMousePointer className="!size-3.5" />
+          </Button>
+          <Button variant="text" size="icon" title="Remove" onClick={remove}>
+            <Trash2 className="!size-3.5" />
+          </Button>
+        </div>
+      </div>
+      {MASK_PROPERTIES.map(({ property, label, min, max, step }) => {
+        const keyframeProperty = mask_keyframe_property(mask.id, property);
+        const value = getAnimatedValue(
+          element,
+          keyframeProperty,
+          currentTime,
+          mask[property]
+        );
+        return (
+          <PropertyItem key={property} direction="column">
+            <PropertyItemLabel>{label}</PropertyItemLabel>
+            <PropertyItemValue>
+              <div className="flex items-center gap-2">
+                <Slider
+                  value={[value]}
+                  min={min}
+                  max={max}
+                  step={step}
+                  onPointerDown={() => pushHistory()}
+                  onValueChange={([next]) =>
+                    setAnimatable(keyframeProperty, next, () =>
+                      update({ [property]: next }, false)
+                    )
+                  }
+                  className="w-full"
+                />
+                <span className="w-10 text-xs text-right tabular-nums">
+                  {Number(value.toFixed(2))}
+                </span>
+                <KeyframeToggle
+                  element={element}
+                  trackId={trackId}
+                  property={keyframeProperty}
+                  value={value}
+                />
+              </div>
+            </PropertyItemValue>
+          </PropertyItem>
+        );
+      })}
+    </div>
+  );
+}
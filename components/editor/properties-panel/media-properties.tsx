@@ -1,5 +1,140 @@
-import { MediaElement } from "@/types/timeline";
+import {
+  AdjustmentElement,
+  MediaElement,
+  KeyframeProperty,
+} from "@/types/timeline";
+import { Slider } from "@/components/ui/slider";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+import {
+  KeyframeToggle,
+  getAnimatedValue,
+  getKeyframeTime,
+} from "./keyframe-toggle";
+import { SpeedProperties } from "./speed-properties";
+import { MixProperties } from "./mix-properties";
+import { FilterProperties } from "./filter-properties";
+import { MaskProperties } from "./mask-properties";
+import { BlendProperties } from "./blend-properties";
+import { TransformProperties } from "./transform-properties";
 
-export function MediaProperties({ element }: { element: MediaElement }) {
-  return <div className="space-y-4 p-5">Media properties</div>;
+export interface AnimatedPropertyConfig {
+  property: KeyframeProperty;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+}
+
+export const AUDIO_ANIMATED_PROPERTIES: AnimatedPropertyConfig[] = [
+  {
+    property: "volume",
+    label: "Volume",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    defaultValue: 1,
+  },
+];
+
+export function MediaProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement;
+  trackId: string;
+}) {
+  const { mediaFiles } = useMediaStore();
+  const mediaType = mediaFiles.find(
+    (file) => file.id === element.mediaId
+  )?.type;
+
+  return (
+    <div className="space-y-4 p-5">
+      {(mediaType === "video" || mediaType === "image") && (
+        <TransformProperties element={element} trackId={trackId} />
+      )}
+      {mediaType === "video" && (
+        <>
+          <MixProperties element={element} trackId={trackId} />
+          <SpeedProperties element={element} trackId={trackId} />
+        </>
+      )}
+      {(mediaType === "video" || mediaType === "image") && (
+        <>
+          <BlendProperties element={element} trackId={trackId} />
+          <FilterProperties element={element} trackId={trackId} />
+          <MaskProperties element={element} trackId={trackId} />
+        </>
+      )}
+    </div>
+  );
+}
+
+export function AnimatedProperties({
+  element,
+  trackId,
+  properties,
+}: {
+  element: MediaElement | AdjustmentElement;
+  trackId: string;
+  properties: AnimatedPropertyConfig[];
+}) {
+  const { addKeyframe } = useTimelineStore();
+  const { currentTime } = usePlaybackStore();
+
+  return (
+    <PropertyGroup title="Keyframes">
+      <div className="space-y-4">
+        {properties.map(({ property, label, min, max, step, defaultValue }) => {
+          const value = getAnimatedValue(
+            element,
+            property,
+            currentTime,
+            defaultValue
+          );
+          return (
+            <PropertyItem key={property} direction="column">
+              <PropertyItemLabel>{label}</PropertyItemLabel>
+              <PropertyItemValue>
+                <div className="flex items-center gap-2">
+                  <Slider
+                    value={[value]}
+                    min={min}
+                    max={max}
+                    step={step}
+                    onValueChange={([next]) =>
+                      addKeyframe(trackId, element.id, property, {
+                        time: getKeyframeTime(element, currentTime),
+                        value: next,
+                        interpolation: "linear",
+                      })
+                    }
+                    className="w-full"
+                  />
+                  <span className="w-10 text-xs text-right tabular-nums">
+                    {Number(value.toFixed(2))}
+                  </span>
+                  <KeyframeToggle
+                    element={element}
+                    trackId={trackId}
+                    property={property}
+                    value={value}
+                  />
+                </div>
+              </PropertyItemValue>
+            </PropertyItem>
+          );
+        })}
+      </div>
+    </PropertyGroup>
+  );
 }
@@ -0,0 +1,85 @@
+import { Slider } from "@/components/ui/slider";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { formatGain } from "@/lib/audio-mix";
+import { MAX_GAIN } from "@/lib/engine/utils/utils/effect-audio";
+import type { MediaElement } from "@/types/timeline";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+
+// Longest fade offered by the sliders, the timeline handles go up to the clip length
+const MAX_FADE_SLIDER = 10;
+
+export function MixProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement;
+  trackId: string;
+}) {
+  const { updateElementAudio, pushHistory } = useTimelineStore();
+  const gain = element.gain ?? 1;
+  const fadeIn = element.fadeIn ?? 0;
+  const fadeOut = element.fadeOut ?? 0;
+  const maxFade = Math.min(
+    MAX_FADE_SLIDER,
+    element.duration - element.trimStart - element.trimEnd
+  );
+
+  const fades: { key: "fadeIn" | "fadeOut"; label: string; value: number }[] = [
+    { key: "fadeIn", label: "Fade in", value: fadeIn },
+    { key: "fadeOut", label: "Fade out", value: fadeOut },
+  ];
+
+  return (
+    <PropertyGroup title="Mix">
+      <div className="space-y-4">
+        <PropertyItem direction="column">
+          <PropertyItemLabel>Gain ({formatGain(gain)})</PropertyItemLabel>
+          <PropertyItemValue>
+            <Slider
+              value={[gain]}
+              min={0}
+              max={MAX_GAIN}
+              step={0.01}
+              onPointerDown={() => pushHistory()}
+              onValueChange={([value]) =>
+                updateElementAudio(trackId, element.id, { gain: value }, false)
+              }
+              onDoubleClick={() =>
+                updateElementAudio(trackId, element.id, { gain: 1 })
+              }
+            />
+          </PropertyItemValue>
+        </PropertyItem>
+        {fades.map(({ key, label, value }) => (
+          <PropertyItem key={key} direction="column">
+            <PropertyItemLabel>
+              {label} ({value.toFixed(2)}s)
+            </PropertyItemLabel>
+            <PropertyItemValue>
+              <Slider
+                value={[value]}
+                min={0}
+                max={maxFade}
+                step={0.05}
+                onPointerDown={() => pushHistory()}
+                onValueChange={([next]) =>
+                  updateElementAudio(
+                    trackId,
+                    element.id,
+                    { [key]: next },
+                    false
+                  )
+                }
+              />
+            </PropertyItemValue>
+          </PropertyItem>
+        ))}
+      </div>
+    </PropertyGroup>
+  );
+}
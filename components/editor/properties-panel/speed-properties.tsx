@@ -0,0 +1,144 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { generateUUID } from "@/lib/utils";
+import { getElementSourceTime } from "@/lib/timeline";
+import type { ElementKeyframe, MediaElement } from "@/types/timeline";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+
+const SPEED_PRESETS = [0.25, 0.5, 1, 2, 4];
+
+// Speed ramps as [position 0-1 along the clip, speed] pairs
+const SPEED_RAMPS: { id: string; label: string; points: [number, number][] }[] =
+  [
+    {
+      id: "ramp-up",
+      label: "Ramp up",
+      points: [
+        [0, 0.5],
+        [1, 2],
+      ],
+    },
+    {
+      id: "ramp-down",
+      label: "Ramp down",
+      points: [
+        [0, 2],
+        [1, 0.5],
+      ],
+    },
+    {
+      id: "slow-middle",
+      label: "Slow middle",
+      points: [
+        [0, 2],
+        [0.4, 0.3],
+        [0.6, 0.3],
+        [1, 2],
+      ],
+    },
+  ];
+
+function buildRampCurve(
+  element: MediaElement,
+  points: [number, number][]
+): ElementKeyframe[] {
+  // Spread the ramp over the clip's current length at its new average speed
+  const sourceDuration = getElementSourceTime(element, element.duration);
+  const averageSpeed =
+    points.reduce((sum, [, speed]) => sum + speed, 0) / points.length;
+  const length = sourceDuration / averageSpeed;
+
+  return points.map(([position, speed]) => ({
+    id: generateUUID(),
+    time: position * length,
+    value: speed,
+    interpolation: "bezier",
+  }));
+}
+
+export function SpeedProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement;
+  trackId: string;
+}) {
+  const { updateElementSpeed } = useTimelineStore();
+  const speed = element.speed ?? 1;
+  const hasCurve = !!element.speedCurve && element.speedCurve.length > 0;
+
+  return (
+    <PropertyGroup title="Speed">
+      <div className="space-y-4">
+        <div className="flex gap-1.5">
+          {SPEED_PRESETS.map((preset) => (
+            <Button
+              key={preset}
+              size="sm"
+              variant={!hasCurve && speed === preset ? "default" : "outline"}
+              className="flex-1 h-7 px-0 text-xs"
+              onClick={() => updateElementSpeed(trackId, element.id, preset)}
+            >
+              {preset}x
+            </Button>
+          ))}
+        </div>
+        <PropertyItem direction="column">
+          <PropertyItemLabel>Custom ({speed.toFixed(2)}x)</PropertyItemLabel>
+          <PropertyItemValue>
+            <Slider
+              value={[speed]}
+              min={0.1}
+              max={4}
+              step={0.05}
+              disabled={hasCurve}
+              onValueChange={([value]) =>
+                updateElementSpeed(trackId, element.id, value)
+              }
+            />
+          </PropertyItemValue>
+        </PropertyItem>
+        <PropertyItem direction="column">
+          <PropertyItemLabel>Speed ramp</PropertyItemLabel>
+          <PropertyItemValue>
+            <div className="grid grid-cols-2 gap-1.5">
+              {SPEED_RAMPS.map((ramp) => (
+                <Button
+                  key={ramp.id}
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  onClick={() =>
+                    updateElementSpeed(
+                      trackId,
+                      element.id,
+                      speed,
+                      buildRampCurve(element, ramp.points)
+                    )
+                  }
+                >
+                  {ramp.label}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs"
+                disabled={!hasCurve}
+                onClick={() => updateElementSpeed(trackId, element.id, speed)}
+              >
+                Remove ramp
+              </Button>
+            </div>
+          </PropertyItemValue>
+        </PropertyItem>
+      </div>
+    </PropertyGroup>
+  );
+}
@@ -19,6 +19,15 @@ import {
   PropertyItemValue,
 } from "./property-item";
 import { ColorPicker } from "@/components/ui/color-picker";
+import { CaptionProperties } from "./caption-properties";
+import { MaskProperties } from "./mask-properties";
+import { BlendModeSelect } from "./blend-properties";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import {
+  KeyframeToggle,
+  getAnimatedValue,
+  useAnimatableProperty,
+} from "./keyframe-toggle";
 import { cn, uppercase } from "@/lib/utils";
 import { Grid2x2 } from "lucide-react";
 import {
@@ -36,6 +45,19 @@ export function TextProperties({
 }) {
   const { updateTextElement } = useTimelineStore();
   const { activeTab, setActiveTab } = useTextPropertiesStore();
+  const { currentTime } = usePlaybackStore();
+  const setAnimatable = useAnimatableProperty(element, trackId);
+  const animated = {
+    x: getAnimatedValue(element, "x", currentTime, element.x),
+    y: getAnimatedValue(element, "y", currentTime, element.y),
+    rotation: getAnimatedValue(
+      element,
+      "rotation",
+      currentTime,
+      element.rotation
+    ),
+    opacity: getAnimatedValue(element, "opacity", currentTime, element.opacity),
+  };
   const containerRef = useRef<HTMLDivElement>(null);
   // Local state for input values to allow temporary empty/invalid states
   const [fontSizeInput, setFontSizeInput] = useState(
@@ -48,6 +70,11 @@ export function TextProperties({
   // Track the last selected color for toggling
   const lastSelectedColor = useRef("#000000");
 
+  const isCaption = !!element.words && element.words.length > 0;
+  const tabs = TEXT_PROPERTIES_TABS.filter(
+    (t) => t.value !== "caption" || isCaption
+  );
+
   const parseAndValidateNumber = (
     value: string,
     min: number,
@@ -87,9 +114,9 @@ export function TextProperties({
         value,
         0,
         100,
-        Math.round(element.opacity * 100)
+        Math.round(animated.opacity * 100)
       );
-      updateTextElement(trackId, element.id, { opacity: opacityPercent / 100 });
+      setOpacity(opacityPercent / 100);
     }
   };
 
@@ -98,12 +125,22 @@ export function TextProperties({
       opacityInput,
       0,
       100,
-      Math.round(element.opacity * 100)
+      Math.round(animated.opacity * 100)
     );
     setOpacityInput(opacityPercent.toString());
-    updateTextElement(trackId, element.id, { opacity: opacityPercent / 100 });
+    setOpacity(opacityPercent / 100);
   };
 
+  const setOpacity = (opacity: number) =>
+    setAnimatable("opacity", opacity, () =>
+      updateTextElement(trackId, element.id, { opacity })
+    );
+
+  const setTransform = (property: "x" | "y" | "rotation", value: number) =>
+    setAnimatable(property, value, () =>
+      updateTextElement(trackId, element.id, { [property]: value })
+    );
+
   // Update last selected color when a new color is picked
   const handleColorChange = (color: string) => {
     if (color !== "transparent") {
@@ -121,17 +158,58 @@ export function TextProperties({
   return (
     <PanelBaseView
       defaultTab="transform"
-      value={activeTab}
+      value={activeTab === "caption" && !isCaption ? "transform" : activeTab}
       onValueChange={(v) => {
         if (isTextPropertiesTab(v)) setActiveTab(v);
       }}
       ref={containerRef}
-      tabs={TEXT_PROPERTIES_TABS.map((t) => ({
+      tabs={tabs.map((t) => ({
         value: t.value,
         label: t.label,
         content:
-          t.value === "transform" ? (
-            <div className="space-y-6"></div>
+          t.value === "caption" ? (
+            <CaptionProperties
+              element={element}
+              trackId={trackId}
+              containerRef={containerRef}
+            />
+          ) : t.value === "transform" ? (
+            <div className="space-y-6">
+              {(
+                [
+                  { property: "x", label: "Position X" },
+                  { property: "y", label: "Position Y" },
+                  { property: "rotation", label: "Rotation" },
+                ] as const
+              ).map(({ property, label }) => (
+                <PropertyItem key={property} direction="column">
+                  <PropertyItemLabel>{label}</PropertyItemLabel>
+                  <PropertyItemValue>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        value={Math.round(animated[property])}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (!isNaN(value)) setTransform(property, value);
+                        }}
+                        className="h-7 !text-xs rounded-sm bg-panel-accent
+               [appearance:textfield]
+               [&::-webkit-outer-spin-button]:appearance-none
+               [&::-webkit-inner-spin-button]:appearance-none"
+                      />
+                      <KeyframeToggle
+                        element={element}
+                        trackId={trackId}
+                        property={property}
+                        value={animated[property]}
+                      />
+                    </div>
+                  </PropertyItemValue>
+                </PropertyItem>
+              ))}
+              <MaskProperties element={element} trackId={trackId} />
+            </div>
           ) : (
             <div className="space-y-6">
               <Textarea
@@ -287,14 +365,12 @@ export function TextProperties({
                 <PropertyItemValue>
                   <div className="flex items-center gap-2">
                     <Slider
-                      value={[element.opacity * 100]}
+                      value={[animated.opacity * 100]}
                       min={0}
                       max={100}
                       step={1}
                       onValueChange={([value]) => {
-                        updateTextElement(trackId, element.id, {
-                          opacity: value / 100,
-                        });
+                        setOpacity(value / 100);
                         setOpacityInput(value.toString());
                       }}
                       className="w-full"
@@ -311,9 +387,16 @@ export function TextProperties({
                [&::-webkit-outer-spin-button]:appearance-none
                [&::-webkit-inner-spin-button]:appearance-none"
                     />
+                    <KeyframeToggle
+                      element={element}
+                      trackId={trackId}
+                      property="opacity"
+                      value={animated.opacity}
+                    />
                   </div>
                 </PropertyItemValue>
               </PropertyItem>
+              <BlendModeSelect element={element} trackId={trackId} />
               <PropertyItem direction="column">
                 <PropertyItemLabel>Background</PropertyItemLabel>
                 <PropertyItemValue>
@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { FlipHorizontal2, FlipVertical2, Link, Unlink } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import {
+  useProjectStore,
+  DEFAULT_CANVAS_SIZE,
+} from "@/lib/stores/project-store";
+import { defaultTransform } from "@/lib/engine/adapters/timeline-adapter";
+import { crop_frame, fit_scale } from "@/lib/engine/utils/utils/media-layout";
+import type {
+  ElementCrop,
+  ElementTransform,
+  FitMode,
+  MediaElement,
+} from "@/types/timeline";
+import {
+  PropertyGroup,
+  PropertyItem,
+  PropertyItemLabel,
+  PropertyItemValue,
+} from "./property-item";
+import {
+  KeyframeToggle,
+  getAnimatedValue,
+  useAnimatableProperty,
+} from "./keyframe-toggle";
+
+type AnimatedTransformProperty = "x" | "y" | "scaleX" | "scaleY" | "rotation";
+
+const FIT_MODES: { mode: FitMode | "free"; label: string }[] = [
+  { mode: "free", label: "Free" },
+  { mode: "fit", label: "Fit" },
+  { mode: "fill", label: "Fill" },
+  { mode: "stretch", label: "Stretch" },
+];
+
+const CROP_EDGES: { edge: keyof ElementCrop; label: string }[] = [
+  { edge: "left", label: "Left" },
+  { edge: "right", label: "Right" },
+  { edge: "top", label: "Top" },
+  { edge: "bottom", label: "Bottom" },
+];
+
+// Anchor presets as fractions of the cropped frame, row by row
+const ANCHORS = [0, 0.5, 1].flatMap((y) => [0, 0.5, 1].map((x) => ({ x, y })));
+
+const numberInputClassName = `h-7 !text-xs rounded-sm bg-panel-accent
+  [appearance:textfield]
+  [&::-webkit-outer-spin-button]:appearance-none
+  [&::-webkit-inner-spin-button]:appearance-none`;
+
+export function TransformProperties({
+  element,
+  trackId,
+}: {
+  element: MediaElement;
+  trackId: string;
+}) {
+  const { updateElementTransform, updateElementLayout } = useTimelineStore();
+  const { currentTime } = usePlaybackStore();
+  const { mediaFiles } = useMediaStore();
+  const { activeProject } = useProjectStore();
+  const setAnimatable = useAnimatableProperty(element, trackId);
+  const [linked, setLinked] = useState(true);
+
+  const media = mediaFiles.find((file) => file.id === element.mediaId);
+  const width = media?.width ?? 1920;
+  const height = media?.height ?? 1080;
+  const canvas = activeProject?.canvasSize ?? DEFAULT_CANVAS_SIZE;
+  const transform = element.transform ?? defaultTransform(width, height);
+  const frame = crop_frame(width, height, element.crop);
+  const animated = {
+    x: getAnimatedValue(element, "x", currentTime, transform.x),
+    y: getAnimatedValue(element, "y", currentTime, transform.y),
+    scaleX: getAnimatedValue(element, "scaleX", currentTime, transform.scaleX),
+    scaleY: getAnimatedValue(element, "scaleY", currentTime, transform.scaleY),
+    rotation: getAnimatedValue(
+      element,
+      "rotation",
+      currentTime,
+      transform.rotation
+    ),
+  };
+
+  // Animated properties get a keyframe at the playhead, the rest are
+  // written to the static transform together
+  const setTransform = (values: Partial<ElementTransform>) => {
+    const fixed: Partial<ElementTransform> = {};
+    for (const [property, value] of Object.entries(values) as [
+      keyof ElementTransform,
+      number,
+    ][]) {
+      if (property === "pivotX" || property === "pivotY") {
+        fixed[property] = value;
+      } else {
+        setAnimatable(property, value, () => (fixed[property] = value));
+      }
+    }
+    if (Object.keys(fixed).length > 0) {
+      updateElementTransform(trackId, element.id, { ...transform, ...fixed });
+    }
+  };
+
+  const setScale = (axis: "scaleX" | "scaleY", value: number) => {
+    const other = axis === "scaleX" ? "scaleY" : "scaleX";
+    const ratio = animated[axis] === 0 ? 1 : value / animated[axis];
+    setTransform(
+      linked
+        ? { [axis]: value, [other]: animated[other] * ratio }
+        : { [axis]: value }
+    );
+  };
+
+  // Moves the pivot without moving the picture, the position makes up for
+  // the pivot shift under the current scale, flips and rotation
+  const setAnchor = (anchor: { x: number; y: number }) => {
+    const pivotX = frame.x + anchor.x * frame.width;
+    const pivotY = frame.y + anchor.y * frame.height;
+    const scale = element.fit
+      ? fit_scale(element.fit, frame.width, frame.height, canvas)
+      : { x: animated.scaleX, y: animated.scaleY };
+    const dx = (pivotX - transform.pivotX) * scale.x * (element.flipX ? -1 : 1);
+    const dy = (pivotY - transform.pivotY) * scale.y * (element.flipY ? -1 : 1);
+    const angle = (animated.rotation * Math.PI) / 180;
+    setTransform({
+      pivotX,
+      pivotY,
+      x: animated.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: animated.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+    });
+  };
+
+  const setCrop = (edge: keyof ElementCrop, value: number) => {
+    const crop = {
+      left: 0,
+      right: 0,
+      top: 0,
+      bottom: 0,
+      ...element.crop,
+      [edge]: Math.max(0, value),
+    };
+    const cropped = Object.values(crop).some((side) => side > 0);
+    updateElementLayout(trackId, element.id, {
+      crop: cropped ? crop : undefined,
+    });
+  };
+
+  return (
+    <PropertyGroup title="Transform">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <TransformField
+            element={element}
+            trackId={trackId}
+            property="x"
+            label="Position X"
+            value={animated.x}
+            onChange={(x) => setTransform({ x })}
+          />
+          <TransformField
+            element={element}
+            trackId={trackId}
+            property="y"
+            label="Position Y"
+            value={animated.y}
+            onChange={(y) => setTransform({ y })}
+          />
+          <TransformField
+            element={element}
+            trackId={trackId}
+            property="scaleX"
+            label="Scale X"
+            value={animated.scaleX}
+            step={0.01}
+            disabled={!!element.fit}
+            onChange={(value) => setScale("scaleX", value)}
+          />
+          <TransformField
+            element={element}
+            trackId={trackId}
+            property="scaleY"
+            label="Scale Y"
+            value={animated.scaleY}
+            step={0.01}
+            disabled={!!element.fit}
+            onChange={(value) => setScale("scaleY", value)}
+          />
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="flex-1">
+            <TransformField
+              element={element}
+              trackId={trackId}
+              property="rotation"
+              label="Rotation"
+              value={animated.rotation}
+              onChange={(rotation) => setTransform({ rotation })}
+            />
+          </div>
+          <Button
+            variant="text"
+            size="icon"
+            title={linked ? "Unlink scale" : "Link scale"}
+            className={cn(linked && "text-primary")}
+            onClick={() => setLinked(!linked)}
+          >
+            {linked ? (
+              <Link className="!size-3.5" />
+            ) : (
+              <Unlink className="!size-3.5" />
+            )}
+          </Button>
+        </div>
+
+        <PropertyItem>
+          <PropertyItemLabel>Anchor</PropertyItemLabel>
+          <div className="grid grid-cols-3 gap-1">
+            {ANCHORS.map((anchor) => {
+              const active =
+                Math.abs(frame.x + anchor.x * frame.width - transform.pivotX) <
+                  0.5 &&
+                Math.abs(frame.y + anchor.y * frame.height - transform.pivotY) <
+                  0.5;
+              return (
+                <button
+                  key={`${anchor.x}-${anchor.y}`}
+                  type="button"
+                  title={`Anchor ${anchor.x * 100}% ${anchor.y * 100}%`}
+                  className={cn(
+                    "size-4 rounded-sm border bg-panel-accent",
+                    active && "bg-primary border-primary"
+                  )}
+                  onClick={() => setAnchor(anchor)}
+                />
+              );
+            })}
+          </div>
+        </PropertyItem>
+
+        <PropertyItem>
+          <PropertyItemLabel>Size</PropertyItemLabel>
+          <PropertyItemValue className="flex-none w-28">
+            <Select
+              value={element.fit ?? "free"}
+              onValueChange={(mode) =>
+                updateElementLayout(trackId, element.id, {
+                  fit: mode === "free" ? undefined : (mode as FitMode),
+                })
+              }
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIT_MODES.map(({ mode, label }) => (
+                  <SelectItem key={mode} value={mode}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </PropertyItemValue>
+        </PropertyItem>
+
+        <PropertyItem>
+          <PropertyItemLabel>Flip</PropertyItemLabel>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="text"
+              size="icon"
+              title="Flip horizontally"
+              className={cn(element.flipX && "text-primary")}
+              onClick={() =>
+                updateElementLayout(trackId, element.id, {
+                  flipX: !element.flipX,
+                })
+              }
+            >
+              <FlipHorizontal2 className="!size-3.5" />
+            </Button>
+            <Button
+              variant="text"
+              size="icon"
+              title="Flip vertically"
+              className={cn(element.flipY && "text-primary")}
+              onClick={() =>
+                updateElementLayout(trackId, element.id, {
+                  flipY: !element.flipY,
+                })
+              }
+            >
+              <FlipVertical2 className="!size-3.5" />
+            </Button>
+          </div>
+        </PropertyItem>
+
+        <PropertyItem direction="column">
+          <PropertyItemLabel>Crop (source pixels)</PropertyItemLabel>
+          <PropertyItemValue>
+            <div className="grid grid-cols-4 gap-2">
+              {CROP_EDGES.map(({ edge, label }) => (
+                <label
+                  key={edge}
+                  className="space-y-1 text-xs text-muted-foreground"
+                >
+                  {label}
+                  <Input
+                    type="number"
+                    min={0}
+                    value={element.crop?.[edge] ?? 0}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value)) setCrop(edge, value);
+                    }}
+                    className={numberInputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </PropertyItemValue>
+        </PropertyItem>
+      </div>
+    </PropertyGroup>
+  );
+}
+
+function TransformField({
+  element,
+  trackId,
+  property,
+  label,
+  value,
+  step = 1,
+  disabled,
+  onChange,
+}: {
+  element: MediaElement;
+  trackId: string;
+  property: AnimatedTransformProperty;
+  label: string;
+  value: number;
+  step?: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <PropertyItem direction="column">
+      <PropertyItemLabel>{label}</PropertyItemLabel>
+      <PropertyItemValue>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            step={step}
+            disabled={disabled}
+            value={Number(value.toFixed(step < 1 ? 2 : 0))}
+            onChange={(e) => {
+              const next = parseFloat(e.target.value);
+              if (!isNaN(next)) onChange(next);
+            }}
+            className={numberInputClassName}
+          />
+          <KeyframeToggle
+            element={element}
+            trackId={trackId}
+            property={property}
+            value={value}
+          />
+        </div>
+      </PropertyItemValue>
+    </PropertyItem>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useProjectStore } from "@/lib/stores/project-store";
+
+// Offers the changes journaled before the editor last closed without saving
+export function RecoveryDialog() {
+  const { pendingRecovery, recoverUnsavedChanges, discardUnsavedChanges } =
+    useProjectStore();
+  const [isRecovering, setIsRecovering] = useState(false);
+  // Closing the dialog keeps the journal, editing the timeline saves over it
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  if (!pendingRecovery) return null;
+
+  const { changes, lastModified } = pendingRecovery;
+
+  const recover = async () => {
+    setIsRecovering(true);
+    await recoverUnsavedChanges();
+    setIsRecovering(false);
+  };
+
+  return (
+    <Dialog
+      open={dismissed !== lastModified}
+      onOpenChange={(open) => !open && setDismissed(lastModified)}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Recover unsaved changes?</DialogTitle>
+          <DialogDescription>
+            {changes} timeline change{changes === 1 ? "" : "s"}, the last at{" "}
+            {new Date(lastModified).toLocaleString()}, did not get saved before
+            the editor closed. Recover them before editing, new edits replace
+            them.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button
+            variant="text"
+            disabled={isRecovering}
+            onClick={discardUnsavedChanges}
+          >
+            Discard
+          </Button>
+          <Button disabled={isRecovering} onClick={recover}>
+            Recover
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,405 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  FileQuestion,
+  FolderSearch,
+  Image as ImageIcon,
+  Music,
+  Unlink,
+  Video,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useEditorStore } from "@/lib/stores/editor-store";
+import {
+  getFileType,
+  getImageDimensions,
+  getMediaDuration,
+  generateVideoThumbnail,
+  useMediaStore,
+} from "@/lib/stores/media-store";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useSceneStore } from "@/lib/stores/scene-store";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { useOfflineMedia } from "@/lib/hooks/use-offline-media";
+import {
+  findOfflineMedia,
+  matchOfflineMedia,
+  mightMatch,
+  scoreRelinkCandidate,
+  type OfflineMedia,
+  type RelinkCandidate,
+  type RelinkMatch,
+  type RelinkReason,
+} from "@/lib/media-relink";
+import { storageService } from "@/lib/storage/storage-service";
+import { sha256 } from "@/lib/utils";
+import type { MediaType } from "@/types/media";
+import type { TimelineTrack } from "@/types/timeline";
+
+type FileCandidate = RelinkCandidate & { file: File };
+
+// The File System Access directory picker, not in every browser
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: () => Promise<FileSystemDirectoryHandle>;
+};
+
+const TYPE_LABELS: Record<MediaType, string> = {
+  video: "a video",
+  image: "an image",
+  audio: "an audio file",
+};
+
+const REASON_LABELS: Record<RelinkReason, string> = {
+  hash: "content",
+  name: "name",
+  size: "size",
+  duration: "duration",
+  resolution: "resolution",
+};
+
+/**
+ * Reads what relinking compares. Hashing reads the whole file, so it only
+ * happens when some offline media has a hash of the same size to compare with
+ */
+async function probeFile(
+  file: File,
+  offline: OfflineMedia[]
+): Promise<FileCandidate | null> {
+  const type = getFileType(file);
+  if (!type) return null;
+
+  const candidate: FileCandidate = {
+    file,
+    name: file.name,
+    size: file.size,
+    type,
+  };
+  try {
+    if (type === "video") {
+      const [{ width, height }, duration] = await Promise.all([
+        generateVideoThumbnail(file),
+        getMediaDuration(file),
+      ]);
+      Object.assign(candidate, { width, height, duration });
+    } else if (type === "image") {
+      Object.assign(candidate, await getImageDimensions(file));
+    } else {
+      candidate.duration = await getMediaDuration(file);
+    }
+  } catch (error) {
+    // Unreadable files are still matched on name and size
+    console.warn(`Could not read ${file.name}:`, error);
+  }
+  if (offline.some((media) => media.sha256 && media.size === file.size)) {
+    candidate.sha256 = await sha256(file);
+  }
+  return candidate;
+}
+
+async function* listFiles(
+  directory: FileSystemDirectoryHandle
+): AsyncGenerator<File> {
+  for await (const handle of directory.values()) {
+    if (handle.kind === "file") {
+      yield await (handle as FileSystemFileHandle).getFile();
+    } else {
+      yield* listFiles(handle as FileSystemDirectoryHandle);
+    }
+  }
+}
+
+export function RelinkMediaDialog() {
+  const { isRelinkMediaOpen, setRelinkMediaOpen } = useEditorStore();
+  const { mediaFiles, offlineMedia, relinkMediaFile } = useMediaStore();
+  const { activeProject } = useProjectStore();
+  const { scenes, currentScene } = useSceneStore();
+  const { tracks } = useTimelineStore();
+  const sceneOffline = useOfflineMedia();
+
+  // Timelines of the scenes that are not open, for media used only there
+  const [otherTimelines, setOtherTimelines] = useState<TimelineTrack[][]>([]);
+  const [matches, setMatches] = useState<Map<
+    string,
+    RelinkMatch<FileCandidate>
+  > | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isRelinking, setIsRelinking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const locateTarget = useRef<OfflineMedia | null>(null);
+
+  const projectId = activeProject?.id;
+  useEffect(() => {
+    if (!isRelinkMediaOpen || !projectId) return;
+    const otherScenes = scenes.filter((scene) => scene.id !== currentScene?.id);
+    Promise.all(
+      otherScenes.map(
+        async (scene) =>
+          (await storageService.loadTimeline({
+            projectId,
+            sceneId: scene.id,
+          })) ?? []
+      )
+    )
+      .then(setOtherTimelines)
+      .catch((error) => {
+        console.error("Failed to load scene timelines:", error);
+      });
+  }, [isRelinkMediaOpen, projectId, scenes, currentScene?.id]);
+
+  const offline = useMemo(
+    () =>
+      findOfflineMedia({
+        timelines: [tracks, ...otherTimelines],
+        mediaFiles,
+        offlineMetadata: offlineMedia,
+      }),
+    [tracks, otherTimelines, mediaFiles, offlineMedia]
+  );
+
+  const pendingMatches = [...(matches ?? [])].filter(([mediaId]) =>
+    offline.some((media) => media.id === mediaId)
+  );
+  const canSearchFolder =
+    typeof window !== "undefined" &&
+    !!(window as DirectoryPickerWindow).showDirectoryPicker;
+
+  const handleOpenChange = (open: boolean) => {
+    setRelinkMediaOpen(open);
+    if (!open) setMatches(null);
+  };
+
+  const locate = (media: OfflineMedia) => {
+    locateTarget.current = media;
+    fileInputRef.current?.click();
+  };
+
+  const handleLocatedFile = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    const media = locateTarget.current;
+    event.target.value = "";
+    if (!file || !media || !projectId) return;
+
+    const candidate = await probeFile(file, [media]);
+    if (!candidate || (media.type && candidate.type !== media.type)) {
+      toast.error(`${file.name} cannot replace ${media.name}`, {
+        description: `Pick ${media.type ? TYPE_LABELS[media.type] : "an image, video or audio file"}`,
+      });
+      return;
+    }
+    try {
+      await relinkMediaFile(projectId, media.id, file);
+      if (scoreRelinkCandidate(media, candidate)) {
+        toast.success(`Relinked ${media.name}`);
+      } else {
+        toast.warning(`Relinked ${media.name}`, {
+          description: `${file.name} does not look like the missing file`,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to relink media:", error);
+      toast.error(`Failed to relink ${media.name}`);
+    }
+  };
+
+  const searchFolder = async () => {
+    const pickerWindow = window as DirectoryPickerWindow;
+    if (!pickerWindow.showDirectoryPicker) return;
+
+    let directory: FileSystemDirectoryHandle;
+    try {
+      directory = await pickerWindow.showDirectoryPicker();
+    } catch {
+      return; // Picker dismissed
+    }
+
+    setIsSearching(true);
+    try {
+      const candidates: FileCandidate[] = [];
+      for await (const file of listFiles(directory)) {
+        if (!offline.some((media) => mightMatch(media, file))) continue;
+        const candidate = await probeFile(file, offline);
+        if (candidate) candidates.push(candidate);
+      }
+      setMatches(matchOfflineMedia(offline, candidates));
+    } catch (error) {
+      console.error("Failed to search the folder:", error);
+      toast.error("Failed to search the folder");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const relinkMatches = async () => {
+    if (!projectId) return;
+    setIsRelinking(true);
+    let relinked = 0;
+    for (const [mediaId, { candidate }] of pendingMatches) {
+      try {
+        await relinkMediaFile(projectId, mediaId, candidate.file);
+        relinked += 1;
+      } catch (error) {
+        console.error(`Failed to relink ${candidate.name}:`, error);
+      }
+    }
+    setIsRelinking(false);
+    setMatches(null);
+    if (relinked === pendingMatches.length) {
+      toast.success(`Relinked ${relinked} file${relinked === 1 ? "" : "s"}`);
+    } else {
+      toast.error(`Relinked ${relinked} of ${pendingMatches.length} files`);
+    }
+  };
+
+  return (
+    <>
+      {sceneOffline.length > 0 && (
+        <Button
+          variant="text"
+          size="sm"
+          className="gap-2 text-destructive"
+          onClick={() => setRelinkMediaOpen(true)}
+        >
+          <Unlink className="w-4 h-4" />
+          {sceneOffline.length} offline
+        </Button>
+      )}
+      <Dialog open={isRelinkMediaOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Relink media</DialogTitle>
+            <DialogDescription>
+              {offline.length === 0
+                ? "Every media file of the project is available."
+                : `${offline.length} media file${offline.length === 1 ? " is" : "s are"} missing from this browser. Locate them one by one or search a folder, files are matched by content, name, duration and resolution.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {offline.length > 0 && (
+            <div className="max-h-80 space-y-2 overflow-y-auto">
+              {offline.map((media) => (
+                <OfflineMediaItem
+                  key={media.id}
+                  media={media}
+                  match={matches?.get(media.id)}
+                  searched={!!matches}
+                  disabled={isSearching || isRelinking}
+                  onLocate={() => locate(media)}
+                />
+              ))}
+            </div>
+          )}
+
+          <DialogFooter className="sm:justify-between">
+            <Button
+              variant="outline"
+              className="gap-2"
+              disabled={
+                !canSearchFolder ||
+                offline.length === 0 ||
+                isSearching ||
+                isRelinking
+              }
+              title={
+                canSearchFolder
+                  ? undefined
+                  : "Searching folders is not supported in this browser"
+              }
+              onClick={searchFolder}
+            >
+              <FolderSearch className="w-4 h-4" />
+              {isSearching ? "Searching..." : "Search folder"}
+            </Button>
+            <Button
+              disabled={pendingMatches.length === 0 || isRelinking}
+              onClick={relinkMatches}
+            >
+              {isRelinking
+                ? "Relinking..."
+                : `Relink ${pendingMatches.length} found`}
+            </Button>
+          </DialogFooter>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,video/*,audio/*"
+            className="hidden"
+            onChange={handleLocatedFile}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function OfflineMediaItem({
+  media,
+  match,
+  searched,
+  disabled,
+  onLocate,
+}: {
+  media: OfflineMedia;
+  match?: RelinkMatch<FileCandidate>;
+  searched: boolean;
+  disabled: boolean;
+  onLocate: () => void;
+}) {
+  const Icon =
+    media.type === "video"
+      ? Video
+      : media.type === "image"
+        ? ImageIcon
+        : media.type === "audio"
+          ? Music
+          : FileQuestion;
+  const details = [
+    media.type,
+    media.duration !== undefined && `${media.duration.toFixed(1)}s`,
+    media.width && media.height && `${media.width}×${media.height}`,
+    `${media.elementCount} clip${media.elementCount === 1 ? "" : "s"}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-2">
+      <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm">{media.name}</div>
+        <div className="truncate text-xs text-muted-foreground">
+          {details.join(" · ")}
+        </div>
+        {match ? (
+          <div className="truncate text-xs text-primary">
+            Found {match.candidate.file.name}, same{" "}
+            {match.reasons.map((reason) => REASON_LABELS[reason]).join(", ")}
+          </div>
+        ) : (
+          searched && (
+            <div className="text-xs text-muted-foreground">
+              Not found in the folder
+            </div>
+          )
+        )}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={onLocate}
+      >
+        Locate...
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePanelStore } from "@/lib/stores/panel-store";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import { renderTimelineFrame } from "@/lib/timeline-renderer";
+import {
+  computeHistogram,
+  computeVectorscope,
+  computeWaveform,
+  drawHistogram,
+  drawVectorscope,
+  drawWaveform,
+  SCOPE_LEVELS,
+  SCOPE_SAMPLE_WIDTH,
+  VECTORSCOPE_SIZE,
+  type ScopeType,
+} from "@/lib/scopes";
+
+const SCOPE_LABELS: Record<ScopeType, string> = {
+  waveform: "Waveform",
+  vectorscope: "Vectorscope",
+  histogram: "Histogram",
+};
+
+// Scopes follow playback at this rate, seeks and edits update right away
+const PLAYBACK_UPDATES_PER_SECOND = 8;
+// Seeked video frames decode asynchronously, so scopes measure again after this
+const SEEK_SETTLE_MS = 200;
+
+export function ScopesPanel() {
+  const { scopeType, setScopeType, setShowScopes } = usePanelStore();
+  const { isPlaying, currentTime } = usePlaybackStore();
+  const { tracks } = useTimelineStore();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sampleRef = useRef<HTMLCanvasElement | null>(null);
+
+  const update = useCallback(async () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const { activeProject } = useProjectStore.getState();
+    const canvasSize = activeProject?.canvasSize ?? {
+      width: 1920,
+      height: 1080,
+    };
+    const sampleHeight = Math.max(
+      1,
+      Math.round((SCOPE_SAMPLE_WIDTH * canvasSize.height) / canvasSize.width)
+    );
+    if (!sampleRef.current) {
+      sampleRef.current = document.createElement("canvas");
+    }
+    const sample = sampleRef.current;
+    sample.width = SCOPE_SAMPLE_WIDTH;
+    sample.height = sampleHeight;
+    const sampleCtx = sample.getContext("2d", { willReadFrequently: true });
+    if (!sampleCtx) return;
+
+    await renderTimelineFrame({
+      ctx: sampleCtx,
+      time: usePlaybackStore.getState().currentTime,
+      canvasWidth: sample.width,
+      canvasHeight: sample.height,
+      tracks: useTimelineStore.getState().tracks,
+      mediaFiles: useMediaStore.getState().mediaFiles,
+      backgroundColor: activeProject?.backgroundColor,
+      projectCanvasSize: canvasSize,
+    });
+    const image = sampleCtx.getImageData(0, 0, sample.width, sample.height);
+
+    const { scopeType } = usePanelStore.getState();
+    if (scopeType === "waveform") {
+      canvas.width = SCOPE_SAMPLE_WIDTH;
+      canvas.height = SCOPE_LEVELS;
+      drawWaveform(ctx, computeWaveform(image), sampleHeight);
+    } else if (scopeType === "vectorscope") {
+      canvas.width = VECTORSCOPE_SIZE;
+      canvas.height = VECTORSCOPE_SIZE;
+      drawVectorscope(
+        ctx,
+        computeVectorscope(image),
+        sample.width * sample.height
+      );
+    } else {
+      canvas.width = SCOPE_LEVELS;
+      canvas.height = SCOPE_LEVELS / 2;
+      drawHistogram(ctx, computeHistogram(image));
+    }
+  }, []);
+
+  // Throttled while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(update, 1000 / PLAYBACK_UPDATES_PER_SECOND);
+    return () => clearInterval(interval);
+  }, [isPlaying, update]);
+
+  // Seeks, timeline edits and scope changes while paused
+  useEffect(() => {
+    if (isPlaying) return;
+    const frame = requestAnimationFrame(update);
+    const settle = setTimeout(update, SEEK_SETTLE_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(settle);
+    };
+  }, [isPlaying, currentTime, tracks, scopeType, update]);
+
+  return (
+    <div className="h-full flex flex-col bg-panel rounded-sm min-w-0">
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <Select
+          value={scopeType}
+          onValueChange={(value) => setScopeType(value as ScopeType)}
+        >
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SCOPE_LABELS) as ScopeType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {SCOPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="text"
+          size="icon"
+          onClick={() => setShowScopes(false)}
+          aria-label="Close scopes"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center p-3 pt-0">
+        <canvas
+          ref={canvasRef}
+          className="max-w-full max-h-full rounded-sm bg-black"
+          style={{
+            aspectRatio: scopeType === "vectorscope" ? "1" : undefined,
+            width: scopeType === "vectorscope" ? undefined : "100%",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
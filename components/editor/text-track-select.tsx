@@ -0,0 +1,46 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+
+export const NEW_TRACK_VALUE = "new-track";
+
+/**
+ * Picks one of the timeline's text tracks, optionally offering a new track
+ */
+export function TextTrackSelect({
+  value,
+  onValueChange,
+  allowNewTrack = false,
+}: {
+  value: string;
+  onValueChange: (trackId: string) => void;
+  allowNewTrack?: boolean;
+}) {
+  const { tracks } = useTimelineStore();
+  const textTracks = tracks.filter((track) => track.type === "text");
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className="bg-panel-accent">
+        <SelectValue placeholder="Select a text track" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowNewTrack && (
+          <SelectItem value={NEW_TRACK_VALUE}>New track</SelectItem>
+        )}
+        {textTracks.map((track, index) => (
+          <SelectItem key={track.id} value={track.id}>
+            {track.name || `Text track ${index + 1}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import { renderTimelineMix } from "@/lib/export";
+import {
+  DEFAULT_DUCKING,
+  DEFAULT_SPEECH_DETECTION,
+  buildDuckingEnvelope,
+  detectSpeech,
+  downmixToMono,
+} from "@/lib/audio-ducking";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type { MediaElement } from "@/types/timeline";
+
+// Speech analysis doesn't need more than telephone bandwidth
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+export function AutoDuckDialog({ children }: { children: React.ReactNode }) {
+  const { tracks, setVolumeEnvelopes } = useTimelineStore();
+  const { mediaFiles } = useMediaStore();
+  const [open, setOpen] = useState(false);
+  const [speechTrackId, setSpeechTrackId] = useState("");
+  const [targetTrackIds, setTargetTrackIds] = useState<string[]>([]);
+  const [amount, setAmount] = useState(DEFAULT_DUCKING.amount);
+  const [sensitivity, setSensitivity] = useState(
+    DEFAULT_SPEECH_DETECTION.sensitivity
+  );
+  const [attack, setAttack] = useState(DEFAULT_DUCKING.attack);
+  const [release, setRelease] = useState(DEFAULT_DUCKING.release);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const audioTracks = tracks.filter((track) => track.type !== "text");
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) return;
+    // Dialogue usually sits on the main track, music on audio tracks
+    const speech =
+      audioTracks.find((track) => track.isMain) ?? audioTracks[0] ?? null;
+    setSpeechTrackId(speech?.id ?? "");
+    setTargetTrackIds(
+      audioTracks
+        .filter((track) => track.type === "audio" && track.id !== speech?.id)
+        .map((track) => track.id)
+    );
+  };
+
+  const toggleTarget = (trackId: string, checked: boolean) => {
+    setTargetTrackIds((ids) =>
+      checked ? [...ids, trackId] : ids.filter((id) => id !== trackId)
+    );
+  };
+
+  const handleApply = async () => {
+    setIsAnalyzing(true);
+    try {
+      const rendered = await renderTimelineMix({
+        trackIds: [speechTrackId],
+        sampleRate: ANALYSIS_SAMPLE_RATE,
+      });
+      if (!rendered) {
+        toast.error("The dialogue track has no audio");
+        return;
+      }
+      const regions = detectSpeech(
+        downmixToMono(rendered),
+        rendered.sampleRate,
+        {
+          sensitivity,
+        }
+      );
+      if (regions.length === 0) {
+        toast.error("No speech detected on the dialogue track");
+        return;
+      }
+
+      const envelopes = tracks
+        .filter(
+          (track) =>
+            track.id !== speechTrackId && targetTrackIds.includes(track.id)
+        )
+        .flatMap((track) =>
+          track.elements
+            .filter(
+              (element): element is MediaElement =>
+                element.type === "media" &&
+                mediaFiles.find((file) => file.id === element.mediaId)?.type !==
+                  "image"
+            )
+            .map((element) => ({
+              trackId: track.id,
+              elementId: element.id,
+              keyframes: buildDuckingEnvelope(element, regions, {
+                amount,
+                attack,
+                release,
+              }),
+            }))
+        );
+      setVolumeEnvelopes(envelopes);
+      toast.success(
+        `Ducked ${envelopes.length} clip${envelopes.length === 1 ? "" : "s"} under ${regions.length} speech region${regions.length === 1 ? "" : "s"}`
+      );
+      setOpen(false);
+    } catch (error) {
+      console.error("Auto-duck failed:", error);
+      toast.error("Failed to analyze the dialogue track");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const sliders = [
+    {
+      id: "amount",
+      label: "Duck amount",
+      value: amount,
+      display: `${amount} dB`,
+      min: -40,
+      max: -3,
+      step: 1,
+      onChange: setAmount,
+    },
+    {
+      id: "sensitivity",
+      label: "Speech threshold",
+      value: sensitivity,
+      display: `${sensitivity} dB above noise`,
+      min: 3,
+      max: 24,
+      step: 1,
+      onChange: setSensitivity,
+    },
+    {
+      id: "attack",
+      label: "Fade down",
+      value: attack,
+      display: `${attack.toFixed(2)}s`,
+      min: 0.05,
+      max: 2,
+      step: 0.05,
+      onChange: setAttack,
+    },
+    {
+      id: "release",
+      label: "Fade up",
+      value: release,
+      display: `${release.toFixed(2)}s`,
+      min: 0.05,
+      max: 3,
+      step: 0.05,
+      onChange: setRelease,
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Auto-duck</DialogTitle>
+          <DialogDescription>
+            Lower music under dialogue. Speech is detected on the dialogue track
+            and replaces the volume envelope of clips on the ducked tracks.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Dialogue track</Label>
+            <Select value={speechTrackId} onValueChange={setSpeechTrackId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a track" />
+              </SelectTrigger>
+              <SelectContent>
+                {audioTracks.map((track) => (
+                  <SelectItem key={track.id} value={track.id}>
+                    {track.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Duck these tracks</Label>
+            {audioTracks
+              .filter((track) => track.id !== speechTrackId)
+              .map((track) => (
+                <div key={track.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`duck-${track.id}`}
+                    checked={targetTrackIds.includes(track.id)}
+                    onCheckedChange={(checked) =>
+                      toggleTarget(track.id, !!checked)
+                    }
+                  />
+                  <Label htmlFor={`duck-${track.id}`} className="font-normal">
+                    {track.name}
+                  </Label>
+                </div>
+              ))}
+          </div>
+          {sliders.map((slider) => (
+            <div key={slider.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{slider.label}</Label>
+                <span className="text-xs tabular-nums text-muted-foreground">
+                  {slider.display}
+                </span>
+              </div>
+              <Slider
+                value={[slider.value]}
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                onValueChange={([value]) => slider.onChange(value)}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={handleApply}
+            disabled={
+              isAnalyzing ||
+              !speechTrackId ||
+              targetTrackIds.filter((id) => id !== speechTrackId).length === 0
+            }
+          >
+            {isAnalyzing ? "Analyzing..." : "Duck"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
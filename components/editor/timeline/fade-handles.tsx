@@ -0,0 +1,105 @@
+"use client";
+
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { TIMELINE_CONSTANTS } from "@/lib/timeline-constants";
+import type { MediaElement } from "@/types/timeline";
+
+interface FadeHandlesProps {
+  element: MediaElement;
+  trackId: string;
+  zoomLevel: number;
+  isSelected: boolean;
+}
+
+/**
+ * Audio fade ramps drawn over the top corners of a clip. Dragging a handle
+ * along the top edge changes the fade length, double click removes the fade.
+ */
+export function FadeHandles({
+  element,
+  trackId,
+  zoomLevel,
+  isSelected,
+}: FadeHandlesProps) {
+  const { updateElementAudio, pushHistory } = useTimelineStore();
+
+  const visibleDuration =
+    element.duration - element.trimStart - element.trimEnd;
+  const fadeIn = element.fadeIn ?? 0;
+  const fadeOut = element.fadeOut ?? 0;
+
+  if (visibleDuration <= 0 || (!isSelected && !fadeIn && !fadeOut)) {
+    return null;
+  }
+
+  const fadeInPercent = (fadeIn / visibleDuration) * 100;
+  const fadeOutPercent = (fadeOut / visibleDuration) * 100;
+
+  const startDrag = (e: React.MouseEvent, edge: "fadeIn" | "fadeOut") => {
+    e.stopPropagation();
+    e.preventDefault();
+    pushHistory();
+    const startX = e.clientX;
+    const initial = edge === "fadeIn" ? fadeIn : fadeOut;
+    const pixelsPerSecond = TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel;
+
+    const onMove = (event: MouseEvent) => {
+      const delta = (event.clientX - startX) / pixelsPerSecond;
+      // The fade out handle grows towards the left
+      const value = initial + (edge === "fadeIn" ? delta : -delta);
+      updateElementAudio(trackId, element.id, { [edge]: value }, false);
+    };
+    const onUp = () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+    };
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  };
+
+  const handleClassName =
+    "absolute top-0.5 size-2.5 -translate-x-1/2 rounded-full border border-black/60 bg-white cursor-ew-resize pointer-events-auto";
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-40">
+      <svg
+        className="absolute inset-0 w-full h-full"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        {fadeIn > 0 && (
+          <polygon
+            points={`0,0 ${fadeInPercent},0 0,100`}
+            className="fill-black/40"
+          />
+        )}
+        {fadeOut > 0 && (
+          <polygon
+            points={`${100 - fadeOutPercent},0 100,0 100,100`}
+            className="fill-black/40"
+          />
+        )}
+      </svg>
+      <div
+        title={`Fade in ${fadeIn.toFixed(2)}s`}
+        className={handleClassName}
+        style={{ left: `max(0.5rem, ${fadeInPercent}%)` }}
+        onMouseDown={(e) => startDrag(e, "fadeIn")}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          updateElementAudio(trackId, element.id, { fadeIn: 0 });
+        }}
+      />
+      <div
+        title={`Fade out ${fadeOut.toFixed(2)}s`}
+        className={handleClassName}
+        style={{ left: `min(100% - 0.5rem, ${100 - fadeOutPercent}%)` }}
+        onMouseDown={(e) => startDrag(e, "fadeOut")}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          updateElementAudio(trackId, element.id, { fadeOut: 0 });
+        }}
+      />
+    </div>
+  );
+}
@@ -70,6 +70,7 @@ import { Slider } from "@/components/ui/slider";
 import { formatTimeCode } from "@/lib/time";
 import { EditableTimecode } from "@/components/ui/editable-timecode";
 import { TimelineToolbar } from "./timeline-toolbar";
+import { TrackMixControls } from "./track-mix-controls";
 
 export function Timeline() {
   // Timeline shows all tracks (video, audio, effects) and their elements.
@@ -376,8 +377,8 @@ export function Timeline() {
       try {
         const dragData: DragData = JSON.parse(itemData);
 
-        if (dragData.type === "text") {
-          // Always create new text track to avoid overlaps
+        if (dragData.type === "text" || dragData.type === "adjustment") {
+          // Always create new text or adjustment track to avoid overlaps
           addElementToNewTrack(dragData);
         } else {
           // Handle media items
@@ -695,6 +696,7 @@ export function Timeline() {
                       style={{ height: `${getTrackHeight(track.type)}px` }}
                     >
                       <div className="flex items-center justify-end flex-1 min-w-0 gap-2">
+                        <TrackMixControls track={track} />
                         {track.muted ? (
                           <VolumeOff
                             className="h-4 w-4 text-destructive cursor-pointer"
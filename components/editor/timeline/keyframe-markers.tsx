@@ -0,0 +1,95 @@
+"use client";
+
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { TIMELINE_CONSTANTS } from "@/lib/timeline-constants";
+import { cn } from "@/lib/utils";
+import type {
+  ElementKeyframe,
+  KeyframeInterpolation,
+  KeyframeProperty,
+  TimelineElement,
+} from "@/types/timeline";
+
+const NEXT_INTERPOLATION: Record<KeyframeInterpolation, KeyframeInterpolation> =
+  {
+    linear: "bezier",
+    bezier: "hold",
+    hold: "linear",
+  };
+
+interface KeyframeMarkersProps {
+  element: TimelineElement;
+  trackId: string;
+  zoomLevel: number;
+}
+
+/**
+ * Keyframe diamonds drawn along the bottom edge of a timeline element.
+ * Click seeks to the keyframe, Shift+click cycles interpolation,
+ * Alt+click removes it.
+ */
+export function KeyframeMarkers({
+  element,
+  trackId,
+  zoomLevel,
+}: KeyframeMarkersProps) {
+  const { removeKeyframe, updateKeyframe } = useTimelineStore();
+  const { seek } = usePlaybackStore();
+
+  if (!element.keyframes) return null;
+
+  const effectiveDuration =
+    element.duration - element.trimStart - element.trimEnd;
+  const markers = (
+    Object.entries(element.keyframes) as [KeyframeProperty, ElementKeyframe[]][]
+  ).flatMap(([property, keyframes]) =>
+    keyframes
+      .filter(
+        (keyframe) =>
+          keyframe.time >= element.trimStart &&
+          keyframe.time - element.trimStart <= effectiveDuration
+      )
+      .map((keyframe) => ({ property, keyframe }))
+  );
+
+  if (markers.length === 0) return null;
+
+  return (
+    <div className="absolute left-0 right-0 bottom-0.5 h-3 pointer-events-none z-40">
+      {markers.map(({ property, keyframe }) => (
+        <button
+          type="button"
+          key={`${property}-${keyframe.id}`}
+          title={`${property} = ${Number(keyframe.value.toFixed(3))} (${keyframe.interpolation})`}
+          className={cn(
+            "absolute top-0 size-2.5 -translate-x-1/2 rotate-45 border border-black/60 pointer-events-auto cursor-pointer",
+            keyframe.interpolation === "hold"
+              ? "bg-amber-400"
+              : keyframe.interpolation === "bezier"
+                ? "bg-sky-300 rounded-[2px]"
+                : "bg-white"
+          )}
+          style={{
+            left: `${(keyframe.time - element.trimStart) * TIMELINE_CONSTANTS.PIXELS_PER_SECOND * zoomLevel}px`,
+          }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (e.altKey) {
+              removeKeyframe(trackId, element.id, property, keyframe.id);
+              return;
+            }
+            if (e.shiftKey) {
+              updateKeyframe(trackId, element.id, property, keyframe.id, {
+                interpolation: NEXT_INTERPOLATION[keyframe.interpolation],
+              });
+              return;
+            }
+            seek(element.startTime - element.trimStart + keyframe.time);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
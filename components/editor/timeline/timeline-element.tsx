@@ -10,10 +10,15 @@ import {
   Eye,
   Volume2,
   VolumeX,
+  Gauge,
+  SlidersHorizontal,
+  Link,
+  Unlink,
 } from "lucide-react";
 import { useMediaStore } from "@/lib/stores/media-store";
 import { useTimelineStore } from "@/lib/stores/timeline-store";
 import { usePlaybackStore } from "@/lib/stores/playback-store";
+import { useEditorStore } from "@/lib/stores/editor-store";
 import AudioWaveform from "../audio-waveform";
 import { toast } from "sonner";
 import { TimelineElementProps, MediaElement } from "@/types/timeline";
@@ -31,8 +36,12 @@ import {
   ContextMenuTrigger,
 } from "../../ui/context-menu";
 import { useMediaPanelStore } from "../media-panel/store";
+import { getElementSourceTime } from "@/lib/timeline";
 
 import { Filmstrip } from "./filmstrip";
+import { KeyframeMarkers } from "./keyframe-markers";
+import { FadeHandles } from "./fade-handles";
+import { VolumeEnvelope } from "./volume-envelope";
 
 export function TimelineElement({
   element,
@@ -42,7 +51,8 @@ export function TimelineElement({
   onElementMouseDown,
   onElementClick,
 }: TimelineElementProps) {
-  const { mediaFiles } = useMediaStore();
+  const { mediaFiles, isLoading: isMediaLoading } = useMediaStore();
+  const { setRelinkMediaOpen } = useEditorStore();
   const {
     dragState,
     copySelected,
@@ -63,6 +73,8 @@ export function TimelineElement({
       ? mediaFiles.find((file) => file.id === element.mediaId)
       : null;
   const hasAudio = mediaItem?.type === "audio" || mediaItem?.type === "video";
+  // The media's file is missing, see lib/media-relink
+  const isOffline = element.type === "media" && !mediaItem && !isMediaLoading;
 
   const { resizing, handleResizeStart, handleResizeMove, handleResizeEnd } =
     useTimelineElementResize({
@@ -165,7 +177,32 @@ export function TimelineElement({
       );
     }
 
+    if (element.type === "adjustment") {
+      return (
+        <div className="w-full h-full flex items-center gap-1.5 pl-2 bg-linear-to-r from-violet-500/40 to-violet-500/20">
+          <SlidersHorizontal className="size-3 shrink-0 text-white/90" />
+          <span className="text-xs text-white truncate">{element.name}</span>
+        </div>
+      );
+    }
+
     const mediaItem = mediaFiles.find((file) => file.id === element.mediaId);
+    if (isOffline) {
+      return (
+        <div
+          className="w-full h-full flex items-center gap-1.5 pl-2 border border-dashed border-destructive bg-destructive/20 rounded-[0.5rem]"
+          title="Media offline, relink it to play this clip"
+        >
+          <Unlink className="size-3 shrink-0 text-destructive" />
+          <span className="text-xs text-foreground/80 truncate">
+            {element.name}
+          </span>
+          <span className="text-[10px] font-medium text-destructive shrink-0 pr-2">
+            Offline
+          </span>
+        </div>
+      );
+    }
     if (!mediaItem) {
       return (
         <span className="text-xs text-foreground/80 truncate">
@@ -192,11 +229,11 @@ export function TimelineElement({
             >
               <Filmstrip
                 mediaFile={mediaItem}
-                duration={element.duration}
+                duration={getElementSourceTime(element, element.duration)}
                 visibleDuration={element.duration}
                 width={elementWidth}
                 height={trackHeight}
-                trimStart={element.trimStart || 0}
+                trimStart={getElementSourceTime(element, element.trimStart || 0)}
               />
               {/* Overlay name for readability - with gradient background */}
               <div className="absolute top-0 left-0 right-0 p-1 bg-linear-to-b from-black/60 to-transparent z-20">
@@ -266,7 +303,23 @@ export function TimelineElement({
     }
   };
 
+  const elementLabel =
+    element.type === "text"
+      ? "text"
+      : element.type === "adjustment"
+        ? "layer"
+        : "clip";
   const isMuted = element.type === "media" && element.muted;
+  const hasSpeedCurve =
+    element.type === "media" &&
+    !!element.speedCurve &&
+    element.speedCurve.length > 0;
+  const speedLabel =
+    element.type === "media" && (hasSpeedCurve || (element.speed ?? 1) !== 1)
+      ? hasSpeedCurve
+        ? "Ramp"
+        : `${Number((element.speed ?? 1).toFixed(2))}x`
+      : null;
 
   return (
     <ContextMenu>
@@ -301,6 +354,36 @@ export function TimelineElement({
               {renderElementContent()}
             </div>
 
+            {speedLabel && (
+              <div className="absolute top-0.5 right-2 z-30 flex items-center gap-0.5 rounded-sm bg-black/60 px-1 text-[10px] font-medium text-white pointer-events-none">
+                <Gauge className="size-2.5" />
+                {speedLabel}
+              </div>
+            )}
+
+            <KeyframeMarkers
+              element={element}
+              trackId={track.id}
+              zoomLevel={zoomLevel}
+            />
+
+            {hasAudio && element.type === "media" && (
+              <VolumeEnvelope
+                element={element}
+                trackId={track.id}
+                isSelected={isSelected}
+              />
+            )}
+
+            {hasAudio && element.type === "media" && (
+              <FadeHandles
+                element={element}
+                trackId={track.id}
+                zoomLevel={zoomLevel}
+                isSelected={isSelected}
+              />
+            )}
+
             {(hasAudio ? isMuted : element.hidden) && (
               <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center pointer-events-none">
                 {hasAudio ? (
@@ -380,14 +463,14 @@ export function TimelineElement({
                 : element.hidden
                   ? "Show"
                   : "Hide"}{" "}
-            {!isMultipleSelected && (element.type === "text" ? "text" : "clip")}
+            {!isMultipleSelected && elementLabel}
           </span>
         </ContextMenuItem>
 
         {!isMultipleSelected && (
           <ContextMenuItem onClick={handleElementDuplicateContext}>
             <Copy className="h-4 w-4 mr-2" />
-            Duplicate {element.type === "text" ? "text" : "clip"}
+            Duplicate {elementLabel}
           </ContextMenuItem>
         )}
 
@@ -401,6 +484,12 @@ export function TimelineElement({
               <RefreshCw className="h-4 w-4 mr-2" />
               Replace clip
             </ContextMenuItem>
+            {isOffline && (
+              <ContextMenuItem onClick={() => setRelinkMediaOpen(true)}>
+                <Link className="h-4 w-4 mr-2" />
+                Relink media
+              </ContextMenuItem>
+            )}
           </>
         )}
 
@@ -413,7 +502,7 @@ export function TimelineElement({
           <Trash2 className="h-4 w-4 mr-2" />
           {isMultipleSelected && isCurrentElementSelected
             ? `Delete ${selectedElements.length} elements`
-            : `Delete ${element.type === "text" ? "text" : "clip"}`}
+            : `Delete ${elementLabel}`}
         </ContextMenuItem>
       </ContextMenuContent>
     </ContextMenu>
@@ -27,6 +27,7 @@ import {
   SplitSquareHorizontal,
   Scissors,
   LayersIcon,
+  AudioLines,
 } from "lucide-react";
 import {
   SplitButton,
@@ -40,6 +41,7 @@ import { formatTimeCode } from "@/lib/time";
 import { TIMELINE_CONSTANTS } from "@/lib/timeline-constants";
 import { EditableTimecode } from "@/components/ui/editable-timecode";
 import { ScenesView } from "../scenes-view";
+import { AutoDuckDialog } from "./auto-duck-dialog";
 
 export function TimelineToolbar({
   zoomLevel,
@@ -316,6 +318,16 @@ export function TimelineToolbar({
             </TooltipTrigger>
             <TooltipContent>Delete element (Delete)</TooltipContent>
           </Tooltip>
+          <Tooltip>
+            <AutoDuckDialog>
+              <TooltipTrigger asChild>
+                <Button variant="text" size="icon">
+                  <AudioLines className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+            </AutoDuckDialog>
+            <TooltipContent>Auto-duck music under dialogue</TooltipContent>
+          </Tooltip>
           <div className="w-px h-6 bg-border mx-1" />
           <Tooltip>
             <TooltipTrigger asChild>
@@ -534,8 +534,8 @@ export function TimelineTrackContent({
         if (mediaItemData) {
           const dragData: DragData = JSON.parse(mediaItemData);
 
-          if (dragData.type === "text") {
-            // Text elements have default duration of 5 seconds
+          if (dragData.type === "text" || dragData.type === "adjustment") {
+            // Text elements and adjustment layers have default duration of 5 seconds
             const newElementDuration = 5;
             const snappedTime = getDropSnappedTime(
               dropTime,
@@ -912,6 +912,61 @@ export function TimelineTrackContent({
             content: dragData.content || DEFAULT_TEXT_ELEMENT.content,
             startTime: textSnappedTime,
           });
+        } else if (dragData.type === "adjustment") {
+          let targetTrackId = track.id;
+          let targetTrack = track;
+
+          // Adjustment layers affect the tracks beneath them, so dropping
+          // between tracks makes a new media track at that position
+          if (track.type !== "media" || dropPosition !== "on") {
+            const insertIndex =
+              dropPosition === "below"
+                ? currentTrackIndex + 1
+                : currentTrackIndex;
+            targetTrackId = insertTrackAt("media", insertIndex);
+            const newTargetTrack = useTimelineStore
+              .getState()
+              .tracks.find((t) => t.id === targetTrackId);
+            if (!newTargetTrack) return;
+            targetTrack = newTargetTrack;
+          }
+
+          const newElementDuration =
+            TIMELINE_CONSTANTS.DEFAULT_ADJUSTMENT_DURATION;
+          const adjustmentSnappedTime = getDropSnappedTime(
+            newStartTime,
+            newElementDuration
+          );
+          const newElementEnd = adjustmentSnappedTime + newElementDuration;
+
+          const hasOverlap = targetTrack.elements.some((existingElement) => {
+            const existingStart = existingElement.startTime;
+            const existingEnd =
+              existingElement.startTime +
+              (existingElement.duration -
+                existingElement.trimStart -
+                existingElement.trimEnd);
+            return (
+              adjustmentSnappedTime < existingEnd &&
+              newElementEnd > existingStart
+            );
+          });
+
+          if (hasOverlap) {
+            toast.error(
+              "Cannot place element here - it would overlap with existing elements"
+            );
+            return;
+          }
+
+          addElementToTrack(targetTrackId, {
+            type: "adjustment",
+            name: dragData.name,
+            duration: newElementDuration,
+            startTime: adjustmentSnappedTime,
+            trimStart: 0,
+            trimEnd: 0,
+          });
         } else {
           // Handle media items
           const mediaItem = mediaFiles.find((item) => item.id === dragData.id);
@@ -0,0 +1,94 @@
+"use client";
+
+import { SlidersHorizontal } from "lucide-react";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { formatGain, formatPan } from "@/lib/audio-mix";
+import { MAX_GAIN } from "@/lib/engine/utils/utils/effect-audio";
+import { cn } from "@/lib/utils";
+import type { TimelineTrack } from "@/types/timeline";
+
+/**
+ * Solo, volume and pan popover shown in the track header.
+ * Text tracks have no audio so they get nothing.
+ */
+export function TrackMixControls({ track }: { track: TimelineTrack }) {
+  const { updateTrackMix, pushHistory } = useTimelineStore();
+
+  if (track.type === "text") return null;
+
+  const volume = track.volume ?? 1;
+  const pan = track.pan ?? 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          title="Track solo, volume and pan"
+          className={cn(
+            "text-muted-foreground hover:text-foreground",
+            (volume !== 1 || pan !== 0) && "text-primary",
+            track.solo && "text-amber-400"
+          )}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="start" className="w-56 space-y-4">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Solo</Label>
+          <Switch
+            checked={!!track.solo}
+            onCheckedChange={(solo) => updateTrackMix(track.id, { solo })}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Volume</Label>
+            <span className="text-xs tabular-nums text-muted-foreground">
+              {formatGain(volume)}
+            </span>
+          </div>
+          <Slider
+            value={[volume]}
+            min={0}
+            max={MAX_GAIN}
+            step={0.01}
+            onPointerDown={() => pushHistory()}
+            onValueChange={([value]) =>
+              updateTrackMix(track.id, { volume: value }, false)
+            }
+            onDoubleClick={() => updateTrackMix(track.id, { volume: 1 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Pan</Label>
+            <span className="text-xs tabular-nums text-muted-foreground">
+              {formatPan(pan)}
+            </span>
+          </div>
+          <Slider
+            value={[pan]}
+            min={-1}
+            max={1}
+            step={0.01}
+            onPointerDown={() => pushHistory()}
+            onValueChange={([value]) =>
+              updateTrackMix(track.id, { pan: value }, false)
+            }
+            onDoubleClick={() => updateTrackMix(track.id, { pan: 0 })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useRef } from "react";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { interpolate_keyframes } from "@/lib/engine/controllers/controllers/compositor/utils/interpolate_keyframes";
+import type { MediaElement } from "@/types/timeline";
+
+interface VolumeEnvelopeProps {
+  element: MediaElement;
+  trackId: string;
+  isSelected: boolean;
+}
+
+// Vertical padding in percent so points at full volume stay clear of the edge
+const PADDING = 12;
+// Samples used to draw the envelope, enough to show bezier segments smoothly
+const SAMPLES = 120;
+
+const valueToY = (value: number) =>
+  PADDING + (1 - Math.min(1, Math.max(0, value))) * (100 - PADDING * 2);
+
+/**
+ * Volume keyframes drawn as an envelope over the clip. When the clip is
+ * selected, clicking the line adds a point, points can be dragged and
+ * Alt+click or double click removes them.
+ */
+export function VolumeEnvelope({
+  element,
+  trackId,
+  isSelected,
+}: VolumeEnvelopeProps) {
+  const { addKeyframe, updateKeyframe, removeKeyframe, pushHistory } =
+    useTimelineStore();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const keyframes = element.keyframes?.volume ?? [];
+  const visibleDuration =
+    element.duration - element.trimStart - element.trimEnd;
+
+  if (visibleDuration <= 0 || (!isSelected && keyframes.length === 0)) {
+    return null;
+  }
+
+  const timeToX = (time: number) =>
+    ((time - element.trimStart) / visibleDuration) * 100;
+
+  const path = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const time = element.trimStart + (visibleDuration * i) / SAMPLES;
+    const value = interpolate_keyframes(keyframes, time) ?? 1;
+    return `${i === 0 ? "M" : "L"}${timeToX(time)},${valueToY(value)}`;
+  }).join(" ");
+
+  const pointerToKeyframe = (event: MouseEvent | React.MouseEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const x = Math.min(
+      1,
+      Math.max(0, (event.clientX - rect.left) / rect.width)
+    );
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    return {
+      time: element.trimStart + x * visibleDuration,
+      value: Math.min(1, Math.max(0, 1 - (y - PADDING) / (100 - PADDING * 2))),
+    };
+  };
+
+  const dragKeyframe = (keyframeId: string) => {
+    const onMove = (event: MouseEvent) => {
+      updateKeyframe(
+        trackId,
+        element.id,
+        "volume",
+        keyframeId,
+        pointerToKeyframe(event),
+        false
+      );
+    };
+    const onUp = () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+    };
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 pointer-events-none z-30"
+    >
+      <svg
+        className="absolute inset-0 w-full h-full overflow-visible"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        <path
+          d={path}
+          fill="none"
+          className="stroke-amber-300"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+        {isSelected && (
+          <path
+            d={path}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={10}
+            vectorEffect="non-scaling-stroke"
+            className="cursor-copy"
+            style={{ pointerEvents: "stroke" }}
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              const { time, value } = pointerToKeyframe(e);
+              const id = addKeyframe(trackId, element.id, "volume", {
+                time,
+                value,
+                interpolation: "linear",
+              });
+              dragKeyframe(id);
+            }}
+            onClick={(e) => e.stopPropagation()}
+          />
+        )}
+      </svg>
+      {keyframes.map((keyframe) => {
+        const x = timeToX(keyframe.time);
+        if (x < 0 || x > 100) return null;
+        return (
+          <div
+            key={keyframe.id}
+            title={`Volume ${Math.round(keyframe.value * 100)}%`}
+            className="absolute size-2 -translate-x-1/2 -translate-y-1/2 rounded-full border border-black/60 bg-amber-300 pointer-events-auto cursor-move"
+            style={{ left: `${x}%`, top: `${valueToY(keyframe.value)}%` }}
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              if (e.altKey) {
+                removeKeyframe(trackId, element.id, "volume", keyframe.id);
+                return;
+              }
+              pushHistory();
+              dragKeyframe(keyframe.id);
+            }}
+            onClick={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              removeKeyframe(trackId, element.id, "volume", keyframe.id);
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
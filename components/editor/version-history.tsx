@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { CopyPlus, History, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AUTO_SNAPSHOT_INTERVALS,
+  useVersionHistoryStore,
+} from "@/lib/stores/version-history-store";
+import { describeDiff, diffTimelines } from "@/lib/version-history";
+import type { ProjectSnapshot } from "@/lib/storage/types";
+
+export function VersionHistory() {
+  const {
+    snapshots,
+    isLoading,
+    autoSnapshotMinutes,
+    setAutoSnapshotMinutes,
+    createSnapshot,
+    deleteSnapshot,
+    restoreSnapshot,
+    restoreAsNewProject,
+  } = useVersionHistoryStore();
+  const [name, setName] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const router = useRouter();
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Version history action failed:", error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveCheckpoint = () =>
+    run(async () => {
+      await createSnapshot({
+        kind: "checkpoint",
+        name: name.trim() || "Checkpoint",
+      });
+      setName("");
+    });
+
+  const restoreAsNew = (id: string) =>
+    run(async () => {
+      const projectId = await restoreAsNewProject(id);
+      router.push(`/editor/${projectId}`);
+    });
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="text" size="sm" className="gap-2">
+          <History className="w-4 h-4" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Version history</SheetTitle>
+          <SheetDescription>
+            Snapshots of the whole project, media is shared between them
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex flex-col gap-4 py-4 min-h-0">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Checkpoint name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && saveCheckpoint()}
+              className="h-8 text-xs"
+            />
+            <Button size="sm" disabled={isBusy} onClick={saveCheckpoint}>
+              Save
+            </Button>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs">Automatic snapshots</Label>
+            <Select
+              value={String(autoSnapshotMinutes)}
+              onValueChange={(value) => setAutoSnapshotMinutes(Number(value))}
+            >
+              <SelectTrigger className="h-8 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_SNAPSHOT_INTERVALS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes === 0 ? "Off" : `Every ${minutes} min`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {snapshots.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              {isLoading ? "Loading..." : "No snapshots yet"}
+            </div>
+          ) : (
+            <div className="space-y-2 overflow-y-auto">
+              {snapshots.map((snapshot, index) => (
+                <SnapshotItem
+                  key={snapshot.id}
+                  snapshot={snapshot}
+                  previous={snapshots[index + 1]}
+                  disabled={isBusy}
+                  onRestore={() => run(() => restoreSnapshot(snapshot.id))}
+                  onRestoreAsNew={() => restoreAsNew(snapshot.id)}
+                  onDelete={() => run(() => deleteSnapshot(snapshot.id))}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function SnapshotItem({
+  snapshot,
+  previous,
+  disabled,
+  onRestore,
+  onRestoreAsNew,
+  onDelete,
+}: {
+  snapshot: ProjectSnapshot;
+  previous?: ProjectSnapshot;
+  disabled: boolean;
+  onRestore: () => void;
+  onRestoreAsNew: () => void;
+  onDelete: () => void;
+}) {
+  const diff = diffTimelines(previous?.timelines ?? [], snapshot.timelines);
+
+  return (
+    <div className="rounded-md border p-3 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium truncate">
+          {snapshot.name ??
+            (snapshot.kind === "auto" ? "Auto snapshot" : "Checkpoint")}
+        </span>
+        <div className="flex items-center">
+          <Button
+            variant="text"
+            size="icon"
+            title="Restore"
+            disabled={disabled}
+            onClick={onRestore}
+          >
+            <RotateCcw className="!size-3.5" />
+          </Button>
+          <Button
+            variant="text"
+            size="icon"
+            title="Restore as new project"
+            disabled={disabled}
+            onClick={onRestoreAsNew}
+          >
+            <CopyPlus className="!size-3.5" />
+          </Button>
+          <Button
+            variant="text"
+            size="icon"
+            title="Delete snapshot"
+            disabled={disabled}
+            onClick={onDelete}
+          >
+            <Trash2 className="!size-3.5" />
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {new Date(snapshot.createdAt).toLocaleString()}
+      </p>
+      <p className="text-xs text-muted-foreground">{describeDiff(diff)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import type { Suite } from 'cynic';
+import { expect } from 'chai';
+import type { MediaElement } from '@/types/timeline';
+import { DEFAULT_DUCKING, buildDuckingEnvelope, detectSpeech, mergeSpeechRegions, type SpeechRegion } from './audio-ducking';
+
+const SAMPLE_RATE = 16000;
+
+// Quiet noise with 1 kHz tone bursts, [start, end] in seconds. Bursts fade
+// out over 5 ms so they don't end in a click
+function synthesize(duration: number, bursts: [number, number][]) {
+  const samples = new Float32Array(duration * SAMPLE_RATE);
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    samples[i] = (seed / 2147483647 - 0.5) * 0.002;
+  }
+  for (const [start, end] of bursts) {
+    for (let i = start * SAMPLE_RATE; i < end * SAMPLE_RATE; i++) {
+      const fade = Math.min(1, (end * SAMPLE_RATE - i) / (0.005 * SAMPLE_RATE));
+      samples[i] += 0.3 * fade * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+// Detection works in 20 ms frames, compare at 0.1 s
+const rounded = (regions: SpeechRegion[]) =>
+  regions.map(({ start, end }) => [Math.round(start * 10) / 10, Math.round(end * 10) / 10]);
+
+const music = (overrides: Partial<MediaElement> = {}): MediaElement => ({
+  id: 'music',
+  name: 'music.mp3',
+  type: 'media',
+  mediaId: 'music',
+  startTime: 0,
+  duration: 10,
+  trimStart: 0,
+  trimEnd: 0,
+  ...overrides,
+});
+
+export default <Suite> {
+  'speech detection': {
+    'finds tone bursts over a noise floor': async () => {
+      const regions = detectSpeech(synthesize(5, [[1, 2], [3, 3.5]]), SAMPLE_RATE);
+      expect(rounded(regions)).to.deep.equal([
+        [1, 2],
+        [3, 3.5],
+      ]);
+    },
+    'bridges short gaps and drops blips': async () => {
+      const samples = synthesize(8, [[1, 1.5], [1.7, 2.2], [4, 4.06], [6, 7]]);
+      expect(rounded(detectSpeech(samples, SAMPLE_RATE))).to.deep.equal([
+        [1, 2.2],
+        [6, 7],
+      ]);
+    },
+    'finds nothing in silence': async () => {
+      expect(detectSpeech(synthesize(3, []), SAMPLE_RATE)).to.be.empty;
+      expect(detectSpeech(new Float32Array(10), SAMPLE_RATE)).to.be.empty;
+    },
+    'merges overlapping regions in order': async () => {
+      const merged = mergeSpeechRegions(
+        [
+          { start: 3, end: 4 },
+          { start: 0, end: 1 },
+          { start: 0.5, end: 2 },
+        ],
+        0.5
+      );
+      expect(merged).to.deep.equal([
+        { start: 0, end: 2 },
+        { start: 3, end: 4 },
+      ]);
+    },
+  },
+  'ducking envelope': {
+    'ducks before speech and releases after it': async () => {
+      const regions = detectSpeech(synthesize(5, [[1, 2], [3, 3.5]]), SAMPLE_RATE);
+      const envelope = buildDuckingEnvelope(music(), regions, DEFAULT_DUCKING);
+      const ducked = 10 ** (DEFAULT_DUCKING.amount / 20);
+      expect(envelope.map((keyframe) => [Math.round(keyframe.time * 100) / 100, keyframe.value])).to.deep.equal([
+        [0.75, 1],
+        [1, ducked],
+        [2, ducked],
+        [2.5, 1],
+        [2.75, 1],
+        [3, ducked],
+        [3.5, ducked],
+        [4, 1],
+      ]);
+      expect(envelope.every((keyframe) => keyframe.interpolation === 'linear')).to.equal(true);
+    },
+    'joins regions too close for a release and attack': async () => {
+      const envelope = buildDuckingEnvelope(
+        music(),
+        [
+          { start: 1, end: 2 },
+          { start: 2.5, end: 3 },
+        ],
+        DEFAULT_DUCKING
+      );
+      expect(envelope.map((keyframe) => keyframe.time)).to.deep.equal([0.75, 1, 3, 3.5]);
+    },
+    'measures keyframes from the untrimmed start and skips hidden speech': async () => {
+      const element = music({ startTime: 10, trimStart: 2, duration: 10, trimEnd: 4 });
+      const envelope = buildDuckingEnvelope(
+        element,
+        [
+          { start: 5, end: 6 },
+          { start: 12, end: 13 },
+          { start: 20, end: 21 },
+        ],
+        DEFAULT_DUCKING
+      );
+      expect(envelope.map((keyframe) => keyframe.time)).to.deep.equal([3.75, 4, 5, 5.5]);
+    },
+  },
+};
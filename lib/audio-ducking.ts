@@ -0,0 +1,162 @@
+import { generateUUID } from "@/lib/utils";
+import type { ElementKeyframe, MediaElement } from "@/types/timeline";
+
+/**
+ * Speech detection and ducking envelopes. Speech is found with a simple
+ * energy based VAD: frames louder than the estimated noise floor by
+ * `sensitivity` dB count as speech, short gaps are bridged and short
+ * blips dropped. Envelopes are written as regular volume keyframes so they
+ * can be edited afterwards like any other envelope.
+ */
+
+export interface SpeechRegion {
+  start: number; // Seconds on the timeline
+  end: number;
+}
+
+export interface SpeechDetectionOptions {
+  frameSize?: number; // Seconds per analysis frame
+  sensitivity?: number; // dB above the noise floor
+  minSpeech?: number; // Shortest region kept, in seconds
+  mergeGap?: number; // Gaps shorter than this are bridged, in seconds
+}
+
+export interface DuckingOptions {
+  amount: number; // Attenuation in dB, negative
+  attack: number; // Seconds to duck before speech starts
+  release: number; // Seconds to recover after speech ends
+}
+
+export const DEFAULT_SPEECH_DETECTION: Required<SpeechDetectionOptions> = {
+  frameSize: 0.02,
+  sensitivity: 10,
+  minSpeech: 0.15,
+  mergeGap: 0.35,
+};
+
+export const DEFAULT_DUCKING: DuckingOptions = {
+  amount: -12,
+  attack: 0.25,
+  release: 0.5,
+};
+
+// Anything quieter is treated as silence no matter how low the noise floor is
+const MIN_SPEECH_DB = -50;
+// Percentile of frame levels used as the noise floor estimate
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const PRE_EMPHASIS = 0.97;
+
+export function downmixToMono(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Find speech in mono samples, region times are seconds from the first sample
+ */
+export function detectSpeech(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SpeechDetectionOptions = {}
+): SpeechRegion[] {
+  const { frameSize, sensitivity, minSpeech, mergeGap } = {
+    ...DEFAULT_SPEECH_DETECTION,
+    ...options,
+  };
+  const frameLength = Math.max(1, Math.round(frameSize * sampleRate));
+  const frameCount = Math.floor(samples.length / frameLength);
+  if (frameCount === 0) return [];
+
+  // Pre-emphasis tilts the spectrum towards the speech band so bass heavy
+  // background doesn't register as speech
+  const levels = new Float32Array(frameCount);
+  let previous = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let energy = 0;
+    for (let i = frame * frameLength; i < (frame + 1) * frameLength; i++) {
+      const emphasized = samples[i] - PRE_EMPHASIS * previous;
+      previous = samples[i];
+      energy += emphasized * emphasized;
+    }
+    levels[frame] = 10 * Math.log10(energy / frameLength + 1e-12);
+  }
+
+  const sorted = Array.from(levels).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * NOISE_FLOOR_PERCENTILE)];
+  const threshold = Math.max(noiseFloor + sensitivity, MIN_SPEECH_DB);
+
+  const regions: SpeechRegion[] = [];
+  let regionStart = -1;
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const active = frame < frameCount && levels[frame] > threshold;
+    if (active && regionStart < 0) {
+      regionStart = frame;
+    } else if (!active && regionStart >= 0) {
+      regions.push({ start: regionStart * frameSize, end: frame * frameSize });
+      regionStart = -1;
+    }
+  }
+
+  return mergeSpeechRegions(regions, mergeGap).filter(
+    (region) => region.end - region.start >= minSpeech
+  );
+}
+
+export function mergeSpeechRegions(
+  regions: SpeechRegion[],
+  gap: number
+): SpeechRegion[] {
+  const merged: SpeechRegion[] = [];
+  for (const region of [...regions].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && region.start - last.end < gap) {
+      last.end = Math.max(last.end, region.end);
+    } else {
+      merged.push({ ...region });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Volume keyframes that duck an element under the given speech regions.
+ * Regions closer than attack + release are joined so ramps never overlap.
+ */
+export function buildDuckingEnvelope(
+  element: MediaElement,
+  regions: SpeechRegion[],
+  { amount, attack, release }: DuckingOptions
+): ElementKeyframe[] {
+  const ducked = Math.pow(10, amount / 20);
+  // Keyframe time is measured from the untrimmed element start
+  const origin = element.startTime - element.trimStart;
+  const visibleStart = element.startTime;
+  const visibleEnd =
+    element.startTime + element.duration - element.trimStart - element.trimEnd;
+
+  const keyframe = (time: number, value: number): ElementKeyframe => ({
+    id: generateUUID(),
+    time: Math.max(0, time - origin),
+    value,
+    interpolation: "linear",
+  });
+
+  return mergeSpeechRegions(regions, attack + release)
+    .filter(
+      (region) =>
+        region.end + release > visibleStart &&
+        region.start - attack < visibleEnd
+    )
+    .flatMap((region) => [
+      keyframe(region.start - attack, 1),
+      keyframe(region.start, ducked),
+      keyframe(region.end, ducked),
+      keyframe(region.end + release, 1),
+    ]);
+}
@@ -0,0 +1,14 @@
+export function gainToDb(gain: number): number {
+  return gain <= 0 ? -Infinity : 20 * Math.log10(gain);
+}
+
+export function formatGain(gain: number): string {
+  const db = gainToDb(gain);
+  if (!Number.isFinite(db)) return "-∞ dB";
+  return `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+}
+
+export function formatPan(pan: number): string {
+  if (Math.abs(pan) < 0.01) return "C";
+  return `${pan < 0 ? "L" : "R"}${Math.round(Math.abs(pan) * 100)}`;
+}
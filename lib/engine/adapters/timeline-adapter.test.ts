@@ -0,0 +1,437 @@
+import { Suite } from 'cynic';
+import { expect } from 'chai';
+import type { MediaFile } from '@/types/media';
+import type { GLTransition } from '../state/global';
+import type { ImageEffect, VideoEffect } from '../state/types';
+import type { AdjustmentElement, ColorGrade, MediaElement, TextElement, TimelineTrack } from '@/types/timeline';
+import { default_color_grade } from '../utils/utils/color-grade';
+import { copy_effect_props, effect_props_changed, without_effect_props } from '../utils/utils/effect-props';
+import {
+  effectsToTracks,
+  registerMediaMapping,
+  tracksToEffects,
+} from './timeline-adapter';
+
+const fade = { name: 'fade', glsl: '' } as GLTransition;
+
+const mediaFile = (id: string, type: MediaFile['type']): MediaFile => ({
+  id,
+  name: `${id}.file`,
+  type,
+  file: new File([], `${id}.file`),
+  duration: 20,
+  width: 1280,
+  height: 720,
+  fps: 30,
+});
+
+const mediaFiles = new Map(
+  [
+    mediaFile('video-a', 'video'),
+    mediaFile('video-b', 'video'),
+    mediaFile('image', 'image'),
+    mediaFile('music', 'audio'),
+  ].map((file) => [file.id, file])
+);
+for (const id of mediaFiles.keys()) registerMediaMapping(id, `hash-${id}`);
+
+const clip = (id: string, mediaId: string, overrides: Partial<MediaElement> = {}): MediaElement => ({
+  id,
+  name: `${mediaId}.file`,
+  type: 'media',
+  mediaId,
+  duration: 20,
+  startTime: 0,
+  trimStart: 0,
+  trimEnd: 0,
+  ...overrides,
+});
+
+const title = (overrides: Partial<TextElement> = {}): TextElement => ({
+  id: 'title',
+  name: 'Title',
+  type: 'text',
+  content: 'Hello',
+  duration: 5,
+  startTime: 1,
+  trimStart: 0,
+  trimEnd: 0,
+  fontSize: 48,
+  fontFamily: 'Inter',
+  color: '#ffffff',
+  backgroundColor: 'transparent',
+  textAlign: 'center',
+  fontWeight: 'normal',
+  fontStyle: 'normal',
+  textDecoration: 'none',
+  x: 960,
+  y: 540,
+  rotation: 0,
+  opacity: 1,
+  ...overrides,
+});
+
+const track = (id: string, type: TimelineTrack['type'], elements: TimelineTrack['elements']): TimelineTrack => ({
+  id,
+  name: id,
+  type,
+  elements,
+});
+
+// Alphax → engine → Alphax, expected to give back the same document
+function roundTrip(tracks: TimelineTrack[]) {
+  const { effects, filters, transitions, pendingMediaIds } = tracksToEffects(tracks, mediaFiles, [fade]);
+  expect(pendingMediaIds).to.be.empty;
+  return effectsToTracks(effects, tracks, { filters, transitions });
+}
+
+// Effects of a clip and a title before and after editing the clip
+function editClip(overrides: Partial<MediaElement>) {
+  const tracks = (clipOverrides: Partial<MediaElement>) => [
+    track('titles', 'text', [title({ opacity: 0.5 })]),
+    track('main', 'media', [clip('a', 'video-a', { opacity: 0.8, ...clipOverrides })]),
+  ];
+  return [tracksToEffects(tracks({}), mediaFiles).effects, tracksToEffects(tracks(overrides), mediaFiles).effects];
+}
+
+// Edits that only change effect props
+const propEdits: Partial<MediaElement>[] = [
+  { colorGrade: { ...default_color_grade(), gain: [0.1, 0, 0] } },
+  { key: { type: 'luma', threshold: 0.2, softness: 0.05 } },
+  { masks: [{ id: 'm1', shape: 'rectangle', x: 0, y: 0, width: 0.5, height: 1, feather: 4 }] },
+  { trackMatte: { type: 'alpha' } },
+  { opacity: 0.25 },
+  { opacity: undefined, blendMode: 'multiply' },
+  { crop: { left: 10, right: 0, top: 0, bottom: 0 }, flipX: true, fit: 'stretch' },
+  { transform: { x: 100, y: -50, scaleX: 0.5, scaleY: 0.5, rotation: 15, pivotX: 640, pivotY: 360 } },
+  {
+    frame: { radius: 8, borderWidth: 0, borderColor: '#000000' },
+    layoutSlot: { x: 0, y: 0, width: 0.5, height: 1, gap: 8 },
+  },
+];
+
+export default <Suite> {
+  'timeline adapter round trip': {
+    'keeps trims': async () => {
+      const tracks = [
+        track('main', 'media', [clip('a', 'video-a', { startTime: 2, trimStart: 1.5, trimEnd: 4 })]),
+        track('audio', 'audio', [clip('m', 'music', { trimEnd: 8 })]),
+      ];
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps trims of sped up clips on the timeline clock': async () => {
+      const tracks = [
+        track('main', 'media', [clip('a', 'video-a', { duration: 10, trimStart: 1.5, trimEnd: 2, speed: 2 })]),
+      ];
+      const { effects } = tracksToEffects(tracks, mediaFiles, [fade]);
+      expect(effects[0].start).to.equal(3000);
+      expect(effects[0].end).to.equal(16000);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps text styling': async () => {
+      const tracks = [
+        track('text', 'text', [
+          title({
+            backgroundColor: '#202020',
+            textDecoration: 'underline',
+            fontWeight: 'bold',
+            fontStyle: 'italic',
+            textAlign: 'right',
+            opacity: 0.75,
+            rotation: 12,
+            scaleX: 1.5,
+            scaleY: 0.5,
+            strokeColor: '#000000',
+            strokeWidth: 4,
+            letterSpacing: 2,
+            lineHeight: 60,
+            shadow: { color: '#ff0000', opacity: 0.5, blur: 6, distance: 3, angle: 1 },
+          }),
+        ]),
+      ];
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps captions': async () => {
+      const tracks = [
+        track('text', 'text', [
+          title({
+            words: [
+              { text: 'Hello', start: 0.25, end: 0.5 },
+              { text: 'there', start: 0.75, end: 1.25 },
+            ],
+            captionStyle: {
+              animation: 'karaoke',
+              highlightColor: '#ffd400',
+              highlightBackground: '#000000',
+              upcomingOpacity: 0.5,
+              popScale: 0.75,
+            },
+          }),
+        ]),
+      ];
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps filters': async () => {
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', {
+            filters: [
+              { id: 'f1', type: 'BlurFilter', params: { strength: 12, quality: 4 } },
+              { id: 'f2', type: 'AdjustmentFilter', params: { contrast: 1.5 } },
+            ],
+          }),
+          clip('i', 'image', { startTime: 20, filters: [{ id: 'f3', type: 'GlowFilter', params: {} }] }),
+        ]),
+      ];
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps stacked, ordered and bypassed filters': async () => {
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', {
+            filters: [
+              { id: 'f1', type: 'BlurFilter', params: { strength: 2 } },
+              { id: 'f2', type: 'GlowFilter', params: { color: 'ff0000' }, bypassed: true },
+              { id: 'f3', type: 'BlurFilter', params: { strength: 20 } },
+            ],
+          }),
+        ]),
+      ];
+      const { filters } = tracksToEffects(tracks, mediaFiles, [fade]);
+      expect(filters.map((filter) => filter.id)).to.deep.equal(['f1', 'f2', 'f3']);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'drops filter params outside the schema': async () => {
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', {
+            filters: [{ id: 'f1', type: 'BlurFilter', params: { strength: 500, quality: 'high', unknown: 1 } }],
+          }),
+        ]),
+      ];
+      const { filters } = tracksToEffects(tracks, mediaFiles, [fade]);
+      expect(filters[0].params).to.deep.equal({ strength: 100 });
+    },
+    'keeps transitions': async () => {
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', { trimEnd: 0.5 }),
+          clip('b', 'video-b', {
+            startTime: 19,
+            trimStart: 0.5,
+            transitionIn: { id: 't', name: 'fade', duration: 1, fromElementId: 'a' },
+          }),
+        ]),
+      ];
+      const { transitions } = tracksToEffects(tracks, mediaFiles, [fade]);
+      expect(transitions).to.have.length(1);
+      expect(transitions[0].incoming.id).to.equal('b');
+      expect(transitions[0].outgoing.id).to.equal('a');
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps transforms, keyframes, speed and audio settings': async () => {
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', {
+            speed: 0.5,
+            gain: 1.5,
+            fadeIn: 0.5,
+            fadeOut: 1,
+            muted: true,
+            transform: { x: 100, y: 200, scaleX: 0.5, scaleY: 0.5, rotation: 45, pivotX: 640, pivotY: 360 },
+            keyframes: {
+              opacity: [
+                { id: 'k1', time: 0, value: 0, interpolation: 'linear' },
+                { id: 'k2', time: 1.5, value: 1, interpolation: 'bezier', handles: [0.25, 0, 0.75, 1] },
+              ],
+              'filter.BlurFilter.blur': [{ id: 'k3', time: 2, value: 8, interpolation: 'hold' }],
+            },
+          }),
+        ]),
+        track('audio', 'audio', [
+          clip('m', 'music', {
+            keyframes: { volume: [{ id: 'k4', time: 0.5, value: 0.25, interpolation: 'linear' }] },
+          }),
+        ]),
+      ];
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps color grades and shares lut data': async () => {
+      const data = [0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0, 0, 0, 1, 1, 0, 1, 0, 1, 1, 1, 1, 1];
+      const colorGrade: ColorGrade = {
+        lift: [0.05, 0, -0.05],
+        gamma: [0, 0, 0],
+        gain: [0.1, 0.1, 0.1],
+        curves: {
+          master: [[0, 0], [0.25, 0.2], [0.75, 0.8], [1, 1]],
+          red: [[0, 0], [1, 1]],
+          green: [[0, 0], [1, 1]],
+          blue: [[0, 0.05], [1, 1]],
+        },
+        hsl: {
+          hue: 120,
+          range: 40,
+          saturation: [0.2, 1],
+          luminance: [0, 1],
+          softness: 0.3,
+          adjust: { hue: -10, saturation: 0.25, lightness: 0 },
+        },
+        lut: { title: 'Identity', size: 2, min: [0, 0, 0], max: [1, 1, 1], data, intensity: 0.5 },
+      };
+      const tracks = [track('main', 'media', [clip('a', 'video-a', { colorGrade })])];
+      const [effect] = tracksToEffects(tracks, mediaFiles).effects as VideoEffect[];
+      expect(effect.color_grade!.lut!.data).to.equal(data);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps chroma and luma keys': async () => {
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', {
+            key: { type: 'chroma', color: [0.1, 0.8, 0.2], tolerance: 0.3, softness: 0.1, spill: 0.6 },
+          }),
+          clip('b', 'image', {
+            startTime: 20,
+            key: { type: 'luma', threshold: 0.2, softness: 0.05, invert: true, bypassed: true },
+          }),
+        ]),
+      ];
+      const effects = tracksToEffects(tracks, mediaFiles).effects as (VideoEffect | ImageEffect)[];
+      expect(effects.map((effect) => effect.key?.type)).to.deep.equal(['chroma', 'luma']);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps masks, mask keyframes and track mattes': async () => {
+      const tracks = [
+        track('titles', 'text', [
+          title({
+            masks: [{ id: 'm1', shape: 'ellipse', x: 0.1, y: 0.2, width: 0.5, height: 0.4, feather: 12, invert: true }],
+          }),
+        ]),
+        track('main', 'media', [
+          clip('a', 'video-a', {
+            trackMatte: { type: 'luma', invert: true },
+            masks: [
+              {
+                id: 'm2',
+                shape: 'bezier',
+                x: 0,
+                y: 0,
+                width: 1,
+                height: 1,
+                points: [[0.5, 0, 0.2, 0], [1, 1, 0, 0], [0, 1, 0, 0]],
+                feather: 0,
+              },
+            ],
+            keyframes: {
+              'mask.m2.width': [{ id: 'k1', time: 1, value: 0.5, interpolation: 'linear' }],
+            },
+          }),
+        ]),
+      ];
+      const effects = tracksToEffects(tracks, mediaFiles).effects as VideoEffect[];
+      expect(effects[1].track_matte).to.deep.equal({ type: 'luma', invert: true });
+      expect(effects[1].keyframes?.['mask.m2.width']?.[0].time).to.equal(1000);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps opacity and blend modes': async () => {
+      const tracks = [
+        track('titles', 'text', [title({ opacity: 0.5, blendMode: 'overlay' })]),
+        track('main', 'media', [
+          clip('a', 'video-a', { opacity: 0.8, blendMode: 'screen' }),
+          clip('b', 'image', { startTime: 20, opacity: 0 }),
+        ]),
+      ];
+      const effects = tracksToEffects(tracks, mediaFiles).effects as (VideoEffect | ImageEffect)[];
+      expect(effects.map((effect) => effect.blend_mode)).to.deep.equal(['overlay', 'screen', undefined]);
+      expect(effects[2].opacity).to.equal(0);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps crop, flips and fit modes': async () => {
+      const crop = { left: 100, right: 0, top: 20, bottom: 40 };
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', { crop, flipX: true, fit: 'fill' }),
+          clip('b', 'image', { startTime: 20, flipY: true }),
+        ]),
+      ];
+      const effects = tracksToEffects(tracks, mediaFiles).effects as (VideoEffect | ImageEffect)[];
+      expect(effects[0].crop).to.deep.equal(crop);
+      expect(effects.map((effect) => effect.fit)).to.deep.equal(['fill', undefined]);
+      expect(effects.map((effect) => !!effect.flip_y)).to.deep.equal([false, true]);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps frames and layout slots': async () => {
+      const frame = { radius: 12, borderWidth: 4, borderColor: '#ffffff' };
+      const layoutSlot = { x: 0.5, y: 0, width: 0.5, height: 1, gap: 16 };
+      const tracks = [
+        track('main', 'media', [
+          clip('a', 'video-a', { frame, layoutSlot }),
+          clip('b', 'image', { startTime: 20, layoutSlot: { ...layoutSlot, x: 0, bleed: true } }),
+        ]),
+      ];
+      const effects = tracksToEffects(tracks, mediaFiles).effects as (VideoEffect | ImageEffect)[];
+      expect(effects[0].frame).to.deep.equal({ radius: 12, border_width: 4, border_color: '#ffffff' });
+      expect(effects[1].frame).to.equal(undefined);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps adjustment layers and their filters': async () => {
+      const adjustment: AdjustmentElement = {
+        id: 'adj',
+        name: 'Adjustment layer',
+        type: 'adjustment',
+        duration: 5,
+        startTime: 2,
+        trimStart: 0.5,
+        trimEnd: 1,
+        filters: [
+          { id: 'f1', type: 'AdjustmentFilter', params: { saturation: 0 } },
+          { id: 'f2', type: 'BlurFilter', params: { strength: 4 }, bypassed: true },
+        ],
+      };
+      const tracks = [
+        track('grade', 'media', [adjustment]),
+        track('main', 'media', [clip('a', 'video-a')]),
+      ];
+      const { effects, filters } = tracksToEffects(tracks, mediaFiles, [fade]);
+      expect(effects[0].kind).to.equal('adjustment');
+      expect(filters.map((filter) => filter.targetEffectId)).to.deep.equal(['adj', 'adj']);
+      expect(roundTrip(tracks)).to.deep.equal(tracks);
+    },
+    'keeps elements without a transform centered': async () => {
+      const tracks = [track('main', 'media', [clip('a', 'video-a')])];
+      const [{ elements: [element] }] = roundTrip(tracks);
+      expect(element).to.not.have.property('transform');
+    },
+    'leaves out clips whose media is offline': async () => {
+      const tracks = [track('main', 'media', [clip('a', 'video-a'), clip('b', 'gone', { startTime: 20 })])];
+      const { effects, pendingMediaIds, offlineMediaIds } = tracksToEffects(tracks, mediaFiles, [fade]);
+      expect(effects.map((effect) => effect.id)).to.deep.equal(['a']);
+      expect(pendingMediaIds).to.be.empty;
+      expect(offlineMediaIds).to.deep.equal(['gone']);
+    },
+  },
+  'effect props': {
+    'leave the rest of the effect alone when edited': async () => {
+      for (const overrides of propEdits) {
+        const [before, after] = editClip(overrides);
+        expect(after.map(without_effect_props)).to.deep.equal(before.map(without_effect_props));
+        expect(after.map((effect, i) => effect_props_changed(effect, before[i]))).to.deep.equal([false, true]);
+      }
+    },
+    'copy onto the existing effect and drop what was cleared': async () => {
+      for (const overrides of propEdits) {
+        const [before, after] = editClip(overrides);
+        const effect = structuredClone(before[1]);
+        copy_effect_props(effect, after[1]);
+        expect(effect_props_changed(effect, after[1])).to.equal(false);
+        expect(effect).to.deep.equal(after[1]);
+      }
+    },
+    'leave trims and timing to the effect': async () => {
+      for (const overrides of [{ trimStart: 2 }, { startTime: 5 }, { speed: 2 }, { mediaId: 'video-b' }]) {
+        const [before, after] = editClip(overrides);
+        expect(JSON.stringify(without_effect_props(after[1])) === JSON.stringify(without_effect_props(before[1]))).to.equal(false);
+        expect(effect_props_changed(after[1], before[1])).to.equal(false);
+      }
+    },
+  },
+};
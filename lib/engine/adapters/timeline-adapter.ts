@@ -3,23 +3,57 @@
  * 
  * Translates between Alphax timeline data model and Omniclip effect model.
  * 
+ * The Alphax timeline (useTimelineStore) is the document and owns undo/redo.
+ * Engine state is derived from it with tracksToEffects; the reverse mapping is
+ * only used to read engine-side edits, such as canvas drags, back into the store.
+ * Both directions are lossless, see timeline-adapter.test.ts.
+ * 
  * Key Mappings:
  * - TimelineElement ↔ AnyEffect
  * - startTime ↔ start_at_position
  * - mediaId ↔ file_hash
  * - TimelineTrack.id ↔ track (zero-based index)
  * - duration/trimStart/trimEnd ↔ start/end/duration
+ * - keyframes (seconds) ↔ keyframes (milliseconds), both measured from the untrimmed start
+ * - speed/speedCurve ↔ speed/speed_curve; Alphax times are on the timeline clock,
+ *   Omniclip start/end/duration are positions in the source media
+ * - words/captionStyle ↔ words/caption_style, word times in seconds ↔ milliseconds
+ * - gain/fadeIn/fadeOut/muted ↔ gain/fade_in/fade_out/muted, fades in seconds ↔ milliseconds
+ * - TimelineTrack volume/pan/solo/muted ↔ XTrack, see tracksToXTracks
+ * - transform ↔ rect, the default centered rect when omitted
+ * - colorGrade ↔ color_grade, same shape on both sides, LUT data is shared rather than copied
+ * - key ↔ key, same shape on both sides
+ * - masks/trackMatte ↔ masks/track_matte on video, image and text, same shape on both sides
+ * - opacity/blendMode ↔ opacity/blend_mode on video, image and text, normal and full opacity when omitted
+ * - crop/flipX/flipY/fit ↔ crop/flip_x/flip_y/fit on video and image, crop in source pixels
+ * - frame/layoutSlot ↔ frame/layout_slot on video and image, border fields in snake case
+ * - text stroke/shadow/spacing ↔ PIXI text style props
+ * - filters ↔ state.filters, keyed by targetEffectId in chain order, params validated against FilterSchemas
+ * - AdjustmentElement ↔ AdjustmentEffect, only timing and its filter chain
+ * - transitionIn ↔ state.transitions, the element is the incoming effect
  */
 
-import type { TimelineElement, MediaElement, TextElement, TimelineTrack } from '@/types/timeline';
+import type { TimelineElement, MediaElement, TextElement, AdjustmentElement, TimelineTrack, ElementKeyframes, ElementTransform, CaptionStyle as ElementCaptionStyle } from '@/types/timeline';
 import type { 
   AnyEffect, 
   VideoEffect, 
   AudioEffect, 
   ImageEffect, 
   TextEffect,
-  EffectRect
+  AdjustmentEffect,
+  EffectRect,
+  CaptionStyle,
+  XTrack
 } from '../state/types';
+import type { Keyframe, Keyframes } from '../controllers/controllers/compositor/parts/keyframe-manager';
+import { validate_filter_params, type Filter, type FilterType } from '../controllers/controllers/compositor/parts/filter-manager';
+import type { Transition } from '../controllers/controllers/compositor/parts/transition-manager';
+import type { GLTransition } from '../state/global';
+import { local_to_source, source_to_local, type SpeedSettings } from '../utils/utils/effect-speed';
+import type { AudioSettings } from '../utils/utils/effect-audio';
+import type { ColorGrade } from '../utils/utils/color-grade';
+import type { EffectKey } from '../utils/utils/keyer';
+import type { MaskSettings } from '../utils/utils/effect-mask';
 import type { MediaFile } from '@/types/media';
 import type { TextStyleAlign } from '../state/pixi.mjs';
 import { generate_id } from '@benev/slate/x/tools/generate_id';
@@ -92,7 +126,18 @@ export function clearMediaMappings() {
  * Tracks are ordered: text tracks first, then media tracks, then audio tracks
  */
 export function getTrackIndex(trackId: string, tracks: TimelineTrack[]): number {
-  const sortedTracks = [...tracks].sort((a, b) => {
+  return sortEngineTracks(tracks).findIndex(track => track.id === trackId);
+}
+
+/**
+ * Get track ID from track index
+ */
+export function getTrackId(trackIndex: number, tracks: TimelineTrack[]): string | undefined {
+  return sortEngineTracks(tracks)[trackIndex]?.id;
+}
+
+function sortEngineTracks(tracks: TimelineTrack[]): TimelineTrack[] {
+  return [...tracks].sort((a, b) => {
     // Text tracks first
     if (a.type === 'text' && b.type !== 'text') return -1;
     if (b.type === 'text' && a.type !== 'text') return 1;
@@ -103,23 +148,158 @@ export function getTrackIndex(trackId: string, tracks: TimelineTrack[]): number
     
     return 0;
   });
+}
 
-  return sortedTracks.findIndex(track => track.id === trackId);
+/**
+ * Convert Alphax tracks to Omniclip tracks, indexed the same way as effect.track
+ * so the mixer can look up volume, pan, mute and solo per effect
+ */
+export function tracksToXTracks(tracks: TimelineTrack[]): XTrack[] {
+  return sortEngineTracks(tracks).map((track) => ({
+    id: track.id,
+    locked: false,
+    visible: true,
+    muted: track.muted ?? false,
+    volume: track.volume ?? 1,
+    pan: track.pan ?? 0,
+    solo: track.solo ?? false,
+  }));
 }
 
 /**
- * Get track ID from track index
+ * Convert element keyframes (seconds) to effect keyframes (milliseconds)
  */
-export function getTrackId(trackIndex: number, tracks: TimelineTrack[]): string | undefined {
-  const sortedTracks = [...tracks].sort((a, b) => {
-    if (a.type === 'text' && b.type !== 'text') return -1;
-    if (b.type === 'text' && a.type !== 'text') return 1;
-    if (a.type === 'audio' && b.type !== 'audio') return 1;
-    if (b.type === 'audio' && a.type !== 'audio') return -1;
-    return 0;
-  });
+function keyframesToEffect(keyframes?: ElementKeyframes): Keyframes | undefined {
+  if (!keyframes) return undefined;
+  const result: Keyframes = {};
+  for (const [property, list] of Object.entries(keyframes)) {
+    result[property as keyof Keyframes] = (list ?? []).map((keyframe) => ({
+      ...keyframe,
+      time: keyframe.time * 1000,
+    }));
+  }
+  return result;
+}
+
+/**
+ * Convert effect keyframes (milliseconds) to element keyframes (seconds)
+ */
+function keyframesToElement(keyframes?: Keyframes): ElementKeyframes | undefined {
+  if (!keyframes) return undefined;
+  const result: ElementKeyframes = {};
+  for (const [property, list] of Object.entries(keyframes)) {
+    result[property as keyof ElementKeyframes] = (list ?? []).map((keyframe) => ({
+      ...keyframe,
+      time: keyframe.time / 1000,
+    }));
+  }
+  return result;
+}
+
+/**
+ * Convert caption style between element (camelCase) and effect (snake_case) naming
+ */
+function captionStyleToEffect(style: ElementCaptionStyle): CaptionStyle {
+  return {
+    animation: style.animation,
+    highlight_color: style.highlightColor,
+    highlight_background: style.highlightBackground,
+    upcoming_opacity: style.upcomingOpacity,
+    pop_scale: style.popScale,
+  };
+}
 
-  return sortedTracks[trackIndex]?.id;
+function captionStyleToElement(style: CaptionStyle): ElementCaptionStyle {
+  return {
+    animation: style.animation,
+    highlightColor: style.highlight_color,
+    highlightBackground: style.highlight_background,
+    upcomingOpacity: style.upcoming_opacity,
+    popScale: style.pop_scale,
+  };
+}
+
+/**
+ * Copy a color grade between the models. LUT data is shared so the compositor
+ * only uploads a new LUT texture when the LUT itself is replaced
+ */
+function copyColorGrade(grade: ColorGrade): ColorGrade {
+  return {
+    lift: [...grade.lift],
+    gamma: [...grade.gamma],
+    gain: [...grade.gain],
+    curves: {
+      master: grade.curves.master.map(([x, y]) => [x, y]),
+      red: grade.curves.red.map(([x, y]) => [x, y]),
+      green: grade.curves.green.map(([x, y]) => [x, y]),
+      blue: grade.curves.blue.map(([x, y]) => [x, y]),
+    },
+    ...(grade.hsl && {
+      hsl: {
+        ...grade.hsl,
+        saturation: [...grade.hsl.saturation],
+        luminance: [...grade.hsl.luminance],
+        adjust: { ...grade.hsl.adjust },
+      },
+    }),
+    ...(grade.lut && {
+      lut: { ...grade.lut, min: [...grade.lut.min], max: [...grade.lut.max] },
+    }),
+    ...(grade.bypassed && { bypassed: true }),
+  };
+}
+
+/**
+ * Copy a chroma or luma key between the models
+ */
+function copyKey(key: EffectKey): EffectKey {
+  return key.type === 'chroma' ? { ...key, color: [...key.color] } : { ...key };
+}
+
+/**
+ * Copy masks and the track matte between the models
+ */
+function copyMasks(settings: MaskSettings): MaskSettings {
+  return {
+    ...(settings.masks && {
+      masks: settings.masks.map((mask) => ({
+        ...mask,
+        ...(mask.points && { points: mask.points.map((point) => [...point] as typeof point) }),
+      })),
+    }),
+    ...(settings.track_matte && { track_matte: { ...settings.track_matte } }),
+  };
+}
+
+/**
+ * Extract engine speed settings from a media element
+ */
+function speedToEffect(element: MediaElement): SpeedSettings {
+  const settings: SpeedSettings = {};
+  if (element.speed !== undefined && element.speed !== 1) {
+    settings.speed = element.speed;
+  }
+  if (element.speedCurve && element.speedCurve.length > 0) {
+    settings.speed_curve = element.speedCurve.map((keyframe): Keyframe => ({
+      ...keyframe,
+      time: keyframe.time * 1000,
+    }));
+  }
+  return settings;
+}
+
+/**
+ * Extract engine audio settings from a media element
+ */
+function audioToEffect(element: MediaElement): AudioSettings {
+  const settings: AudioSettings = {};
+  if (element.gain !== undefined && element.gain !== 1) {
+    settings.gain = element.gain;
+  }
+  if (element.fadeIn) settings.fade_in = element.fadeIn * 1000;
+  if (element.fadeOut) settings.fade_out = element.fadeOut * 1000;
+  if (element.muted) settings.muted = true;
+  return settings;
 }
 
 /**
@@ -145,6 +325,60 @@ function createDefaultRect(width: number = 1920, height: number = 1080, canvasWi
   };
 }
 
+/**
+ * Apply an element transform to the default rect
+ */
+function transformToRect(transform: ElementTransform | undefined, width?: number, height?: number): EffectRect {
+  const rect = createDefaultRect(width, height);
+  if (!transform) return rect;
+  return {
+    ...rect,
+    scaleX: transform.scaleX,
+    scaleY: transform.scaleY,
+    position_on_canvas: { x: transform.x, y: transform.y },
+    rotation: transform.rotation,
+    pivot: { x: transform.pivotX, y: transform.pivotY },
+  };
+}
+
+/**
+ * Read an element transform from an effect rect
+ */
+export function rectToTransform(rect: EffectRect): ElementTransform {
+  return {
+    x: rect.position_on_canvas.x,
+    y: rect.position_on_canvas.y,
+    scaleX: rect.scaleX,
+    scaleY: rect.scaleY,
+    rotation: rect.rotation,
+    pivotX: rect.pivot.x,
+    pivotY: rect.pivot.y,
+  };
+}
+
+/**
+ * Transform of an element without one, for editing it in the properties panel
+ */
+export function defaultTransform(width?: number, height?: number): ElementTransform {
+  return rectToTransform(createDefaultRect(width, height));
+}
+
+/**
+ * Elements that were never moved keep no transform, so they follow the default
+ */
+function rectToElementTransform(rect: EffectRect): ElementTransform | undefined {
+  const transform = rectToTransform(rect);
+  const untouched = rectToTransform(createDefaultRect(rect.width, rect.height));
+  return JSON.stringify(transform) === JSON.stringify(untouched) ? undefined : transform;
+}
+
+/**
+ * Loaded gl-transitions, empty outside the browser
+ */
+function getGLTransitions(): GLTransition[] {
+  return typeof window !== 'undefined' ? window.GLTransitions ?? [] : [];
+}
+
 /**
  * Convert Alphax TimelineElement to Omniclip Effect
  */
@@ -164,18 +398,22 @@ export function alphaxToOmniclip(
   // So effective duration on timeline = end - start = (duration - trimEnd) - trimStart
   
   // CRITICAL: Convert Alphax SECONDS to Omniclip MILLISECONDS
+  // Alphax durations/trims are on the timeline clock, so clip speed is applied
+  // to get positions within the media (identity at 1x)
+  const speedSettings = element.type === 'media' ? speedToEffect(element as MediaElement) : {};
+  const audioSettings = element.type === 'media' ? audioToEffect(element as MediaElement) : {};
+  const toSourceMs = (seconds: number) => local_to_source(speedSettings, seconds * 1000);
   const startTimeMs = element.startTime * 1000;
-  const durationMs = element.duration * 1000;
-  const trimStartMs = element.trimStart * 1000;
-  const trimEndMs = element.trimEnd * 1000;
+  const durationMs = toSourceMs(element.duration);
 
   const baseEffect = {
     id: element.id,
     start_at_position: startTimeMs,
     duration: durationMs,
-    start: trimStartMs,
-    end: durationMs - trimEndMs, // End point within media, NOT trimEnd!
+    start: toSourceMs(element.trimStart),
+    end: toSourceMs(element.duration - element.trimEnd), // End point within media, NOT trimEnd!
     track: trackIndex,
+    ...(element.keyframes && { keyframes: keyframesToEffect(element.keyframes) }),
   };
 
   // Convert based on element type
@@ -196,30 +434,46 @@ export function alphaxToOmniclip(
       fillGradientType: 0, // No gradient by default
       fillGradientStops: [],
       // Correct stroke to use only a color string, as required by type
-      stroke: 'transparent',
-      strokeThickness: 0,
+      stroke: textElement.strokeColor ?? 'transparent',
+      strokeThickness: textElement.strokeWidth ?? 0,
       lineJoin: 'miter',
       miterLimit: 10,
-      letterSpacing: 0,
-      dropShadow: false,
-      dropShadowAlpha: 1,
-      dropShadowAngle: 0.523599,
-      dropShadowBlur: 0,
-      dropShadowDistance: 5,
-      dropShadowColor: '#000000',
+      letterSpacing: textElement.letterSpacing ?? 0,
+      dropShadow: !!textElement.shadow,
+      dropShadowAlpha: textElement.shadow?.opacity ?? 1,
+      dropShadowAngle: textElement.shadow?.angle ?? 0.523599,
+      dropShadowBlur: textElement.shadow?.blur ?? 0,
+      dropShadowDistance: textElement.shadow?.distance ?? 5,
+      dropShadowColor: textElement.shadow?.color ?? '#000000',
       wordWrap: true,
       wordWrapWidth: 500,
-      lineHeight: 0,
+      lineHeight: textElement.lineHeight ?? 0,
       leading: 0,
       breakWords: false,
       whiteSpace: 'normal',
       textBaseline: 'alphabetic',
+      name: textElement.name,
+      background_color: textElement.backgroundColor,
+      text_decoration: textElement.textDecoration,
+      opacity: textElement.opacity,
+      ...(textElement.words && textElement.captionStyle && {
+        words: textElement.words.map((word) => ({
+          text: word.text,
+          start: word.start * 1000,
+          end: word.end * 1000,
+        })),
+        caption_style: captionStyleToEffect(textElement.captionStyle),
+      }),
+      ...copyMasks({ masks: textElement.masks, track_matte: textElement.trackMatte }),
+      ...(textElement.blendMode && { blend_mode: textElement.blendMode }),
       rect: {
         ...createDefaultRect(500, 100),
         position_on_canvas: {
           x: textElement.x,
           y: textElement.y,
         },
+        scaleX: textElement.scaleX ?? 1,
+        scaleY: textElement.scaleY ?? 1,
         rotation: textElement.rotation,
       },
     };
@@ -227,8 +481,38 @@ export function alphaxToOmniclip(
     return textEffect;
   }
 
+  if (element.type === 'adjustment') {
+    const adjustmentEffect: AdjustmentEffect = {
+      ...baseEffect,
+      kind: 'adjustment',
+      name: element.name,
+    };
+    return adjustmentEffect;
+  }
+
   // Media element (video, audio, or image)
   const mediaElement = element as MediaElement;
+  const colorSettings = {
+    ...(mediaElement.colorGrade && { color_grade: copyColorGrade(mediaElement.colorGrade) }),
+    ...(mediaElement.key && { key: copyKey(mediaElement.key) }),
+    ...copyMasks({ masks: mediaElement.masks, track_matte: mediaElement.trackMatte }),
+    ...(mediaElement.opacity !== undefined && { opacity: mediaElement.opacity }),
+    ...(mediaElement.blendMode && { blend_mode: mediaElement.blendMode }),
+  };
+  const layoutSettings = {
+    ...(mediaElement.crop && { crop: { ...mediaElement.crop } }),
+    ...(mediaElement.flipX && { flip_x: true }),
+    ...(mediaElement.flipY && { flip_y: true }),
+    ...(mediaElement.fit && { fit: mediaElement.fit }),
+    ...(mediaElement.frame && {
+      frame: {
+        radius: mediaElement.frame.radius,
+        border_width: mediaElement.frame.borderWidth,
+        border_color: mediaElement.frame.borderColor,
+      },
+    }),
+    ...(mediaElement.layoutSlot && { layout_slot: { ...mediaElement.layoutSlot } }),
+  };
   const fileHash = getFileHash(mediaElement.mediaId);
   
   // If media not yet synced to engine, skip this element
@@ -242,13 +526,17 @@ export function alphaxToOmniclip(
     if (mediaFile.type === 'video') {
       const videoEffect: VideoEffect = {
         ...baseEffect,
+        ...speedSettings,
+        ...audioSettings,
         kind: 'video',
         file_hash: fileHash,
         name: element.name,
         thumbnail: mediaFile.thumbnailUrl || '',
         raw_duration: mediaFile.duration || durationMs, // Use ms duration
         frames: Math.round((mediaFile.fps || 30) * (mediaFile.duration || durationMs) / 1000),
-        rect: createDefaultRect(mediaFile.width, mediaFile.height),
+        rect: transformToRect(mediaElement.transform, mediaFile.width, mediaFile.height),
+        ...colorSettings,
+        ...layoutSettings,
       };
       return videoEffect;
     }
@@ -259,7 +547,9 @@ export function alphaxToOmniclip(
         kind: 'image',
         file_hash: fileHash,
         name: element.name,
-        rect: createDefaultRect(mediaFile.width, mediaFile.height),
+        rect: transformToRect(mediaElement.transform, mediaFile.width, mediaFile.height),
+        ...colorSettings,
+        ...layoutSettings,
       };
       return imageEffect;
     }
@@ -267,6 +557,8 @@ export function alphaxToOmniclip(
     if (mediaFile.type === 'audio') {
       const audioEffect: AudioEffect = {
         ...baseEffect,
+        ...speedSettings,
+        ...audioSettings,
         kind: 'audio',
         file_hash: fileHash,
         name: element.name,
@@ -279,13 +571,17 @@ export function alphaxToOmniclip(
   // Fallback: assume video if we can't determine type
   const fallbackEffect: VideoEffect = {
     ...baseEffect,
+    ...speedSettings,
+    ...audioSettings,
     kind: 'video',
     file_hash: fileHash,
     name: element.name,
     thumbnail: '',
     raw_duration: durationMs, // Use ms duration
     frames: Math.round(30 * durationMs / 1000), // Assume 30fps
-    rect: createDefaultRect(),
+    rect: transformToRect(mediaElement.transform),
+    ...colorSettings,
+    ...layoutSettings,
   };
   
   return fallbackEffect;
@@ -312,19 +608,30 @@ export function omniclipToAlphax(
   // So: trimEnd = duration - effect.end
   
   // CRITICAL: Convert Omniclip MILLISECONDS to Alphax SECONDS
-  const durationSec = effect.duration / 1000;
+  // Source positions are mapped back to the timeline clock using clip speed
+  const speedSettings: SpeedSettings =
+    effect.kind === 'video' || effect.kind === 'audio'
+      ? { speed: effect.speed, speed_curve: effect.speed_curve }
+      : {};
+  const audioSettings: AudioSettings =
+    effect.kind === 'video' || effect.kind === 'audio'
+      ? { gain: effect.gain, fade_in: effect.fade_in, fade_out: effect.fade_out, muted: effect.muted }
+      : {};
+  const toTimelineSec = (ms: number) => source_to_local(speedSettings, ms) / 1000;
+  const durationSec = toTimelineSec(effect.duration);
   const startTimeSec = effect.start_at_position / 1000;
-  const trimStartSec = effect.start / 1000;
-  // effect.end is also in ms, so (duration - end) gives trimEnd in ms, divide by 1000 for seconds
-  const trimEndSec = (effect.duration - effect.end) / 1000;
+  const trimStartSec = toTimelineSec(effect.start);
+  // effect.end is a source position, so trimEnd is what remains after it on the timeline clock
+  const trimEndSec = durationSec - toTimelineSec(effect.end);
 
   const baseElement = {
     id: effect.id,
-    name: 'name' in effect ? effect.name : 'Untitled',
+    name: effect.name ?? 'Untitled',
     duration: durationSec,
     startTime: startTimeSec,
     trimStart: trimStartSec,
     trimEnd: trimEndSec,
+    ...(effect.keyframes && { keyframes: keyframesToElement(effect.keyframes) }),
   };
 
   // Convert based on effect kind
@@ -338,19 +645,54 @@ export function omniclipToAlphax(
       color: Array.isArray(effect.fill) && effect.fill.length > 0 
         ? String(effect.fill[0]) 
         : '#ffffff',
-      backgroundColor: 'transparent',
+      backgroundColor: effect.background_color ?? 'transparent',
       textAlign: mapTextAlign(effect.align),
       fontWeight: effect.fontWeight === 'bold' ? 'bold' : 'normal',
       fontStyle: effect.fontStyle === 'italic' ? 'italic' : 'normal',
-      textDecoration: 'none',
+      textDecoration: effect.text_decoration ?? 'none',
       x: effect.rect?.position_on_canvas?.x || 0,
       y: effect.rect?.position_on_canvas?.y || 0,
       rotation: effect.rect?.rotation || 0,
-      opacity: 1,
+      opacity: effect.opacity ?? 1,
+      ...(effect.rect && effect.rect.scaleX !== 1 && { scaleX: effect.rect.scaleX }),
+      ...(effect.rect && effect.rect.scaleY !== 1 && { scaleY: effect.rect.scaleY }),
+      ...(effect.stroke !== 'transparent' && { strokeColor: String(effect.stroke) }),
+      ...(effect.strokeThickness && { strokeWidth: effect.strokeThickness }),
+      ...(effect.letterSpacing && { letterSpacing: effect.letterSpacing }),
+      ...(effect.lineHeight && { lineHeight: effect.lineHeight }),
+      ...(effect.dropShadow && {
+        shadow: {
+          color: String(effect.dropShadowColor),
+          opacity: effect.dropShadowAlpha,
+          blur: effect.dropShadowBlur,
+          distance: effect.dropShadowDistance,
+          angle: effect.dropShadowAngle,
+        },
+      }),
+      ...(effect.words && effect.caption_style && {
+        words: effect.words.map((word) => ({
+          text: word.text,
+          start: word.start / 1000,
+          end: word.end / 1000,
+        })),
+        captionStyle: captionStyleToElement(effect.caption_style),
+      }),
     };
+    const { masks, track_matte } = copyMasks(effect);
+    if (masks) textElement.masks = masks;
+    if (track_matte) textElement.trackMatte = track_matte;
+    if (effect.blend_mode) textElement.blendMode = effect.blend_mode;
     return textElement;
   }
 
+  if (effect.kind === 'adjustment') {
+    const adjustmentElement: AdjustmentElement = {
+      ...baseElement,
+      type: 'adjustment',
+    };
+    return adjustmentElement;
+  }
+
   // Media effects (video, audio, image)
   const mediaId = getMediaId(effect.file_hash);
   
@@ -363,8 +705,41 @@ export function omniclipToAlphax(
     ...baseElement,
     type: 'media',
     mediaId: mediaId || effect.file_hash,
-    muted: effect.kind === 'video' ? false : undefined,
+    ...(audioSettings.muted && { muted: true }),
+    ...(audioSettings.gain !== undefined && { gain: audioSettings.gain }),
+    ...(audioSettings.fade_in && { fadeIn: audioSettings.fade_in / 1000 }),
+    ...(audioSettings.fade_out && { fadeOut: audioSettings.fade_out / 1000 }),
+    ...(speedSettings.speed !== undefined && { speed: speedSettings.speed }),
+    ...(speedSettings.speed_curve && {
+      speedCurve: speedSettings.speed_curve.map((keyframe) => ({
+        ...keyframe,
+        time: keyframe.time / 1000,
+      })),
+    }),
   };
+  if (effect.kind === 'video' || effect.kind === 'image') {
+    const transform = rectToElementTransform(effect.rect);
+    if (transform) mediaElement.transform = transform;
+    if (effect.color_grade) mediaElement.colorGrade = copyColorGrade(effect.color_grade);
+    if (effect.key) mediaElement.key = copyKey(effect.key);
+    const { masks, track_matte } = copyMasks(effect);
+    if (masks) mediaElement.masks = masks;
+    if (track_matte) mediaElement.trackMatte = track_matte;
+    if (effect.opacity !== undefined) mediaElement.opacity = effect.opacity;
+    if (effect.blend_mode) mediaElement.blendMode = effect.blend_mode;
+    if (effect.crop) mediaElement.crop = { ...effect.crop };
+    if (effect.flip_x) mediaElement.flipX = true;
+    if (effect.flip_y) mediaElement.flipY = true;
+    if (effect.fit) mediaElement.fit = effect.fit;
+    if (effect.frame) {
+      mediaElement.frame = {
+        radius: effect.frame.radius,
+        borderWidth: effect.frame.border_width,
+        borderColor: effect.frame.border_color,
+      };
+    }
+    if (effect.layout_slot) mediaElement.layoutSlot = { ...effect.layout_slot };
+  }
 
   return mediaElement;
 }
@@ -374,21 +749,56 @@ export function omniclipToAlphax(
  */
 export interface TracksToEffectsResult {
   effects: AnyEffect[];
+  filters: Filter[];
+  transitions: Transition[];
   pendingMediaIds: string[];
+  // Media whose file is missing, elements using it are left out
+  offlineMediaIds: string[];
+}
+
+/**
+ * Engine state that effectsToTracks reads besides the effects
+ */
+export interface EffectExtras {
+  filters?: Filter[];
+  transitions?: Transition[];
+}
+
+/**
+ * Engine filters of an element's chain, params validated against FilterSchemas
+ */
+function elementFiltersToEffect(element: MediaElement | AdjustmentElement): Filter[] {
+  return (element.filters ?? []).map((filter) => {
+    const type = filter.type as FilterType;
+    return {
+      id: filter.id,
+      targetEffectId: element.id,
+      type,
+      params: validate_filter_params(type, filter.params),
+      ...(filter.bypassed && { bypassed: true }),
+    };
+  });
 }
 
 /**
  * Convert array of Alphax timeline tracks to Omniclip effects
  * 
- * Returns both the converted effects and a list of media IDs that are pending sync.
- * This allows the caller to retry once media is synced.
+ * Returns the converted effects with their filters and transitions, and a list of
+ * media IDs that are pending sync. This allows the caller to retry once media is synced.
+ * Media missing from `mediaFiles` is offline, retrying will not bring it back until it
+ * is relinked, so it is reported apart.
+ * Transitions whose shader isn't among `glTransitions` are skipped.
  */
 export function tracksToEffects(
   tracks: TimelineTrack[],
-  mediaFiles: Map<string, MediaFile>
+  mediaFiles: Map<string, MediaFile>,
+  glTransitions: GLTransition[] = getGLTransitions()
 ): TracksToEffectsResult {
   const effects: AnyEffect[] = [];
+  const filters: Filter[] = [];
+  const transitions: Transition[] = [];
   const pendingMediaIds: string[] = [];
+  const offlineMediaIds: string[] = [];
 
   for (const track of tracks) {
     for (const element of track.elements) {
@@ -396,6 +806,10 @@ export function tracksToEffects(
         const mediaFile = element.type === 'media' 
           ? mediaFiles.get((element as MediaElement).mediaId)
           : undefined;
+        if (element.type === 'media' && !mediaFile) {
+          offlineMediaIds.push(element.mediaId);
+          continue;
+        }
         
         const effect = alphaxToOmniclip(element, track, tracks, mediaFile);
         effects.push(effect);
@@ -411,7 +825,73 @@ export function tracksToEffects(
     }
   }
 
-  return { effects, pendingMediaIds };
+  const transitionable = new Map(
+    effects
+      .filter((effect): effect is VideoEffect | ImageEffect => effect.kind === 'video' || effect.kind === 'image')
+      .map((effect) => [effect.id, effect])
+  );
+  for (const track of tracks) {
+    for (const element of track.elements) {
+      if (element.type === 'adjustment') {
+        filters.push(...elementFiltersToEffect(element));
+        continue;
+      }
+      const incoming = transitionable.get(element.id);
+      if (element.type !== 'media' || !incoming) continue;
+
+      filters.push(...elementFiltersToEffect(element));
+
+      const transitionIn = element.transitionIn;
+      if (!transitionIn) continue;
+      const outgoing = transitionable.get(transitionIn.fromElementId);
+      const transition = glTransitions.find((gl) => gl.name === transitionIn.name);
+      if (outgoing && transition) {
+        transitions.push({
+          id: transitionIn.id,
+          duration: transitionIn.duration * 1000,
+          incoming,
+          outgoing,
+          transition,
+        });
+      }
+    }
+  }
+
+  return { effects, filters, transitions, pendingMediaIds, offlineMediaIds };
+}
+
+/**
+ * Add the filters and incoming transition of a converted media or adjustment element
+ */
+function withEffectExtras(
+  element: TimelineElement,
+  { filters = [], transitions = [] }: EffectExtras
+): TimelineElement {
+  if (element.type === 'text') return element;
+  const elementFilters = filters
+    .filter((filter) => filter.targetEffectId === element.id)
+    .map((filter) => ({
+      id: filter.id,
+      type: filter.type,
+      params: filter.params,
+      ...(filter.bypassed && { bypassed: true }),
+    }));
+  if (element.type === 'adjustment') {
+    return elementFilters.length > 0 ? { ...element, filters: elementFilters } : element;
+  }
+  const transition = transitions.find((t) => t.incoming.id === element.id);
+  return {
+    ...element,
+    ...(elementFilters.length > 0 && { filters: elementFilters }),
+    ...(transition && {
+      transitionIn: {
+        id: transition.id,
+        name: transition.transition.name,
+        duration: transition.duration / 1000,
+        fromElementId: transition.outgoing.id,
+      },
+    }),
+  };
 }
 
 /**
@@ -419,7 +899,8 @@ export function tracksToEffects(
  */
 export function effectsToTracks(
   effects: AnyEffect[],
-  existingTracks: TimelineTrack[]
+  existingTracks: TimelineTrack[],
+  extras: EffectExtras = {}
 ): TimelineTrack[] {
   // Group effects by track index
   const effectsByTrack = new Map<number, AnyEffect[]>();
@@ -436,7 +917,7 @@ export function effectsToTracks(
     const trackEffects = effectsByTrack.get(trackIndex) || [];
     
     const elements = trackEffects.map(effect => 
-      omniclipToAlphax(effect, existingTracks)
+      withEffectExtras(omniclipToAlphax(effect, existingTracks), extras)
     );
 
     return {
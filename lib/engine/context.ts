@@ -29,6 +29,7 @@ console.log("[ENGINE_CONTEXT] Timeline imported");
 import { Compositor } from "./controllers/controllers/compositor/controller";
 console.log("[ENGINE_CONTEXT] Compositor imported");
 import { VideoExport } from "./controllers/controllers/video-export/controller";
+import type { ExportSettings } from "./controllers/controllers/video-export/utils/export_codecs";
 console.log("[ENGINE_CONTEXT] VideoExport imported");
 import { Project } from "./controllers/controllers/project/controller";
 console.log("[ENGINE_CONTEXT] Project imported");
@@ -38,6 +39,7 @@ console.log("[ENGINE_CONTEXT] store imported");
 // console.log("[ENGINE_CONTEXT] Collaboration imported");
 import { registerEngineInternals } from "./omnislate";
 console.log("[ENGINE_CONTEXT] omnislate imported");
+import { get_effect_timeline_end } from "./utils/utils/effect-speed";
 // import { collaboration } from "./collaboration-instance";
 // console.log("[ENGINE_CONTEXT] collaboration-instance imported");
 console.log("[ENGINE_CONTEXT] All imports complete");
@@ -109,7 +111,7 @@ export interface EngineAPI {
   setZoom: (zoom: number) => void;
 
   // Export
-  startExport: (bitrate?: number) => void;
+  startExport: (bitrate?: number, settings?: ExportSettings) => void;
   stopExport: () => void;
   saveExportedFile: () => Promise<void>;
   getExportProgress: () => number;
@@ -161,10 +163,12 @@ export function createEngine(config: EngineConfig): EngineAPI {
     projectName: config.projectName || `Project ${config.projectId.slice(0, 6)}`,
   };
 
-  // Create AppCore for historical state (with undo/redo)
+  // Create AppCore for historical state
+  // The Alphax timeline store is the document and owns undo/redo. Engine state
+  // is derived from it, so a second history would only drift from the first
   coreInstance = new AppCore({
     initial_state: initialHistoricalState,
-    history_limit: 64,
+    history_limit: 0,
     actions_blueprint: ZipAction.blueprint<HistoricalState>()(historical)
   });
 
@@ -339,7 +343,7 @@ export function createEngine(config: EngineConfig): EngineAPI {
       if (effects.length === 0) return 0;
       
       const maxEndTime = Math.max(
-        ...effects.map((effect: AnyEffect) => effect.start_at_position + (effect.end - effect.start))
+        ...effects.map((effect: AnyEffect) => get_effect_timeline_end(effect))
       );
       return maxEndTime;
     },
@@ -358,9 +362,11 @@ export function createEngine(config: EngineConfig): EngineAPI {
     },
 
     // Export
-    startExport: (bitrate = 9000) => {
+    startExport: (bitrate = 9000, settings?: ExportSettings) => {
       const state = getState();
-      videoExport.export_start(state, bitrate);
+      videoExport.export_start(state, bitrate, settings).catch((error) => {
+        console.error("[Engine] Export failed", error);
+      });
     },
 
     stopExport: () => {
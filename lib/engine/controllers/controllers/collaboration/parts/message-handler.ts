@@ -5,8 +5,9 @@ import {omnislate} from "../../../../omnislate"
 import {FileHandler} from "./file-handler"
 import type {Collaboration} from "../controller"
 import {showToast} from "../../../../utils/utils/show-toast"
-import {AnyEffect, ImageEffect, State, VideoEffect} from "../../../../state/types"
+import {AnyEffect, State} from "../../../../state/types"
 import {AnyMedia} from "../../../../types/media-types"
+import type {Filter, FilterableEffect} from "../../compositor/parts/filter-manager"
 
 type ReceivedAction<T extends keyof Actions> = {
 	actionType: T
@@ -194,6 +195,19 @@ type ActionHandlers = {
 	default: (actionType: keyof Actions, payload: any[]) => void
 }
 
+function applyFilters(effectId: string) {
+	const effect = omnislate.context.state.effects.find((e: AnyEffect) => e.id === effectId) as FilterableEffect | undefined
+	if (effect) {
+		omnislate.context.controllers.compositor.managers.filtersManager.applyEffectFilters(effect)
+	}
+}
+
+// opacity, blend modes, masks and layouts are set on the objects when effects are composed
+function recompose() {
+	const {state} = omnislate.context
+	omnislate.context.controllers.compositor.compose_effects(state.effects, state.timecode)
+}
+
 type PopLast<T extends any[]> = T extends [...infer Rest, any?] ? Rest : T
 type ActionParams<T extends keyof Actions> = PopLast<Parameters<Actions[T]>>
 
@@ -210,21 +224,22 @@ const actionHandlers: ActionHandlers = {
 	add_filter(payload) {
 		omnislate.context.actions.add_filter(...payload, { omit: true })
 		const [filter] = payload
-		const effect = omnislate.context.state.effects.find((e: AnyEffect) => e.id === filter.targetEffectId) as VideoEffect | ImageEffect
-		if (effect) {
-			omnislate.context.controllers.compositor.managers.filtersManager
-				.addFilterToEffect(effect, filter.type, true)
-		}
+		applyFilters(filter.targetEffectId)
 	},
 
 	remove_filter(payload) {
+		const [filterId] = payload
+		const filter = omnislate.context.state.filters.find((f: Filter) => f.id === filterId)
 		omnislate.context.actions.remove_filter(...payload, { omit: true })
-		const [effect, type] = payload
-		if (effect) {
-			omnislate.context.controllers.compositor.managers.filtersManager
-				.removeFilterFromEffect(effect, type, true)
-		}
+		if (filter) applyFilters(filter.targetEffectId)
+	},
 
+	apply_effect_props(payload) {
+		omnislate.context.actions.apply_effect_props(...payload, { omit: true })
+		const [effect] = payload
+		applyFilters(effect.id)
+		omnislate.context.controllers.compositor.update_canvas_objects(omnislate.context.state)
+		recompose()
 	},
 
 	add_video_effect(payload) {
@@ -240,6 +255,13 @@ const actionHandlers: ActionHandlers = {
 		omnislate.context.actions.add_video_effect(...payload, { omit: true })
 	},
 
+	add_adjustment_effect(payload) {
+		const [effect] = payload
+		if (!effect) return
+		omnislate.context.controllers.compositor.managers.adjustmentManager.add_adjustment_effect(effect, true)
+		omnislate.context.actions.add_adjustment_effect(...payload, { omit: true })
+	},
+
 	add_transition(payload) {
 		omnislate.context.controllers.compositor.managers.transitionManager.selectTransition(...payload, true).apply(omnislate.context.state)
 		omnislate.context.actions.add_transition(...payload, { omit: true })
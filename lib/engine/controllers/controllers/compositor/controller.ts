@@ -18,18 +18,25 @@ import { VideoManager } from "./parts/video-manager"
 console.log("[COMPOSITOR] VideoManager imported");
 import { Decoder } from "../video-export/parts/decoder"
 import { FiltersManager } from "./parts/filter-manager"
+import { AdjustmentManager } from "./parts/adjustment-manager"
+import { MaskManager } from "./parts/mask-manager"
+import { BlendManager } from "./parts/blend-manager"
+import { LayoutManager } from "./parts/layout-manager"
 console.log("[COMPOSITOR] FiltersManager imported");
 import { AlignGuidelines } from "./lib/aligning_guidelines"
 console.log("[COMPOSITOR] AlignGuidelines imported");
 import { AnimationManager } from "./parts/animation-manager"
 console.log("[COMPOSITOR] AnimationManager imported");
+import { KeyframeManager } from "./parts/keyframe-manager"
 import { compare_arrays } from "../../../utils/utils/compare_arrays"
 console.log("[COMPOSITOR] compare_arrays imported");
 import { TransitionManager } from "./parts/transition-manager"
 console.log("[COMPOSITOR] TransitionManager imported");
 import { get_effect_at_timestamp } from "../video-export/utils/get_effect_at_timestamp"
 console.log("[COMPOSITOR] get_effect_at_timestamp imported");
-import { AnyEffect, AudioEffect, ImageEffect, State, TextEffect, VideoEffect } from "../../../state/types"
+import { get_effect_source_time, get_effect_timeline_end } from "../../../utils/utils/effect-speed"
+import { AudibleEffect, has_audio } from "../../../utils/utils/effect-audio"
+import { AdjustmentEffect, AnyEffect, AudioEffect, State, VideoEffect } from "../../../state/types"
 console.log("[COMPOSITOR] types imported");
 import type {
 	Sprite as PIXISprite,
@@ -46,19 +53,29 @@ export interface Managers {
 	textManager: TextManager
 	imageManager: ImageManager
 	audioManager: AudioManager
+	maskManager: MaskManager
+	blendManager: BlendManager
+	layoutManager: LayoutManager
+	adjustmentManager: AdjustmentManager
 	animationManager: AnimationManager
 	filtersManager: FiltersManager
 	transitionManager: TransitionManager
+	keyframeManager: KeyframeManager
 	decoder: Decoder
 }
 
 export class Compositor {
 	on_playing = pub()
+	// canvas drags edit the engine state directly, the app writes them back to its timeline
+	on_canvas_transform = pub<Exclude<AnyEffect, AudioEffect | AdjustmentEffect>>()
 	#is_playing = signal(false)
 	#last_time = 0
 	#pause_time = 0
 	timecode = 0
 	timebase = 25
+	// set while a prerender runner draws offscreen, those renders run the
+	// runners again and only the outer render prepares the frame
+	prerendering = false
 	currently_played_effects = new Map<string, AnyEffect>()
 
 	#app: PIXIApplication | null = null
@@ -109,9 +126,14 @@ export class Compositor {
 			textManager: new TextManager(this, actions),
 			imageManager: new ImageManager(this, actions),
 			audioManager: new AudioManager(this, actions),
+			maskManager: new MaskManager(this, actions),
+			blendManager: new BlendManager(this),
+			layoutManager: new LayoutManager(this),
+			adjustmentManager: new AdjustmentManager(this, actions),
 			animationManager: new AnimationManager(this, actions, "Animation"),
-			filtersManager: new FiltersManager(this, actions),
+			filtersManager: new FiltersManager(this),
 			transitionManager: new TransitionManager(this, actions),
+			keyframeManager: new KeyframeManager(this),
 			decoder: new Decoder(actions, omnislate.context.controllers.media, this)
 		}
 
@@ -188,6 +210,8 @@ export class Compositor {
 				this.managers.videoManager.remove_video_from_canvas(effect)
 			} else if (effect.kind === "image") {
 				this.managers.imageManager.remove_image_from_canvas(effect)
+			} else if (effect.kind === "adjustment") {
+				this.managers.adjustmentManager.remove_adjustment_from_canvas(effect)
 			}
 		})
 		this.currently_played_effects.clear()
@@ -223,6 +247,13 @@ export class Compositor {
 		}
 		this.timecode = timecode
 		this.#update_currently_played_effects(effects, timecode, exporting)
+		// Keyframes and captions are applied before any await so export encodes the evaluated values
+		this.managers.blendManager.apply_blending([...this.currently_played_effects.values()])
+		this.managers.layoutManager.apply_layouts([...this.currently_played_effects.values()])
+		this.managers.keyframeManager.apply_keyframes([...this.currently_played_effects.values()], timecode)
+		this.managers.textManager.update_captions([...this.currently_played_effects.values()], timecode)
+		this.managers.audioManager.update_playback_rates(timecode)
+		this.managers.audioManager.update_mix(timecode)
 
 		if (exporting) {
 			// Export mode: blocking frame retrieval (frame-accurate)
@@ -234,7 +265,7 @@ export class Compositor {
 	}
 
 	get_effect_current_time_relative_to_timecode(effect: AnyEffect, timecode: number) {
-		const current_time = timecode - effect.start_at_position + effect.start
+		const current_time = get_effect_source_time(effect, timecode)
 		return current_time / 1000
 	}
 
@@ -242,7 +273,7 @@ export class Compositor {
 		return effects.filter(effect => {
 			const transition = this.managers.transitionManager.getTransitionByEffect(effect)
 			const { incoming, outgoing } = this.managers.transitionManager.getTransitionDurationPerEffect(transition, effect)
-			return effect.start_at_position - incoming <= timecode && timecode <= effect.start_at_position + (effect.end - effect.start) + outgoing
+			return effect.start_at_position - incoming <= timecode && timecode <= get_effect_timeline_end(effect) + outgoing
 		})
 	}
 
@@ -258,7 +289,7 @@ export class Compositor {
 
 	#setEffectsIndexes(effects: AnyEffect[]) {
 		effects.filter(e => e.kind !== "audio").forEach(e => {
-			const effect = e as ImageEffect | VideoEffect | TextEffect
+			const effect = e as Exclude<AnyEffect, AudioEffect>
 			const object = this.getObject(effect)
 			if (object) {
 				object.sprite.zIndex = omnislate.context.state.tracks.length - effect.track
@@ -286,7 +317,7 @@ export class Compositor {
 		const promises: Promise<unknown>[] = []
 
 		for (const effect of this.currently_played_effects.values()) {
-			if (effect.kind === "audio") {
+			if (has_audio(effect)) {
 				const audio = this.managers.audioManager.get(effect.id)
 				if (!redraw && audio?.paused && this.#is_playing.value) {
 					promises.push(audio.play().catch(e => console.error("Audio play failed during seek", e)))
@@ -327,6 +358,7 @@ export class Compositor {
 				this.managers.videoManager.add_video_to_canvas(effect)
 				// Start pre-buffering immediately for smooth playback
 				this.managers.decoder.start_prebuffer(effect, this.timecode)
+				this.#start_effect_audio(effect)
 			}
 			else if (effect.kind === "text") {
 				this.currently_played_effects.set(effect.id, effect)
@@ -334,19 +366,27 @@ export class Compositor {
 			}
 			else if (effect.kind === "audio") {
 				this.currently_played_effects.set(effect.id, effect)
-				const element = this.managers.audioManager.get(effect.id)
-				if (element) {
-					const current_time_in_effect = this.get_effect_current_time_relative_to_timecode(effect, this.timecode)
-					element.currentTime = current_time_in_effect
-					if (this.#is_playing.value) {
-						this.managers.audioManager.play_audio(effect).catch(e => console.error("Auto-play failed", e))
-					}
-				}
+				this.#start_effect_audio(effect)
+			}
+			else if (effect.kind === "adjustment") {
+				this.currently_played_effects.set(effect.id, effect)
+				this.managers.adjustmentManager.add_adjustment_to_canvas(effect)
 			}
 		}
 		this.update_canvas_objects(omnislate.context.state)
 	}
 
+	#start_effect_audio(effect: AudibleEffect) {
+		const element = this.managers.audioManager.get(effect.id)
+		if (element) {
+			const current_time_in_effect = this.get_effect_current_time_relative_to_timecode(effect, this.timecode)
+			element.currentTime = current_time_in_effect
+			if (this.#is_playing.value) {
+				this.managers.audioManager.play_audio(effect).catch(e => console.error("Auto-play failed", e))
+			}
+		}
+	}
+
 	#remove_effects_from_canvas(effects: AnyEffect[], exporting?: boolean) {
 		for (const effect of effects) {
 			if (effect.kind === "image") {
@@ -362,6 +402,7 @@ export class Compositor {
 				this.managers.videoManager.remove_video_from_canvas(effect)
 				if (!exporting) {
 					this.managers.videoManager.pause_video(effect)
+					this.managers.audioManager.pause_audio(effect)
 				}
 			}
 			else if (effect.kind === "audio") {
@@ -370,19 +411,26 @@ export class Compositor {
 					this.managers.audioManager.pause_audio(effect)
 				}
 			}
+			else if (effect.kind === "adjustment") {
+				this.currently_played_effects.delete(effect.id)
+				this.managers.adjustmentManager.remove_adjustment_from_canvas(effect)
+			}
 		}
 	}
 
-	getObject(effect: VideoEffect | ImageEffect | TextEffect) {
+	getObject(effect: Exclude<AnyEffect, AudioEffect>) {
 		const videoObject = this.managers.videoManager.get(effect.id)
 		const imageObject = this.managers.imageManager.get(effect.id)
 		const textObject = this.managers.textManager.get(effect.id)
+		const adjustmentObject = this.managers.adjustmentManager.get(effect.id)
 		if (videoObject) {
 			return videoObject
 		} else if (imageObject) {
 			return imageObject
 		} else if (textObject) {
 			return textObject
+		} else if (adjustmentObject) {
+			return adjustmentObject
 		}
 	}
 
@@ -412,7 +460,7 @@ export class Compositor {
 		})
 		this.app.stage.on("pointerup", (e: FederatedPointerEvent) => {
 			const target = e.target as any
-			const selected_effect = target?.effect as Exclude<AnyEffect, AudioEffect> | null
+			const selected_effect = target?.effect as Exclude<AnyEffect, AudioEffect | AdjustmentEffect> | null
 			if (selected_effect) {
 				this.actions.set_pivot(selected_effect, target.pivot.x, target.pivot.y)
 				const { rect: { position_on_canvas: { x, y } } } = selected_effect
@@ -420,16 +468,22 @@ export class Compositor {
 					const { x: tx, y: ty } = target
 					this.actions.set_position_on_canvas(selected_effect, tx, ty);
 					this.actions.set_rotation(selected_effect, target.angle)
-					this.actions.set_effect_scale(selected_effect, { x: target.scale.x, y: target.scale.y })
+					// flips are kept in the layout, the rect holds the plain scale
+					const scale = { x: Math.abs(target.scale.x), y: Math.abs(target.scale.y) }
+					this.actions.set_effect_scale(selected_effect, scale)
 					target.effect = {
 						...target.effect,
 						rect: {
 							position_on_canvas: { x: tx, y: ty },
 							rotation: target.angle,
-							scaleX: target.scale.x,
-							scaleY: target.scale.y
+							scaleX: scale.x,
+							scaleY: scale.y
 						}
-					} as Exclude<AnyEffect, AudioEffect>
+					} as Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
+				}
+				const effect = omnislate.context.state.effects.find((eff: AnyEffect) => eff.id === selected_effect.id)
+				if (effect && effect.kind !== "audio" && effect.kind !== "adjustment") {
+					this.on_canvas_transform.publish(effect)
 				}
 			}
 		})
@@ -455,6 +509,9 @@ export class Compositor {
 		for (const id of this.managers.audioManager.keys()) {
 			if (!currentEffectIds.has(id)) this.managers.audioManager.cleanup_effect(id)
 		}
+		for (const id of this.managers.adjustmentManager.keys()) {
+			if (!currentEffectIds.has(id)) this.managers.adjustmentManager.cleanup_effect(id)
+		}
 
 		for (const effect of state.effects) {
 			if (effect.kind === "image") {
@@ -471,6 +528,7 @@ export class Compositor {
 				const file = mediaEntry?.file
 				if (file) {
 					this.managers.videoManager.add_video_effect(effect, file, true)
+					this.managers.audioManager.add_media_audio(effect, file)
 					console.log('[Compositor.recreate] Video effect added, VideoManager size:', this.managers.videoManager.size)
 				}
 			}
@@ -482,13 +540,11 @@ export class Compositor {
 			else if (effect.kind === "text") {
 				this.managers.textManager.add_text_effect(effect, true)
 			}
-		}
-		for (const filter of state.filters) {
-			const effect = state.effects.find(e => e.id === filter.targetEffectId)
-			if (effect && (effect.kind === "video" || effect.kind === "image")) {
-				this.managers.filtersManager.addFilterToEffect(effect, filter.type, true)
+			else if (effect.kind === "adjustment") {
+				this.managers.adjustmentManager.add_adjustment_effect(effect, true)
 			}
 		}
+		this.managers.filtersManager.restoreFilters(state)
 		for (const transition of state.transitions) {
 			this.managers.transitionManager.selectTransition(transition, true).apply(omnislate.context.state)
 		}
@@ -502,8 +558,8 @@ export class Compositor {
 		this.app.stage.children.forEach((object: any) => {
 			if (object.effect) {
 				//@ts-ignore
-				const object_effect = object.effect as Exclude<AnyEffect, AudioEffect>
-				const effect = state.effects.find(effect => effect.id === object_effect?.id) as Exclude<AnyEffect, AudioEffect>
+				const object_effect = object.effect as Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
+				const effect = state.effects.find(effect => effect.id === object_effect?.id) as Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
 				if (effect) {
 					object.x = effect.rect.position_on_canvas.x
 					object.y = effect.rect.position_on_canvas.y
@@ -524,6 +580,48 @@ export class Compositor {
 		this.managers.transitionManager.refreshTransitions()
 	}
 
+	/*
+	* draws the composed frame into a 2d context, scaled to its canvas,
+	* without the selection transformer so pixels read back are the output
+	*/
+	draw_frame(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) {
+		const transformer = this.selectedElement?.transformer
+		const visible = transformer?.visible ?? false
+		const {overlay} = this.managers.maskManager
+		const renderable = overlay.renderable
+		if(transformer) {transformer.visible = false}
+		overlay.renderable = false
+		this.app.render()
+		ctx.drawImage(this.app.view as HTMLCanvasElement, 0, 0, ctx.canvas.width, ctx.canvas.height)
+		overlay.renderable = renderable
+		if(transformer) {transformer.visible = visible}
+		if(transformer || renderable) {this.app.render()}
+	}
+
+	/*
+	* draws what an effect's key works on, the effect alone without its filters
+	* or opacity, so key colors are picked from the source and not the output.
+	* false when the effect isn't on the canvas
+	*/
+	draw_effect_source(effect_id: string, ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) {
+		const object = this.managers.videoManager.get(effect_id)?.sprite ?? this.managers.imageManager.get(effect_id)?.sprite
+		if(!object || object.parent !== this.app.stage) {return false}
+		const {filters, alpha, renderable} = object
+		const hidden = this.app.stage.children.filter(child => child !== object && child.renderable)
+		for(const child of hidden) {child.renderable = false}
+		object.filters = null
+		object.alpha = 1
+		object.renderable = true
+		this.app.render()
+		ctx.drawImage(this.app.view as HTMLCanvasElement, 0, 0, ctx.canvas.width, ctx.canvas.height)
+		object.filters = filters
+		object.alpha = alpha
+		object.renderable = renderable
+		for(const child of hidden) {child.renderable = true}
+		this.app.render()
+		return true
+	}
+
 	set_timebase(value: number) {
 		this.timebase = value
 	}
@@ -613,8 +711,9 @@ export class Compositor {
 			this.managers.decoder.reset()
 		}
 
-		// Clear on_playing subscribers by replacing the publisher
+		// Clear subscribers by replacing the publishers
 		this.on_playing = pub()
+		this.on_canvas_transform = pub()
 
 		// Destroy PIXI app instance
 		if (this.#app) {
@@ -0,0 +1,103 @@
+import * as PIXI from "pixi.js"
+import type {Container as PIXIContainer, DisplayObject, Sprite as PIXISprite} from "pixi.js"
+
+import type {Compositor} from "../controller"
+import {Actions} from "../../../../state/actions"
+import {omnislate} from "../../../../omnislate"
+import {AdjustmentEffect} from "../../../../state/types"
+
+/*
+* an adjustment layer is a canvas sized sprite showing everything beneath it,
+* its filter chain is set on the sprite like on any clip. the copy is drawn
+* over the lower tracks, so opacity sets how strong the adjustment is
+*/
+export class AdjustmentManager extends Map<string, {sprite: PIXISprite, transformer: PIXIContainer}> {
+	#empty = new PIXI.Container()
+
+	constructor(private compositor: Compositor, private actions: Actions) {
+		super()
+		// lower tracks are captured right before every render, video frames
+		// decoded after compose_effects are then adjusted too
+		compositor.app.renderer.runners.prerender.add(this)
+	}
+
+	add_adjustment_effect(effect: AdjustmentEffect, recreate?: boolean) {
+		if(this.has(effect.id)) {
+			this.cleanup_effect(effect.id)
+		}
+		const {width, height} = this.compositor.app.screen
+		const texture = PIXI.RenderTexture.create({width, height, resolution: this.compositor.app.renderer.resolution})
+		const sprite = new PIXI.Sprite(texture)
+		sprite.eventMode = "none"
+		sprite.filters = []
+		const transformer = new PIXI.Container()
+		this.set(effect.id, {sprite, transformer})
+		if(recreate) {return}
+		this.actions.add_adjustment_effect(effect)
+	}
+
+	cleanup_effect(id: string) {
+		const adjustment = this.get(id)
+		if(adjustment) {
+			adjustment.sprite.parent?.removeChild(adjustment.sprite)
+			adjustment.sprite.destroy({texture: true, baseTexture: true})
+			adjustment.transformer.destroy()
+			this.delete(id)
+		}
+	}
+
+	add_adjustment_to_canvas(effect: AdjustmentEffect) {
+		const adjustment = this.get(effect.id)
+		if(adjustment) {
+			this.compositor.app.stage.addChild(adjustment.sprite)
+			adjustment.sprite.zIndex = omnislate.context.state.tracks.length - effect.track
+		}
+	}
+
+	remove_adjustment_from_canvas(effect: AdjustmentEffect) {
+		const adjustment = this.get(effect.id)
+		if(adjustment) {
+			this.compositor.app.stage.removeChild(adjustment.sprite)
+		}
+	}
+
+	// called by the renderer runner, also for renders outside the ticker like export and scopes
+	prerender() {
+		if(this.compositor.prerendering) {return}
+		this.compositor.prerendering = true
+		try {
+			const {stage, renderer, screen} = this.compositor.app
+			const sprites = new Set([...this.values()].map(({sprite}) => sprite))
+			// backdrops of blended clips are captured in the same pass,
+			// bottom up, so each capture sees the ones beneath it applied
+			const targets = [
+				...stage.children
+					.filter((child): child is PIXISprite => sprites.has(child as PIXISprite))
+					.map(sprite => ({object: sprite as PIXIContainer, texture: sprite.texture as PIXI.RenderTexture})),
+				...this.compositor.managers.blendManager.backdrops(),
+			].sort((a, b) => a.object.zIndex - b.object.zIndex)
+			for(const {object, texture} of targets) {
+				if(texture.width !== screen.width || texture.height !== screen.height) {
+					texture.resize(screen.width, screen.height)
+				}
+				const beneath = stage.children.filter(child =>
+					child !== object
+					&& child.visible
+					&& child.zIndex < object.zIndex
+					&& (sprites.has(child as PIXISprite) || is_effect_object(child))
+				)
+				renderer.render(this.#empty, {renderTexture: texture, clear: true})
+				for(const child of beneath) {
+					renderer.render(child, {renderTexture: texture, clear: false})
+				}
+			}
+		} finally {
+			this.compositor.prerendering = false
+		}
+	}
+}
+
+// sprites of clips carry their effect, guidelines and transformers don't
+function is_effect_object(object: DisplayObject) {
+	return "effect" in object && !!(object as {effect?: unknown}).effect
+}
@@ -6,6 +6,7 @@ import {Actions} from "../../../../state/actions"
 import {omnislate} from "../../../../omnislate"
 import {AnyEffect, ImageEffect, State, VideoEffect} from "../../../../state/types"
 import {calculateProjectDuration} from "../../../../utils/utils/calculate-project-duration"
+import {get_effect_timeline_end} from "../../../../utils/utils/effect-speed"
 import type {
 	Graphics as PIXIGraphics,
 	BlurFilter as PIXIBlurFilter,
@@ -371,7 +372,7 @@ export class AnimationManager {
 				onUpdate: () => this.#onAnimationUpdate(object, animation),
 			}
 		)
-		const startTime = (effect.start_at_position + (effect.end - effect.start) - animation.duration) / 1000
+		const startTime = (get_effect_timeline_end(effect) - animation.duration) / 1000
 		return {tween, startTime}
 	}
 
@@ -407,7 +408,7 @@ export class AnimationManager {
 				onUpdate: () => this.compositor.app.render()
 			}
 		)
-		const startTime = (effect.start_at_position + (effect.end - effect.start) - animation.duration) / 1000
+		const startTime = (get_effect_timeline_end(effect) - animation.duration) / 1000
 		return {tween, startTime}
 	}
 
@@ -445,7 +446,7 @@ export class AnimationManager {
 				onUpdate: () => this.#onAnimationUpdate(object, animation),
 			}
 		)
-		const startTime = (effect.start_at_position + (effect.end - effect.start) - animation.duration) / 1000
+		const startTime = (get_effect_timeline_end(effect) - animation.duration) / 1000
 		return {tween, startTime}
 	}
 
@@ -487,7 +488,7 @@ export class AnimationManager {
 				onUpdate: () => this.#onAnimationUpdate(object, animation),
 			}
 		)
-		const startTime = (effect.start_at_position + (effect.end - effect.start) - animation.duration) / 1000
+		const startTime = (get_effect_timeline_end(effect) - animation.duration) / 1000
 		return {tween, startTime}
 	}
 
@@ -552,7 +553,7 @@ export class AnimationManager {
 			},
 		})
 
-		const startTime = (effect.start_at_position + (effect.end - effect.start) - animation.duration) / 1000
+		const startTime = (get_effect_timeline_end(effect) - animation.duration) / 1000
 		return { tween, startTime }
 	}
 
@@ -590,7 +591,7 @@ export class AnimationManager {
 			ease: "linear",
 			data: { animationFor: this.animationFor },
 		})
-		const startTime = (effect.start_at_position + (effect.end - effect.start) - animation.duration) / 1000
+		const startTime = (get_effect_timeline_end(effect) - animation.duration) / 1000
 		return {tween, startTime}
 	}
 
@@ -625,7 +626,7 @@ export class AnimationManager {
 			}
 		)
 
-		const startTime = (effect.start_at_position + (effect.end - effect.start) - animation.duration) / 1000
+		const startTime = (get_effect_timeline_end(effect) - animation.duration) / 1000
 		return { tween, startTime }
 	}
 }
@@ -3,12 +3,28 @@ import {generate_id} from "@benev/slate"
 import type {Compositor} from "../controller"
 import {Actions} from "../../../../state/actions"
 // import {collaboration} from "../../../../collaboration-instance"
+import {omnislate} from "../../../../omnislate"
 import {AudioEffect, State} from "../../../../state/types"
-import {isEffectMuted} from "../utils/is_effect_muted"
+import {MixGraph} from "../utils/mix_graph"
 import {Audio} from "../../../../types/media-types"
 import {find_place_for_new_effect} from "../../timeline/utils/find_place_for_new_effect"
+import {get_effect_playback_rate} from "../../../../utils/utils/effect-speed"
+import {AudibleEffect, get_effect_gain, has_audio} from "../../../../utils/utils/effect-audio"
 
+interface AudioRoute {
+	source: MediaElementAudioSourceNode
+	gain: GainNode
+	track: number
+}
+
+/*
+* plays audio of audio and video effects through html media elements routed into a MixGraph,
+* gains are updated every frame from the same functions offline export render uses
+*/
 export class AudioManager extends Map<string, HTMLAudioElement & { objectUrl?: string }> {
+	#context: AudioContext | null = null
+	#graph: MixGraph | null = null
+	#routes = new Map<string, AudioRoute>()
 
 	constructor(private compositor: Compositor, private actions: Actions) {super()}
 
@@ -35,6 +51,13 @@ export class AudioManager extends Map<string, HTMLAudioElement & { objectUrl?: s
 	}
 
 	add_audio_effect(effect: AudioEffect, file: File, recreate?: boolean) {
+		this.add_media_audio(effect, file)
+		if(recreate) {return}
+		this.actions.add_audio_effect(effect)
+	}
+
+	// video effects get an audio element too, their frames come from the decoder
+	add_media_audio(effect: AudibleEffect, file: File) {
 		if (this.has(effect.id)) {
 			this.cleanup_effect(effect.id)
 		}
@@ -45,15 +68,20 @@ export class AudioManager extends Map<string, HTMLAudioElement & { objectUrl?: s
 		source.src = objectUrl
 		audio.append(source)
 		
+		// clip speed changes tempo only, like atempo in export
+		audio.preservesPitch = true
 		const audioEntry = audio as HTMLAudioElement & { objectUrl?: string }
 		audioEntry.objectUrl = objectUrl
 		this.set(effect.id, audioEntry)
-		
-		if(recreate) {return}
-		this.actions.add_audio_effect(effect)
 	}
 
 	cleanup_effect(id: string) {
+		const route = this.#routes.get(id)
+		if(route) {
+			route.source.disconnect()
+			route.gain.disconnect()
+			this.#routes.delete(id)
+		}
 		const element = this.get(id)
 		if(element) {
 			element.pause()
@@ -65,9 +93,66 @@ export class AudioManager extends Map<string, HTMLAudioElement & { objectUrl?: s
 		}
 	}
 
+	// keeps playback rate in sync with clip speed, speed curves change it over time
+	update_playback_rates(timecode: number) {
+		for(const effect of this.compositor.currently_played_effects.values()) {
+			if(has_audio(effect)) {
+				const element = this.get(effect.id)
+				const rate = get_effect_playback_rate(effect, timecode)
+				if(element && Math.abs(element.playbackRate - rate) > 0.001) {
+					element.playbackRate = rate
+				}
+			}
+		}
+	}
+
+	// clip gains follow fades and volume keyframes, track buses follow volume, pan, mute and solo
+	update_mix(timecode: number) {
+		if(!this.#graph) {return}
+		for(const effect of this.compositor.currently_played_effects.values()) {
+			if(has_audio(effect)) {
+				const route = this.#route(effect)
+				if(route) {
+					this.#graph.set_param(route.gain.gain, get_effect_gain(effect, timecode), true)
+				}
+			}
+		}
+		this.#graph.update_tracks(omnislate.context.state.tracks, true)
+	}
+
+	/*
+	* AudioContext can only start after user gesture so graph is created on first play,
+	* elements are routed lazily since media element source can be created only once per element
+	*/
+	#ensure_graph() {
+		if(!this.#context || !this.#graph) {
+			this.#context = new AudioContext()
+			this.#graph = new MixGraph(this.#context)
+		}
+		if(this.#context.state === "suspended") {
+			this.#context.resume().catch(e => console.error(e))
+		}
+		return this.#graph
+	}
+
+	#route(effect: AudibleEffect) {
+		const element = this.get(effect.id)
+		if(!element || !this.#context || !this.#graph) {return}
+		const existing = this.#routes.get(effect.id)
+		if(existing && existing.track === effect.track) {return existing}
+		const source = existing?.source ?? this.#context.createMediaElementSource(element)
+		existing?.gain.disconnect()
+		const gain = this.#graph.create_clip_input(effect.track)
+		source.disconnect()
+		source.connect(gain)
+		const route = {source, gain, track: effect.track}
+		this.#routes.set(effect.id, route)
+		return route
+	}
+
 	pause_audios() {
 		for(const effect of this.compositor.currently_played_effects.values()) {
-			if(effect.kind === "audio") {
+			if(has_audio(effect)) {
 				const element = this.get(effect.id)
 				if(element)
 					element.pause()
@@ -76,13 +161,13 @@ export class AudioManager extends Map<string, HTMLAudioElement & { objectUrl?: s
 	}
 
 	async play_audios() {
+		this.#ensure_graph()
+		this.update_mix(this.compositor.timecode)
 		const promises: Promise<void>[] = []
 		for(const effect of this.compositor.currently_played_effects.values()) {
-			if(effect.kind === "audio") {
+			if(has_audio(effect)) {
 				const element = this.get(effect.id)
 				if(element) {
-					const isMuted = isEffectMuted(effect)
-					element.muted = isMuted
 					promises.push(element.play().catch(e => console.error(e)))
 				}
 			}
@@ -90,15 +175,18 @@ export class AudioManager extends Map<string, HTMLAudioElement & { objectUrl?: s
 		await Promise.all(promises)
 	}
 
-	pause_audio(effect: AudioEffect) {
+	pause_audio(effect: AudibleEffect) {
 		const element = this.get(effect.id)
 		if(element)
 			element.pause()
 	}
 
-	async play_audio(effect: AudioEffect) {
+	async play_audio(effect: AudibleEffect) {
 		const element = this.get(effect.id)
-		if(element)
+		if(element) {
+			this.#ensure_graph()
+			this.update_mix(this.compositor.timecode)
 			await element.play()
+		}
 	}
 }
@@ -0,0 +1,94 @@
+import * as PIXI from "pixi.js"
+
+import {BLEND_MODES, BlendMode} from "../../../../utils/utils/blend-mode"
+
+const fragment = `
+	precision highp float;
+
+	varying vec2 vTextureCoord;
+	uniform sampler2D uSampler;
+	uniform highp vec4 inputSize;
+	uniform highp vec4 outputFrame;
+
+	uniform vec2 uScreen;
+	uniform sampler2D uBackdrop;
+	uniform int uMode;
+
+	float screen(float b, float s) {
+		return b + s - b * s;
+	}
+
+	float hard_light(float b, float s) {
+		return s <= 0.5 ? b * 2.0 * s : screen(b, 2.0 * s - 1.0);
+	}
+
+	float soft_light(float b, float s) {
+		if(s <= 0.5) {
+			return b - (1.0 - 2.0 * s) * b * (1.0 - b);
+		}
+		float d = b <= 0.25 ? ((16.0 * b - 12.0) * b + 4.0) * b : sqrt(b);
+		return b + (2.0 * s - 1.0) * (d - b);
+	}
+
+	float color_dodge(float b, float s) {
+		if(b == 0.0) return 0.0;
+		if(s >= 1.0) return 1.0;
+		return min(1.0, b / (1.0 - s));
+	}
+
+	float color_burn(float b, float s) {
+		if(b >= 1.0) return 1.0;
+		if(s <= 0.0) return 0.0;
+		return 1.0 - min(1.0, (1.0 - b) / s);
+	}
+
+	float blend(float b, float s) {
+		if(uMode == 1) return b * s;
+		if(uMode == 2) return screen(b, s);
+		if(uMode == 3) return hard_light(s, b);
+		if(uMode == 4) return min(b, s);
+		if(uMode == 5) return max(b, s);
+		if(uMode == 6) return color_dodge(b, s);
+		if(uMode == 7) return color_burn(b, s);
+		if(uMode == 8) return hard_light(b, s);
+		if(uMode == 9) return soft_light(b, s);
+		if(uMode == 10) return abs(b - s);
+		if(uMode == 11) return b + s - 2.0 * b * s;
+		if(uMode == 12) return min(1.0, b + s);
+		return s;
+	}
+
+	void main(void) {
+		vec4 source = texture2D(uSampler, vTextureCoord);
+		// the backdrop is captured in screen space
+		vec2 screen_uv = (vTextureCoord * inputSize.xy + outputFrame.xy) / uScreen;
+		vec4 backdrop = texture2D(uBackdrop, screen_uv);
+		if(source.a == 0.0) {
+			gl_FragColor = vec4(0.0);
+			return;
+		}
+		vec3 s = source.rgb / source.a;
+		vec3 b = backdrop.a > 0.0 ? backdrop.rgb / backdrop.a : vec3(0.0);
+		vec3 mixed = vec3(blend(b.r, s.r), blend(b.g, s.g), blend(b.b, s.b));
+		// drawn with normal blending over the backdrop this gives
+		// source over backdrop with the blended color where both overlap
+		vec3 color = source.rgb * (1.0 - backdrop.a) + source.a * backdrop.a * clamp(mixed, 0.0, 1.0);
+		gl_FragColor = vec4(color, source.a);
+	}
+`
+
+// composites an effect with what is beneath it, always the last filter of the effect
+export class BlendFilter extends PIXI.Filter {
+	constructor(backdrop: PIXI.RenderTexture) {
+		super(undefined, fragment, {
+			uScreen: new Float32Array([1, 1]),
+			uBackdrop: backdrop,
+			uMode: 0,
+		})
+	}
+
+	set_mode(mode: BlendMode, screen: PIXI.Rectangle) {
+		this.uniforms.uMode = BLEND_MODES.indexOf(mode)
+		this.uniforms.uScreen = new Float32Array([screen.width, screen.height])
+	}
+}
@@ -0,0 +1,91 @@
+import * as PIXI from "pixi.js"
+import type {Container as PIXIContainer} from "pixi.js"
+
+import type {Compositor} from "../controller"
+import {BlendFilter} from "./blend-filter"
+import {AdjustmentEffect, AnyEffect, AudioEffect} from "../../../../state/types"
+import {is_blended} from "../../../../utils/utils/blend-mode"
+
+type BlendableEffect = Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
+
+/*
+* opacity is set on the effect object, keyframed opacity overrides it later
+* in compose_effects. blend modes need what is beneath the effect, that
+* backdrop is captured bottom up together with adjustment layers
+*/
+export class BlendManager extends Map<string, {filter: BlendFilter, backdrop: PIXI.RenderTexture}> {
+	constructor(private compositor: Compositor) {
+		super()
+	}
+
+	apply_blending(effects: AnyEffect[]) {
+		const blended = new Set<string>()
+		for(const effect of effects) {
+			if(effect.kind === "audio" || effect.kind === "adjustment") {continue}
+			const object = this.#object(effect)
+			if(!object) {continue}
+			object.alpha = Math.min(1, Math.max(0, effect.opacity ?? 1))
+			if(is_blended(effect.blend_mode)) {
+				blended.add(effect.id)
+				this.#blend(effect, object)
+			}
+		}
+		for(const id of [...this.keys()]) {
+			if(!blended.has(id)) {this.cleanup_effect(id)}
+		}
+	}
+
+	/*
+	* called by AdjustmentManager right before it captures, makes sure the
+	* blend filter still ends the chain and tells where to capture backdrops
+	*/
+	backdrops() {
+		const backdrops: {object: PIXIContainer, texture: PIXI.RenderTexture}[] = []
+		const {screen} = this.compositor.app
+		for(const [id, {filter, backdrop}] of this) {
+			const object = this.#object({id})
+			if(!object?.parent) {continue}
+			const filters = object.filters ?? []
+			if(filters[filters.length - 1] !== filter) {
+				object.filters = [...filters.filter(other => other !== filter), filter]
+			}
+			if(backdrop.width !== screen.width || backdrop.height !== screen.height) {
+				backdrop.resize(screen.width, screen.height)
+			}
+			backdrops.push({object, texture: backdrop})
+		}
+		return backdrops
+	}
+
+	cleanup_effect(id: string) {
+		const blend = this.get(id)
+		if(!blend) {return}
+		const object = this.#object({id})
+		if(object && !object.destroyed && object.filters) {
+			object.filters = object.filters.filter(filter => filter !== blend.filter)
+		}
+		blend.filter.destroy()
+		blend.backdrop.destroy(true)
+		this.delete(id)
+	}
+
+	#blend(effect: BlendableEffect, object: PIXIContainer) {
+		const {screen, renderer} = this.compositor.app
+		let blend = this.get(effect.id)
+		if(!blend) {
+			const backdrop = PIXI.RenderTexture.create({width: screen.width, height: screen.height, resolution: renderer.resolution})
+			blend = {backdrop, filter: new BlendFilter(backdrop)}
+			this.set(effect.id, blend)
+		}
+		blend.filter.set_mode(effect.blend_mode!, screen)
+		const filters = object.filters ?? []
+		if(filters[filters.length - 1] !== blend.filter) {
+			object.filters = [...filters.filter(filter => filter !== blend.filter), blend.filter]
+		}
+	}
+
+	#object({id}: {id: string}) {
+		const {videoManager, imageManager, textManager} = this.compositor.managers
+		return (videoManager.get(id) ?? imageManager.get(id) ?? textManager.get(id))?.sprite
+	}
+}
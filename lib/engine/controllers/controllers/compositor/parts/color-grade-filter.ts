@@ -0,0 +1,213 @@
+import * as PIXI from "pixi.js"
+
+import {bake_curve, ColorGrade, ColorLut, CURVE_RESOLUTION} from "../../../../utils/utils/color-grade"
+
+const fragment = `
+	precision highp float;
+
+	varying vec2 vTextureCoord;
+	uniform sampler2D uSampler;
+
+	uniform vec3 uLift;
+	uniform vec3 uGamma;
+	uniform vec3 uGain;
+	uniform sampler2D uCurves;
+
+	uniform float uHsl;
+	uniform float uHue;
+	uniform float uRange;
+	uniform vec2 uSaturation;
+	uniform vec2 uLuminance;
+	uniform float uSoftness;
+	uniform vec3 uAdjust;
+
+	uniform sampler2D uLut;
+	uniform float uLutSize;
+	uniform float uLutIntensity;
+	uniform vec3 uLutMin;
+	uniform vec3 uLutMax;
+
+	vec3 rgb_to_hsl(vec3 c) {
+		float high = max(max(c.r, c.g), c.b);
+		float low = min(min(c.r, c.g), c.b);
+		float l = (high + low) * 0.5;
+		float d = high - low;
+		if(d < 1e-5) return vec3(0.0, 0.0, l);
+		float s = l > 0.5 ? d / (2.0 - high - low) : d / (high + low);
+		float h;
+		if(high == c.r) h = (c.g - c.b) / d + (c.g < c.b ? 6.0 : 0.0);
+		else if(high == c.g) h = (c.b - c.r) / d + 2.0;
+		else h = (c.r - c.g) / d + 4.0;
+		return vec3(h / 6.0, s, l);
+	}
+
+	vec3 hsl_to_rgb(vec3 hsl) {
+		vec3 rgb = clamp(abs(mod(hsl.x * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+		return hsl.z + hsl.y * (rgb - 0.5) * (1.0 - abs(2.0 * hsl.z - 1.0));
+	}
+
+	float in_range(float value, vec2 range, float feather) {
+		float f = max(feather, 1e-4);
+		return smoothstep(range.x - f, range.x, value) * (1.0 - smoothstep(range.y, range.y + f, value));
+	}
+
+	vec3 sample_curves(vec3 c) {
+		float scale = ${(CURVE_RESOLUTION - 1).toFixed(1)} / ${CURVE_RESOLUTION.toFixed(1)};
+		float offset = 0.5 / ${CURVE_RESOLUTION.toFixed(1)};
+		return vec3(
+			texture2D(uCurves, vec2(c.r * scale + offset, 0.5)).r,
+			texture2D(uCurves, vec2(c.g * scale + offset, 0.5)).g,
+			texture2D(uCurves, vec2(c.b * scale + offset, 0.5)).b
+		);
+	}
+
+	// the 3D lut is stored as blue slices side by side, two slices are mixed
+	vec3 sample_lut(vec3 c) {
+		vec3 p = clamp((c - uLutMin) / (uLutMax - uLutMin), 0.0, 1.0) * (uLutSize - 1.0);
+		float slice = floor(p.b);
+		float next = min(slice + 1.0, uLutSize - 1.0);
+		vec2 texel = vec2(p.r + 0.5, p.g + 0.5) / vec2(uLutSize * uLutSize, uLutSize);
+		vec3 a = texture2D(uLut, texel + vec2(slice / uLutSize, 0.0)).rgb;
+		vec3 b = texture2D(uLut, texel + vec2(next / uLutSize, 0.0)).rgb;
+		return mix(a, b, p.b - slice);
+	}
+
+	void main(void) {
+		vec4 color = texture2D(uSampler, vTextureCoord);
+		if(color.a == 0.0) {
+			gl_FragColor = color;
+			return;
+		}
+		vec3 c = color.rgb / color.a;
+
+		c = (1.0 + uGain) * (c + uLift * (1.0 - c));
+		c = pow(max(c, 0.0), 1.0 / max(1.0 + uGamma, 0.05));
+		c = sample_curves(clamp(c, 0.0, 1.0));
+
+		if(uHsl > 0.5) {
+			vec3 hsl = rgb_to_hsl(c);
+			float hue_distance = abs(mod(hsl.x * 360.0 - uHue + 540.0, 360.0) - 180.0);
+			float mask = 1.0 - smoothstep(uRange * 0.5, uRange * 0.5 + max(uSoftness * 60.0, 1e-3), hue_distance);
+			mask *= in_range(hsl.y, uSaturation, uSoftness * 0.2);
+			mask *= in_range(hsl.z, uLuminance, uSoftness * 0.2);
+			vec3 adjusted = vec3(
+				fract(hsl.x + uAdjust.x / 360.0),
+				clamp(hsl.y * (1.0 + uAdjust.y), 0.0, 1.0),
+				clamp(hsl.z + uAdjust.z * 0.5, 0.0, 1.0)
+			);
+			c = mix(c, hsl_to_rgb(adjusted), mask);
+		}
+
+		if(uLutIntensity > 0.0) {
+			c = mix(c, sample_lut(c), uLutIntensity);
+		}
+
+		gl_FragColor = vec4(clamp(c, 0.0, 1.0) * color.a, color.a);
+	}
+`
+
+function curves_texture({curves}: ColorGrade) {
+	const master = bake_curve(curves.master)
+	const channels = [bake_curve(curves.red), bake_curve(curves.green), bake_curve(curves.blue)]
+	const pixels = new Uint8Array(CURVE_RESOLUTION * 4)
+	const last = CURVE_RESOLUTION - 1
+	for(let i = 0; i < CURVE_RESOLUTION; i++) {
+		// master first, then the channel curve on its output
+		const index = Math.round(master[i] * last)
+		channels.forEach((channel, c) => {pixels[i * 4 + c] = Math.round(channel[index] * 255)})
+		pixels[i * 4 + 3] = 255
+	}
+	return PIXI.Texture.fromBuffer(pixels, CURVE_RESOLUTION, 1, {scaleMode: PIXI.SCALE_MODES.LINEAR})
+}
+
+function lut_texture({size, data}: ColorLut) {
+	const width = size * size
+	const pixels = new Uint8Array(width * size * 4)
+	for(let b = 0; b < size; b++) {
+		for(let g = 0; g < size; g++) {
+			for(let r = 0; r < size; r++) {
+				const source = (r + g * size + b * size * size) * 3
+				const target = (g * width + b * size + r) * 4
+				pixels[target] = Math.round(Math.min(1, Math.max(0, data[source])) * 255)
+				pixels[target + 1] = Math.round(Math.min(1, Math.max(0, data[source + 1])) * 255)
+				pixels[target + 2] = Math.round(Math.min(1, Math.max(0, data[source + 2])) * 255)
+				pixels[target + 3] = 255
+			}
+		}
+	}
+	return PIXI.Texture.fromBuffer(pixels, width, size, {scaleMode: PIXI.SCALE_MODES.LINEAR})
+}
+
+// grading shader of one effect, textures are only rebuilt when curves or the lut change
+export class ColorGradeFilter extends PIXI.Filter {
+	#curves: ColorGrade["curves"] | null = null
+	#lut_data: number[] | null = null
+
+	constructor() {
+		super(undefined, fragment, {
+			uLift: new Float32Array(3),
+			uGamma: new Float32Array(3),
+			uGain: new Float32Array(3),
+			uCurves: PIXI.Texture.WHITE,
+			uHsl: 0,
+			uHue: 0,
+			uRange: 0,
+			uSaturation: new Float32Array(2),
+			uLuminance: new Float32Array(2),
+			uSoftness: 0,
+			uAdjust: new Float32Array(3),
+			uLut: PIXI.Texture.WHITE,
+			uLutSize: 2,
+			uLutIntensity: 0,
+			uLutMin: new Float32Array(3),
+			uLutMax: new Float32Array([1, 1, 1]),
+		})
+	}
+
+	set_grade(grade: ColorGrade) {
+		const {uniforms} = this
+		uniforms.uLift = new Float32Array(grade.lift)
+		uniforms.uGamma = new Float32Array(grade.gamma)
+		uniforms.uGain = new Float32Array(grade.gain)
+
+		if(JSON.stringify(grade.curves) !== JSON.stringify(this.#curves)) {
+			this.#replace_texture("uCurves", curves_texture(grade))
+			this.#curves = grade.curves
+		}
+
+		const {hsl} = grade
+		uniforms.uHsl = hsl ? 1 : 0
+		if(hsl) {
+			uniforms.uHue = hsl.hue
+			uniforms.uRange = hsl.range
+			uniforms.uSaturation = new Float32Array(hsl.saturation)
+			uniforms.uLuminance = new Float32Array(hsl.luminance)
+			uniforms.uSoftness = hsl.softness
+			uniforms.uAdjust = new Float32Array([hsl.adjust.hue, hsl.adjust.saturation, hsl.adjust.lightness])
+		}
+
+		const {lut} = grade
+		if(lut && lut.data !== this.#lut_data) {
+			this.#replace_texture("uLut", lut_texture(lut))
+		} else if(!lut && this.#lut_data) {
+			this.#replace_texture("uLut", PIXI.Texture.WHITE)
+		}
+		this.#lut_data = lut?.data ?? null
+		uniforms.uLutIntensity = lut?.intensity ?? 0
+		uniforms.uLutSize = lut?.size ?? 2
+		uniforms.uLutMin = new Float32Array(lut?.min ?? [0, 0, 0])
+		uniforms.uLutMax = new Float32Array(lut?.max ?? [1, 1, 1])
+	}
+
+	#replace_texture(uniform: "uCurves" | "uLut", texture: PIXI.Texture) {
+		const previous: PIXI.Texture = this.uniforms[uniform]
+		if(previous !== PIXI.Texture.WHITE) {previous.destroy(true)}
+		this.uniforms[uniform] = texture
+	}
+
+	destroy() {
+		this.#replace_texture("uCurves", PIXI.Texture.WHITE)
+		this.#replace_texture("uLut", PIXI.Texture.WHITE)
+		super.destroy()
+	}
+}
@@ -2,122 +2,205 @@ import {pub} from "@benev/slate"
 import * as PIXI from "pixi.js"
 
 import type {Compositor} from "../controller"
-import {Actions} from "../../../../state/actions"
-import {ImageEffect, VideoEffect} from "../../../../state/types"
+import {ColorGradeFilter} from "./color-grade-filter"
+import {KeyFilter} from "./key-filter"
+import {is_neutral_grade} from "../../../../utils/utils/color-grade"
+import {is_active_key} from "../../../../utils/utils/keyer"
+import {omnislate} from "../../../../omnislate"
+import {AdjustmentEffect, ImageEffect, State, VideoEffect} from "../../../../state/types"
 
 //@ts-ignore
 const filters = {...(PIXI.filters || {}), ...PIXI}
+
+export type FilterParamValue = number | string | boolean | FilterParamValue[] | {[key: string]: FilterParamValue}
+export type FilterParams = Record<string, FilterParamValue>
+
+/*
+* one entry of an effect's filter chain, the chain is the order of
+* state.filters, params are schema values validated by validate_filter_params
+*/
 export interface Filter {
+	id: string
 	targetEffectId: string
 	type: FilterType
+	params: FilterParams
+	bypassed?: boolean
+}
+
+// effects whose sprite takes a filter chain
+export type FilterableEffect = VideoEffect | ImageEffect | AdjustmentEffect
+
+// pixi filter made for a chain entry, named by its type
+interface ChainFilter extends PIXI.Filter {
+	name: FilterType
+	filterId: string
 }
 
+// blur animations put their own filters on the sprite
+type AnimationFilter = PIXI.Filter & {for?: string}
+
+const is_chain_filter = (filter: PIXI.Filter): filter is ChainFilter => "filterId" in filter
+
 export class FiltersManager {
 	onChange = pub()
+	// pixi filters by Filter id, reused so keyframed values don't reset on every change
+	#instances = new Map<string, ChainFilter>()
+	// grading shaders by effect id
+	#grades = new Map<string, ColorGradeFilter>()
+	// keying shaders by effect id
+	#keys = new Map<string, KeyFilter>()
+	// keyed effects show their matte, set from the preview and off while exporting
+	#matte_view = false
 
-	constructor(private compositor: Compositor, private actions: Actions) {}
+	constructor(private compositor: Compositor) {}
 
-	selectedFilterForEffect(effect: VideoEffect | ImageEffect | null, type: FilterType) {
-		if(!effect) return
-		const object = this.#getObject(effect)
-		if(object) {
-			if(object.filters instanceof Array) {
-				//@ts-ignore
-				const haveFilter = object.filters.find(filter => filter.name === type)
-				if(haveFilter) {
-					return true
-				} else return false
-			}
-		}
+	getEffectFilters(effectId: string, state: State = omnislate.context.state) {
+		return state.filters.filter(filter => filter.targetEffectId === effectId)
 	}
 
-	#getObject(effect: VideoEffect | ImageEffect) {
+	selectedFilterForEffect(effect: FilterableEffect | null, type: FilterType) {
+		if(!effect) return false
+		return this.getEffectFilters(effect.id).some(filter => filter.type === type)
+	}
+
+	#getObject(effect: FilterableEffect) {
 		const videoObject = this.compositor.managers.videoManager.get(effect.id)?.sprite
 		const imageObject = this.compositor.managers.imageManager.get(effect.id)?.sprite
+		const adjustmentObject = this.compositor.managers.adjustmentManager.get(effect.id)?.sprite
 		if(videoObject) {
 			return videoObject
 		} else if(imageObject) {
 			return imageObject
+		} else if(adjustmentObject) {
+			return adjustmentObject
 		}
 	}
 
-	addFilterToEffect(
-		effect: ImageEffect | VideoEffect,
-		type: FilterType,
-		recreate?: boolean
+	/*
+	* sets filter param without rendering, used by keyframes while composing,
+	* the filter is looked up by id, or by type for the first filter of that type
+	*/
+	setFilterValue(
+		effect: FilterableEffect,
+		filterKey: string,
+		propertyPath: string | string[],
+		value: FilterParamValue
 	) {
 		const object = this.#getObject(effect)
-		if (!object) {
-			return
-		}
-		
-		if(object.filters === undefined)
-			object.filters = []
-
-		if(object.filters instanceof Array === false)
-			object.filters = []
-
-		const alreadyHasThisFilter = object.filters.find(
-			(f: any) => f.name === type
-		)
-
-		if (alreadyHasThisFilter) {
-			this.removeFilterFromEffect(effect, type, recreate)
-		} else {
-			const filter = new filters[type]()
-			filter.name = type
-			object.filters = [...object.filters, filter]
-			if (!recreate) {
-				this.actions.add_filter({ targetEffectId: effect.id, type })
+		if (object && Array.isArray(object.filters)) {
+			const chain = object.filters.filter(is_chain_filter)
+			const filter =
+				chain.find(f => f.filterId === filterKey) ??
+				chain.find(f => f.name === filterKey)
+			if (filter) {
+				const keys = Array.isArray(propertyPath) ? propertyPath : [propertyPath]
+				return set_filter_property(filter, keys, value)
 			}
-			this.compositor.app.render()
 		}
+		return false
+	}
 
-		this.onChange.publish(true)
+	get matte_view() {
+		return this.#matte_view
 	}
 
-	removeFilterFromEffect(
-		effect: ImageEffect | VideoEffect,
-		type: FilterType,
-		recreate?: boolean
-	) {
-		const object = this.#getObject(effect)!
-		if (!recreate) {
-			this.actions.remove_filter(effect, type)
-		}
-		if(object.filters instanceof Array)
-			object.filters = object.filters.filter((f: any) => f.name !== type)
+	set_matte_view(enabled: boolean) {
+		this.#matte_view = enabled
+		this.restoreFilters(omnislate.context.state)
+	}
+
+	// exports never show the matte, called when exporting starts or stops
+	refresh_matte_view() {
+		if (this.#matte_view) this.restoreFilters(omnislate.context.state)
+	}
 
-		this.onChange.publish(true)
+	/*
+	* rebuilds the sprite's filters from the effect's chain in state,
+	* the key comes first so it works on source pixels, then the color grade
+	* so filters work on graded pixels. the matte view shows only the key
+	*/
+	applyEffectFilters(effect: FilterableEffect, state: State = omnislate.context.state) {
+		const object = this.#getObject(effect)
+		if (!object) return
+		const key = effect.kind === "adjustment" ? null : this.#key(effect, state)
+		const matte = key !== null && this.#matte_view && !state.is_exporting
+		const chain = matte ? [] : this.getEffectFilters(effect.id, state)
+			.map(filter => this.#instance(filter))
+			.filter(instance => instance !== null)
+		const grade = effect.kind === "adjustment" || matte ? null : this.#grade(effect)
+		// animations add their own filters, those stay after the chain
+		const animation = object.filters instanceof Array
+			? object.filters.filter(f => (f as AnimationFilter).for === "animation")
+			: []
+		object.filters = [...(key ? [key] : []), ...(grade ? [grade] : []), ...chain, ...animation]
 		this.compositor.app.render()
 	}
 
-	updateEffectFilter(
-		effect: ImageEffect | VideoEffect,
-		filterName: string,
-		propertyPath: string | string[],
-		value: any
-	) {
-		const object = this.#getObject(effect)!
-		if (Array.isArray(object.filters)) {
-			const filter = object.filters.find(
-				(f: any) =>
-					f.name === filterName
-			)
-			if (filter) {
-				const keys = Array.isArray(propertyPath) ? propertyPath : [propertyPath]
-				let target = filter
-				for (let i = 0; i < keys.length - 1; i++) {
-					target = (target as any)[keys[i]]
-					if (!target) {
-						console.warn(`Invalid property path: ${keys.join('.')}`)
-						return
-					}
-				}
-				(target as any)[keys[keys.length - 1]] = value
-				this.compositor.app.render()
+	// full chains of every effect, used by Compositor.recreate
+	restoreFilters(state: State) {
+		const ids = new Set(state.filters.map(filter => filter.id))
+		for (const id of this.#instances.keys()) {
+			if (!ids.has(id)) this.#instances.delete(id)
+		}
+		const effects = new Set(state.effects.map(effect => effect.id))
+		for (const [id, grade] of this.#grades) {
+			if (!effects.has(id)) {
+				grade.destroy()
+				this.#grades.delete(id)
+			}
+		}
+		for (const [id, key] of this.#keys) {
+			if (!effects.has(id)) {
+				key.destroy()
+				this.#keys.delete(id)
+			}
+		}
+		for (const effect of state.effects) {
+			if (effect.kind === "video" || effect.kind === "image" || effect.kind === "adjustment") {
+				this.applyEffectFilters(effect, state)
+			}
+		}
+	}
+
+	#instance(filter: Filter) {
+		let instance = this.#instances.get(filter.id)
+		if (!instance || instance.name !== filter.type) {
+			let created: PIXI.Filter
+			// temporal hack to avoid errors with not working filters
+			try {
+				created = new filters[filter.type]()
+			} catch(e) {
+				console.warn(`Filter ${filter.type} is not available`, e)
+				return null
 			}
+			instance = Object.assign(created, {name: filter.type, filterId: filter.id})
+			this.#instances.set(filter.id, instance)
 		}
+		apply_filter_params(instance, FilterSchemas[filter.type], filter.params)
+		instance.enabled = !filter.bypassed
+		return instance
+	}
+
+	#grade(effect: ImageEffect | VideoEffect) {
+		if (is_neutral_grade(effect.color_grade)) return null
+		let grade = this.#grades.get(effect.id)
+		if (!grade) {
+			grade = new ColorGradeFilter()
+			this.#grades.set(effect.id, grade)
+		}
+		grade.set_grade(effect.color_grade!)
+		return grade
+	}
+
+	#key(effect: ImageEffect | VideoEffect, state: State) {
+		if (!is_active_key(effect.key)) return null
+		let key = this.#keys.get(effect.id)
+		if (!key) {
+			key = new KeyFilter()
+			this.#keys.set(effect.id, key)
+		}
+		key.set_key(effect.key, this.#matte_view && !state.is_exporting)
+		return key
 	}
 
 	async createFilterPreviews(onCreatedPreview: ({canvas, type, uid}: {canvas: import("../../../../state/pixi.mjs").ICanvas, type: FilterType, uid: number}) => void) {
@@ -138,6 +221,116 @@ export class FiltersManager {
 	}
 }
 
+function set_filter_property(filter: PIXI.Filter, keys: string[], value: unknown) {
+	let target = filter as unknown as Record<string, unknown>
+	for (let i = 0; i < keys.length - 1; i++) {
+		const next = target[keys[i]]
+		if (!next || typeof next !== "object") {
+			console.warn(`Invalid property path: ${keys.join('.')}`)
+			return false
+		}
+		target = next as Record<string, unknown>
+	}
+	target[keys[keys.length - 1]] = value
+	return true
+}
+
+export function set_filter_param(params: FilterParams, [key, ...rest]: string[], value: FilterParamValue): FilterParams {
+	if (rest.length === 0) return {...params, [key]: value}
+	const nested = params[key]
+	const record = nested && typeof nested === "object" && !Array.isArray(nested) ? nested : {}
+	return {...params, [key]: set_filter_param(record, rest, value)}
+}
+
+const is_record = (value: unknown): value is Record<string, unknown> =>
+	!!value && typeof value === "object" && !Array.isArray(value)
+
+function choice_values(options: ChoiceOptions) {
+	return Array.isArray(options) ? options.map(String) : Object.keys(options)
+}
+
+function validate_value(config: FilterPropertyConfig, value: unknown): FilterParamValue | undefined {
+	switch (config.type) {
+		case "number":
+			if (typeof value !== "number" || !Number.isFinite(value)) return undefined
+			// some defaults are sentinels outside the range, eg. radius -1 for infinite
+			return value === config.default ? value : Math.min(config.max, Math.max(config.min, value))
+		case "color":
+			return typeof value === "string" && /^#?[0-9a-f]{6}$/i.test(value) ? value : undefined
+		case "boolean":
+			return typeof value === "boolean" ? value : undefined
+		case "choice":
+			return (typeof value === "string" || typeof value === "number") && choice_values(config.options).includes(String(value))
+				? value
+				: undefined
+		case "object":
+			return is_record(value) ? validate_record(config.properties, value) : undefined
+		case "array": {
+			if (!Array.isArray(value) || value.length !== config.items.length) return undefined
+			const items = config.items.map((item, i) => validate_value(item, value[i]))
+			return items.every(item => item !== undefined) ? items as FilterParamValue[] : undefined
+		}
+	}
+}
+
+function validate_record(schema: FilterSchema, record: Record<string, unknown>) {
+	const params: FilterParams = {}
+	for (const [key, config] of Object.entries(schema)) {
+		const value = validate_value(config, record[key])
+		if (value !== undefined) params[key] = value
+	}
+	return params
+}
+
+// keeps only params the schema knows, with values in range
+export function validate_filter_params(type: FilterType, params: unknown): FilterParams {
+	const schema = FilterSchemas[type]
+	return schema && is_record(params) ? validate_record(schema, params) : {}
+}
+
+function default_value(config: FilterPropertyConfig): FilterParamValue {
+	switch (config.type) {
+		case "object":
+			return get_schema_defaults(config.properties)
+		case "array":
+			return config.items.map(default_value)
+		default:
+			return config.default
+	}
+}
+
+function get_schema_defaults(schema: FilterSchema) {
+	return Object.fromEntries(Object.entries(schema).map(([key, config]) => [key, default_value(config)])) as FilterParams
+}
+
+export function get_filter_defaults(type: FilterType) {
+	return get_schema_defaults(FilterSchemas[type] ?? {})
+}
+
+// schema values as the pixi filter expects them, colors as numbers and choices by value
+function to_filter_value(config: FilterPropertyConfig, value: FilterParamValue) {
+	if (config.type === "color" && typeof value === "string") {
+		return parseInt(value.replace("#", ""), 16)
+	}
+	if (config.type === "choice") {
+		const {options} = config
+		return Array.isArray(options) ? Number(value) : options[String(value)]
+	}
+	return value
+}
+
+function apply_filter_params(filter: PIXI.Filter, schema: FilterSchema, params: FilterParams, path: string[] = []) {
+	for (const [key, config] of Object.entries(schema)) {
+		const value = params[key]
+		if (value === undefined) continue
+		if (config.type === "object") {
+			if (is_record(value)) apply_filter_params(filter, config.properties, value as FilterParams, [...path, key])
+			continue
+		}
+		set_filter_property(filter, [...path, key], to_filter_value(config, value))
+	}
+}
+
 export type ChoiceOptions = string[] | Record<string, string | number> | number[]
 
 export type ChoiceFilterProperty = {
@@ -0,0 +1,68 @@
+import * as PIXI from "pixi.js"
+import type {Sprite as PIXISprite} from "pixi.js"
+
+import {EffectFrame} from "../../../../utils/utils/media-layout"
+
+const fragment = `
+	precision highp float;
+
+	varying vec2 vTextureCoord;
+	uniform sampler2D uSampler;
+	uniform highp vec4 inputSize;
+	uniform highp vec4 outputFrame;
+
+	uniform mat3 uScreenToLocal;
+	uniform vec4 uFrame;
+	uniform vec2 uScale;
+	uniform float uRadius;
+	uniform float uBorder;
+	uniform vec4 uBorderColor;
+
+	void main(void) {
+		vec4 color = texture2D(uSampler, vTextureCoord);
+		vec2 screen = vTextureCoord * inputSize.xy + outputFrame.xy;
+		vec2 local = (uScreenToLocal * vec3(screen, 1.0)).xy;
+		// distance to the rounded frame in canvas pixels, negative inside
+		vec2 half_size = uFrame.zw * 0.5 * uScale;
+		vec2 p = (local - uFrame.xy - uFrame.zw * 0.5) * uScale;
+		float radius = min(uRadius, min(half_size.x, half_size.y));
+		vec2 q = abs(p) - half_size + radius;
+		float d = length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - radius;
+		float inside = clamp(0.5 - d, 0.0, 1.0);
+		float content = clamp(0.5 - d - uBorder, 0.0, 1.0);
+		vec4 border = vec4(uBorderColor.rgb * uBorderColor.a, uBorderColor.a);
+		gl_FragColor = mix(border, color, content) * inside;
+	}
+`
+
+// rounds the corners of the visible frame and draws its border, before masks and blending
+export class FrameFilter extends PIXI.Filter {
+	constructor(public object: PIXISprite) {
+		super(undefined, fragment, {
+			uScreenToLocal: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]),
+			uFrame: new Float32Array([0, 0, 1, 1]),
+			uScale: new Float32Array([1, 1]),
+			uRadius: 0,
+			uBorder: 0,
+			uBorderColor: new Float32Array([0, 0, 0, 0]),
+		})
+	}
+
+	set_frame(frame: {x: number, y: number, width: number, height: number}, {radius, border_width, border_color}: EffectFrame) {
+		const {uniforms} = this
+		uniforms.uFrame = new Float32Array([frame.x, frame.y, frame.width, frame.height])
+		uniforms.uRadius = Math.max(0, radius)
+		uniforms.uBorder = Math.max(0, border_width)
+		uniforms.uBorderColor = border_width > 0
+			? new Float32Array(new PIXI.Color(border_color).toArray())
+			: new Float32Array([0, 0, 0, 0])
+	}
+
+	// the frame follows the object, whatever its position, scale or rotation
+	apply(filterManager: PIXI.FilterSystem, input: PIXI.RenderTexture, output: PIXI.RenderTexture, clearMode?: PIXI.CLEAR_MODES) {
+		const transform = this.object.worldTransform
+		this.uniforms.uScreenToLocal = transform.clone().invert().toArray(true)
+		this.uniforms.uScale = new Float32Array([Math.hypot(transform.a, transform.b), Math.hypot(transform.c, transform.d)])
+		filterManager.applyFilter(this, input, output, clearMode)
+	}
+}
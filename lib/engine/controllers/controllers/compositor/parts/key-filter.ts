@@ -0,0 +1,100 @@
+import * as PIXI from "pixi.js"
+
+import {EffectKey} from "../../../../utils/utils/keyer"
+
+const fragment = `
+	precision highp float;
+
+	varying vec2 vTextureCoord;
+	uniform sampler2D uSampler;
+
+	uniform float uLuma;
+	uniform vec3 uKeyColor;
+	uniform float uTolerance;
+	uniform float uSoftness;
+	uniform float uSpill;
+	uniform float uThreshold;
+	uniform float uInvert;
+	uniform float uMatte;
+
+	const vec3 REC709 = vec3(0.2126, 0.7152, 0.0722);
+
+	// Cb and Cr in -0.5 to 0.5
+	vec2 chroma(vec3 c) {
+		float y = dot(c, REC709);
+		return vec2((c.b - y) / 1.8556, (c.r - y) / 1.5748);
+	}
+
+	vec3 to_rgb(float y, vec2 cbcr) {
+		float r = y + 1.5748 * cbcr.y;
+		float b = y + 1.8556 * cbcr.x;
+		return vec3(r, (y - 0.2126 * r - 0.0722 * b) / 0.7152, b);
+	}
+
+	void main(void) {
+		vec4 color = texture2D(uSampler, vTextureCoord);
+		if(color.a == 0.0) {
+			gl_FragColor = vec4(0.0, 0.0, 0.0, uMatte);
+			return;
+		}
+		vec3 c = color.rgb / color.a;
+		float y = dot(c, REC709);
+		float softness = max(uSoftness, 1e-4);
+		float alpha;
+
+		if(uLuma > 0.5) {
+			alpha = smoothstep(uThreshold, uThreshold + softness, y);
+			if(uInvert > 0.5) alpha = 1.0 - alpha;
+		} else {
+			vec2 cbcr = chroma(c);
+			vec2 key = chroma(uKeyColor);
+			// the widest chroma distance is about 0.7, tolerance 1 covers most of it
+			alpha = smoothstep(uTolerance * 0.5, (uTolerance + softness) * 0.5, distance(cbcr, key));
+			// spill pulls what is left of the key hue back towards gray, luma is kept
+			float key_length = length(key);
+			if(uSpill > 0.0 && key_length > 1e-4) {
+				vec2 direction = key / key_length;
+				cbcr -= direction * max(dot(cbcr, direction), 0.0) * uSpill;
+				c = to_rgb(y, cbcr);
+			}
+		}
+
+		alpha *= color.a;
+		if(uMatte > 0.5) {
+			gl_FragColor = vec4(vec3(alpha), 1.0);
+		} else {
+			gl_FragColor = vec4(clamp(c, 0.0, 1.0) * alpha, alpha);
+		}
+	}
+`
+
+// chroma or luma key of one effect, shows the matte instead of the keyed image when asked
+export class KeyFilter extends PIXI.Filter {
+	constructor() {
+		super(undefined, fragment, {
+			uLuma: 0,
+			uKeyColor: new Float32Array(3),
+			uTolerance: 0,
+			uSoftness: 0,
+			uSpill: 0,
+			uThreshold: 0,
+			uInvert: 0,
+			uMatte: 0,
+		})
+	}
+
+	set_key(key: EffectKey, matte: boolean) {
+		const {uniforms} = this
+		uniforms.uLuma = key.type === "luma" ? 1 : 0
+		uniforms.uSoftness = key.softness
+		uniforms.uMatte = matte ? 1 : 0
+		if(key.type === "chroma") {
+			uniforms.uKeyColor = new Float32Array(key.color)
+			uniforms.uTolerance = key.tolerance
+			uniforms.uSpill = key.spill
+		} else {
+			uniforms.uThreshold = key.threshold
+			uniforms.uInvert = key.invert ? 1 : 0
+		}
+	}
+}
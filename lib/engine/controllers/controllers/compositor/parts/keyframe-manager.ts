@@ -0,0 +1,89 @@
+import type {Compositor} from "../controller"
+import {interpolate_keyframes} from "../utils/interpolate_keyframes"
+import {get_effect_local_time} from "../../../../utils/utils/effect-speed"
+import {AnyEffect} from "../../../../state/types"
+import type {FilterableEffect} from "./filter-manager"
+
+export type KeyframeInterpolation = "linear" | "bezier" | "hold"
+
+// cubic-bezier control points [x1, y1, x2, y2], same as css
+export type BezierHandles = [number, number, number, number]
+
+/*
+* filter params are addressed as `filter.<FilterType>.<param path>`,
+* eg. "filter.BlurFilter.blur" or "filter.AdjustmentFilter.brightness",
+* mask values as `mask.<mask id>.<property>`, resolved by MaskManager
+*/
+export type KeyframeProperty =
+	| "x"
+	| "y"
+	| "scaleX"
+	| "scaleY"
+	| "rotation"
+	| "opacity"
+	| "volume"
+	| `filter.${string}`
+	| `mask.${string}`
+
+export interface Keyframe {
+	id: string
+	// ms on the clip local clock (timeline time since untrimmed start of effect), so trimming doesnt move keyframes
+	time: number
+	value: number
+	// interpolation used from this keyframe to the next one
+	interpolation: KeyframeInterpolation
+	handles?: BezierHandles
+}
+
+export type Keyframes = Partial<Record<KeyframeProperty, Keyframe[]>>
+
+export class KeyframeManager {
+	constructor(private compositor: Compositor) {}
+
+	/*
+	* applies keyframed values on top of what managers placed on canvas,
+	* its called from compose_effects so preview and export get same values
+	*/
+	apply_keyframes(effects: AnyEffect[], timecode: number) {
+		for(const effect of effects) {
+			if(!effect.keyframes) {continue}
+			const time = get_effect_local_time(effect, timecode)
+			const value = (property: KeyframeProperty) => interpolate_keyframes(effect.keyframes?.[property], time)
+
+			// volume keyframes are mixed by AudioManager together with gain and fades
+			if(effect.kind === "audio") {continue}
+
+			const object = this.compositor.getObject(effect)
+			if(!object) {continue}
+			const {sprite} = object
+			const x = value("x")
+			const y = value("y")
+			const scaleX = value("scaleX")
+			const scaleY = value("scaleY")
+			const rotation = value("rotation")
+			const opacity = value("opacity")
+			if(x !== undefined) {sprite.x = x}
+			if(y !== undefined) {sprite.y = y}
+			// flips are negative scales set by LayoutManager
+			if(scaleX !== undefined) {sprite.scale.x = sprite.scale.x < 0 ? -scaleX : scaleX}
+			if(scaleY !== undefined) {sprite.scale.y = sprite.scale.y < 0 ? -scaleY : scaleY}
+			if(rotation !== undefined) {sprite.angle = rotation}
+			if(opacity !== undefined) {sprite.alpha = Math.min(1, Math.max(0, opacity))}
+
+			if(effect.kind !== "text") {
+				this.#apply_filter_keyframes(effect, time)
+			}
+		}
+	}
+
+	#apply_filter_keyframes(effect: FilterableEffect, time: number) {
+		for(const [property, keyframes] of Object.entries(effect.keyframes ?? {})) {
+			if(!property.startsWith("filter.")) {continue}
+			const [, filterName, ...path] = property.split(".")
+			const value = interpolate_keyframes(keyframes, time)
+			if(value !== undefined && path.length > 0) {
+				this.compositor.managers.filtersManager.setFilterValue(effect, filterName, path, value)
+			}
+		}
+	}
+}
@@ -0,0 +1,132 @@
+import * as PIXI from "pixi.js"
+import type {Sprite as PIXISprite, Texture} from "pixi.js"
+
+import type {Compositor} from "../controller"
+import {MaskFilter} from "./mask-filter"
+import {BlendFilter} from "./blend-filter"
+import {FrameFilter} from "./frame-filter"
+import {AnyEffect, ImageEffect, VideoEffect} from "../../../../state/types"
+import {crop_frame, fit_scale, is_cropped, is_framed} from "../../../../utils/utils/media-layout"
+
+interface CroppedTexture {
+	key: string
+	full: Texture
+	cropped: Texture
+}
+
+/*
+* crop, flips and fit modes of video and image effects, applied in
+* compose_effects before keyframes so keyframed scale still wins.
+* a crop is a texture over the same base texture, trimmed inside the
+* full frame, so decoded video frames show up in it too. rounded
+* corners and borders are a FrameFilter that goes before masks and blending
+*/
+export class LayoutManager extends Map<string, CroppedTexture> {
+	#frames = new Map<string, FrameFilter>()
+
+	constructor(private compositor: Compositor) {
+		super()
+	}
+
+	apply_layouts(effects: AnyEffect[]) {
+		const cropped = new Set<string>()
+		const framed = new Set<string>()
+		for(const effect of effects) {
+			if(effect.kind !== "video" && effect.kind !== "image") {continue}
+			const object = this.#object(effect)
+			if(!object) {continue}
+			if(is_cropped(effect.crop)) {
+				cropped.add(effect.id)
+				this.#crop(effect, object)
+			}
+			if(is_framed(effect.frame)) {
+				framed.add(effect.id)
+				this.#frame(effect, object)
+			}
+			this.#scale(effect, object)
+		}
+		for(const id of [...this.keys()]) {
+			if(!cropped.has(id)) {this.#uncrop(id)}
+		}
+		for(const id of [...this.#frames.keys()]) {
+			if(!framed.has(id)) {this.#unframe(id)}
+		}
+	}
+
+	#crop(effect: VideoEffect | ImageEffect, sprite: PIXISprite) {
+		const key = JSON.stringify(effect.crop)
+		const current = this.get(effect.id)
+		// managers put the full texture back, eg. after export
+		if(current && current.cropped === sprite.texture && current.key === key) {return}
+		const full = current && sprite.texture === current.cropped ? current.full : sprite.texture
+		current?.cropped.destroy(false)
+		const {width, height} = full.orig
+		const frame = crop_frame(width, height, effect.crop)
+		const cropped = new PIXI.Texture(
+			full.baseTexture,
+			new PIXI.Rectangle(frame.x, frame.y, frame.width, frame.height),
+			new PIXI.Rectangle(0, 0, width, height),
+			new PIXI.Rectangle(frame.x, frame.y, frame.width, frame.height),
+		)
+		sprite.texture = cropped
+		this.set(effect.id, {key, full, cropped})
+	}
+
+	#uncrop(id: string) {
+		const crop = this.get(id)
+		if(!crop) {return}
+		const sprite = this.compositor.managers.videoManager.get(id)?.sprite ?? this.compositor.managers.imageManager.get(id)?.sprite
+		if(sprite && !sprite.destroyed && sprite.texture === crop.cropped) {
+			sprite.texture = crop.full
+		}
+		crop.cropped.destroy(false)
+		this.delete(id)
+	}
+
+	#frame(effect: VideoEffect | ImageEffect, sprite: PIXISprite) {
+		let filter = this.#frames.get(effect.id)
+		if(filter?.object !== sprite) {
+			if(filter) {this.#unframe(effect.id)}
+			filter = new FrameFilter(sprite)
+			this.#frames.set(effect.id, filter)
+		}
+		const {width, height} = sprite.texture.orig
+		filter.set_frame(crop_frame(width, height, effect.crop), effect.frame!)
+		const filters = (sprite.filters ?? []).filter(other => other !== filter)
+		const after = filters.findIndex(other => other instanceof MaskFilter || other instanceof BlendFilter)
+		const index = after === -1 ? filters.length : after
+		if(sprite.filters?.[index] !== filter) {
+			sprite.filters = [...filters.slice(0, index), filter, ...filters.slice(index)]
+		}
+	}
+
+	#unframe(id: string) {
+		const filter = this.#frames.get(id)
+		if(!filter) {return}
+		const {object} = filter
+		if(!object.destroyed && object.filters) {
+			object.filters = object.filters.filter(other => other !== filter)
+		}
+		filter.destroy()
+		this.#frames.delete(id)
+	}
+
+	// flips mirror whatever scale the rect, a fit mode or keyframes give
+	#scale(effect: VideoEffect | ImageEffect, sprite: PIXISprite) {
+		const {width, height} = sprite.texture.orig
+		const frame = crop_frame(width, height, effect.crop)
+		const scale = effect.fit
+			? fit_scale(effect.fit, frame.width, frame.height, this.compositor.app.screen)
+			: {x: effect.rect.scaleX, y: effect.rect.scaleY}
+		sprite.scale.set(
+			Math.abs(scale.x) * (effect.flip_x ? -1 : 1),
+			Math.abs(scale.y) * (effect.flip_y ? -1 : 1),
+		)
+	}
+
+	#object(effect: VideoEffect | ImageEffect) {
+		return effect.kind === "video"
+			? this.compositor.managers.videoManager.get(effect.id)?.sprite
+			: this.compositor.managers.imageManager.get(effect.id)?.sprite
+	}
+}
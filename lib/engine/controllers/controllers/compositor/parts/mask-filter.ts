@@ -0,0 +1,62 @@
+import * as PIXI from "pixi.js"
+
+import {TrackMatte} from "../../../../utils/utils/effect-mask"
+
+const fragment = `
+	precision highp float;
+
+	varying vec2 vTextureCoord;
+	uniform sampler2D uSampler;
+	uniform highp vec4 inputSize;
+	uniform highp vec4 outputFrame;
+
+	uniform vec2 uScreen;
+	uniform sampler2D uMask;
+	uniform sampler2D uMatte;
+	uniform float uUseMask;
+	uniform float uUseMatte;
+	uniform float uMatteLuma;
+	uniform float uMatteInvert;
+
+	const vec3 REC709 = vec3(0.2126, 0.7152, 0.0722);
+
+	void main(void) {
+		vec4 color = texture2D(uSampler, vTextureCoord);
+		// masks and mattes are rendered in screen space
+		vec2 screen = (vTextureCoord * inputSize.xy + outputFrame.xy) / uScreen;
+		float alpha = 1.0;
+		if(uUseMask > 0.5) {
+			alpha *= texture2D(uMask, screen).a;
+		}
+		if(uUseMatte > 0.5) {
+			vec4 matte = texture2D(uMatte, screen);
+			float value = uMatteLuma > 0.5 ? dot(matte.rgb, REC709) : matte.a;
+			alpha *= uMatteInvert > 0.5 ? 1.0 - value : value;
+		}
+		gl_FragColor = color * alpha;
+	}
+`
+
+// multiplies an effect by its masks and track matte, the last filter of the effect before blending
+export class MaskFilter extends PIXI.Filter {
+	constructor(mask: PIXI.RenderTexture, matte: PIXI.RenderTexture) {
+		super(undefined, fragment, {
+			uScreen: new Float32Array([1, 1]),
+			uMask: mask,
+			uMatte: matte,
+			uUseMask: 0,
+			uUseMatte: 0,
+			uMatteLuma: 0,
+			uMatteInvert: 0,
+		})
+	}
+
+	set_inputs(screen: PIXI.Rectangle, masked: boolean, matte: TrackMatte | undefined) {
+		const {uniforms} = this
+		uniforms.uScreen = new Float32Array([screen.width, screen.height])
+		uniforms.uUseMask = masked ? 1 : 0
+		uniforms.uUseMatte = matte ? 1 : 0
+		uniforms.uMatteLuma = matte?.type === "luma" ? 1 : 0
+		uniforms.uMatteInvert = matte?.invert ? 1 : 0
+	}
+}
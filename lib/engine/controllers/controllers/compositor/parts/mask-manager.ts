@@ -0,0 +1,407 @@
+import * as PIXI from "pixi.js"
+import {pub} from "@benev/slate"
+import type {Container as PIXIContainer, DisplayObject, FederatedPointerEvent} from "pixi.js"
+
+import type {Compositor} from "../controller"
+import {MaskFilter} from "./mask-filter"
+import {BlendFilter} from "./blend-filter"
+import {Actions} from "../../../../state/actions"
+import {omnislate} from "../../../../omnislate"
+import {interpolate_keyframes} from "../utils/interpolate_keyframes"
+import {get_effect_local_time} from "../../../../utils/utils/effect-speed"
+import {AdjustmentEffect, AnyEffect, AudioEffect} from "../../../../state/types"
+import {EffectMask, MaskPoint, MASK_ANIMATED_PROPERTIES, mask_keyframe_property, mask_points} from "../../../../utils/utils/effect-mask"
+
+export type MaskableEffect = Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
+
+interface MaskLayer {
+	filter: MaskFilter
+	mask: PIXI.RenderTexture
+	matte: PIXI.RenderTexture
+	shapes: PIXIContainer
+}
+
+type Handle =
+	| {kind: "move"}
+	| {kind: "corner", x: number, y: number}
+	| {kind: "point", index: number}
+	| {kind: "tangent", index: number}
+
+interface Drag {
+	effect_id: string
+	// the mask as it was when the drag started
+	mask: EffectMask
+	current: EffectMask
+	handle: Handle
+	start: {x: number, y: number}
+}
+
+const HANDLE_COLOR = 0x38bdf8
+const HANDLE_SIZE = 5
+
+// the whole frame, cut by inverted masks when there is nothing else to cut from
+const FULL_FRAME: EffectMask = {id: "", shape: "rectangle", x: 0, y: 0, width: 1, height: 1, feather: 0}
+
+/*
+* masks and track mattes are drawn into screen sized textures right before
+* every render, a MaskFilter at the end of the effect chain multiplies the
+* effect with them. the effect on the track above serves as matte and is
+* kept off the canvas for that render
+*/
+export class MaskManager extends Map<string, MaskLayer> {
+	on_change = pub<MaskableEffect>()
+
+	#empty = new PIXI.Container()
+	#hidden = new Set<DisplayObject>()
+	#overlay = new PIXI.Container()
+	#outline = new PIXI.Graphics()
+	#handles: {graphics: PIXI.Graphics, handle: Handle}[] = []
+	#editing: {effect_id: string, mask_id: string} | null = null
+	#drag: Drag | null = null
+
+	constructor(private compositor: Compositor, private actions: Actions) {
+		super()
+		this.#overlay.zIndex = Number.MAX_SAFE_INTEGER
+		this.#overlay.addChild(this.#outline)
+		// before adjustment layers, so they capture masked clips
+		compositor.app.renderer.runners.prerender.add(this)
+		const {stage} = compositor.app
+		stage.on("pointermove", (e: FederatedPointerEvent) => this.#on_drag(e))
+		stage.on("pointerup", () => this.#end_drag())
+		stage.on("pointerupoutside", () => this.#end_drag())
+	}
+
+	get overlay() {
+		return this.#overlay
+	}
+
+	// shows handles of one mask on canvas, null hides them
+	edit(effect_id: string | null, mask_id?: string) {
+		this.#editing = effect_id && mask_id ? {effect_id, mask_id} : null
+		this.#drag = null
+	}
+
+	// called by the renderer runner, also for renders outside the ticker like export and scopes
+	prerender() {
+		if(this.compositor.prerendering) {return}
+		this.compositor.prerendering = true
+		try {
+			for(const object of this.#hidden) {object.renderable = true}
+			this.#hidden.clear()
+			const {effects, is_exporting} = omnislate.context.state
+			const latest = new Map<string, AnyEffect>(effects.map((effect: AnyEffect) => [effect.id, effect]))
+			// upper tracks first, their masks are ready when they serve as matte
+			const played = [...this.compositor.currently_played_effects.values()]
+				.map(effect => latest.get(effect.id) ?? effect)
+				.filter(is_maskable)
+				.sort((a, b) => a.track - b.track)
+			const active = new Set<string>()
+			for(const effect of played) {
+				const object = this.#object(effect.id)
+				if(!object?.parent) {continue}
+				const masks = this.#resolve_masks(effect)
+				if(masks.length === 0 && !effect.track_matte) {continue}
+				active.add(effect.id)
+				const layer = this.#layer(effect.id)
+				this.#render_masks(layer, object, masks)
+				this.#render_matte(layer, effect, played)
+				layer.filter.set_inputs(this.compositor.app.screen, masks.length > 0, effect.track_matte)
+				// masking comes last, only blending the result follows it
+				const filters = (object.filters ?? []).filter(filter => filter !== layer.filter)
+				const blend = filters.findIndex(filter => filter instanceof BlendFilter)
+				const index = blend === -1 ? filters.length : blend
+				if(object.filters?.[index] !== layer.filter) {
+					object.filters = [...filters.slice(0, index), layer.filter, ...filters.slice(index)]
+				}
+			}
+			for(const id of [...this.keys()]) {
+				if(!active.has(id)) {this.#remove_layer(id)}
+			}
+			this.#draw_overlay(played, is_exporting)
+		} finally {
+			this.compositor.prerendering = false
+		}
+	}
+
+	#object(id: string) {
+		const {videoManager, imageManager, textManager} = this.compositor.managers
+		return (videoManager.get(id) ?? imageManager.get(id) ?? textManager.get(id))?.sprite
+	}
+
+	// keyframed values at the current time, the dragged mask shows what is dragged
+	#resolve_masks(effect: MaskableEffect) {
+		const masks = effect.masks ?? []
+		const drag = this.#drag?.effect_id === effect.id ? this.#drag : null
+		if(!effect.keyframes && !drag) {return masks}
+		const time = get_effect_local_time(effect, this.compositor.timecode)
+		return masks.map(mask => {
+			if(drag?.mask.id === mask.id) {return drag.current}
+			const resolved = {...mask}
+			for(const property of MASK_ANIMATED_PROPERTIES) {
+				const value = interpolate_keyframes(effect.keyframes?.[mask_keyframe_property(mask.id, property)], time)
+				if(value !== undefined) {resolved[property] = value}
+			}
+			return resolved
+		})
+	}
+
+	#layer(id: string) {
+		const {screen, renderer} = this.compositor.app
+		let layer = this.get(id)
+		if(!layer) {
+			const options = {width: screen.width, height: screen.height, resolution: renderer.resolution}
+			const mask = PIXI.RenderTexture.create(options)
+			const matte = PIXI.RenderTexture.create(options)
+			layer = {mask, matte, filter: new MaskFilter(mask, matte), shapes: new PIXI.Container()}
+			this.set(id, layer)
+		}
+		for(const texture of [layer.mask, layer.matte]) {
+			if(texture.width !== screen.width || texture.height !== screen.height) {
+				texture.resize(screen.width, screen.height)
+			}
+		}
+		return layer
+	}
+
+	#render_masks(layer: MaskLayer, object: PIXIContainer, masks: EffectMask[]) {
+		const {renderer} = this.compositor.app
+		renderer.render(this.#empty, {renderTexture: layer.mask, clear: true})
+		if(masks.length === 0) {return}
+		const matrix = local_matrix(object)
+		const bounds = object.getLocalBounds()
+		// feather is in frame pixels, the blur runs on screen
+		const scale = Math.hypot(matrix.a, matrix.b)
+		const list = masks.some(mask => !mask.invert) ? masks : [FULL_FRAME, ...masks]
+		const {shapes} = layer
+		shapes.transform.setFromMatrix(matrix)
+		while(shapes.children.length < list.length) {
+			shapes.addChild(new PIXI.Graphics())
+		}
+		shapes.children.forEach((child, index) => {
+			const graphics = child as PIXI.Graphics
+			const mask = list[index]
+			graphics.clear()
+			graphics.visible = !!mask
+			if(!mask) {return}
+			const blend = mask.invert ? PIXI.BLEND_MODES.ERASE : PIXI.BLEND_MODES.ADD
+			graphics.beginFill(0xffffff)
+			trace_mask(graphics, mask, point => [bounds.x + point[0] * bounds.width, bounds.y + point[1] * bounds.height])
+			graphics.endFill()
+			graphics.blendMode = blend
+			const strength = mask.feather * scale
+			if(strength > 0) {
+				const blur = (graphics.filters?.[0] as PIXI.BlurFilter | undefined) ?? new PIXI.BlurFilter()
+				blur.blur = strength
+				blur.blendMode = blend
+				graphics.filters = [blur]
+			} else {
+				graphics.filters = null
+			}
+		})
+		renderer.render(shapes, {renderTexture: layer.mask, clear: false})
+	}
+
+	#render_matte(layer: MaskLayer, effect: MaskableEffect, played: MaskableEffect[]) {
+		const {renderer} = this.compositor.app
+		renderer.render(this.#empty, {renderTexture: layer.matte, clear: true})
+		if(!effect.track_matte) {return}
+		// without a clip on the track above the matte stays empty
+		const source = played.find(other => other.track === effect.track - 1)
+		const object = source && this.#object(source.id)
+		if(!object?.parent) {return}
+		object.renderable = true
+		renderer.render(object, {renderTexture: layer.matte, clear: false})
+		object.renderable = false
+		this.#hidden.add(object)
+	}
+
+	#remove_layer(id: string) {
+		const layer = this.get(id)
+		if(!layer) {return}
+		const object = this.#object(id)
+		if(object && !object.destroyed && object.filters) {
+			object.filters = object.filters.filter(filter => filter !== layer.filter)
+		}
+		layer.filter.destroy()
+		layer.mask.destroy(true)
+		layer.matte.destroy(true)
+		layer.shapes.destroy({children: true})
+		this.delete(id)
+	}
+
+	#draw_overlay(played: MaskableEffect[], is_exporting: boolean) {
+		const {stage} = this.compositor.app
+		const effect = played.find(effect => effect.id === this.#editing?.effect_id)
+		const mask = effect && this.#resolve_masks(effect).find(mask => mask.id === this.#editing?.mask_id)
+		const object = effect && this.#object(effect.id)
+		if(!mask || !object?.parent || is_exporting) {
+			this.#overlay.visible = false
+			return
+		}
+		if(this.#overlay.parent !== stage) {stage.addChild(this.#overlay)}
+		this.#overlay.visible = true
+		const to_stage = frame_to_stage(object)
+		const in_box = (x: number, y: number) => to_stage([mask.x + x * mask.width, mask.y + y * mask.height])
+		this.#outline.clear().lineStyle(1.5, HANDLE_COLOR)
+		trace_mask(this.#outline, mask, to_stage)
+
+		const handles: {handle: Handle, at: [number, number]}[] = [
+			{handle: {kind: "corner", x: 0, y: 0}, at: in_box(0, 0)},
+			{handle: {kind: "corner", x: 1, y: 0}, at: in_box(1, 0)},
+			{handle: {kind: "corner", x: 1, y: 1}, at: in_box(1, 1)},
+			{handle: {kind: "corner", x: 0, y: 1}, at: in_box(0, 1)},
+			{handle: {kind: "move"}, at: in_box(0.5, 0.5)},
+		]
+		if(mask.shape === "bezier") {
+			mask_points(mask).forEach(([x, y, tx, ty], index) => {
+				const at = in_box(x, y)
+				const tangent = in_box(x + tx, y + ty)
+				const mirrored = in_box(x - tx, y - ty)
+				this.#outline.lineStyle(1, HANDLE_COLOR, 0.6)
+					.moveTo(...mirrored).lineTo(...tangent)
+				handles.push({handle: {kind: "point", index}, at}, {handle: {kind: "tangent", index}, at: tangent})
+			})
+		}
+		while(this.#handles.length < handles.length) {
+			const entry = {graphics: new PIXI.Graphics(), handle: {kind: "move"} as Handle}
+			entry.graphics.eventMode = "static"
+			entry.graphics.cursor = "pointer"
+			entry.graphics.on("pointerdown", (e: FederatedPointerEvent) => this.#start_drag(entry.handle, e))
+			this.#overlay.addChild(entry.graphics)
+			this.#handles.push(entry)
+		}
+		this.#handles.forEach((entry, index) => {
+			const next = handles[index]
+			entry.graphics.visible = !!next
+			if(!next) {return}
+			entry.handle = next.handle
+			entry.graphics.position.set(...next.at)
+			draw_handle(entry.graphics.clear(), next.handle)
+		})
+	}
+
+	// pointer position normalized to the effect's frame
+	#frame_point(object: PIXIContainer, e: FederatedPointerEvent) {
+		const bounds = object.getLocalBounds()
+		const local = local_matrix(object).applyInverse(e.global)
+		return {x: (local.x - bounds.x) / bounds.width, y: (local.y - bounds.y) / bounds.height}
+	}
+
+	#start_drag(handle: Handle, e: FederatedPointerEvent) {
+		// handles sit above clips, they must not select or move them
+		e.stopPropagation()
+		const editing = this.#editing
+		const effect = omnislate.context.state.effects.find((effect: AnyEffect) => effect.id === editing?.effect_id)
+		if(!editing || !effect || !is_maskable(effect)) {return}
+		const mask = this.#resolve_masks(effect).find(mask => mask.id === editing.mask_id)
+		const object = this.#object(effect.id)
+		if(!mask || !object) {return}
+		this.#drag = {effect_id: effect.id, mask, current: mask, handle, start: this.#frame_point(object, e)}
+	}
+
+	#on_drag(e: FederatedPointerEvent) {
+		const drag = this.#drag
+		if(!drag) {return}
+		const effect = omnislate.context.state.effects.find((effect: AnyEffect) => effect.id === drag.effect_id)
+		const object = this.#object(drag.effect_id)
+		if(!effect || !is_maskable(effect) || !object) {return}
+		const point = this.#frame_point(object, e)
+		const next = drag_mask(drag, point)
+		drag.current = next
+		const masks = (effect.masks ?? []).map(mask => mask.id === next.id ? next : mask)
+		this.actions.set_masks(effect, masks)
+	}
+
+	#end_drag() {
+		const drag = this.#drag
+		if(!drag) {return}
+		this.#drag = null
+		const effect = omnislate.context.state.effects.find((effect: AnyEffect) => effect.id === drag.effect_id)
+		if(effect && is_maskable(effect)) {
+			this.on_change.publish(effect)
+		}
+	}
+}
+
+function is_maskable(effect: AnyEffect): effect is MaskableEffect {
+	return effect.kind === "video" || effect.kind === "image" || effect.kind === "text"
+}
+
+// transform of an effect object, managers keep them as direct stage children
+function local_matrix(object: PIXIContainer) {
+	object.transform.updateLocalTransform()
+	return object.transform.localTransform
+}
+
+function frame_to_stage(object: PIXIContainer) {
+	const bounds = object.getLocalBounds()
+	const matrix = local_matrix(object)
+	return ([x, y]: [number, number]): [number, number] => {
+		const point = matrix.apply({x: bounds.x + x * bounds.width, y: bounds.y + y * bounds.height})
+		return [point.x, point.y]
+	}
+}
+
+// closed path through the mask points, map takes a frame normalized point
+function trace_mask(graphics: PIXI.Graphics, mask: EffectMask, map: (point: [number, number]) => [number, number]) {
+	const box = (x: number, y: number) => map([mask.x + x * mask.width, mask.y + y * mask.height])
+	const points = mask_points(mask)
+	const out_handle = ([x, y, tx, ty]: MaskPoint) => box(x + tx, y + ty)
+	const in_handle = ([x, y, tx, ty]: MaskPoint) => box(x - tx, y - ty)
+	graphics.moveTo(...box(points[0][0], points[0][1]))
+	points.forEach((point, index) => {
+		const next = points[(index + 1) % points.length]
+		graphics.bezierCurveTo(...out_handle(point), ...in_handle(next), ...box(next[0], next[1]))
+	})
+	graphics.closePath()
+}
+
+function draw_handle(graphics: PIXI.Graphics, handle: Handle) {
+	switch(handle.kind) {
+		case "corner":
+			graphics.lineStyle(1, HANDLE_COLOR).beginFill(0xffffff)
+				.drawRect(-HANDLE_SIZE, -HANDLE_SIZE, HANDLE_SIZE * 2, HANDLE_SIZE * 2).endFill()
+			break
+		case "move":
+			graphics.lineStyle(1.5, HANDLE_COLOR).beginFill(0xffffff, 0.01).drawCircle(0, 0, HANDLE_SIZE * 1.5).endFill()
+				.moveTo(-HANDLE_SIZE, 0).lineTo(HANDLE_SIZE, 0)
+				.moveTo(0, -HANDLE_SIZE).lineTo(0, HANDLE_SIZE)
+			break
+		case "point":
+			graphics.lineStyle(1, 0xffffff).beginFill(HANDLE_COLOR).drawCircle(0, 0, HANDLE_SIZE).endFill()
+			break
+		case "tangent":
+			graphics.lineStyle(1.5, HANDLE_COLOR).beginFill(0xffffff).drawCircle(0, 0, HANDLE_SIZE * 0.7).endFill()
+			break
+	}
+}
+
+const MIN_SIZE = 0.01
+
+function drag_mask({mask, handle, start}: Drag, point: {x: number, y: number}): EffectMask {
+	switch(handle.kind) {
+		case "move":
+			return {...mask, x: mask.x + point.x - start.x, y: mask.y + point.y - start.y}
+		case "corner": {
+			// the opposite corner stays
+			const fixed_x = mask.x + (1 - handle.x) * mask.width
+			const fixed_y = mask.y + (1 - handle.y) * mask.height
+			const x = handle.x ? fixed_x : Math.min(point.x, fixed_x - MIN_SIZE)
+			const y = handle.y ? fixed_y : Math.min(point.y, fixed_y - MIN_SIZE)
+			const width = handle.x ? Math.max(point.x - fixed_x, MIN_SIZE) : fixed_x - x
+			const height = handle.y ? Math.max(point.y - fixed_y, MIN_SIZE) : fixed_y - y
+			return {...mask, x, y, width, height}
+		}
+		case "point":
+		case "tangent": {
+			const x = (point.x - mask.x) / mask.width
+			const y = (point.y - mask.y) / mask.height
+			const points = mask_points(mask).map((current, index): MaskPoint => {
+				if(index !== handle.index) {return current}
+				const [px, py, tx, ty] = current
+				return handle.kind === "point" ? [x, y, tx, ty] : [px, py, x - px, y - py]
+			})
+			return {...mask, points}
+		}
+	}
+}
@@ -18,11 +18,22 @@ import * as PIXI from "pixi.js"
 // import {Transformer} from "pixi-transformer"
 import {omnislate} from "../../../../omnislate"
 import {FontMetadata} from "../../../../state/global"
-import {TextEffect, State, TEXT_GRADIENT, LineJoin, FillInput, StrokeInput} from "../../../../state/types"
+import {TextEffect, State, TEXT_GRADIENT, LineJoin, FillInput, StrokeInput, AnyEffect, CaptionWord} from "../../../../state/types"
 import {find_place_for_new_effect} from "../../timeline/utils/find_place_for_new_effect"
+import {get_caption_word_state, layout_caption_words} from "../utils/caption_words"
+import {get_effect_local_time} from "../../../../utils/utils/effect-speed"
+
+interface CaptionWordSprite {
+	word: CaptionWord
+	container: PIXIContainer
+	highlight: PIXIText
+	mask: PIXI.Graphics
+	box: PIXI.Graphics
+}
 
 export class TextManager extends Map<string, {sprite: PIXIText, transformer: PIXIContainer}> {
 	#selected: TextEffect | null = null
+	#captions = new Map<string, CaptionWordSprite[]>()
 	#setPermissionStatus: (() => void) | null = null
 	#permissionStatus: PermissionStatus | null = null
 	textDefaultStyles = flat.state(TextStylesValues)
@@ -97,7 +108,10 @@ export class TextManager extends Map<string, {sprite: PIXIText, transformer: PIX
 			fill: props.fill,
 		})
 
-		const text = new PIXI.Text(props.text, style)
+		const is_caption = !!effect.words?.length && !!effect.caption_style
+		// captions draw each word as a child, the text itself stays empty
+		const text = new PIXI.Text(is_caption ? "" : props.text, style)
+		if(is_caption) {this.#add_caption_words(effect, text)}
 		text.eventMode = "static"
 		text.cursor = "pointer"
 		text.x = rect.position_on_canvas.x
@@ -164,10 +178,69 @@ export class TextManager extends Map<string, {sprite: PIXIText, transformer: PIX
 			if(!text.transformer.destroyed) {
 				text.transformer.destroy({ children: true })
 			}
+			this.#captions.delete(id)
 			this.delete(id)
 		}
 	}
 
+	#add_caption_words(effect: TextEffect, text: PIXIText) {
+		const {words, caption_style} = effect
+		const word_style = text.style.clone()
+		word_style.wordWrap = false
+		const highlight_style = word_style.clone()
+		highlight_style.fill = caption_style!.highlight_color
+		const layout = layout_caption_words(
+			words!.map(word => word.text),
+			word_style,
+			effect.wordWrap ? effect.wordWrapWidth : Infinity,
+			effect.align
+		)
+
+		const sprites = words!.map((word, index) => {
+			const {x, y, width, height} = layout[index]
+			const container = new PIXI.Container()
+			// scale around the word center for pop-in
+			container.pivot.set(width / 2, height / 2)
+			container.position.set(x + width / 2, y + height / 2)
+
+			const box = new PIXI.Graphics()
+			const padding = height * 0.1
+			box.beginFill(caption_style!.highlight_background ?? 0x000000)
+			box.drawRoundedRect(-padding, -padding, width + padding * 2, height + padding * 2, padding * 2)
+			box.endFill()
+
+			const base = new PIXI.Text(word.text, word_style)
+			const highlight = new PIXI.Text(word.text, highlight_style)
+			const mask = new PIXI.Graphics()
+			mask.beginFill(0xffffff)
+			mask.drawRect(0, 0, width, height)
+			mask.endFill()
+			highlight.mask = mask
+
+			container.addChild(box, base, highlight, mask)
+			text.addChild(container)
+			return {word, container, highlight, mask, box}
+		})
+		this.#captions.set(effect.id, sprites)
+	}
+
+	// sets per word highlight, pop-in and color for captions at given timecode
+	update_captions(effects: AnyEffect[], timecode: number) {
+		for(const effect of effects) {
+			const words = this.#captions.get(effect.id)
+			if(effect.kind !== "text" || !words || !effect.caption_style) {continue}
+			const time = get_effect_local_time(effect, timecode)
+			for(const {word, container, highlight, mask, box} of words) {
+				const state = get_caption_word_state(word, effect.caption_style, time)
+				container.alpha = state.alpha
+				container.scale.set(state.scale)
+				highlight.visible = state.reveal > 0
+				mask.scale.x = state.reveal
+				box.visible = state.box
+			}
+		}
+	}
+
 	measure_text_width(effect: TextEffect) {
 		// const text = this.get(effect.id)
 		// return PIXI.TextMetrics.measureText(effect.content, text!.sprite.style).width
@@ -10,6 +10,7 @@ import {GLTransition} from "../../../../state/global"
 import {AnyEffect, ImageEffect, State, VideoEffect} from '../../../../state/types'
 import {get_effect_at_timestamp} from "../../video-export/utils/get_effect_at_timestamp"
 import {normalizeTransitionDuration} from '../../../../../utils/normalize-transition-duration'
+import {get_effect_timeline_end} from '../../../../utils/utils/effect-speed'
 
 export type TransitionAbleEffect = ImageEffect | VideoEffect
 
@@ -426,7 +427,7 @@ export class TransitionManager {
 			for (let i = 0; i < sortedClips.length - 1; i++) {
 				const currentClip = sortedClips[i]
 				const nextClip = sortedClips[i + 1]
-				const currentClipEnd = currentClip.start_at_position + (currentClip.end - currentClip.start)
+				const currentClipEnd = get_effect_timeline_end(currentClip)
 				if (
 					currentClipEnd === nextClip.start_at_position &&
 					['image', 'video'].includes(currentClip.kind) &&
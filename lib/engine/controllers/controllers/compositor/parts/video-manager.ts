@@ -188,13 +188,8 @@ export class VideoManager extends Map<string, VideoEntry> {
 		if(videoEntry?.sprite) {
 			const canvas = this.#effect_canvas.get(effect.id)!
 			
-			// Resize canvas if needed (if frame size changed)
-			if (canvas.width !== videoEntry.sprite.width || canvas.height !== videoEntry.sprite.height) {
-			canvas.width = videoEntry.sprite.width
-			canvas.height = videoEntry.sprite.height
-			}
-			
-			canvas.getContext("2d")!.drawImage(frame, 0, 0, videoEntry.sprite.width, videoEntry.sprite.height)
+			// The canvas keeps the source size, crop and scale are applied by the sprite
+			canvas.getContext("2d")!.drawImage(frame, 0, 0, canvas.width, canvas.height)
 			
 			// Update the texture from the canvas
 			const texture = videoEntry.sprite.texture
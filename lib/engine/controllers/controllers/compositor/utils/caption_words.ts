@@ -0,0 +1,92 @@
+import {TextMetrics, TextStyle, TextStyleAlign} from "pixi.js"
+import {CaptionStyle, CaptionWord} from "../../../../state/types"
+
+// how long a word takes to pop in, in ms
+export const CAPTION_POP_DURATION = 150
+
+export interface CaptionWordState {
+	// portion of the word drawn in highlight color, from left
+	reveal: number
+	alpha: number
+	scale: number
+	box: boolean
+}
+
+export interface CaptionWordLayout {
+	x: number
+	y: number
+	width: number
+	height: number
+}
+
+/*
+* how a word looks at given local time (ms), pure so preview and export evaluate it the same way
+*/
+export function get_caption_word_state(word: CaptionWord, style: CaptionStyle, time: number): CaptionWordState {
+	const spoken = time >= word.start
+	const active = spoken && time < word.end
+	const progress = word.end > word.start
+		? Math.min(1, Math.max(0, (time - word.start) / (word.end - word.start)))
+		: spoken ? 1 : 0
+	const upcoming_alpha = spoken ? 1 : style.upcoming_opacity
+
+	switch(style.animation) {
+		case "karaoke":
+			return {reveal: progress, alpha: upcoming_alpha, scale: 1, box: false}
+		case "highlight":
+			return {reveal: active ? 1 : 0, alpha: 1, scale: 1, box: active && !!style.highlight_background}
+		case "pop-in": {
+			const pop = Math.min(1, Math.max(0, (time - word.start) / CAPTION_POP_DURATION))
+			return {
+				reveal: 0,
+				alpha: spoken ? pop : 0,
+				scale: style.pop_scale + (1 - style.pop_scale) * ease_out_back(pop),
+				box: false
+			}
+		}
+		case "color-change":
+			return {reveal: spoken ? 1 : 0, alpha: upcoming_alpha, scale: 1, box: false}
+	}
+}
+
+/*
+* lays words out the way PIXI.Text would: wrapped at wrap_width and aligned per line
+*/
+export function layout_caption_words(words: string[], style: TextStyle, wrap_width: number, align: TextStyleAlign) {
+	const space = TextMetrics.measureText(" ", style).width
+	const measured = words.map(word => TextMetrics.measureText(word, style))
+	const lines: {indices: number[], width: number}[] = []
+
+	measured.forEach((metrics, index) => {
+		const line = lines[lines.length - 1]
+		const width = line ? line.width + space + metrics.width : metrics.width
+		if(line && width <= wrap_width) {
+			line.indices.push(index)
+			line.width = width
+		} else {
+			lines.push({indices: [index], width: metrics.width})
+		}
+	})
+
+	const block_width = Math.max(0, ...lines.map(line => line.width))
+	const layout: CaptionWordLayout[] = []
+	let y = 0
+	for(const line of lines) {
+		const line_height = Math.max(...line.indices.map(index => measured[index].height))
+		let x = align === "center"
+			? (block_width - line.width) / 2
+			: align === "right" ? block_width - line.width : 0
+		for(const index of line.indices) {
+			layout[index] = {x, y, width: measured[index].width, height: measured[index].height}
+			x += measured[index].width + space
+		}
+		y += line_height
+	}
+	return layout
+}
+
+function ease_out_back(t: number) {
+	const c1 = 1.70158
+	const c3 = c1 + 1
+	return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2)
+}
@@ -0,0 +1,70 @@
+import {BezierHandles, Keyframe} from "../parts/keyframe-manager"
+
+export const DEFAULT_BEZIER_HANDLES: BezierHandles = [0.42, 0, 0.58, 1]
+
+export function sort_keyframes(keyframes: Keyframe[]) {
+	return [...keyframes].sort((a, b) => a.time - b.time)
+}
+
+/*
+* value of a keyframed property at given time (ms on clip local clock, see Keyframe.time),
+* before first keyframe and after last one the value is held
+*/
+export function interpolate_keyframes(keyframes: Keyframe[] | undefined, time: number) {
+	if(!keyframes || keyframes.length === 0) {return undefined}
+	const sorted = sort_keyframes(keyframes)
+	const first = sorted[0]
+	const last = sorted[sorted.length - 1]
+	if(time <= first.time) {return first.value}
+	if(time >= last.time) {return last.value}
+
+	const index = sorted.findIndex(keyframe => keyframe.time > time)
+	const from = sorted[index - 1]
+	const to = sorted[index]
+	const progress = (time - from.time) / (to.time - from.time)
+
+	switch(from.interpolation) {
+		case "hold":
+			return from.value
+		case "bezier":
+			return lerp(from.value, to.value, cubic_bezier(from.handles ?? DEFAULT_BEZIER_HANDLES, progress))
+		default:
+			return lerp(from.value, to.value, progress)
+	}
+}
+
+function lerp(from: number, to: number, progress: number) {
+	return from + (to - from) * progress
+}
+
+/*
+* css-like cubic-bezier easing, x is solved for t with newton-raphson
+* and falls back to bisection when slope is too flat
+*/
+export function cubic_bezier([x1, y1, x2, y2]: BezierHandles, x: number) {
+	const sample = (a1: number, a2: number, t: number) =>
+		((1 - 3 * a2 + 3 * a1) * t + (3 * a2 - 6 * a1)) * t * t + 3 * a1 * t
+	const slope = (a1: number, a2: number, t: number) =>
+		3 * (1 - 3 * a2 + 3 * a1) * t * t + 2 * (3 * a2 - 6 * a1) * t + 3 * a1
+
+	let t = x
+	for(let i = 0; i < 8; i++) {
+		const error = sample(x1, x2, t) - x
+		if(Math.abs(error) < 1e-6) {return sample(y1, y2, t)}
+		const d = slope(x1, x2, t)
+		if(Math.abs(d) < 1e-6) {break}
+		t -= error / d
+	}
+
+	let low = 0
+	let high = 1
+	t = x
+	while(low < high && high - low > 1e-6) {
+		const value = sample(x1, x2, t)
+		if(Math.abs(value - x) < 1e-6) {break}
+		if(x > value) {low = t}
+		else {high = t}
+		t = (low + high) / 2
+	}
+	return sample(y1, y2, t)
+}
@@ -0,0 +1,148 @@
+import {AnyEffect, XTrack} from "../../../../state/types"
+import {get_effect_playback_rate, get_effect_timeline_end} from "../../../../utils/utils/effect-speed"
+import {AudibleEffect, get_effect_gain, get_track_mix} from "../../../../utils/utils/effect-audio"
+
+/*
+* clip gain -> track gain -> track panner -> master gain -> limiter -> destination
+* the same graph is built on realtime AudioContext for preview
+* and on OfflineAudioContext for export so both mix identically
+*/
+
+export interface TrackBus {
+	gain: GainNode
+	panner: StereoPannerNode
+}
+
+export interface ClipAudio {
+	buffer: AudioBuffer
+	// speed was applied while extracting (ffmpeg atempo), buffer begins at effect.start
+	stretched: boolean
+}
+
+export const MIX_SAMPLE_RATE = 48000
+
+// seconds between sampled gain and rate automation points in offline renders
+const AUTOMATION_STEP = 0.02
+// time constant used to smooth realtime parameter changes
+const SMOOTHING = 0.015
+
+export class MixGraph {
+	readonly master: GainNode
+	readonly limiter: DynamicsCompressorNode
+	#buses = new Map<number, TrackBus>()
+
+	constructor(readonly context: BaseAudioContext) {
+		this.master = context.createGain()
+		// brickwall-ish limiter just below 0dBFS
+		this.limiter = context.createDynamicsCompressor()
+		this.limiter.threshold.value = -1
+		this.limiter.knee.value = 0
+		this.limiter.ratio.value = 20
+		this.limiter.attack.value = 0.003
+		this.limiter.release.value = 0.25
+		this.master.connect(this.limiter).connect(context.destination)
+	}
+
+	track_bus(index: number) {
+		let bus = this.#buses.get(index)
+		if(!bus) {
+			const gain = this.context.createGain()
+			const panner = this.context.createStereoPanner()
+			gain.connect(panner).connect(this.master)
+			bus = {gain, panner}
+			this.#buses.set(index, bus)
+		}
+		return bus
+	}
+
+	create_clip_input(track_index: number) {
+		const gain = this.context.createGain()
+		gain.connect(this.track_bus(track_index).gain)
+		return gain
+	}
+
+	update_tracks(tracks: XTrack[], smooth = false) {
+		for(const [index, bus] of this.#buses) {
+			const {gain, pan} = get_track_mix(tracks, index)
+			this.set_param(bus.gain.gain, gain, smooth)
+			this.set_param(bus.panner.pan, pan, smooth)
+		}
+	}
+
+	set_param(param: AudioParam, value: number, smooth: boolean) {
+		if(smooth) {
+			param.setTargetAtTime(value, this.context.currentTime, SMOOTHING)
+		} else {
+			param.value = value
+		}
+	}
+
+	disconnect() {
+		for(const bus of this.#buses.values()) {
+			bus.gain.disconnect()
+			bus.panner.disconnect()
+		}
+		this.#buses.clear()
+		this.master.disconnect()
+		this.limiter.disconnect()
+	}
+}
+
+// in ms, until the last of the effects ends
+export function get_mix_duration(effects: AnyEffect[]) {
+	return Math.max(0, ...effects.map(effect => get_effect_timeline_end(effect)))
+}
+
+/*
+* renders effects through MixGraph offline, clips are loaded by the caller
+* since export and transcription get their audio differently. clips load one
+* at a time, loaders may go through a single ffmpeg instance. exports pass
+* the timeline duration so the mix lasts as long as the video
+*/
+export async function render_offline_mix(
+	effects: AudibleEffect[],
+	tracks: XTrack[],
+	load_clip: (effect: AudibleEffect, context: BaseAudioContext) => Promise<ClipAudio | null>,
+	sample_rate = MIX_SAMPLE_RATE,
+	duration_ms = get_mix_duration(effects)
+) {
+	const duration = duration_ms / 1000
+	if(effects.length === 0 || duration <= 0) {return null}
+	const context = new OfflineAudioContext(2, Math.ceil(duration * sample_rate), sample_rate)
+	const graph = new MixGraph(context)
+
+	for(const effect of effects) {
+		const clip = await load_clip(effect, context)
+		if(clip) {schedule_clip(graph, effect, clip)}
+	}
+	graph.update_tracks(tracks)
+
+	return await context.startRendering()
+}
+
+function schedule_clip(graph: MixGraph, effect: AudibleEffect, clip: ClipAudio) {
+	const {context} = graph
+	const start = effect.start_at_position / 1000
+	const end = get_effect_timeline_end(effect) / 1000
+	const source = context.createBufferSource()
+	source.buffer = clip.buffer
+	const input = graph.create_clip_input(effect.track)
+	source.connect(input)
+
+	input.gain.setValueAtTime(get_effect_gain(effect, start * 1000), start)
+	for(let time = start + AUTOMATION_STEP; time < end; time += AUTOMATION_STEP) {
+		input.gain.linearRampToValueAtTime(get_effect_gain(effect, time * 1000), time)
+	}
+	input.gain.linearRampToValueAtTime(get_effect_gain(effect, end * 1000), end)
+
+	if(clip.stretched) {
+		source.start(start, 0, end - start)
+		return
+	}
+	// not stretched, so pitch follows speed unlike in preview
+	source.playbackRate.setValueAtTime(get_effect_playback_rate(effect, start * 1000), start)
+	for(let time = start + AUTOMATION_STEP; time < end; time += AUTOMATION_STEP) {
+		source.playbackRate.linearRampToValueAtTime(get_effect_playback_rate(effect, time * 1000), time)
+	}
+	source.start(start, effect.start / 1000, (effect.end - effect.start) / 1000)
+}
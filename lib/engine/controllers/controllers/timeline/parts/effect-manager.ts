@@ -210,7 +210,7 @@ export class EffectManager {
 	}
 
 	async #addSplitEffect(effect: AnyEffect) {
-		const file = effect.kind !== "text" ? await this.media.get_file(effect.file_hash) : null
+		const file = "file_hash" in effect ? await this.media.get_file(effect.file_hash) : null
 
 		if (effect.kind === "video") {
 			file ? this.compositor.managers.videoManager.add_video_effect(effect, file) : this.actions.add_video_effect(effect)
@@ -220,6 +220,8 @@ export class EffectManager {
 			file ? this.compositor.managers.imageManager.add_image_effect(effect, file) : this.actions.add_image_effect(effect)
 		} else if (effect.kind === "audio") {
 			file ? this.compositor.managers.audioManager.add_audio_effect(effect, file) : this.actions.add_audio_effect(effect)
+		} else if (effect.kind === "adjustment") {
+			this.compositor.managers.adjustmentManager.add_adjustment_effect(effect)
 		}
 	}
 
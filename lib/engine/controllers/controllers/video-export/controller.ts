@@ -8,6 +8,8 @@ import {AnyEffect, State} from "../../../state/types"
 import {FPSCounter} from "./tools/FPSCounter/tool"
 import {Compositor} from "../compositor/controller"
 import {FileSystemHelper} from "./helpers/FileSystemHelper/helper"
+import {ExportContainer, ExportSettings, resolve_video_codec} from "./utils/export_codecs"
+import {get_effect_timeline_end} from "../../../utils/utils/effect-speed"
 
 export class VideoExport {
 	#FileSystemHelper = new FileSystemHelper()
@@ -20,6 +22,8 @@ export class VideoExport {
 	#Decoder: Decoder
 	#Encoder: Encoder
 	#exporting = false
+	#container: ExportContainer = "mp4"
+	#pending: {resolve: (file: Uint8Array) => void, reject: (error: unknown) => void} | null = null
 
 	constructor(private actions: Actions, private compositor: Compositor, media: Media) {
 		this.#FPSCounter = new FPSCounter(this.actions.set_fps, 100)
@@ -28,17 +32,20 @@ export class VideoExport {
 	}
 
 	async save_file() {
-		const handle = await this.#FileSystemHelper.getFileHandle()
+		const handle = await this.#FileSystemHelper.getFileHandle(this.#container)
 		await this.#FileSystemHelper.writeFile(handle, this.#Encoder.file!)
 	}
 
 	resetExporter(state: State) {
+		this.#pending?.reject(new Error("Export cancelled"))
+		this.#pending = null
 		this.#exporting = false
 		this.#timestamp = 0
 		this.#timestamp_end = 0
 		this.#Decoder.reset()
 		this.#Encoder.reset()
 		this.actions.set_is_exporting(false, {omit: true})
+		this.compositor.managers.filtersManager.refresh_matte_view()
 		this.actions.set_export_status("composing")
 		this.compositor.reset()
 		this.compositor.app.view.style.pointerEvents = "all"
@@ -49,16 +56,37 @@ export class VideoExport {
 		})
 	}
 
-	export_start(state: State, bitrate: number) {
+	/*
+	* bitrate is in kbps, resolves with the muxed file once it is complete,
+	* rejects when the codec isn't supported, muxing fails or the export is reset
+	*/
+	async export_start(state: State, bitrate: number, {container = "mp4", video_codec, include_audio = true, ...size}: ExportSettings = {}) {
+		if(this.#exporting) {
+			throw new Error("Another export is already running")
+		}
+		const canvas = this.compositor.app.view
+		// most encoders only take even dimensions
+		const even = (value: number) => Math.round(value / 2) * 2
+		const width = even(size.width ?? canvas.width)
+		const height = even(size.height ?? canvas.height)
+		const {config} = await resolve_video_codec(container, {width, height, bitrate: bitrate * 1000, framerate: state.timebase}, video_codec)
+			.catch(error => {
+				this.actions.set_export_status("error")
+				throw error
+			})
+		this.#container = container
 		this.#exporting = true
 		this.compositor.app.view.style.pointerEvents = "none"
 		this.compositor.setOrDiscardActiveObjectOnCanvas(undefined, state)
-		this.#Encoder.configure([state.settings.width, state.settings.height], bitrate, state.timebase)
+		this.#Encoder.configure(config, container, include_audio)
 		const sorted_effects = this.#sort_effects_by_track(state.effects)
-		this.#timestamp_end = Math.max(...sorted_effects.map(effect => effect.start_at_position + (effect.end - effect.start)))
+		this.#timestamp_end = Math.max(...sorted_effects.map(effect => get_effect_timeline_end(effect)))
+		const file = new Promise<Uint8Array>((resolve, reject) => this.#pending = {resolve, reject})
 		this.#export_process(sorted_effects, state.timebase)
 		this.actions.set_is_exporting(true, {omit: true})
+		this.compositor.managers.filtersManager.refresh_matte_view()
 		this.compositor.reset()
+		return await file
 	}
 
 	async #export_process(effects: AnyEffect[], timebase: number) {
@@ -76,6 +104,12 @@ export class VideoExport {
 
 		if(Math.ceil(this.#timestamp) >= this.#timestamp_end) {
 			this.#Encoder.export_process_end(effects, timebase)
+				.then(file => this.#pending?.resolve(file))
+				.catch(error => {
+					this.actions.set_export_status("error")
+					this.#pending?.reject(error)
+				})
+				.finally(() => this.#pending = null)
 			return
 		}
 
@@ -6,12 +6,37 @@ import {fetchFile} from "@ffmpeg/util"
 
 import {Actions} from "../../../../../state/actions"
 import {Media} from "../../../media/controller"
-import {AnyEffect, AudioEffect, VideoEffect} from "../../../../../state/types"
-import {isEffectMuted} from "../../../compositor/utils/is_effect_muted"
+import {omnislate} from "../../../../../omnislate"
+import {AnyEffect} from "../../../../../state/types"
+import {MIX_SAMPLE_RATE, get_mix_duration, render_offline_mix} from "../../../compositor/utils/mix_graph"
+import {encode_wav} from "../../../../../utils/utils/encode-wav"
+import {AudibleEffect, has_audio} from "../../../../../utils/utils/effect-audio"
+import {get_constant_speed, get_speed_settings, has_speed_curve, local_to_source, source_to_local} from "../../../../../utils/utils/effect-speed"
+
+// length in ms of constant tempo pieces a speed curve is split into
+const SPEED_CURVE_SEGMENT = 250
+
+// atempo accepts 0.5 - 100, slower rates are chained
+function atempo_chain(rate: number) {
+	const filters: string[] = []
+	while(rate < 0.5) {
+		filters.push("atempo=0.5")
+		rate /= 0.5
+	}
+	filters.push(`atempo=${rate}`)
+	return filters.join(",")
+}
+
+// clips of the same source next to each other, so its file is written to MEMFS once
+export function group_by_source<T extends {file_hash: string}>(effects: T[]) {
+	return [...effects].sort((a, b) => a.file_hash.localeCompare(b.file_hash))
+}
 
 export class FFmpegHelper {
 	#ffmpeg: FFmpeg | null = null
 	#ffprobe: FFprobeWorker | null = null
+	// source file clips are cut from, kept in MEMFS until another source is needed
+	#source: {file_hash: string, name: string} | null = null
 	is_loading = signals.op<any>()
 	isLoading: Promise<any>
 
@@ -54,55 +79,104 @@ export class FFmpegHelper {
 		await this.ffmpeg.writeFile(`${container_name}`, binary)
 	}
 
-	async merge_audio_with_video_and_mux(effects: AnyEffect[], video_container_name: string, output_file_name: string, media: Media, timebase: number) {
-		/* audio from video to add back to the raw video we composed that consitsts of just frames,
-		* i decided to not use AudioDecoder etc, instead im just using ffmpeg to encode back audio to video
+	async merge_audio_with_video_and_mux(effects: AnyEffect[], video_container_name: string, output_file_name: string, media: Media, timebase: number, include_audio = true) {
+		/* clips are cut and time stretched with ffmpeg, then mixed through the same MixGraph
+		* preview plays through, so gains, fades, pan and the limiter match preview exactly.
+		* the mix spans the whole timeline so the video keeps its tail after the last sound
 		*/
-		const audio_from_video_effects = (effects.filter(effect => effect.kind === "video" && !isEffectMuted(effect)) as VideoEffect[])
-		// those below are new audio effects to merge
-		const added_audio_effects = (effects.filter(effect => effect.kind === "audio" && !isEffectMuted(effect)) as AudioEffect[])
-
-		const all_audio_effects = [...audio_from_video_effects, ...added_audio_effects]
-
-		const noAudioVideos: string[] = []
-
-		for(const {id, kind, start, end, file_hash} of all_audio_effects) {
-			if(kind === "video") {
-				const file = await media.get_file(file_hash)
-				await this.ffmpeg.writeFile(`${id}.mp4`,  await fetchFile(file))
-				await this.ffmpeg.exec(["-ss", `${start / 1000}`,"-i", `${id}.mp4`,"-t" ,`${(end - start) / 1000}`, "-vn", `${id}.mp3`])
-				await this.ffmpeg.readFile(`${id}.mp3`).catch(() => {
-					// if error then most likely video dont have audio so theres no audio file to read
-					noAudioVideos.push(id)
-				})
-			} else {
-				const file = await media.get_file(file_hash)
-				await this.ffmpeg.writeFile(`${id}x.mp3`,  await fetchFile(file))
-				await this.ffmpeg.exec(["-ss", `${start / 1000}`,"-i", `${id}x.mp3`,"-t" ,`${(end - start) / 1000}`, "-vn", `${id}.mp3`])
-			}
-		}
-
-		const filtered_audios = all_audio_effects.filter(
-			(element) => !noAudioVideos.includes(element.id)
-		)
-		const noAudio = filtered_audios.length === 0
-
-		const only_image_or_text_or_videos_without_audio = noAudio
-		if(only_image_or_text_or_videos_without_audio) {
+		const audible = include_audio ? group_by_source(effects.filter(has_audio)) : []
+		const mix = await render_offline_mix(audible, omnislate.context.state.tracks, async(effect, context) => {
+			const data = await this.extract_clip_audio(effect, media)
+			// most likely a video without audio
+			if(!data) {return null}
+			const buffer = await context.decodeAudioData(data.slice().buffer).catch(() => null)
+			return buffer ? {buffer, stretched: true} : null
+		}, MIX_SAMPLE_RATE, get_mix_duration(effects)).finally(() => this.release_clip_sources())
+
+		if(!mix) {
 			await this.ffmpeg.exec(["-r", `${timebase}`,
 				"-i", `${video_container_name}`,
 				"-map", "0:v:0","-c:v" ,"copy", "-y", `${output_file_name}`
 			])
 		} else {
+			await this.ffmpeg.writeFile("mix.wav", encode_wav(mix))
 			await this.ffmpeg.exec(["-r", `${timebase}`,
-				"-i", `${video_container_name}`, ...filtered_audios.flatMap(({id}) => `-i, ${id}.mp3`.split(", ")),
-				"-filter_complex",
-				`${filtered_audios.map((effect, i) => `[${i + 1}:a]adelay=${effect.start_at_position}:all=1[a${i + 1}];`).join("")}
-				${filtered_audios.map((_, i) => `[a${i + 1}]`).join("")}amix=inputs=${filtered_audios.length}[amixout]`,
-				"-map", "0:v:0", "-map", "[amixout]","-c:v" ,"copy", "-c:a", "aac","-b:a", "192k", "-y", `${output_file_name}`
+				"-i", `${video_container_name}`, "-i", "mix.wav",
+				"-map", "0:v:0", "-map", "1:a:0","-c:v" ,"copy", "-c:a", "aac","-b:a", "192k", "-y", `${output_file_name}`
 			])
 		}
+	}
 
+	// adds opus audio to a webm muxed without it, for browsers that can't encode opus.
+	// the mix is as long as the timeline, so neither stream is cut
+	async mux_webm_audio(video: Uint8Array, mix: AudioBuffer, output_file_name: string) {
+		await this.isLoading
+		await this.ffmpeg.writeFile("video.webm", video)
+		await this.ffmpeg.writeFile("mix.wav", encode_wav(mix))
+		await this.ffmpeg.exec(["-i", "video.webm", "-i", "mix.wav",
+			"-map", "0:v:0", "-map", "1:a:0", "-c:v", "copy", "-c:a", "libopus", "-b:a", "192k", "-y", `${output_file_name}`
+		])
+		return await this.get_muxed_file(output_file_name)
+	}
+
+	/*
+	* trimmed clip audio with clip speed applied, so it lines up with the timeline clock.
+	* only the trimmed range is decoded, from the source file written once per file_hash,
+	* call release_clip_sources once every clip is extracted
+	*/
+	async extract_clip_audio(effect: AudibleEffect, media: Media) {
+		const {id, start, end, file_hash} = effect
+		const source = await this.#write_source(file_hash, media)
+		if(!source) {return null}
+		const output = `${id}.wav`
+		await this.ffmpeg.exec(["-ss", `${start / 1000}`,"-i", source,"-t" ,`${(end - start) / 1000}`, "-vn", ...this.#tempo_args(effect), "-y", output])
+		const data = await this.ffmpeg.readFile(output).catch(() => null) as Uint8Array | null
+		await this.ffmpeg.deleteFile(output).catch(() => {})
+		return data
+	}
+
+	async release_clip_sources() {
+		const name = this.#source?.name
+		this.#source = null
+		if(name) {await this.ffmpeg.deleteFile(name).catch(() => {})}
+	}
+
+	// the source stays compressed in MEMFS, decoding all of it could exhaust wasm memory
+	async #write_source(file_hash: string, media: Media) {
+		if(this.#source?.file_hash === file_hash) {return this.#source.name}
+		await this.release_clip_sources()
+		const file = await media.get_file(file_hash)
+		if(!file) {return null}
+		await this.isLoading
+		const name = `${file_hash}.input`
+		await this.ffmpeg.writeFile(name, await fetchFile(file))
+		this.#source = {file_hash, name}
+		return name
+	}
+
+	/*
+	* pitch preserving tempo change for clip speed, speed curves are split
+	* into short segments of constant tempo which are concatenated back
+	*/
+	#tempo_args(effect: AudibleEffect) {
+		const settings = get_speed_settings(effect)
+		if(!has_speed_curve(settings)) {
+			const speed = get_constant_speed(settings)
+			return speed === 1 ? [] : ["-filter:a", atempo_chain(speed)]
+		}
+		const local_start = source_to_local(settings, effect.start)
+		const local_end = source_to_local(settings, effect.end)
+		const segments: string[] = []
+		for(let local = local_start; local < local_end; local += SPEED_CURVE_SEGMENT) {
+			const next = Math.min(local + SPEED_CURVE_SEGMENT, local_end)
+			const from = local_to_source(settings, local) - effect.start
+			const to = local_to_source(settings, next) - effect.start
+			segments.push(`atrim=start=${from / 1000}:end=${to / 1000},asetpts=PTS-STARTPTS,${atempo_chain((to - from) / (next - local))}`)
+		}
+		const split = `[0:a]asplit=${segments.length}${segments.map((_, i) => `[s${i}]`).join("")};`
+		const chains = segments.map((segment, i) => `[s${i}]${segment}[t${i}];`).join("")
+		const concat = `${segments.map((_, i) => `[t${i}]`).join("")}concat=n=${segments.length}:v=0:a=1`
+		return ["-filter_complex", `${split}${chains}${concat}`]
 	}
 
 	async get_muxed_file(name: string) {
@@ -1,3 +1,5 @@
+import {ExportContainer} from "../../utils/export_codecs"
+
 export class FileSystemHelper {
 
 	async writeFile(fileHandle: FileSystemFileHandle, contents: Uint8Array) {
@@ -24,15 +26,15 @@ export class FileSystemHelper {
 		return this.#readFileLegacy(file)
 	}
 
-	async getFileHandle() {
+	async getFileHandle(container: ExportContainer = 'mp4') {
 		// For Chrome 86 and later...
 		if ('showSaveFilePicker' in window) {
 			const handle = await self.showSaveFilePicker({
-				suggestedName: 'test.mp4',
+				suggestedName: `video.${container}`,
 				types: [{
-					description: 'mp4 video',
+					description: `${container} video`,
 					accept: {
-						'video/mp4': ['.mp4'],
+						[`video/${container}`]: [`.${container}`],
 					},
 				}],
 			})
@@ -6,6 +6,7 @@ import { demuxer } from "../../../../tools/tools/demuxer"
 import { Compositor } from "../../compositor/controller"
 import { AnyEffect, VideoEffect } from "../../../../state/types"
 import { sort_effects_by_track } from "../utils/sort_effects_by_track"
+import { get_effect_source_time, get_speed_settings, has_speed_curve, get_constant_speed } from "../../../../utils/utils/effect-speed"
 
 interface DecodedFrame {
 	frame: VideoFrame
@@ -134,6 +135,25 @@ class FrameBuffer {
 		}
 	}
 
+	/**
+	 * Close and remove frames older than timestamp, keeping the frame at it.
+	 * Used for slowed down clips where one decoded frame is drawn several times
+	 */
+	closeFramesBefore(timestamp: number): void {
+		for (const [ts, frame] of this.frames) {
+			if (ts < timestamp - this.tolerance) {
+				try {
+					frame.frame.close()
+				} catch (e) {
+					// Frame may already be closed
+				}
+				this.frames.delete(ts)
+				const idx = this.insertOrder.indexOf(ts)
+				if (idx > -1) this.insertOrder.splice(idx, 1)
+			}
+		}
+	}
+
 	/**
 	 * Check if buffer has frames ready ahead of timestamp
 	 */
@@ -273,8 +293,8 @@ export class Decoder {
 				continue
 			}
 
-			// Calculate effect-relative timestamp
-			const effectTime = newTimestamp - effect.start_at_position + effect.start
+			// Calculate effect-relative timestamp (position in source, speed applied)
+			const effectTime = get_effect_source_time(effect, newTimestamp)
 
 			// Get buffered range
 			const range = state.buffer.getBufferedRange()
@@ -340,8 +360,8 @@ export class Decoder {
 			const state = this.#effectStates.get(effect.id)
 			if (!state) continue
 
-			// Calculate effect-relative timestamp
-			const effectTime = timestamp - effect.start_at_position + effect.start
+			// Calculate effect-relative timestamp (position in source, speed applied)
+			const effectTime = get_effect_source_time(effect, timestamp)
 
 			// Try to get frame from buffer (CACHE HIT/MISS)
 			const frameData = state.buffer.get(effectTime)
@@ -352,7 +372,7 @@ export class Decoder {
 
 				// CRITICAL: Close the frame after rendering to free GPU memory
 				// This is the key fix for the 1GB memory issue
-				state.buffer.closeFrame(effectTime)
+				this.#releaseDrawnFrame(effect, state, effectTime)
 
 				anyFrameDrawn = true
 				// Reset cache miss counter on hit
@@ -392,20 +412,33 @@ export class Decoder {
 			const state = this.#effectStates.get(effect.id)
 			if (!state) continue
 
-			const effectTime = timestamp - effect.start_at_position + effect.start
+			const effectTime = get_effect_source_time(effect, timestamp)
 
 			// For export, wait for frame (with timeout)
 			const frame = await this.#waitForFrame(state, effectTime, 5000)
 			if (frame) {
 				this.compositor.managers.videoManager.draw_decoded_frame(effect, frame.frame)
 				// Close frame after rendering for export too
-				state.buffer.closeFrame(effectTime)
+				this.#releaseDrawnFrame(effect, state, effectTime)
 			}
 		}
 
 		this.compositor.app.render()
 	}
 
+	/**
+	 * Slowed down clips reuse the same source frame for several timeline frames,
+	 * so only frames behind the playhead are released for them
+	 */
+	#releaseDrawnFrame(effect: VideoEffect, state: EffectWorkerState, effectTime: number): void {
+		const settings = get_speed_settings(effect)
+		if (has_speed_curve(settings) || get_constant_speed(settings) < 1) {
+			state.buffer.closeFramesBefore(effectTime)
+		} else {
+			state.buffer.closeFrame(effectTime)
+		}
+	}
+
 	/**
 	 * Wait for frame with timeout (used in export mode)
 	 */
@@ -483,7 +516,7 @@ export class Decoder {
 
 		// Calculate the actual seek position within the video file
 		// startTimestamp is the timeline position, we need to convert to effect-relative position
-		const effectRelativeStart = startTimestamp - effect.start_at_position + effect.start
+		const effectRelativeStart = get_effect_source_time(effect, startTimestamp)
 		const demuxerStart = Math.max(effectStart, effectRelativeStart)  // Don't go before effect.start
 
 		console.log(`[Decoder] Worker config for ${effect.id}: start=${effectStart}ms, demuxerStart=${demuxerStart}ms, end=${effectEnd}ms, duration=${effectEnd - effectStart}ms`)
@@ -1,12 +1,33 @@
 import {BinaryAccumulator} from "../../video-export/tools/BinaryAccumulator/tool"
+import type {MuxChunk} from "../tools/WebMMuxer/tool"
+import type {ExportContainer} from "../utils/export_codecs"
 
 const binary_accumulator = new BinaryAccumulator()
 let getChunks = false
+let container: ExportContainer = "mp4"
+// webm is muxed from the chunks, mp4 gets the raw annexb stream
+const mux_chunks: MuxChunk[] = []
+let description: Uint8Array | undefined
 
-async function handle_chunk(chunk: EncodedVideoChunk) {
+async function handle_chunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) {
 	let chunk_data = new Uint8Array(chunk.byteLength)
 	chunk.copyTo(chunk_data)
-	binary_accumulator.add_chunk(chunk_data)
+	if(container === "webm") {
+		mux_chunks.push({
+			data: chunk_data,
+			timestamp: chunk.timestamp,
+			duration: chunk.duration ?? undefined,
+			key: chunk.type === "key",
+		})
+		const decoder_description = metadata?.decoderConfig?.description
+		if(decoder_description && !description) {
+			description = new Uint8Array(ArrayBuffer.isView(decoder_description)
+				? decoder_description.buffer.slice(decoder_description.byteOffset, decoder_description.byteOffset + decoder_description.byteLength)
+				: decoder_description)
+		}
+	} else {
+		binary_accumulator.add_chunk(chunk_data)
+	}
 
 	if(getChunks)
 		self.postMessage({
@@ -19,7 +40,7 @@ async function handle_chunk(chunk: EncodedVideoChunk) {
 }
 
 // for later: https://github.com/gpac/mp4box.js/issues/243
-const config: VideoEncoderConfig = {
+let config: VideoEncoderConfig = {
 	codec: "avc1.640034",
 	avc: {format: "annexb"},
 	width: 1280,
@@ -29,6 +50,13 @@ const config: VideoEncoderConfig = {
 	bitrateMode: "quantizer" // add variable option to ui
 }
 
+// per frame quantizer option, keyed by codec family
+function quantizer_options(codec: string, quantizer: number) {
+	if(codec.startsWith("vp09")) {return {vp9: {quantizer}}}
+	if(codec.startsWith("av01")) {return {av1: {quantizer}}}
+	return {avc: {quantizer}}
+}
+
 const encoder = new VideoEncoder({
 	output: handle_chunk,
 	error: (e: any) => {
@@ -42,11 +70,9 @@ encoder.addEventListener("dequeue", () => {
 
 self.addEventListener("message", async message => {
 	if(message.data.action === "configure") {
-		config.bitrate = message.data.bitrate * 1000
-		config.width = message.data.width
-		config.height = message.data.height
-		config.framerate = message.data.timebase
-		config.bitrateMode = message.data.bitrateMode ?? "constant"
+		// the config was already probed with VideoEncoder.isConfigSupported
+		config = message.data.config
+		container = message.data.container ?? "mp4"
 		getChunks = message.data.getChunks
 		encoder.configure(config)
 	}
@@ -54,7 +80,7 @@ self.addEventListener("message", async message => {
 		const frame = message.data.frame as VideoFrame
 		if(config.bitrateMode === "quantizer") {
 			// @ts-ignore
-			encoder.encode(frame, {avc: {quantizer: 35}})
+			encoder.encode(frame, quantizer_options(config.codec, 35))
 		} else {
 			encoder.encode(frame)
 		}
@@ -62,12 +88,10 @@ self.addEventListener("message", async message => {
 	}
 	if(message.data.action === "get-binary") {
 		await encoder.flush()
-		self.postMessage({action: "binary", binary: binary_accumulator.binary})
+		if(container === "webm") {
+			self.postMessage({action: "binary", chunks: mux_chunks, description})
+		} else {
+			self.postMessage({action: "binary", binary: binary_accumulator.binary})
+		}
 	}
 })
-
-// some codecs
-// codec: "av01.0.08M.08", // avc1.42001E / avc1.4d002a / avc1.640034
-// codec: "vp09.02.60.10.01.09.09.1",
-// avc1.42001E / avc1.4d002a / avc1.640034
-//"av01.0.08M.08"
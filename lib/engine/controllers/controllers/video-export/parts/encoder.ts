@@ -1,12 +1,26 @@
 import {AnyEffect} from "../../../../state/types"
 import {Actions} from "../../../../state/actions"
 import {Media} from "../../media/controller"
+import {omnislate} from "../../../../omnislate"
 import {Compositor} from "../../compositor/controller"
-import {FFmpegHelper} from "../helpers/FFmpegHelper/helper"
+import {FFmpegHelper, group_by_source} from "../helpers/FFmpegHelper/helper"
+import {MuxChunk, WebMMuxer} from "../tools/WebMMuxer/tool"
+import {encode_opus} from "../../../../utils/utils/encode-opus"
+import {ExportContainer, probe_opus} from "../utils/export_codecs"
+import {MIX_SAMPLE_RATE, get_mix_duration, render_offline_mix} from "../../compositor/utils/mix_graph"
+import {has_audio} from "../../../../utils/utils/effect-audio"
+import {get_constant_speed, get_speed_settings, has_speed_curve} from "../../../../utils/utils/effect-speed"
+
+const OPUS_BITRATE = 192_000
 
 export class Encoder {
 	#encode_worker: Worker | null = null
 	#ffmpeg: FFmpegHelper
+	#config: VideoEncoderConfig | null = null
+	#container: ExportContainer = "mp4"
+	#include_audio = true
+	// composed frames are fitted into this when the output size differs from the canvas
+	#scaler: OffscreenCanvas | null = null
 	file: Uint8Array | null = null
 
 	constructor(private actions: Actions, private compositor: Compositor, private media: Media) {
@@ -34,37 +48,107 @@ export class Encoder {
 
 	export_process_end(effects: AnyEffect[], timebase: number) {
 		this.actions.set_export_status("flushing")
-		this.encode_worker.postMessage({action: "get-binary"})
-		this.encode_worker.onmessage = async (msg) => {
-			if(msg.data.action === "binary") {
-				const output_name = "output.mp4"
-				await this.#ffmpeg.write_composed_data(msg.data.binary, "composed.h264")
-				await this.#ffmpeg.merge_audio_with_video_and_mux(effects, "composed.h264", output_name, this.media, timebase)
-				const muxed_file = await this.#ffmpeg.get_muxed_file(output_name)
-				this.file = muxed_file
-				this.actions.set_export_status("complete")
+		return new Promise<Uint8Array>((resolve, reject) => {
+			this.encode_worker.onmessage = async (msg) => {
+				if(msg.data.action !== "binary") {return}
+				try {
+					const output_name = `output.${this.#container}`
+					this.file = this.#container === "webm"
+						? await this.#mux_webm(effects, msg.data.chunks, msg.data.description, output_name)
+						: await this.#mux_mp4(effects, msg.data.binary, output_name, timebase)
+					this.actions.set_export_status("complete")
+					resolve(this.file)
+				} catch(error) {
+					reject(error)
+				}
 			}
+			this.encode_worker.postMessage({action: "get-binary"})
+		})
+	}
+
+	async #mux_mp4(effects: AnyEffect[], binary: Uint8Array, output_name: string, timebase: number) {
+		await this.#ffmpeg.write_composed_data(binary, "composed.h264")
+		await this.#ffmpeg.merge_audio_with_video_and_mux(effects, "composed.h264", output_name, this.media, timebase, this.#include_audio)
+		return await this.#ffmpeg.get_muxed_file(output_name)
+	}
+
+	// vp9/av1 chunks and opus audio are muxed directly, ffmpeg is only a fallback
+	async #mux_webm(effects: AnyEffect[], chunks: MuxChunk[], description: Uint8Array | undefined, output_name: string) {
+		const [width, height] = [this.#config!.width, this.#config!.height]
+		const video = {codec: this.#config!.codec, width, height, description, chunks}
+		const mix = this.#include_audio ? await this.#render_mix(effects) : null
+		if(!mix) {
+			return new WebMMuxer(video, null).mux()
+		}
+		const opus = await probe_opus(mix.numberOfChannels, OPUS_BITRATE)
+		if(opus) {
+			return new WebMMuxer(video, await encode_opus(mix, opus)).mux()
 		}
-		return
+		return await this.#ffmpeg.mux_webm_audio(new WebMMuxer(video, null).mux(), mix, output_name)
+	}
+
+	/*
+	* the browser decodes source audio itself, only clips with a speed change
+	* go through ffmpeg so their pitch is preserved like in preview. the mix
+	* spans the whole timeline, like the video
+	*/
+	async #render_mix(effects: AnyEffect[]) {
+		const decoded = new Map<string, Promise<AudioBuffer | null>>()
+		return await render_offline_mix(group_by_source(effects.filter(has_audio)), omnislate.context.state.tracks, async(effect, context) => {
+			const settings = get_speed_settings(effect)
+			if(has_speed_curve(settings) || get_constant_speed(settings) !== 1) {
+				const data = await this.#ffmpeg.extract_clip_audio(effect, this.media)
+				const buffer = data && await context.decodeAudioData(data.slice().buffer).catch(() => null)
+				return buffer ? {buffer, stretched: true} : null
+			}
+			if(!decoded.has(effect.file_hash)) {
+				decoded.set(effect.file_hash, this.media.get_file(effect.file_hash).then(file => file
+					? file.arrayBuffer().then(data => context.decodeAudioData(data))
+					: null
+				// most likely a video without audio
+				).catch(() => null))
+			}
+			const buffer = await decoded.get(effect.file_hash)!
+			return buffer ? {buffer, stretched: false} : null
+		}, MIX_SAMPLE_RATE, get_mix_duration(effects)).finally(() => this.#ffmpeg.release_clip_sources())
 	}
 
 	encode_composed_frame(canvas: HTMLCanvasElement, timestamp: number) {
-		const frame = new VideoFrame(canvas, this.#frame_config(canvas, timestamp))
+		const source = this.#fit_to_output(canvas)
+		const frame = new VideoFrame(source, this.#frame_config(source, timestamp))
 		this.encode_worker.postMessage({frame, action: "encode"})
 		frame.close()
 	}
 
-	#frame_config(canvas: HTMLCanvasElement, timestamp: number): VideoFrameInit {
+	// letterboxed or pillarboxed so the whole composition stays visible
+	#fit_to_output(canvas: HTMLCanvasElement) {
+		const {width, height} = this.#config!
+		if(canvas.width === width && canvas.height === height) {return canvas}
+		this.#scaler ??= new OffscreenCanvas(width, height)
+		const context = this.#scaler.getContext("2d")!
+		const scale = Math.min(width / canvas.width, height / canvas.height)
+		const [w, h] = [canvas.width * scale, canvas.height * scale]
+		context.fillStyle = "black"
+		context.fillRect(0, 0, width, height)
+		context.drawImage(canvas, (width - w) / 2, (height - h) / 2, w, h)
+		return this.#scaler
+	}
+
+	#frame_config(canvas: HTMLCanvasElement | OffscreenCanvas, timestamp: number): VideoFrameInit {
 		return {
 			displayWidth: canvas.width,
 			displayHeight: canvas.height,
-			duration: 1000/this.compositor.timebase,
+			duration: 1000/this.compositor.timebase * 1000, // microseconds like the timestamp
 			timestamp: timestamp * 1000
 		}
 	}
 
-	configure([width, height]: number[], bitrate: number, timebase: number) {
-		this.encode_worker.postMessage({action: "configure", width, height, bitrate, timebase, bitrateMode: "constant"})
+	configure(config: VideoEncoderConfig, container: ExportContainer, include_audio: boolean) {
+		this.#config = config
+		this.#container = container
+		this.#include_audio = include_audio
+		this.#scaler = null
+		this.encode_worker.postMessage({action: "configure", config, container})
 	}
 
 }
@@ -0,0 +1,180 @@
+import type {Suite} from "cynic"
+import {expect} from "chai"
+import {MAX_CLUSTER_SPAN, type MuxChunk, WebMMuxer} from "./tool"
+
+const ID = {
+	EBML: 0x1A45DFA3,
+	Segment: 0x18538067,
+	SeekHead: 0x114D9B74,
+	Seek: 0x4DBB,
+	SeekID: 0x53AB,
+	SeekPosition: 0x53AC,
+	Info: 0x1549A966,
+	Tracks: 0x1654AE6B,
+	TrackEntry: 0xAE,
+	Video: 0xE0,
+	Audio: 0xE1,
+	Cluster: 0x1F43B675,
+	Timecode: 0xE7,
+	SimpleBlock: 0xA3,
+	Cues: 0x1C53BB6B,
+	CuePoint: 0xBB,
+	CueTime: 0xB3,
+	CueTrackPositions: 0xB7,
+	CueTrack: 0xF7,
+	CueClusterPosition: 0xF1,
+}
+
+const MASTERS = new Set([
+	ID.EBML, ID.Segment, ID.SeekHead, ID.Seek, ID.Info, ID.Tracks, ID.TrackEntry,
+	ID.Video, ID.Audio, ID.Cluster, ID.Cues, ID.CuePoint, ID.CueTrackPositions,
+])
+
+interface Node {
+	id: number
+	start: number // offset of the id
+	data: number // offset of the body
+	size: number
+	children: Node[]
+}
+
+function read_vint(bytes: Uint8Array, offset: number, keep_marker: boolean) {
+	const first = bytes[offset]
+	let length = 1
+	while(length <= 8 && !(first & (0x80 >> (length - 1)))) {length++}
+	let value = keep_marker ? first : first & (0xFF >> length)
+	for(let i = 1; i < length; i++) {value = value * 256 + bytes[offset + i]}
+	return {value, length}
+}
+
+// parses elements between start and end, throws when a size doesnt match its contents
+function parse(bytes: Uint8Array, start = 0, end = bytes.byteLength): Node[] {
+	const nodes: Node[] = []
+	let offset = start
+	while(offset < end) {
+		const id = read_vint(bytes, offset, true)
+		const size = read_vint(bytes, offset + id.length, false)
+		const data = offset + id.length + size.length
+		if(data + size.value > end) {throw new Error(`element ${id.value.toString(16)} overruns its parent`)}
+		const children = MASTERS.has(id.value) ? parse(bytes, data, data + size.value) : []
+		nodes.push({id: id.value, start: offset, data, size: size.value, children})
+		offset = data + size.value
+	}
+	if(offset !== end) {throw new Error("elements dont fill their parent")}
+	return nodes
+}
+
+function child(node: Node, id: number) {
+	const found = node.children.find(child => child.id === id)
+	if(!found) {throw new Error(`element ${id.toString(16)} is missing`)}
+	return found
+}
+
+const children = (node: Node, id: number) => node.children.filter(child => child.id === id)
+
+function uint(bytes: Uint8Array, node: Node) {
+	let value = 0
+	for(let i = 0; i < node.size; i++) {value = value * 256 + bytes[node.data + i]}
+	return value
+}
+
+// relative timecode and keyframe flag of a SimpleBlock with a one byte track number
+function block(bytes: Uint8Array, node: Node) {
+	const view = new DataView(bytes.buffer, bytes.byteOffset + node.data)
+	return {track: bytes[node.data] & 0x7F, timecode: view.getInt16(1), key: !!(bytes[node.data + 3] & 0x80)}
+}
+
+function chunks(count: number, interval: number, is_key: (index: number) => boolean): MuxChunk[] {
+	return Array.from({length: count}, (_, index) => ({
+		data: new Uint8Array([index % 256, 1, 2, 3]),
+		timestamp: index * interval,
+		duration: interval,
+		key: is_key(index),
+	}))
+}
+
+// 10s of 25fps video with a keyframe every 2s and opus in 20ms packets
+function mux_video_and_audio() {
+	return new WebMMuxer(
+		{codec: "vp09.00.41.08", width: 1920, height: 1080, chunks: chunks(250, 40_000, index => index % 50 === 0)},
+		{sample_rate: 48000, channels: 2, chunks: chunks(500, 20_000, () => true)},
+	).mux()
+}
+
+function read_file(bytes: Uint8Array) {
+	const [header, segment] = parse(bytes)
+	const clusters = children(segment, ID.Cluster).map(cluster => ({
+		node: cluster,
+		timecode: uint(bytes, child(cluster, ID.Timecode)),
+		blocks: children(cluster, ID.SimpleBlock).map(node => block(bytes, node)),
+	}))
+	const cues = children(child(segment, ID.Cues), ID.CuePoint).map(point => {
+		const positions = child(point, ID.CueTrackPositions)
+		return {
+			time: uint(bytes, child(point, ID.CueTime)),
+			track: uint(bytes, child(positions, ID.CueTrack)),
+			position: uint(bytes, child(positions, ID.CueClusterPosition)),
+		}
+	})
+	return {header, segment, clusters, cues}
+}
+
+export default <Suite> {
+	"webm muxer": {
+		"element sizes add up to the file": async() => {
+			const bytes = mux_video_and_audio()
+			const top = parse(bytes)
+			expect(top.map(node => node.id)).to.deep.equal([ID.EBML, ID.Segment])
+			expect(top[1].data + top[1].size).to.equal(bytes.byteLength)
+			expect(top[1].children.map(node => node.id).filter(id => id !== ID.Cluster)).to.deep.equal([
+				ID.SeekHead, ID.Info, ID.Tracks, ID.Cues,
+			])
+		},
+		"seek head points at the top level elements": async() => {
+			const bytes = mux_video_and_audio()
+			const {segment} = read_file(bytes)
+			const seeks = children(child(segment, ID.SeekHead), ID.Seek).map(seek => {
+				const target = segment.data + uint(bytes, child(seek, ID.SeekPosition))
+				return [uint(bytes, child(seek, ID.SeekID)), segment.children.find(node => node.start === target)?.id]
+			})
+			expect(seeks).to.deep.equal([
+				[ID.Info, ID.Info],
+				[ID.Tracks, ID.Tracks],
+				[ID.Cues, ID.Cues],
+			])
+		},
+		"cues point at keyframe clusters": async() => {
+			const bytes = mux_video_and_audio()
+			const {segment, clusters, cues} = read_file(bytes)
+			expect(clusters.map(cluster => cluster.timecode)).to.deep.equal([0, 2000, 4000, 6000, 8000])
+			expect(cues.map(cue => [cue.time, cue.track])).to.deep.equal([[0, 1], [2000, 1], [4000, 1], [6000, 1], [8000, 1]])
+			for(const cue of cues) {
+				const cluster = clusters.find(cluster => cluster.node.start === segment.data + cue.position)
+				expect(cluster?.timecode).to.equal(cue.time)
+				expect(cluster?.blocks[0]).to.deep.equal({track: 1, timecode: 0, key: true})
+			}
+		},
+		"long gops are split into clusters of MAX_CLUSTER_SPAN": async() => {
+			const bytes = new WebMMuxer(
+				{codec: "av01.0.08M.08", width: 640, height: 360, chunks: chunks(70, 1_000_000, index => index === 0)},
+				null,
+			).mux()
+			const {clusters, cues} = read_file(bytes)
+			expect(clusters.map(cluster => cluster.timecode)).to.deep.equal([0, MAX_CLUSTER_SPAN, 2 * MAX_CLUSTER_SPAN])
+			expect(cues.map(cue => cue.time)).to.deep.equal([0])
+			const offsets = clusters.flatMap(cluster => cluster.blocks.map(block => block.timecode))
+			expect(offsets.every(offset => offset >= 0 && offset < MAX_CLUSTER_SPAN)).to.equal(true)
+			expect(clusters.reduce((count, cluster) => count + cluster.blocks.length, 0)).to.equal(70)
+		},
+		"audio only files cue the audio track": async() => {
+			const bytes = new WebMMuxer(null, {sample_rate: 48000, channels: 1, chunks: chunks(3500, 20_000, () => true)}).mux()
+			const {segment, clusters, cues} = read_file(bytes)
+			expect(clusters.map(cluster => cluster.timecode)).to.deep.equal([0, MAX_CLUSTER_SPAN, 2 * MAX_CLUSTER_SPAN])
+			expect(cues.map(cue => [cue.time, cue.track])).to.deep.equal([[0, 2], [MAX_CLUSTER_SPAN, 2], [2 * MAX_CLUSTER_SPAN, 2]])
+			for(const cue of cues) {
+				expect(segment.children.find(node => node.start === segment.data + cue.position)?.id).to.equal(ID.Cluster)
+			}
+			expect(children(child(segment, ID.Tracks), ID.TrackEntry).length).to.equal(1)
+		},
+	},
+}
@@ -0,0 +1,320 @@
+/*
+* Minimal WebM (Matroska) muxer for WebCodecs output, so the common
+* VP9/AV1 + Opus exports don't need FFmpeg. Everything is kept in memory
+* and written once at the end, which lets every element have a known size
+* and the file start with a SeekHead pointing at the Cues.
+*/
+
+export interface MuxChunk {
+	data: Uint8Array
+	timestamp: number // microseconds
+	duration?: number // microseconds
+	key: boolean
+}
+
+export interface WebMVideoTrack {
+	codec: string // WebCodecs codec string, eg. "vp09.00.41.08" or "av01.0.08M.08"
+	width: number
+	height: number
+	description?: Uint8Array // av1C for AV1
+	chunks: MuxChunk[]
+}
+
+export interface WebMAudioTrack {
+	sample_rate: number
+	channels: number
+	description?: Uint8Array // OpusHead, generated when missing
+	chunks: MuxChunk[]
+}
+
+// opus decoders need this many samples at 48kHz to converge after a seek
+const OPUS_SEEK_PRE_ROLL = 80_000_000 // ns
+const OPUS_PRE_SKIP = 312
+// SimpleBlock timecodes are int16 offsets from the cluster timecode
+export const MAX_CLUSTER_SPAN = 30_000 // ms
+
+const ID = {
+	EBML: 0x1A45DFA3,
+	EBMLVersion: 0x4286,
+	EBMLReadVersion: 0x42F7,
+	EBMLMaxIDLength: 0x42F2,
+	EBMLMaxSizeLength: 0x42F3,
+	DocType: 0x4282,
+	DocTypeVersion: 0x4287,
+	DocTypeReadVersion: 0x4285,
+	Segment: 0x18538067,
+	SeekHead: 0x114D9B74,
+	Seek: 0x4DBB,
+	SeekID: 0x53AB,
+	SeekPosition: 0x53AC,
+	Info: 0x1549A966,
+	TimecodeScale: 0x2AD7B1,
+	Duration: 0x4489,
+	MuxingApp: 0x4D80,
+	WritingApp: 0x5741,
+	Tracks: 0x1654AE6B,
+	TrackEntry: 0xAE,
+	TrackNumber: 0xD7,
+	TrackUID: 0x73C5,
+	TrackType: 0x83,
+	CodecID: 0x86,
+	CodecPrivate: 0x63A2,
+	CodecDelay: 0x56AA,
+	SeekPreRoll: 0x56BB,
+	Video: 0xE0,
+	PixelWidth: 0xB0,
+	PixelHeight: 0xBA,
+	Audio: 0xE1,
+	SamplingFrequency: 0xB5,
+	Channels: 0x9F,
+	Cluster: 0x1F43B675,
+	Timecode: 0xE7,
+	SimpleBlock: 0xA3,
+	Cues: 0x1C53BB6B,
+	CuePoint: 0xBB,
+	CueTime: 0xB3,
+	CueTrackPositions: 0xB7,
+	CueTrack: 0xF7,
+	CueClusterPosition: 0xF1,
+}
+
+const VIDEO_TRACK = 1
+const AUDIO_TRACK = 2
+
+const encoder = new TextEncoder()
+
+function concat(parts: Uint8Array[]) {
+	const result = new Uint8Array(parts.reduce((size, part) => size + part.byteLength, 0))
+	let offset = 0
+	for(const part of parts) {
+		result.set(part, offset)
+		offset += part.byteLength
+	}
+	return result
+}
+
+function uint_bytes(value: number, width?: number) {
+	let length = width ?? 1
+	if(width === undefined) {
+		while(value >= 2 ** (8 * length)) {length++}
+	}
+	const bytes = new Uint8Array(length)
+	for(let i = length - 1; i >= 0; i--) {
+		bytes[i] = value % 256
+		value = Math.floor(value / 256)
+	}
+	return bytes
+}
+
+// ids already carry their length marker
+function id_bytes(id: number) {
+	return uint_bytes(id)
+}
+
+function size_bytes(size: number) {
+	let length = 1
+	while(size >= 2 ** (7 * length) - 1) {length++}
+	const bytes = uint_bytes(size, length)
+	bytes[0] |= 1 << (8 - length)
+	return bytes
+}
+
+function element(id: number, data: Uint8Array | Uint8Array[]) {
+	const body = data instanceof Uint8Array ? data : concat(data)
+	return concat([id_bytes(id), size_bytes(body.byteLength), body])
+}
+
+const uint_element = (id: number, value: number, width?: number) => element(id, uint_bytes(value, width))
+const string_element = (id: number, value: string) => element(id, encoder.encode(value))
+
+function float_element(id: number, value: number) {
+	const bytes = new Uint8Array(8)
+	new DataView(bytes.buffer).setFloat64(0, value)
+	return element(id, bytes)
+}
+
+function codec_id(codec: string) {
+	if(codec.startsWith("vp09")) {return "V_VP9"}
+	if(codec.startsWith("av01")) {return "V_AV1"}
+	if(codec.startsWith("vp8")) {return "V_VP8"}
+	throw new Error(`Codec ${codec} can't be muxed into WebM`)
+}
+
+// identification header from RFC 7845, used when the encoder doesn't provide one
+function opus_head(channels: number, sample_rate: number) {
+	const head = new Uint8Array(19)
+	const view = new DataView(head.buffer)
+	head.set(encoder.encode("OpusHead"))
+	view.setUint8(8, 1)
+	view.setUint8(9, channels)
+	view.setUint16(10, OPUS_PRE_SKIP, true)
+	view.setUint32(12, sample_rate, true)
+	view.setInt16(16, 0, true)
+	view.setUint8(18, 0)
+	return head
+}
+
+function opus_pre_skip(head: Uint8Array) {
+	return new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true)
+}
+
+interface Frame extends MuxChunk {
+	track: number
+}
+
+export class WebMMuxer {
+	constructor(
+		private video: WebMVideoTrack | null,
+		private audio: WebMAudioTrack | null,
+		private app_name = "alphax"
+	) {}
+
+	mux() {
+		const frames = this.#frames()
+		const duration = frames.reduce((end, frame) => Math.max(end, frame.timestamp + (frame.duration ?? 0)), 0) / 1000
+		const info = element(ID.Info, [
+			uint_element(ID.TimecodeScale, 1_000_000),
+			float_element(ID.Duration, duration),
+			string_element(ID.MuxingApp, this.app_name),
+			string_element(ID.WritingApp, this.app_name),
+		])
+		const tracks = element(ID.Tracks, this.#track_entries())
+		const clusters = this.#clusters(frames)
+
+		// positions are relative to the start of the segment data, the seek head
+		// uses fixed width positions so its size doesn't depend on them
+		const has_cues = clusters.some(cluster => cluster.cue)
+		const info_position = this.#seek_head(0, 0, has_cues ? 0 : null).byteLength
+		const tracks_position = info_position + info.byteLength
+		const clusters_position = tracks_position + tracks.byteLength
+
+		let offset = clusters_position
+		const cue_points: Uint8Array[] = []
+		for(const cluster of clusters) {
+			if(cluster.cue) {
+				cue_points.push(element(ID.CuePoint, [
+					uint_element(ID.CueTime, cluster.timecode),
+					element(ID.CueTrackPositions, [
+						uint_element(ID.CueTrack, cluster.cue),
+						uint_element(ID.CueClusterPosition, offset),
+					]),
+				]))
+			}
+			offset += cluster.bytes.byteLength
+		}
+		const cues = has_cues ? element(ID.Cues, cue_points) : new Uint8Array(0)
+
+		const head = this.#seek_head(info_position, tracks_position, has_cues ? offset : null)
+		const segment = element(ID.Segment, [head, info, tracks, ...clusters.map(cluster => cluster.bytes), cues])
+		return concat([this.#ebml_header(), segment])
+	}
+
+	#ebml_header() {
+		return element(ID.EBML, [
+			uint_element(ID.EBMLVersion, 1),
+			uint_element(ID.EBMLReadVersion, 1),
+			uint_element(ID.EBMLMaxIDLength, 4),
+			uint_element(ID.EBMLMaxSizeLength, 8),
+			string_element(ID.DocType, "webm"),
+			uint_element(ID.DocTypeVersion, 4),
+			uint_element(ID.DocTypeReadVersion, 2),
+		])
+	}
+
+	#seek_head(info: number, tracks: number, cues: number | null) {
+		return element(ID.SeekHead, [
+			this.#seek(ID.Info, info),
+			this.#seek(ID.Tracks, tracks),
+			...(cues === null ? [] : [this.#seek(ID.Cues, cues)]),
+		])
+	}
+
+	#seek(id: number, position: number) {
+		return element(ID.Seek, [
+			element(ID.SeekID, id_bytes(id)),
+			uint_element(ID.SeekPosition, position, 8),
+		])
+	}
+
+	#track_entries() {
+		const entries: Uint8Array[] = []
+		if(this.video) {
+			entries.push(element(ID.TrackEntry, [
+				uint_element(ID.TrackNumber, VIDEO_TRACK),
+				uint_element(ID.TrackUID, VIDEO_TRACK),
+				uint_element(ID.TrackType, 1),
+				string_element(ID.CodecID, codec_id(this.video.codec)),
+				...(this.video.description ? [element(ID.CodecPrivate, this.video.description)] : []),
+				element(ID.Video, [
+					uint_element(ID.PixelWidth, this.video.width),
+					uint_element(ID.PixelHeight, this.video.height),
+				]),
+			]))
+		}
+		if(this.audio) {
+			const head = this.audio.description ?? opus_head(this.audio.channels, this.audio.sample_rate)
+			entries.push(element(ID.TrackEntry, [
+				uint_element(ID.TrackNumber, AUDIO_TRACK),
+				uint_element(ID.TrackUID, AUDIO_TRACK),
+				uint_element(ID.TrackType, 2),
+				string_element(ID.CodecID, "A_OPUS"),
+				element(ID.CodecPrivate, head),
+				uint_element(ID.CodecDelay, Math.round(opus_pre_skip(head) / 48000 * 1e9)),
+				uint_element(ID.SeekPreRoll, OPUS_SEEK_PRE_ROLL),
+				element(ID.Audio, [
+					float_element(ID.SamplingFrequency, this.audio.sample_rate),
+					uint_element(ID.Channels, this.audio.channels),
+				]),
+			]))
+		}
+		return entries
+	}
+
+	#frames(): Frame[] {
+		const frames: Frame[] = [
+			...(this.video?.chunks ?? []).map(chunk => ({...chunk, track: VIDEO_TRACK})),
+			...(this.audio?.chunks ?? []).map(chunk => ({...chunk, track: AUDIO_TRACK})),
+		]
+		// video first on equal timestamps so clusters open on the keyframe
+		return frames.sort((a, b) => a.timestamp - b.timestamp || a.track - b.track)
+	}
+
+	/*
+	* clusters start on every video keyframe, or every MAX_CLUSTER_SPAN
+	* so block offsets stay in int16 range, clusters opened on a keyframe get a cue
+	*/
+	#clusters(frames: Frame[]) {
+		const clusters: {timecode: number, cue: number, bytes: Uint8Array}[] = []
+		let current: {timecode: number, cue: number, blocks: Uint8Array[]} | null = null
+		const close = () => {
+			if(!current) {return}
+			clusters.push({
+				timecode: current.timecode,
+				cue: current.cue,
+				bytes: element(ID.Cluster, [uint_element(ID.Timecode, current.timecode), ...current.blocks]),
+			})
+		}
+		const has_video = !!this.video
+		for(const frame of frames) {
+			const timecode = Math.round(frame.timestamp / 1000)
+			const video_key = frame.track === VIDEO_TRACK && frame.key
+			if(!current || video_key || timecode - current.timecode >= MAX_CLUSTER_SPAN) {
+				close()
+				const cue = video_key ? VIDEO_TRACK : has_video ? 0 : AUDIO_TRACK
+				current = {timecode, cue, blocks: []}
+			}
+			current.blocks.push(this.#simple_block(frame, timecode - current.timecode))
+		}
+		close()
+		return clusters
+	}
+
+	#simple_block(frame: Frame, relative_timecode: number) {
+		const header = new Uint8Array(4)
+		const view = new DataView(header.buffer)
+		header[0] = 0x80 | frame.track
+		view.setInt16(1, relative_timecode)
+		header[3] = frame.key ? 0x80 : 0
+		return element(ID.SimpleBlock, [header, frame.data])
+	}
+}
@@ -0,0 +1,92 @@
+export type ExportContainer = "mp4" | "webm"
+export type ExportVideoCodec = "h264" | "vp9" | "av1"
+
+export interface ExportSettings {
+	container?: ExportContainer
+	// falls back to another codec of the container when not supported
+	video_codec?: ExportVideoCodec
+	include_audio?: boolean
+	// output size, defaults to the canvas, the composition is fitted inside it
+	width?: number
+	height?: number
+}
+
+export interface VideoEncoderSettings {
+	width: number
+	height: number
+	bitrate: number // bits per second
+	framerate: number
+	bitrateMode?: VideoEncoderBitrateMode
+}
+
+// codecs each container can carry, first one is the default
+export const CONTAINER_VIDEO_CODECS: Record<ExportContainer, ExportVideoCodec[]> = {
+	mp4: ["h264"],
+	webm: ["vp9", "av1"],
+}
+
+export const OPUS_SAMPLE_RATE = 48000
+
+// largest frame (in pixels) of the 1080p levels, bigger frames need the next level
+const FULL_HD_LEVEL_PIXELS = 2048 * 1088
+
+function codec_string(codec: ExportVideoCodec, {width, height}: VideoEncoderSettings) {
+	const full_hd = width * height <= FULL_HD_LEVEL_PIXELS
+	switch(codec) {
+		case "h264":
+			return "avc1.640034" // high profile, level 5.2
+		case "vp9":
+			return full_hd ? "vp09.00.41.08" : "vp09.00.51.08" // profile 0, 8 bit
+		case "av1":
+			return full_hd ? "av01.0.08M.08" : "av01.0.12M.08" // main profile, 8 bit
+	}
+}
+
+export function video_encoder_config(codec: ExportVideoCodec, settings: VideoEncoderSettings): VideoEncoderConfig {
+	return {
+		codec: codec_string(codec, settings),
+		// h264 goes to ffmpeg as a raw annexb stream, the others are muxed from chunks
+		...(codec === "h264" && {avc: {format: "annexb"}}),
+		width: settings.width,
+		height: settings.height,
+		bitrate: settings.bitrate,
+		framerate: settings.framerate,
+		bitrateMode: settings.bitrateMode ?? "constant",
+	}
+}
+
+export async function probe_video_codec(codec: ExportVideoCodec, settings: VideoEncoderSettings) {
+	if(typeof VideoEncoder === "undefined") {return null}
+	const config = video_encoder_config(codec, settings)
+	const {supported} = await VideoEncoder.isConfigSupported(config).catch(() => ({supported: false}))
+	return supported ? config : null
+}
+
+export async function get_supported_video_codecs(container: ExportContainer, settings: VideoEncoderSettings) {
+	const codecs = CONTAINER_VIDEO_CODECS[container]
+	const supported = await Promise.all(codecs.map(codec => probe_video_codec(codec, settings)))
+	return codecs.filter((_, i) => supported[i])
+}
+
+/*
+* encoder config for the preferred codec, or the first other codec of the
+* container this browser can encode, throws when none of them is supported
+*/
+export async function resolve_video_codec(container: ExportContainer, settings: VideoEncoderSettings, preferred?: ExportVideoCodec) {
+	const codecs = CONTAINER_VIDEO_CODECS[container]
+	const candidates = preferred && codecs.includes(preferred)
+		? [preferred, ...codecs.filter(codec => codec !== preferred)]
+		: codecs
+	for(const codec of candidates) {
+		const config = await probe_video_codec(codec, settings)
+		if(config) {return {codec, config}}
+	}
+	throw new Error(`This browser can't encode ${container.toUpperCase()} video at ${settings.width}x${settings.height}`)
+}
+
+export async function probe_opus(channels: number, bitrate: number) {
+	if(typeof AudioEncoder === "undefined") {return null}
+	const config: AudioEncoderConfig = {codec: "opus", sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels, bitrate}
+	const {supported} = await AudioEncoder.isConfigSupported(config).catch(() => ({supported: false}))
+	return supported ? config : null
+}
@@ -1,6 +1,7 @@
 import {AnyEffect} from "../../../../state/types"
+import {get_effect_timeline_end} from "../../../../utils/utils/effect-speed"
 
 export function get_effect_at_timestamp(effect: AnyEffect, timestamp: number) {
-	if(effect.start_at_position <= timestamp && timestamp <= effect.start_at_position + (effect.end - effect.start))
+	if(effect.start_at_position <= timestamp && timestamp <= get_effect_timeline_end(effect))
 		return effect
 }
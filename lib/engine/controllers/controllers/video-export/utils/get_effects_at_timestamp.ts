@@ -1,8 +1,9 @@
 import {AnyEffect} from "../../../../state/types"
 import {sort_effects_by_track} from "./sort_effects_by_track"
+import {get_effect_timeline_end} from "../../../../utils/utils/effect-speed"
 
 export function get_effects_at_timestamp(effects: AnyEffect[], timestamp: number) {
-	const filtered_effects = effects.filter(effect => effect.start_at_position <= timestamp && timestamp <= effect.start_at_position + (effect.end - effect.start))
+	const filtered_effects = effects.filter(effect => effect.start_at_position <= timestamp && timestamp <= get_effect_timeline_end(effect))
 	const sorted_by_track = sort_effects_by_track(filtered_effects)
 	return sorted_by_track
 }
@@ -15,11 +15,14 @@ import {Helpers} from "./helpers"
 import type {TEXT_GRADIENT, XTrack} from "./types"
 import {withBroadcast} from "../utils/utils/with-broadcast"
 import {Transition} from "../controllers/controllers/compositor/parts/transition-manager"
-import {Filter, FilterType} from "../controllers/controllers/compositor/parts/filter-manager"
+import {Filter} from "../controllers/controllers/compositor/parts/filter-manager"
+import type {EffectMask} from "../utils/utils/effect-mask"
+import {copy_effect_props} from "../utils/utils/effect-props"
 import {actionize_historical, actionize_non_historical} from "../utils/utils/actionize"
 import {
 	AnyEffect,
 	AudioEffect,
+	AdjustmentEffect,
 	ExportStatus,
 	Font,
 	ImageEffect,
@@ -136,6 +139,9 @@ export const historical = actionize_historical({
 	clear_transitions: state => () => {
 		state.transitions = []
 	},
+	set_transitions: state => (transitions: Transition[]) => {
+		state.transitions = transitions
+	},
 	clear_animations: state => () => {
 		state.animations = []
 	},
@@ -153,12 +159,23 @@ export const historical = actionize_historical({
 	remove_animation: state => (effect: VideoEffect | ImageEffect, type: "in" | "out", animationFor: AnimationFor) => {
 		state.animations = state.animations.filter((animation: Animation) => !(animation.targetEffect.id === effect.id && animation.type === type && animation.for === animationFor))
 	},
-	remove_filter: state => (effect: ImageEffect | VideoEffect, type: FilterType) => {
-		state.filters = state.filters.filter((filter: Filter) => !(filter.targetEffectId === effect.id && filter.type === type))
+	remove_filter: state => (filterId: string) => {
+		state.filters = state.filters.filter((filter: Filter) => filter.id !== filterId)
 	},
 	add_filter: state => (filter: Filter) => {
 		state.filters.push(filter)
 	},
+	set_masks: state => ({id}: Exclude<AnyEffect, AudioEffect | AdjustmentEffect>, masks: EffectMask[] | undefined) => {
+		const effect = state.effects.find((e: AnyEffect) => e.id === id) as Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
+		effect.masks = masks
+	},
+	apply_effect_props: state => (source: AnyEffect) => {
+		const effect = state.effects.find((e: AnyEffect) => e.id === source.id)
+		if(effect) {copy_effect_props(effect, source)}
+	},
+	set_filters: state => (filters: Filter[]) => {
+		state.filters = filters
+	},
 	set_incoming_historical_state_webrtc: state => (historical: State) => {
 		for(const k in state) {
 			const key = k as keyof typeof state
@@ -187,6 +204,9 @@ export const historical = actionize_historical({
 	add_audio_effect: state => (effect: AudioEffect) => {
 		state.effects.push(effect)
 	},
+	add_adjustment_effect: state => (effect: AdjustmentEffect) => {
+		state.effects.push(effect)
+	},
 	set_pivot: state => ({id}: VideoEffect | ImageEffect | TextEffect, x: number, y: number) => {
 		const effect = state.effects.find((e: AnyEffect) => e.id === id) as VideoEffect | ImageEffect
 		effect!.rect.pivot = {x, y}
@@ -357,7 +377,7 @@ export const historical = actionize_historical({
 		effect!.end = end
 	},
 	add_track: state => () => {
-		state.tracks.push({id: generate_id(), muted: false, locked: false, visible: true})
+		state.tracks.push({id: generate_id(), muted: false, locked: false, visible: true, volume: 1, pan: 0, solo: false})
 	},
 	remove_track: state => (id: string) => {
 		const new_arr = state.tracks.filter((track: XTrack) => track.id !== id)
@@ -365,7 +385,11 @@ export const historical = actionize_historical({
 	},
 	remove_tracks: state => () => {
 		state.tracks = []
-		state.tracks.push({id: generate_id(), muted: false, locked: false, visible: true})
+		state.tracks.push({id: generate_id(), muted: false, locked: false, visible: true, volume: 1, pan: 0, solo: false})
+	},
+	// replaces tracks wholesale, used when the editor timeline is synced into the engine
+	set_tracks: state => (tracks: XTrack[]) => {
+		state.tracks = tracks
 	},
 	set_rotation: state => ({id}: TextEffect | ImageEffect | VideoEffect, rotation: number) => {
 		const effect = state.effects.find((e: AnyEffect) => e.id === id) as TextEffect | VideoEffect | ImageEffect
@@ -376,11 +400,11 @@ export const historical = actionize_historical({
 		effect.rect.position_on_canvas = {x, y}
 	},
 	set_effect_width: state => ({id}: TextEffect | ImageEffect | VideoEffect, width: number) => {
-		const effect = state.effects.find((e: AnyEffect) => e.id === id) as Exclude<AnyEffect, AudioEffect>
+		const effect = state.effects.find((e: AnyEffect) => e.id === id) as Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
 		effect.rect.width = width
 	},
 	set_effect_height: state => ({id}: TextEffect | ImageEffect | VideoEffect, height: number) => {
-		const effect = state.effects.find((e: AnyEffect) => e.id === id) as Exclude<AnyEffect, AudioEffect>
+		const effect = state.effects.find((e: AnyEffect) => e.id === id) as Exclude<AnyEffect, AudioEffect | AdjustmentEffect>
 		effect.rect.height = height
 	},
 	remove_effect: state => ({id}: AnyEffect) => {
@@ -10,7 +10,10 @@ export const historical_state: HistoricalState = {
 			id: generate_id(),
 			visible: true,
 			locked: false,
-			muted: false
+			muted: false,
+			volume: 1,
+			pan: 0,
+			solo: false
 		}
 	],
 	effects: [],
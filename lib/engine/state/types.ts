@@ -3,6 +3,14 @@ import {BroadcastOptions} from "../utils/utils/with-broadcast"
 import {Filter} from "../controllers/controllers/compositor/parts/filter-manager"
 import {Animation} from "../controllers/controllers/compositor/parts/animation-manager"
 import {Transition} from "../controllers/controllers/compositor/parts/transition-manager"
+import {Keyframes} from "../controllers/controllers/compositor/parts/keyframe-manager"
+import {SpeedSettings} from "../utils/utils/effect-speed"
+import {AudioSettings} from "../utils/utils/effect-audio"
+import {ColorSettings} from "../utils/utils/color-grade"
+import {KeySettings} from "../utils/utils/keyer"
+import {MaskSettings} from "../utils/utils/effect-mask"
+import {BlendSettings} from "../utils/utils/blend-mode"
+import {LayoutSettings} from "../utils/utils/media-layout"
 import type {
 	ColorSource,
 	TextStyleAlign,
@@ -70,9 +78,10 @@ export interface Effect {
 	start: number
 	end: number
 	track: number
+	keyframes?: Keyframes
 }
 
-export interface VideoEffect extends Effect {
+export interface VideoEffect extends Effect, SpeedSettings, AudioSettings, ColorSettings, KeySettings, MaskSettings, BlendSettings, LayoutSettings {
 	kind: "video"
 	thumbnail: string
 	raw_duration: number
@@ -82,20 +91,26 @@ export interface VideoEffect extends Effect {
 	name: string
 }
 
-export interface AudioEffect extends Effect {
+export interface AudioEffect extends Effect, SpeedSettings, AudioSettings {
 	kind: "audio"
 	raw_duration: number
 	file_hash: string
 	name: string
 }
 
-export interface ImageEffect extends Effect {
+export interface ImageEffect extends Effect, ColorSettings, KeySettings, MaskSettings, BlendSettings, LayoutSettings {
 	kind: "image"
 	rect: EffectRect
 	file_hash: string
 	name: string
 }
 
+// filters of an adjustment layer apply to everything composited beneath it
+export interface AdjustmentEffect extends Effect {
+	kind: "adjustment"
+	name: string
+}
+
 export type TextEffectProps = Omit<TextEffect, keyof Effect | "kind">
 export type Font = string
 
@@ -115,7 +130,7 @@ export interface EffectRect {
 	}
 }
 
-export interface TextEffect extends Effect {
+export interface TextEffect extends Effect, MaskSettings, BlendSettings {
 	kind: "text"
 	fontFamily: Font
 	text: string
@@ -146,6 +161,34 @@ export interface TextEffect extends Effect {
 	breakWords: boolean
 	whiteSpace: TextStyleWhiteSpace
 	textBaseline: TextStyleTextBaseline
+	// timeline properties the compositor doesn't draw yet, kept so
+	// the effect converts back to the same Alphax element
+	name?: string
+	background_color?: string
+	text_decoration?: "none" | "underline" | "line-through"
+	// word timings turn a text effect into an animated caption
+	words?: CaptionWord[]
+	caption_style?: CaptionStyle
+}
+
+export interface CaptionWord {
+	text: string
+	// ms of local time, measured from the untrimmed start like keyframes
+	start: number
+	end: number
+}
+
+export type CaptionAnimation = "karaoke" | "highlight" | "pop-in" | "color-change"
+
+export interface CaptionStyle {
+	animation: CaptionAnimation
+	highlight_color: string
+	// box drawn behind the current word, transparent when omitted
+	highlight_background?: string
+	// opacity of words that are not spoken yet
+	upcoming_opacity: number
+	// starting scale of a word popping in
+	pop_scale: number
 }
 
 export type AnyEffect = (
@@ -153,6 +196,7 @@ export type AnyEffect = (
 	| AudioEffect
 	| TextEffect
 	| ImageEffect
+	| AdjustmentEffect
 )
 
 export type Timeline = {
@@ -182,6 +226,11 @@ export interface XTrack {
 	locked: boolean
 	visible: boolean
 	muted: boolean
+	// linear gain of the track bus
+	volume: number
+	// -1 left to 1 right
+	pan: number
+	solo: boolean
 }
 
 export interface Grabbed {
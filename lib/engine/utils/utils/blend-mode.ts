@@ -0,0 +1,32 @@
+/*
+* Opacity and blend mode of a visual effect. Opacity is 0-1 and keyframed
+* opacity overrides it. Blend modes other than normal composite the effect
+* with everything beneath it, as in the W3C compositing spec.
+*/
+
+export const BLEND_MODES = [
+	"normal",
+	"multiply",
+	"screen",
+	"overlay",
+	"darken",
+	"lighten",
+	"color-dodge",
+	"color-burn",
+	"hard-light",
+	"soft-light",
+	"difference",
+	"exclusion",
+	"add",
+] as const
+
+export type BlendMode = typeof BLEND_MODES[number]
+
+export interface BlendSettings {
+	opacity?: number
+	blend_mode?: BlendMode
+}
+
+export function is_blended(mode: BlendMode | undefined): mode is Exclude<BlendMode, "normal"> {
+	return !!mode && mode !== "normal"
+}
@@ -1,5 +1,6 @@
 import {AnyEffect} from "../state/types"
+import {get_effect_timeline_end} from "./effect-speed"
 
 export function calculateProjectDuration(effects: AnyEffect[]) {
-	return Math.max(...effects.map(effect => effect.start_at_position + (effect.end - effect.start)))
+	return Math.max(...effects.map(effect => get_effect_timeline_end(effect)))
 }
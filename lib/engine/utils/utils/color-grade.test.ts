@@ -0,0 +1,117 @@
+import type {Suite} from "cynic"
+import {expect} from "chai"
+import {type CurvePoint, bake_curve, default_color_grade, parse_cube_lut, same_color_grade} from "./color-grade"
+
+// 2x2x2 identity, red changing fastest
+const IDENTITY = [
+	"0 0 0", "1 0 0", "0 1 0", "1 1 0",
+	"0 0 1", "1 0 1", "0 1 1", "1 1 1",
+]
+
+const cube = (...lines: string[]) => lines.join("\n")
+
+function error_of(parse: () => unknown) {
+	try {
+		parse()
+		return null
+	} catch(error) {
+		return (error as Error).message
+	}
+}
+
+const is_monotone = (samples: Float32Array) => samples.every((value, i) => i === 0 || value >= samples[i - 1])
+
+export default <Suite> {
+	"cube lut parsing": {
+		"reads title, size and entries": async() => {
+			const lut = parse_cube_lut(cube("# comment", "TITLE \"Warm\"", "LUT_3D_SIZE 2", "", ...IDENTITY), "file.cube")
+			expect(lut.title).to.equal("Warm")
+			expect(lut.size).to.equal(2)
+			expect(lut.data).to.deep.equal(IDENTITY.flatMap(line => line.split(" ").map(Number)))
+			expect(lut.min).to.deep.equal([0, 0, 0])
+			expect(lut.max).to.deep.equal([1, 1, 1])
+			expect(lut.intensity).to.equal(1)
+		},
+		"falls back to the given title and reads windows line endings": async() => {
+			const lut = parse_cube_lut(["LUT_3D_SIZE 2", ...IDENTITY].join("\r\n"), "file.cube")
+			expect(lut.title).to.equal("file.cube")
+			expect(lut.data.length).to.equal(24)
+		},
+		"reads DOMAIN_MIN and DOMAIN_MAX": async() => {
+			const lut = parse_cube_lut(cube("DOMAIN_MIN 0 0 -0.5", "DOMAIN_MAX 1 2 1.5", "LUT_3D_SIZE 2", ...IDENTITY))
+			expect(lut.min).to.deep.equal([0, 0, -0.5])
+			expect(lut.max).to.deep.equal([1, 2, 1.5])
+		},
+		"rejects a domain that is empty or inverted": async() => {
+			expect(error_of(() => parse_cube_lut(cube("DOMAIN_MIN 0 1 0", "DOMAIN_MAX 1 1 1", "LUT_3D_SIZE 2", ...IDENTITY))))
+				.to.equal("Invalid .cube LUT: DOMAIN_MIN must be below DOMAIN_MAX")
+			expect(error_of(() => parse_cube_lut(cube("DOMAIN_MIN 0 0", "LUT_3D_SIZE 2", ...IDENTITY))))
+				.to.equal("Invalid .cube LUT: expected three numbers on line 1")
+		},
+		"rejects a wrong entry count": async() => {
+			expect(error_of(() => parse_cube_lut(cube("LUT_3D_SIZE 2", ...IDENTITY.slice(1)))))
+				.to.equal("Invalid .cube LUT: expected 8 entries, found 7")
+			expect(error_of(() => parse_cube_lut(cube("LUT_3D_SIZE 2", ...IDENTITY, "0.5 0.5 0.5"))))
+				.to.equal("Invalid .cube LUT: expected 8 entries, found 9")
+		},
+		"rejects 1D luts, missing and unsupported sizes": async() => {
+			expect(error_of(() => parse_cube_lut(cube("LUT_1D_SIZE 2", "0 0 0", "1 1 1"))))
+				.to.equal("Invalid .cube LUT: 1D LUTs aren't supported, export a 3D LUT")
+			expect(error_of(() => parse_cube_lut(cube(...IDENTITY))))
+				.to.equal("Invalid .cube LUT: missing LUT_3D_SIZE")
+			expect(error_of(() => parse_cube_lut(cube("LUT_3D_SIZE 256"))))
+				.to.equal("Invalid .cube LUT: unsupported size 256 on line 1")
+		},
+		"points at lines that aren't numbers": async() => {
+			expect(error_of(() => parse_cube_lut(cube("LUT_3D_SIZE 2", "0 0 0", "1 zero 0"))))
+				.to.equal("Invalid .cube LUT: expected three numbers on line 3")
+		},
+	},
+	"curve baking": {
+		"keeps a linear curve an identity": async() => {
+			const samples = bake_curve([[0, 0], [1, 1]], 5)
+			expect(Array.from(samples)).to.deep.equal([0, 0.25, 0.5, 0.75, 1])
+			expect(Array.from(bake_curve([], 3))).to.deep.equal([0, 0.5, 1])
+		},
+		"passes through points in any order": async() => {
+			const samples = bake_curve([[1, 1], [0.5, 0.8], [0, 0]], 5)
+			expect(Math.abs(samples[2] - 0.8) < 1e-6).to.equal(true)
+			expect(samples[0]).to.equal(0)
+			expect(samples[4]).to.equal(1)
+		},
+		"stays monotone between monotone points": async() => {
+			const curves: CurvePoint[][] = [
+				[[0, 0], [0.25, 0.6], [0.3, 0.62], [1, 1]],
+				[[0, 0.1], [0.5, 0.5], [0.55, 0.9], [1, 0.95]],
+				[[0, 0], [0.4, 0.4], [0.6, 0.4], [1, 1]],
+			]
+			for(const points of curves) {
+				const samples = bake_curve(points)
+				expect(is_monotone(samples)).to.equal(true)
+				// no overshoot past the neighbouring points either
+				const [low, high] = [points[0][1], points[points.length - 1][1]]
+				expect(samples.every(value => value >= low && value <= high)).to.equal(true)
+			}
+		},
+		"holds the ends and clamps to the unit range": async() => {
+			const samples = bake_curve([[0.25, -0.5], [0.75, 1.5]], 9)
+			expect(Array.from(samples.slice(0, 3))).to.deep.equal([0, 0, 0])
+			expect(Array.from(samples.slice(6))).to.deep.equal([1, 1, 1])
+		},
+	},
+	"grade comparison": {
+		"compares lut data by reference": async() => {
+			const lut = parse_cube_lut(cube("LUT_3D_SIZE 2", ...IDENTITY))
+			const grade = {...default_color_grade(), lut}
+			expect(same_color_grade(grade, {...default_color_grade(), lut: {...lut}})).to.equal(true)
+			expect(same_color_grade(grade, {...default_color_grade(), lut: {...lut, data: [...lut.data]}})).to.equal(false)
+			expect(same_color_grade(grade, {...default_color_grade(), lut: {...lut, intensity: 0.5}})).to.equal(false)
+		},
+		"compares the rest of the grade by value": async() => {
+			expect(same_color_grade(default_color_grade(), default_color_grade())).to.equal(true)
+			expect(same_color_grade(default_color_grade(), {...default_color_grade(), lift: [0.1, 0, 0]})).to.equal(false)
+			expect(same_color_grade(undefined, default_color_grade())).to.equal(false)
+			expect(same_color_grade(undefined, undefined)).to.equal(true)
+		},
+	},
+}
@@ -0,0 +1,207 @@
+/*
+* Primary color grade of a video or image effect, applied before its filter chain.
+* Wheels are offsets from neutral (0) per channel, curves are points in 0-1,
+* the hsl qualifier picks a hue/saturation/luminance range and adjusts it,
+* and the lut is a parsed .cube 3D LUT mixed in by its intensity.
+*/
+
+export type RGB = [number, number, number]
+export type CurvePoint = [number, number]
+
+export interface ColorCurves {
+	master: CurvePoint[]
+	red: CurvePoint[]
+	green: CurvePoint[]
+	blue: CurvePoint[]
+}
+
+export interface HslQualifier {
+	hue: number // center, degrees
+	range: number // width around the center, degrees
+	saturation: [number, number]
+	luminance: [number, number]
+	softness: number // 0-1, feathers every range
+	adjust: {
+		hue: number // degrees
+		saturation: number // -1 to 1
+		lightness: number // -1 to 1
+	}
+}
+
+export interface ColorLut {
+	title: string
+	size: number
+	min: RGB
+	max: RGB
+	// size³ rgb triplets, red changing fastest, as in the file
+	data: number[]
+	intensity: number
+}
+
+export interface ColorGrade {
+	lift: RGB
+	gamma: RGB
+	gain: RGB
+	curves: ColorCurves
+	hsl?: HslQualifier
+	lut?: ColorLut
+	bypassed?: boolean
+}
+
+export interface ColorSettings {
+	color_grade?: ColorGrade
+}
+
+export const CURVE_RESOLUTION = 256
+export const MAX_LUT_SIZE = 128
+
+const linear_curve = (): CurvePoint[] => [[0, 0], [1, 1]]
+
+export function default_color_grade(): ColorGrade {
+	return {
+		lift: [0, 0, 0],
+		gamma: [0, 0, 0],
+		gain: [0, 0, 0],
+		curves: {master: linear_curve(), red: linear_curve(), green: linear_curve(), blue: linear_curve()},
+	}
+}
+
+export function default_hsl_qualifier(): HslQualifier {
+	return {
+		hue: 0,
+		range: 60,
+		saturation: [0.1, 1],
+		luminance: [0, 1],
+		softness: 0.2,
+		adjust: {hue: 0, saturation: 0, lightness: 0},
+	}
+}
+
+const is_neutral_rgb = (rgb: RGB) => rgb.every(value => value === 0)
+
+const is_linear_curve = (points: CurvePoint[]) => points.every(([x, y]) => x === y)
+
+// neutral grades aren't applied at all, so ungraded clips cost nothing
+export function is_neutral_grade(grade: ColorGrade | undefined) {
+	if(!grade || grade.bypassed) {return true}
+	const {lift, gamma, gain, curves, hsl, lut} = grade
+	const hsl_neutral = !hsl || (hsl.adjust.hue === 0 && hsl.adjust.saturation === 0 && hsl.adjust.lightness === 0)
+	return is_neutral_rgb(lift) && is_neutral_rgb(gamma) && is_neutral_rgb(gain)
+		&& Object.values(curves).every(is_linear_curve)
+		&& hsl_neutral
+		&& (!lut || lut.intensity === 0)
+}
+
+/*
+* grades are compared on every timeline sync, so lut data is compared by
+* reference, it is only replaced when another .cube file is loaded
+*/
+export function same_color_grade(a: ColorGrade | undefined, b: ColorGrade | undefined) {
+	if(a === b) {return true}
+	if(!a || !b) {return false}
+	const {lut: lut_a, ...rest_a} = a
+	const {lut: lut_b, ...rest_b} = b
+	const same_lut = lut_a === lut_b || (!!lut_a && !!lut_b && lut_a.data === lut_b.data
+		&& JSON.stringify({...lut_a, data: null}) === JSON.stringify({...lut_b, data: null}))
+	return same_lut && JSON.stringify(rest_a) === JSON.stringify(rest_b)
+}
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value))
+
+/*
+* samples a curve at `resolution` evenly spaced inputs, monotone cubic
+* (Fritsch-Carlson) between points so the curve never overshoots them
+*/
+export function bake_curve(points: CurvePoint[], resolution = CURVE_RESOLUTION) {
+	const sorted = [...points].sort((a, b) => a[0] - b[0])
+	const samples = new Float32Array(resolution)
+	if(sorted.length === 0) {
+		return samples.map((_, i) => i / (resolution - 1))
+	}
+	const n = sorted.length
+	const xs = sorted.map(([x]) => x)
+	const ys = sorted.map(([, y]) => y)
+	const slopes = xs.slice(1).map((x, i) => (ys[i + 1] - ys[i]) / Math.max(x - xs[i], 1e-6))
+	const tangents = xs.map((_, i) => {
+		if(i === 0) {return slopes[0] ?? 0}
+		if(i === n - 1) {return slopes[n - 2]}
+		const [a, b] = [slopes[i - 1], slopes[i]]
+		return a * b <= 0 ? 0 : (3 * a * b) / (Math.max(a, b) + 2 * Math.min(a, b))
+	})
+	let segment = 0
+	for(let i = 0; i < resolution; i++) {
+		const x = i / (resolution - 1)
+		if(x <= xs[0]) {samples[i] = clamp(ys[0]); continue}
+		if(x >= xs[n - 1]) {samples[i] = clamp(ys[n - 1]); continue}
+		while(x > xs[segment + 1]) {segment++}
+		const h = xs[segment + 1] - xs[segment]
+		const t = (x - xs[segment]) / h
+		const t2 = t * t
+		const t3 = t2 * t
+		samples[i] = clamp(
+			(2 * t3 - 3 * t2 + 1) * ys[segment]
+			+ (t3 - 2 * t2 + t) * h * tangents[segment]
+			+ (-2 * t3 + 3 * t2) * ys[segment + 1]
+			+ (t3 - t2) * h * tangents[segment + 1]
+		)
+	}
+	return samples
+}
+
+/*
+* parses an Adobe/Resolve .cube 3D LUT,
+* throws with the offending line when the file isn't one
+*/
+export function parse_cube_lut(text: string, fallback_title = "LUT"): ColorLut {
+	let title = fallback_title
+	let size = 0
+	let min: RGB = [0, 0, 0]
+	let max: RGB = [1, 1, 1]
+	const data: number[] = []
+	const triplet = (values: string[], line: number): RGB => {
+		const numbers = values.map(Number)
+		if(numbers.length !== 3 || numbers.some(value => !Number.isFinite(value))) {
+			throw new Error(`Invalid .cube LUT: expected three numbers on line ${line}`)
+		}
+		return numbers as RGB
+	}
+
+	text.split(/\r?\n/).forEach((raw, index) => {
+		const line = raw.trim()
+		const number = index + 1
+		if(!line || line.startsWith("#")) {return}
+		const [keyword, ...values] = line.split(/\s+/)
+		switch(keyword) {
+			case "TITLE":
+				title = line.slice(keyword.length).trim().replace(/^"|"$/g, "") || title
+				return
+			case "LUT_3D_SIZE":
+				size = Number(values[0])
+				if(!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+					throw new Error(`Invalid .cube LUT: unsupported size ${values[0]} on line ${number}`)
+				}
+				return
+			case "LUT_1D_SIZE":
+				throw new Error("Invalid .cube LUT: 1D LUTs aren't supported, export a 3D LUT")
+			case "DOMAIN_MIN":
+				min = triplet(values, number)
+				return
+			case "DOMAIN_MAX":
+				max = triplet(values, number)
+				return
+			case "LUT_3D_INPUT_RANGE":
+				return
+			default:
+				data.push(...triplet([keyword, ...values], number))
+		}
+	})
+
+	if(!size) {throw new Error("Invalid .cube LUT: missing LUT_3D_SIZE")}
+	if(data.length !== size ** 3 * 3) {
+		throw new Error(`Invalid .cube LUT: expected ${size ** 3} entries, found ${data.length / 3}`)
+	}
+	if(min.some((value, i) => value >= max[i])) {
+		throw new Error("Invalid .cube LUT: DOMAIN_MIN must be below DOMAIN_MAX")
+	}
+	return {title, size, min, max, data, intensity: 1}
+}
@@ -0,0 +1,64 @@
+import {AnyEffect, AudioEffect, VideoEffect, XTrack} from "../../state/types"
+import {interpolate_keyframes} from "../../controllers/controllers/compositor/utils/interpolate_keyframes"
+import {get_effect_local_time, get_effect_timeline_end} from "./effect-speed"
+
+/*
+* Clip level mix settings. Gain is linear, fades are ms on the timeline clock
+* measured from the visible start and towards the visible end of a clip.
+* Preview and export both read gains through the functions below so they mix the same.
+*/
+
+export interface AudioSettings {
+	gain?: number
+	fade_in?: number
+	fade_out?: number
+	muted?: boolean
+}
+
+export type AudibleEffect = VideoEffect | AudioEffect
+
+export interface TrackMix {
+	gain: number
+	pan: number
+}
+
+// clip and track gain limit, also the range of the mix sliders. roughly +6dB
+export const MAX_GAIN = 2
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+export function has_audio(effect: AnyEffect): effect is AudibleEffect {
+	return effect.kind === "video" || effect.kind === "audio"
+}
+
+export function get_effect_fade(effect: AudibleEffect, timecode: number) {
+	const {fade_in = 0, fade_out = 0} = effect
+	let fade = 1
+	if(fade_in > 0) {
+		fade = Math.min(fade, (timecode - effect.start_at_position) / fade_in)
+	}
+	if(fade_out > 0) {
+		fade = Math.min(fade, (get_effect_timeline_end(effect) - timecode) / fade_out)
+	}
+	return clamp(fade, 0, 1)
+}
+
+// static gain, volume keyframes and fades multiplied together
+export function get_effect_gain(effect: AudibleEffect, timecode: number) {
+	if(effect.muted) {return 0}
+	const volume = interpolate_keyframes(effect.keyframes?.volume, get_effect_local_time(effect, timecode)) ?? 1
+	return clamp(effect.gain ?? 1, 0, MAX_GAIN) * Math.max(0, volume) * get_effect_fade(effect, timecode)
+}
+
+// soloing any track silences every track that isnt soloed
+export function get_track_mix(tracks: XTrack[], index: number): TrackMix {
+	const track = tracks[index]
+	const any_solo = tracks.some(track => track.solo)
+	const audible = track
+		? !track.muted && (!any_solo || track.solo)
+		: !any_solo
+	return {
+		gain: audible ? clamp(track?.volume ?? 1, 0, MAX_GAIN) : 0,
+		pan: clamp(track?.pan ?? 0, -1, 1),
+	}
+}
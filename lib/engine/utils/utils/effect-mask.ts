@@ -0,0 +1,77 @@
+/*
+* Masks of a visual effect. A mask box is normalized to the effect's frame
+* (0-1 from its top left) so it follows the effect when moved, scaled or rotated.
+* Bezier points are normalized to the mask box. Masks add up, inverted masks
+* cut their shape out of the result, feather is in frame pixels.
+* The track matte uses the effect on the track above as alpha or luma,
+* that effect isn't drawn itself while it serves as matte.
+*/
+
+export type MaskShape = "rectangle" | "ellipse" | "bezier"
+
+// x, y and the out tangent, the in tangent mirrors it. a zero tangent makes a corner
+export type MaskPoint = [number, number, number, number]
+
+export interface EffectMask {
+	id: string
+	shape: MaskShape
+	x: number
+	y: number
+	width: number
+	height: number
+	points?: MaskPoint[]
+	feather: number
+	invert?: boolean
+}
+
+export interface TrackMatte {
+	type: "alpha" | "luma"
+	invert?: boolean
+}
+
+export interface MaskSettings {
+	masks?: EffectMask[]
+	track_matte?: TrackMatte
+}
+
+export const MASK_ANIMATED_PROPERTIES = ["x", "y", "width", "height", "feather"] as const
+export type MaskAnimatedProperty = typeof MASK_ANIMATED_PROPERTIES[number]
+
+// keyframes of a mask are addressed as `mask.<mask id>.<property>`
+export function mask_keyframe_property(id: string, property: MaskAnimatedProperty) {
+	return `mask.${id}.${property}` as const
+}
+
+// tangent length that makes four points a circle
+const CIRCLE_TANGENT = 0.276
+
+const ELLIPSE_POINTS: MaskPoint[] = [
+	[0.5, 0, CIRCLE_TANGENT, 0],
+	[1, 0.5, 0, CIRCLE_TANGENT],
+	[0.5, 1, -CIRCLE_TANGENT, 0],
+	[0, 0.5, 0, -CIRCLE_TANGENT],
+]
+
+const RECTANGLE_POINTS: MaskPoint[] = [
+	[0, 0, 0, 0],
+	[1, 0, 0, 0],
+	[1, 1, 0, 0],
+	[0, 1, 0, 0],
+]
+
+// every shape drawn as a closed bezier path through these points
+export function mask_points(mask: EffectMask): MaskPoint[] {
+	switch(mask.shape) {
+		case "rectangle": return RECTANGLE_POINTS
+		case "ellipse": return ELLIPSE_POINTS
+		case "bezier": return mask.points ?? ELLIPSE_POINTS
+	}
+}
+
+export function default_mask(id: string, shape: MaskShape): EffectMask {
+	const mask: EffectMask = {id, shape, x: 0.25, y: 0.25, width: 0.5, height: 0.5, feather: 0}
+	if(shape === "bezier") {
+		mask.points = ELLIPSE_POINTS.map(point => [...point] as MaskPoint)
+	}
+	return mask
+}
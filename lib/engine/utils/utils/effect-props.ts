@@ -0,0 +1,67 @@
+import type {AnyEffect, EffectRect} from "../../state/types"
+import {type ColorGrade, same_color_grade} from "./color-grade"
+
+/*
+* Effect props are applied to existing canvas objects when effects are composed
+* or their filters rebuilt, so editing them never recreates an object.
+* Timeline sync compares effects without them to tell whether objects need
+* recreating, and copies them over in one action when only they changed.
+*/
+
+export const EFFECT_PROPS = [
+	"color_grade",
+	"key",
+	"masks",
+	"track_matte",
+	"opacity",
+	"blend_mode",
+	"crop",
+	"flip_x",
+	"flip_y",
+	"fit",
+	"frame",
+	"layout_slot",
+] as const
+
+// size stays out, sprites are created at their size
+export const RECT_PROPS = ["position_on_canvas", "rotation", "scaleX", "scaleY", "pivot"] as const
+
+type EffectProp = typeof EFFECT_PROPS[number]
+type EffectProps = Partial<Record<EffectProp, unknown>>
+
+const rect_of = (effect: AnyEffect): EffectRect | undefined => "rect" in effect ? effect.rect : undefined
+
+// the effect as far as recreating objects is concerned
+export function without_effect_props(effect: AnyEffect) {
+	const rest: Record<string, unknown> = {...effect}
+	for(const prop of EFFECT_PROPS) {delete rest[prop]}
+	const rect = rect_of(effect)
+	if(rect) {rest.rect = {width: rect.width, height: rect.height}}
+	return rest
+}
+
+// luts are large, grades compare their data by reference
+function same_prop(prop: EffectProp, a: EffectProps, b: EffectProps) {
+	return prop === "color_grade"
+		? same_color_grade(a.color_grade as ColorGrade | undefined, b.color_grade as ColorGrade | undefined)
+		: JSON.stringify(a[prop]) === JSON.stringify(b[prop])
+}
+
+export function effect_props_changed(a: AnyEffect, b: AnyEffect) {
+	const [rect_a, rect_b] = [rect_of(a), rect_of(b)]
+	return EFFECT_PROPS.some(prop => !same_prop(prop, a as EffectProps, b as EffectProps))
+		|| RECT_PROPS.some(prop => JSON.stringify(rect_a?.[prop]) !== JSON.stringify(rect_b?.[prop]))
+}
+
+// copies props of source onto target, props source doesn't have are removed
+export function copy_effect_props(target: AnyEffect, source: AnyEffect) {
+	const [to, from] = [target as EffectProps, source as EffectProps]
+	for(const prop of EFFECT_PROPS) {
+		if(prop in from) {to[prop] = from[prop]}
+		else {delete to[prop]}
+	}
+	const [target_rect, source_rect] = [rect_of(target), rect_of(source)]
+	if(target_rect && source_rect) {
+		Object.assign(target_rect, Object.fromEntries(RECT_PROPS.map(prop => [prop, source_rect[prop]])))
+	}
+}
@@ -0,0 +1,63 @@
+import type {Suite} from "cynic"
+import {expect} from "chai"
+import type {Keyframe} from "../../controllers/controllers/compositor/parts/keyframe-manager"
+import {interpolate_keyframes} from "../../controllers/controllers/compositor/utils/interpolate_keyframes"
+import {MAX_SPEED, MIN_SPEED, type SpeedSettings, local_to_source, source_to_local} from "./effect-speed"
+
+const keyframe = (time: number, value: number, interpolation: Keyframe["interpolation"] = "linear"): Keyframe => ({
+	id: `${time}`,
+	time,
+	value,
+	interpolation,
+})
+
+// integrates the curve in 1ms steps, what the segments have to agree with
+function sampled_source({speed_curve}: SpeedSettings, local: number) {
+	let source = 0
+	for(let t = 0; t < local; t++) {
+		const speed = interpolate_keyframes(speed_curve, t + 0.5) ?? 1
+		source += Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed))
+	}
+	return source
+}
+
+const ramp: SpeedSettings = {speed_curve: [keyframe(1000, 1), keyframe(3000, 3)]}
+
+export default <Suite> {
+	"effect speed": {
+		"constant speed scales time": async() => {
+			expect(local_to_source({speed: 2}, 1500)).to.equal(3000)
+			expect(source_to_local({speed: 2}, 3000)).to.equal(1500)
+		},
+		"linear ramp integrates exactly": async() => {
+			// 1000ms at 1x, then a ramp from 1x to 3x averaging 2x
+			expect(local_to_source(ramp, 1000)).to.equal(1000)
+			expect(local_to_source(ramp, 3000)).to.equal(5000)
+			expect(local_to_source(ramp, 4000)).to.equal(8000)
+		},
+		"source to local inverts local to source": async() => {
+			const curves: SpeedSettings[] = [
+				ramp,
+				{speed_curve: [keyframe(0, 4, "hold"), keyframe(500, 0.5)]},
+				{speed_curve: [keyframe(200, 0.5, "bezier"), keyframe(2200, 8)]},
+				{speed_curve: [keyframe(0, 20), keyframe(1000, -1)]},
+			]
+			for(const settings of curves) {
+				for(const local of [0, 250, 1234, 2500, 6000]) {
+					const back = source_to_local(settings, local_to_source(settings, local))
+					expect(Math.abs(back - local) < 0.01).to.equal(true)
+				}
+			}
+		},
+		"clamped and eased segments match sampling": async() => {
+			const curves: SpeedSettings[] = [
+				{speed_curve: [keyframe(0, 20), keyframe(1000, -1)]},
+				{speed_curve: [keyframe(200, 0.5, "bezier"), keyframe(2200, 8)]},
+			]
+			for(const settings of curves) {
+				const error = Math.abs(local_to_source(settings, 3000) - sampled_source(settings, 3000))
+				expect(error < 1).to.equal(true)
+			}
+		},
+	},
+}
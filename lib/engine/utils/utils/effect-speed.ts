@@ -0,0 +1,223 @@
+import {AnyEffect} from "../../state/types"
+import {Keyframe} from "../../controllers/controllers/compositor/parts/keyframe-manager"
+import {DEFAULT_BEZIER_HANDLES, cubic_bezier, interpolate_keyframes, sort_keyframes} from "../../controllers/controllers/compositor/utils/interpolate_keyframes"
+
+/*
+* Clip speed maps "local" time (timeline clock, measured from the untrimmed start of a clip)
+* to "source" time (position inside the media file). With constant speed source = local * speed,
+* with a speed curve the curve value is integrated over local time.
+*/
+
+export interface SpeedSettings {
+	speed?: number
+	// keyframed speed over local time, overrides constant speed when present
+	speed_curve?: Keyframe[]
+}
+
+export const MIN_SPEED = 0.05
+export const MAX_SPEED = 16
+
+// subintervals of simpson integration over a bezier segment
+const BEZIER_STEPS = 32
+// bisection iterations when inverting a bezier segment
+const BEZIER_ITERATIONS = 40
+
+const clamp_speed = (speed: number) => Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed))
+
+function curve_speed_at(curve: Keyframe[], local: number) {
+	return clamp_speed(interpolate_keyframes(curve, local) ?? 1)
+}
+
+/*
+* part of a speed curve starting at a keyframe, the last one is held forever.
+* source is the integrated speed from the first keyframe up to time
+*/
+interface SpeedSegment {
+	time: number
+	duration: number
+	from: Keyframe
+	to: Keyframe | null
+	source: number
+}
+
+function get_speed_segments(curve: Keyframe[]) {
+	const sorted = sort_keyframes(curve)
+	const segments: SpeedSegment[] = []
+	let source = 0
+	sorted.forEach((from, index) => {
+		const to = sorted[index + 1] ?? null
+		const segment: SpeedSegment = {time: from.time, duration: to ? to.time - from.time : Infinity, from, to, source}
+		segments.push(segment)
+		if(to) {source += segment_area(segment, segment.duration)}
+	})
+	return segments
+}
+
+// speed inside a bezier segment, offset ms after its keyframe
+function bezier_speed_at(from: Keyframe, to: Keyframe, duration: number, offset: number) {
+	const progress = cubic_bezier(from.handles ?? DEFAULT_BEZIER_HANDLES, offset / duration)
+	return clamp_speed(from.value + (to.value - from.value) * progress)
+}
+
+// integral of speed over first offset ms of segment
+function segment_area({from, to, duration}: SpeedSegment, offset: number): number {
+	if(!to || from.interpolation === "hold" || duration <= 0) {
+		return clamp_speed(from.value) * offset
+	}
+	if(from.interpolation === "bezier") {
+		const step = offset / BEZIER_STEPS
+		const speed_at = (offset: number) => bezier_speed_at(from, to, duration, offset)
+		let area = speed_at(0) + speed_at(offset)
+		for(let i = 1; i < BEZIER_STEPS; i++) {
+			area += speed_at(i * step) * (i % 2 ? 4 : 2)
+		}
+		return area * step / 3
+	}
+	return linear_pieces(from.value, (to.value - from.value) / duration, offset)
+		.reduce((area, piece) => area + linear_piece_area(piece), 0)
+}
+
+interface LinearPiece {
+	speed: number
+	slope: number
+	duration: number
+}
+
+/*
+* splits a linear speed ramp where clamping kicks in, every piece
+* is either constant or a plain ramp
+*/
+function linear_pieces(value: number, slope: number, duration: number): LinearPiece[] {
+	const cuts = slope === 0
+		? []
+		: [(MIN_SPEED - value) / slope, (MAX_SPEED - value) / slope]
+			.filter(cut => cut > 0 && cut < duration)
+			.sort((a, b) => a - b)
+	const bounds = [0, ...cuts, duration]
+	return bounds.slice(1).map((end, index) => {
+		const start = bounds[index]
+		const middle = value + slope * (start + end) / 2
+		const clamped = middle !== clamp_speed(middle)
+		return {
+			speed: clamped ? clamp_speed(middle) : value + slope * start,
+			slope: clamped ? 0 : slope,
+			duration: end - start,
+		}
+	})
+}
+
+function linear_piece_area({speed, slope, duration}: LinearPiece) {
+	return speed * duration + slope * duration ** 2 / 2
+}
+
+// inverse of segment_area, how far into segment the given area is reached
+function segment_offset(segment: SpeedSegment, area: number) {
+	const {from, to, duration} = segment
+	if(!to || from.interpolation === "hold" || duration <= 0) {
+		return area / clamp_speed(from.value)
+	}
+	if(from.interpolation === "bezier") {
+		let low = 0
+		let high = duration
+		for(let i = 0; i < BEZIER_ITERATIONS; i++) {
+			const middle = (low + high) / 2
+			if(segment_area(segment, middle) < area) {low = middle}
+			else {high = middle}
+		}
+		return (low + high) / 2
+	}
+	let offset = 0
+	for(const piece of linear_pieces(from.value, (to.value - from.value) / duration, duration)) {
+		const {speed, slope} = piece
+		const piece_area = linear_piece_area(piece)
+		if(area > piece_area) {
+			area -= piece_area
+			offset += piece.duration
+			continue
+		}
+		// solves speed * x + slope * x^2 / 2 = area
+		return offset + (slope === 0
+			? area / speed
+			: (Math.sqrt(Math.max(0, speed ** 2 + 2 * slope * area)) - speed) / slope)
+	}
+	return offset
+}
+
+// integrated speed from first keyframe to time, negative before it
+function curve_source_at(segments: SpeedSegment[], time: number) {
+	const first = segments[0]
+	if(time <= first.time) {return (time - first.time) * clamp_speed(first.from.value)}
+	const segment = segments.findLast(segment => segment.time <= time) ?? first
+	return segment.source + segment_area(segment, time - segment.time)
+}
+
+function curve_time_at(segments: SpeedSegment[], source: number) {
+	const first = segments[0]
+	if(source <= 0) {return first.time + source / clamp_speed(first.from.value)}
+	const segment = segments.findLast(segment => segment.source <= source) ?? first
+	return segment.time + segment_offset(segment, source - segment.source)
+}
+
+export function get_speed_settings(effect: AnyEffect): SpeedSettings {
+	if(effect.kind === "video" || effect.kind === "audio") {
+		return {speed: effect.speed, speed_curve: effect.speed_curve}
+	}
+	return {}
+}
+
+export function has_speed_curve({speed_curve}: SpeedSettings) {
+	return !!speed_curve && speed_curve.length > 0
+}
+
+export function get_constant_speed({speed}: SpeedSettings) {
+	return clamp_speed(speed ?? 1)
+}
+
+/*
+* curves are integrated segment by segment, exactly for hold and linear
+* keyframes and with simpson's rule for bezier ones
+*/
+export function local_to_source(settings: SpeedSettings, local: number) {
+	if(!has_speed_curve(settings)) {return local * get_constant_speed(settings)}
+	if(local <= 0) {return 0}
+	const segments = get_speed_segments(settings.speed_curve!)
+	return curve_source_at(segments, local) - curve_source_at(segments, 0)
+}
+
+export function source_to_local(settings: SpeedSettings, source: number) {
+	if(!has_speed_curve(settings)) {return source / get_constant_speed(settings)}
+	if(source <= 0) {return 0}
+	const segments = get_speed_segments(settings.speed_curve!)
+	return curve_time_at(segments, source + curve_source_at(segments, 0))
+}
+
+// how long the effect lasts on timeline in ms
+export function get_effect_timeline_duration(effect: AnyEffect) {
+	const settings = get_speed_settings(effect)
+	return source_to_local(settings, effect.end) - source_to_local(settings, effect.start)
+}
+
+export function get_effect_timeline_end(effect: AnyEffect) {
+	return effect.start_at_position + get_effect_timeline_duration(effect)
+}
+
+// timeline position of untrimmed start of the effect, origin of local time
+export function get_effect_local_origin(effect: AnyEffect) {
+	return effect.start_at_position - source_to_local(get_speed_settings(effect), effect.start)
+}
+
+export function get_effect_local_time(effect: AnyEffect, timecode: number) {
+	return timecode - get_effect_local_origin(effect)
+}
+
+// position inside media file in ms for given timeline timecode
+export function get_effect_source_time(effect: AnyEffect, timecode: number) {
+	return local_to_source(get_speed_settings(effect), get_effect_local_time(effect, timecode))
+}
+
+// instantaneous playback rate at timecode, used for audio elements and ffmpeg atempo
+export function get_effect_playback_rate(effect: AnyEffect, timecode: number) {
+	const settings = get_speed_settings(effect)
+	if(!has_speed_curve(settings)) {return get_constant_speed(settings)}
+	return curve_speed_at(settings.speed_curve!, get_effect_local_time(effect, timecode))
+}
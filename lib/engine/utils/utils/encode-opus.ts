@@ -0,0 +1,50 @@
+import type {MuxChunk} from "../../controllers/controllers/video-export/tools/WebMMuxer/tool"
+
+// frames handed to the encoder per AudioData
+const BLOCK_SIZE = 4800
+
+// Opus through WebCodecs, the buffer must already be at a sample rate opus accepts
+export async function encode_opus(buffer: AudioBuffer, config: AudioEncoderConfig) {
+	const chunks: MuxChunk[] = []
+	let description: Uint8Array | undefined
+	let error: unknown = null
+
+	const encoder = new AudioEncoder({
+		output: (chunk, metadata) => {
+			const data = new Uint8Array(chunk.byteLength)
+			chunk.copyTo(data)
+			chunks.push({data, timestamp: chunk.timestamp, duration: chunk.duration ?? undefined, key: true})
+			const decoder_description = metadata?.decoderConfig?.description
+			if(decoder_description && !description) {
+				description = new Uint8Array(ArrayBuffer.isView(decoder_description)
+					? decoder_description.buffer.slice(decoder_description.byteOffset, decoder_description.byteOffset + decoder_description.byteLength)
+					: decoder_description)
+			}
+		},
+		error: e => {error = e},
+	})
+	encoder.configure(config)
+
+	const {numberOfChannels, sampleRate, length} = buffer
+	const channels = Array.from({length: numberOfChannels}, (_, channel) => buffer.getChannelData(channel))
+	for(let offset = 0; offset < length; offset += BLOCK_SIZE) {
+		const frames = Math.min(BLOCK_SIZE, length - offset)
+		const planar = new Float32Array(frames * numberOfChannels)
+		channels.forEach((data, channel) => planar.set(data.subarray(offset, offset + frames), channel * frames))
+		const data = new AudioData({
+			format: "f32-planar",
+			sampleRate,
+			numberOfFrames: frames,
+			numberOfChannels,
+			timestamp: offset / sampleRate * 1_000_000,
+			data: planar,
+		})
+		encoder.encode(data)
+		data.close()
+	}
+	await encoder.flush()
+	encoder.close()
+	if(error) {throw error}
+
+	return {chunks, description, sample_rate: sampleRate, channels: numberOfChannels}
+}
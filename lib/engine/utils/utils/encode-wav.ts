@@ -0,0 +1,40 @@
+// 16-bit PCM WAV with interleaved channels
+export function encode_wav(buffer: AudioBuffer) {
+	const {numberOfChannels, sampleRate, length} = buffer
+	const bytes_per_sample = 2
+	const block_align = numberOfChannels * bytes_per_sample
+	const data_size = length * block_align
+	const view = new DataView(new ArrayBuffer(44 + data_size))
+
+	const write_string = (offset: number, value: string) => {
+		for(let i = 0; i < value.length; i++) {
+			view.setUint8(offset + i, value.charCodeAt(i))
+		}
+	}
+
+	write_string(0, "RIFF")
+	view.setUint32(4, 36 + data_size, true)
+	write_string(8, "WAVE")
+	write_string(12, "fmt ")
+	view.setUint32(16, 16, true)
+	view.setUint16(20, 1, true)
+	view.setUint16(22, numberOfChannels, true)
+	view.setUint32(24, sampleRate, true)
+	view.setUint32(28, sampleRate * block_align, true)
+	view.setUint16(32, block_align, true)
+	view.setUint16(34, bytes_per_sample * 8, true)
+	write_string(36, "data")
+	view.setUint32(40, data_size, true)
+
+	const channels = Array.from({length: numberOfChannels}, (_, channel) => buffer.getChannelData(channel))
+	let offset = 44
+	for(let i = 0; i < length; i++) {
+		for(const data of channels) {
+			const sample = Math.max(-1, Math.min(1, data[i]))
+			view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true)
+			offset += bytes_per_sample
+		}
+	}
+
+	return new Uint8Array(view.buffer)
+}
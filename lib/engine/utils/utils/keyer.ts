@@ -0,0 +1,43 @@
+/*
+* Key of a video or image effect, applied before its color grade so it works
+* on the source pixels. A chroma key removes pixels near a key color in the
+* CbCr plane, a luma key removes pixels below (or above, inverted) a luma threshold.
+* Tolerance, softness, spill and threshold are 0-1.
+*/
+
+import type {RGB} from "./color-grade"
+
+export interface ChromaKey {
+	type: "chroma"
+	color: RGB // 0-1
+	tolerance: number
+	softness: number
+	spill: number
+	bypassed?: boolean
+}
+
+export interface LumaKey {
+	type: "luma"
+	threshold: number
+	softness: number
+	invert?: boolean
+	bypassed?: boolean
+}
+
+export type EffectKey = ChromaKey | LumaKey
+
+export interface KeySettings {
+	key?: EffectKey
+}
+
+export function default_chroma_key(): ChromaKey {
+	return {type: "chroma", color: [0, 0.7, 0.25], tolerance: 0.25, softness: 0.1, spill: 0.5}
+}
+
+export function default_luma_key(): LumaKey {
+	return {type: "luma", threshold: 0.1, softness: 0.05}
+}
+
+export function is_active_key(key: EffectKey | undefined): key is EffectKey {
+	return !!key && !key.bypassed
+}
@@ -0,0 +1,71 @@
+/*
+* Layout of a video or image effect besides its rect. Crop is in source
+* pixels and keeps the rest of the picture in place. Flips mirror the
+* effect around its pivot. A fit mode scales the cropped picture to the
+* canvas and takes over the rect scale while set.
+*/
+
+export interface EffectCrop {
+	left: number
+	right: number
+	top: number
+	bottom: number
+}
+
+export type FitMode = "fit" | "fill" | "stretch"
+
+// rounded corners and a border inside the visible frame, in canvas pixels
+export interface EffectFrame {
+	radius: number
+	border_width: number
+	border_color: string
+}
+
+/*
+* slot of a layout template the effect was placed in, 0-1 of the canvas.
+* only the editor reads it, to place the effect again when the canvas changes
+*/
+export interface LayoutSlot {
+	x: number
+	y: number
+	width: number
+	height: number
+	gap: number
+	bleed?: boolean
+}
+
+export interface LayoutSettings {
+	crop?: EffectCrop
+	flip_x?: boolean
+	flip_y?: boolean
+	fit?: FitMode
+	frame?: EffectFrame
+	layout_slot?: LayoutSlot
+}
+
+// the visible part of the source, at least a pixel wide and high
+export function crop_frame(width: number, height: number, crop: EffectCrop | undefined) {
+	const left = Math.min(Math.max(crop?.left ?? 0, 0), width - 1)
+	const top = Math.min(Math.max(crop?.top ?? 0, 0), height - 1)
+	const right = Math.min(Math.max(crop?.right ?? 0, 0), width - left - 1)
+	const bottom = Math.min(Math.max(crop?.bottom ?? 0, 0), height - top - 1)
+	return {x: left, y: top, width: width - left - right, height: height - top - bottom}
+}
+
+export function fit_scale(mode: FitMode, width: number, height: number, canvas: {width: number, height: number}) {
+	const x = canvas.width / width
+	const y = canvas.height / height
+	switch(mode) {
+		case "fit": return {x: Math.min(x, y), y: Math.min(x, y)}
+		case "fill": return {x: Math.max(x, y), y: Math.max(x, y)}
+		case "stretch": return {x, y}
+	}
+}
+
+export function is_cropped(crop: EffectCrop | undefined): crop is EffectCrop {
+	return !!crop && (crop.left > 0 || crop.right > 0 || crop.top > 0 || crop.bottom > 0)
+}
+
+export function is_framed(frame: EffectFrame | undefined): frame is EffectFrame {
+	return !!frame && (frame.radius > 0 || frame.border_width > 0)
+}
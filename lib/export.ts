@@ -5,12 +5,41 @@
  * It wraps the VideoExport controller for use in Alphax components.
  */
 
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { useMediaStore } from "@/lib/stores/media-store";
+import {
+  tracksToEffects,
+  tracksToXTracks,
+  getMediaId,
+} from "@/lib/engine/adapters";
+import {
+  render_offline_mix,
+  type ClipAudio,
+} from "@/lib/engine/controllers/controllers/compositor/utils/mix_graph";
+import {
+  has_audio,
+  type AudibleEffect,
+} from "@/lib/engine/utils/utils/effect-audio";
+import { encode_wav } from "@/lib/engine/utils/utils/encode-wav";
+import { get_effect_timeline_end } from "@/lib/engine/utils/utils/effect-speed";
+import { get_supported_video_codecs } from "@/lib/engine/controllers/controllers/video-export/utils/export_codecs";
+import { omnislate } from "@/lib/engine/omnislate";
+import type { VideoExport } from "@/lib/engine/controllers/controllers/video-export/controller";
+import type { AnyEffect } from "@/lib/engine/state/types";
+import type { ExportPreset } from "@/types/export";
+
 export type ExportFormat = "mp4" | "webm";
 export type ExportQuality = "low" | "medium" | "high" | "very_high";
+export type ExportVideoCodec = "h264" | "vp9" | "av1";
 
 export interface ExportOptions {
   format: ExportFormat;
   quality: ExportQuality;
+  // Preferred codec, another codec of the format is used when unsupported
+  videoCodec?: ExportVideoCodec;
+  // Output size, the canvas is fitted inside it. Defaults to the canvas size
+  width?: number;
+  height?: number;
   fps?: number;
   includeAudio: boolean;
   onProgress?: (progress: number) => void;
@@ -32,6 +61,43 @@ export const DEFAULT_EXPORT_OPTIONS = {
   includeAudio: true,
 };
 
+// Presets offered by the render queue
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: "youtube-1080p",
+    name: "YouTube 1080p",
+    format: "mp4",
+    quality: "high",
+    width: 1920,
+    height: 1080,
+  },
+  {
+    id: "reels-1080x1920",
+    name: "Reels / Shorts 1080x1920",
+    format: "mp4",
+    quality: "high",
+    width: 1080,
+    height: 1920,
+  },
+  {
+    id: "preview-720p",
+    name: "720p preview",
+    format: "webm",
+    quality: "medium",
+    videoCodec: "vp9",
+    width: 1280,
+    height: 720,
+  },
+];
+
+// Video bitrate in kbps for each quality preset
+const QUALITY_BITRATES: Record<ExportQuality, number> = {
+  low: 2500,
+  medium: 5000,
+  high: 9000,
+  very_high: 16000,
+};
+
 // Helper functions for export
 export function getExportMimeType(format: ExportFormat): string {
   return format === "webm" ? "video/webm" : "video/mp4";
@@ -42,51 +108,182 @@ export function getExportFileExtension(format: ExportFormat): string {
 }
 
 /**
- * Export project using Omniclip VideoExport controller
- * 
- * NOTE: This currently requires the engine instance from context.
- * Usage in components:
- * 
- * ```tsx
- * import { useEngine } from '@/components/providers/engine-provider'
- * 
- * const { videoExport } = useEngine()
- * await videoExport.export_start(state, bitrate)
- * const file = await videoExport.save_file()
- * ```
+ * Video codecs this browser can encode for a format at the given size,
+ * probed with VideoEncoder.isConfigSupported
+ */
+export async function getSupportedVideoCodecs(
+  format: ExportFormat,
+  {
+    width,
+    height,
+    fps = 30,
+    quality = DEFAULT_EXPORT_OPTIONS.quality,
+  }: { width: number; height: number; fps?: number; quality?: ExportQuality }
+): Promise<ExportVideoCodec[]> {
+  return get_supported_video_codecs(format, {
+    width,
+    height,
+    bitrate: QUALITY_BITRATES[quality] * 1000,
+    framerate: fps,
+  });
+}
+
+/**
+ * Export the project through the engine's VideoExport controller, which
+ * renders the composition frame by frame from the synced engine state.
+ * MP4 is muxed with FFmpeg, WebM (VP9/AV1 + Opus) is muxed in the browser.
  */
 export async function exportProject(
   options: ExportOptions
 ): Promise<ExportResult> {
-  console.log("Export requested with options:", options);
-
-  // TODO: Wire this to the engine context
-  // The actual implementation is in lib/engine/controllers/controllers/video-export/controller.ts
-  // We need to:
-  // 1. Get engine instance from React context
-  // 2. Call videoExport.export_start(state, options.quality bitrate)
-  // 3. Monitor export progress via videoExport.on_timestamp_change
-  // 4. Call videoExport.save_file() when complete
-  
-  return {
-    success: false,
-    error: "Export API needs engine context wiring - engine is ready, just needs React provider integration",
+  const videoExport: VideoExport | undefined =
+    omnislate.context.controllers.videoExport;
+  if (!videoExport) {
+    return { success: false, error: "The editor engine is not ready yet" };
+  }
+
+  const state = omnislate.context.state;
+  const duration = Math.max(
+    0,
+    ...state.effects.map((effect: AnyEffect) =>
+      get_effect_timeline_end(effect)
+    )
+  );
+  if (duration <= 0) {
+    return { success: false, error: "Timeline is empty" };
+  }
+
+  let cancelled = false;
+  // Encoding runs a frame per animation frame, so polling here is enough
+  const unsubscribe = videoExport.on_timestamp_change((timestamp) => {
+    if (!cancelled && options.onCancel?.()) {
+      cancelled = true;
+      videoExport.resetExporter(omnislate.context.state);
+      return;
+    }
+    // Flushing and muxing still follow the last frame
+    options.onProgress?.(Math.min(timestamp / duration, 1) * 0.95);
+  });
+
+  try {
+    options.onProgress?.(0);
+    const file = await videoExport.export_start(
+      state,
+      QUALITY_BITRATES[options.quality],
+      {
+        container: options.format,
+        video_codec: options.videoCodec,
+        include_audio: options.includeAudio,
+        width: options.width,
+        height: options.height,
+      }
+    );
+    options.onProgress?.(1);
+    return {
+      success: true,
+      buffer: file.buffer.slice(
+        file.byteOffset,
+        file.byteOffset + file.byteLength
+      ) as ArrayBuffer,
+    };
+  } catch (error) {
+    if (cancelled) {
+      return { success: false, cancelled: true };
+    }
+    console.error("Export failed:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    unsubscribe();
+    videoExport.resetExporter(omnislate.context.state);
+  }
+}
+
+export interface TimelineMixOptions {
+  // Render only these tracks, ignoring their mute and solo state
+  trackIds?: string[];
+  sampleRate?: number;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Render timeline audio through the same mix graph as preview and export,
+ * so trims, speed, gain, fades, volume keyframes and track volume/pan/mute/solo
+ * all apply. Resolves to null when there is nothing audible to render.
+ */
+export async function renderTimelineMix({
+  trackIds,
+  sampleRate,
+  onProgress,
+}: TimelineMixOptions = {}): Promise<AudioBuffer | null> {
+  const { tracks } = useTimelineStore.getState();
+  const { mediaFiles } = useMediaStore.getState();
+  const sourceTracks = trackIds
+    ? tracks.filter((track) => trackIds.includes(track.id))
+    : tracks;
+  const { effects } = tracksToEffects(
+    sourceTracks,
+    new Map(mediaFiles.map((file) => [file.id, file]))
+  );
+  const audible = effects.filter(has_audio);
+
+  onProgress?.(0);
+
+  // Decode each media file once, even when it is used by several elements
+  const decoded = new Map<string, Promise<AudioBuffer | null>>();
+  let loaded = 0;
+  const loadClip = async (
+    effect: AudibleEffect,
+    context: BaseAudioContext
+  ): Promise<ClipAudio | null> => {
+    if (!decoded.has(effect.file_hash)) {
+      const mediaId = getMediaId(effect.file_hash);
+      const mediaFile = mediaFiles.find((file) => file.id === mediaId);
+      decoded.set(
+        effect.file_hash,
+        mediaFile
+          ? mediaFile.file
+              .arrayBuffer()
+              .then((data) => context.decodeAudioData(data))
+              // Videos without an audio track fail to decode
+              .catch(() => null)
+          : Promise.resolve(null)
+      );
+    }
+    const buffer = await decoded.get(effect.file_hash)!;
+    onProgress?.((++loaded / audible.length) * 50);
+    // Source audio is not time stretched, so the mix resamples it for speed
+    return buffer && { buffer, stretched: false };
   };
+
+  const rendered = await render_offline_mix(
+    audible,
+    trackIds ? [] : tracksToXTracks(tracks),
+    loadClip,
+    sampleRate
+  );
+  onProgress?.(100);
+  return rendered;
 }
 
 /**
- * PLACEHOLDER: Audio extraction from timeline
- * This will be replaced with Omniclip's audio processing
+ * Mix all audible timeline elements into a single WAV blob.
  */
 export async function extractTimelineAudio(
   onProgress?: (progress: number) => void
 ): Promise<Blob> {
-  console.log("Audio extraction requested");
-  onProgress?.(0);
-
-  // TODO: Integrate Omniclip audio processing
-  // For now, return empty audio blob
-  const emptyAudioData = new ArrayBuffer(44);
-  return new Blob([emptyAudioData], { type: "audio/wav" });
+  const rendered = await renderTimelineMix({ onProgress });
+  if (!rendered) {
+    throw new Error("Timeline is empty");
+  }
+  return audioBufferToWav(rendered);
 }
 
+/**
+ * Encode an AudioBuffer as 16-bit PCM WAV
+ */
+export function audioBufferToWav(buffer: AudioBuffer): Blob {
+  return new Blob([encode_wav(buffer)], { type: "audio/wav" });
+}
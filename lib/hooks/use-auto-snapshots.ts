@@ -0,0 +1,23 @@
+import { useEffect } from "react";
+import { useProjectStore } from "@/lib/stores/project-store";
+import { useVersionHistoryStore } from "@/lib/stores/version-history-store";
+
+// Loads the version history of the open project and snapshots it on a timer
+export const useAutoSnapshots = () => {
+  const projectId = useProjectStore((state) => state.activeProject?.id);
+  const { autoSnapshotMinutes, loadSnapshots, createSnapshot } =
+    useVersionHistoryStore();
+
+  useEffect(() => {
+    if (projectId) loadSnapshots(projectId);
+  }, [projectId, loadSnapshots]);
+
+  useEffect(() => {
+    if (!projectId || autoSnapshotMinutes <= 0) return;
+    const interval = setInterval(
+      () => createSnapshot(),
+      autoSnapshotMinutes * 60 * 1000
+    );
+    return () => clearInterval(interval);
+  }, [projectId, autoSnapshotMinutes, createSnapshot]);
+};
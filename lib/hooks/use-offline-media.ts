@@ -0,0 +1,22 @@
+import { useMemo } from "react";
+import { useMediaStore } from "@/lib/stores/media-store";
+import { useTimelineStore } from "@/lib/stores/timeline-store";
+import { findOfflineMedia } from "@/lib/media-relink";
+
+// Offline media of the open scene, empty while the project media loads
+export const useOfflineMedia = () => {
+  const { mediaFiles, offlineMedia, isLoading } = useMediaStore();
+  const { tracks } = useTimelineStore();
+
+  return useMemo(
+    () =>
+      isLoading
+        ? []
+        : findOfflineMedia({
+            timelines: [tracks],
+            mediaFiles,
+            offlineMetadata: offlineMedia,
+          }),
+    [tracks, mediaFiles, offlineMedia, isLoading]
+  );
+};
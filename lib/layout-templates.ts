@@ -0,0 +1,200 @@
+import type { CanvasSize } from "@/types/editor";
+import type {
+  ElementCrop,
+  ElementFrame,
+  ElementLayoutSlot,
+  ElementTransform,
+  MediaElement,
+} from "@/types/timeline";
+import { crop_frame, fit_scale } from "@/lib/engine/utils/utils/media-layout";
+
+/**
+ * Layout templates place several clips on the canvas at once. Slots are
+ * fractions of the canvas, so a layout follows any canvas size or aspect
+ * ratio. A clip fills its slot like a cover fit: its source is cropped to
+ * the slot's aspect ratio around the center and scaled to the slot.
+ */
+
+export interface LayoutTemplateSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  bleed?: boolean; // Fills the canvas and ignores the gap, e.g. a PiP base
+}
+
+export interface LayoutTemplateStyle {
+  gap: number; // Canvas pixels between slots and around the edges
+  radius: number;
+  borderWidth: number;
+  borderColor: string;
+}
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  slots: LayoutTemplateSlot[]; // Filled from the lowest track up
+}
+
+export const DEFAULT_LAYOUT_STYLE: LayoutTemplateStyle = {
+  gap: 16,
+  radius: 12,
+  borderWidth: 0,
+  borderColor: "#ffffff",
+};
+
+const PIP_SIZE = 0.3;
+const PIP_MARGIN = 0.04;
+
+const pip = (id: string, name: string, x: number, y: number) => ({
+  id,
+  name,
+  slots: [
+    { x: 0, y: 0, width: 1, height: 1, bleed: true },
+    { x, y, width: PIP_SIZE, height: PIP_SIZE },
+  ],
+});
+
+const FAR = 1 - PIP_SIZE - PIP_MARGIN;
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  pip("pip-top-left", "PiP top left", PIP_MARGIN, PIP_MARGIN),
+  pip("pip-top-right", "PiP top right", FAR, PIP_MARGIN),
+  pip("pip-bottom-left", "PiP bottom left", PIP_MARGIN, FAR),
+  pip("pip-bottom-right", "PiP bottom right", FAR, FAR),
+  {
+    id: "side-by-side",
+    name: "Side by side",
+    slots: [
+      { x: 0, y: 0, width: 0.5, height: 1 },
+      { x: 0.5, y: 0, width: 0.5, height: 1 },
+    ],
+  },
+  {
+    id: "grid-2x2",
+    name: "2x2 grid",
+    slots: [0, 0.5].flatMap((y) =>
+      [0, 0.5].map((x) => ({ x, y, width: 0.5, height: 0.5 }))
+    ),
+  },
+  {
+    id: "one-plus-three",
+    name: "1 + 3",
+    slots: [
+      { x: 0, y: 0, width: 2 / 3, height: 1 },
+      ...[0, 1 / 3, 2 / 3].map((y) => ({
+        x: 2 / 3,
+        y,
+        width: 1 / 3,
+        height: 1 / 3,
+      })),
+    ],
+  },
+];
+
+/**
+ * Slot in canvas pixels. Edges on the canvas border get the full gap and
+ * edges between slots half of it, so every gap ends up the same width
+ */
+export function slotRect(slot: ElementLayoutSlot, canvas: CanvasSize) {
+  if (slot.bleed) {
+    return { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  }
+  const inset = (edge: number) =>
+    edge <= 0 || edge >= 1 ? slot.gap : slot.gap / 2;
+  const left = slot.x * canvas.width + inset(slot.x);
+  const top = slot.y * canvas.height + inset(slot.y);
+  const right =
+    (slot.x + slot.width) * canvas.width - inset(slot.x + slot.width);
+  const bottom =
+    (slot.y + slot.height) * canvas.height - inset(slot.y + slot.height);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(1, right - left),
+    height: Math.max(1, bottom - top),
+  };
+}
+
+/**
+ * Transform and crop that make a source of the given size cover the slot
+ */
+export function placeInSlot(
+  slot: ElementLayoutSlot,
+  source: { width: number; height: number },
+  canvas: CanvasSize
+): { transform: ElementTransform; crop: ElementCrop | undefined } {
+  const rect = slotRect(slot, canvas);
+  const aspect = rect.width / rect.height;
+  const width = Math.min(source.width, Math.round(source.height * aspect));
+  const height = Math.min(source.height, Math.round(source.width / aspect));
+  const left = Math.floor((source.width - width) / 2);
+  const top = Math.floor((source.height - height) / 2);
+  const crop = {
+    left,
+    right: source.width - width - left,
+    top,
+    bottom: source.height - height - top,
+  };
+  const scale = rect.width / width;
+  return {
+    transform: {
+      x: rect.x + rect.width / 2,
+      y: rect.y + rect.height / 2,
+      scaleX: scale,
+      scaleY: scale,
+      rotation: 0,
+      pivotX: left + width / 2,
+      pivotY: top + height / 2,
+    },
+    crop: Object.values(crop).some((side) => side > 0) ? crop : undefined,
+  };
+}
+
+/**
+ * Where an element currently sits, as a template slot. Rotation is ignored
+ */
+export function slotFromElement(
+  element: MediaElement,
+  transform: ElementTransform,
+  source: { width: number; height: number },
+  canvas: CanvasSize
+): LayoutTemplateSlot {
+  const frame = crop_frame(source.width, source.height, element.crop);
+  const scale = element.fit
+    ? fit_scale(element.fit, frame.width, frame.height, canvas)
+    : { x: transform.scaleX, y: transform.scaleY };
+  const left = transform.x + (frame.x - transform.pivotX) * scale.x;
+  const top = transform.y + (frame.y - transform.pivotY) * scale.y;
+  return {
+    x: left / canvas.width,
+    y: top / canvas.height,
+    width: (frame.width * scale.x) / canvas.width,
+    height: (frame.height * scale.y) / canvas.height,
+  };
+}
+
+export function layoutFrame(
+  slot: LayoutTemplateSlot,
+  style: LayoutTemplateStyle
+): ElementFrame | undefined {
+  if (slot.bleed || (style.radius <= 0 && style.borderWidth <= 0)) {
+    return undefined;
+  }
+  const { radius, borderWidth, borderColor } = style;
+  return { radius, borderWidth, borderColor };
+}
+
+/**
+ * Pairs elements with slots, elements on lower tracks take the first slots
+ * so later slots, like a PiP inset, are drawn on top
+ */
+export function assignSlots<T extends { trackIndex: number }>(
+  elements: T[],
+  slots: LayoutTemplateSlot[]
+) {
+  return [...elements]
+    .sort((a, b) => b.trackIndex - a.trackIndex)
+    .slice(0, slots.length)
+    .map((element, index) => ({ ...element, slot: slots[index] }));
+}
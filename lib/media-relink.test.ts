@@ -0,0 +1,118 @@
+import { Suite } from 'cynic';
+import { expect } from 'chai';
+import type { MediaFileData } from '@/lib/storage/types';
+import type { MediaElement, TimelineTrack } from '@/types/timeline';
+import {
+  findOfflineMedia,
+  matchOfflineMedia,
+  mightMatch,
+  scoreRelinkCandidate,
+  type OfflineMedia,
+  type RelinkCandidate,
+} from './media-relink';
+
+const clip = (id: string, mediaId: string, name = `${mediaId}.mp4`): MediaElement => ({
+  id,
+  name,
+  type: 'media',
+  mediaId,
+  duration: 5,
+  startTime: 0,
+  trimStart: 0,
+  trimEnd: 0,
+});
+
+const track = (elements: MediaElement[]): TimelineTrack => ({ id: 'main', name: 'Main', type: 'media', elements });
+
+const metadata = (id: string, overrides: Partial<MediaFileData> = {}): MediaFileData => ({
+  id,
+  name: `${id}.mp4`,
+  type: 'video',
+  size: 1000,
+  lastModified: 0,
+  ...overrides,
+});
+
+const interview: OfflineMedia = {
+  id: 'interview',
+  name: 'Interview.mp4',
+  type: 'video',
+  size: 5000,
+  duration: 12.5,
+  width: 1920,
+  height: 1080,
+  elementCount: 2,
+};
+
+const candidate = (overrides: Partial<RelinkCandidate> = {}): RelinkCandidate => ({
+  name: 'Interview.mp4',
+  size: 5000,
+  type: 'video',
+  duration: 12.5,
+  width: 1920,
+  height: 1080,
+  ...overrides,
+});
+
+export default <Suite> {
+  'offline media': {
+    'lists stored media without a file and unknown media used by elements': async () => {
+      const offline = findOfflineMedia({
+        timelines: [[track([clip('a', 'here'), clip('b', 'stored'), clip('c', 'stored')])], [track([clip('d', 'unknown')])]],
+        mediaFiles: [{ id: 'here' }],
+        offlineMetadata: [metadata('stored', { duration: 3 }), metadata('unused')],
+      });
+      expect(offline.map((media) => [media.id, media.elementCount])).to.deep.equal([
+        ['stored', 2],
+        ['unknown', 1],
+        ['unused', 0],
+      ]);
+      expect(offline[0].duration).to.equal(3);
+      expect(offline[1].type).to.equal(undefined);
+    },
+    'leaves out media that has its file': async () => {
+      const offline = findOfflineMedia({
+        timelines: [[track([clip('a', 'here')])]],
+        mediaFiles: [{ id: 'here' }],
+        offlineMetadata: [metadata('here')],
+      });
+      expect(offline).to.be.empty;
+    },
+  },
+  'relink matching': {
+    'settles on the hash when both sides know it': async () => {
+      const media = { ...interview, sha256: 'abc' };
+      expect(scoreRelinkCandidate(media, candidate({ name: 'renamed.mp4', sha256: 'abc' }))?.reasons).to.deep.equal(['hash']);
+      expect(scoreRelinkCandidate(media, candidate({ sha256: 'def' }))).to.equal(null);
+    },
+    'adds up name, size, duration and resolution': async () => {
+      expect(scoreRelinkCandidate(interview, candidate())?.reasons).to.deep.equal(['name', 'size', 'duration', 'resolution']);
+      expect(scoreRelinkCandidate(interview, candidate({ name: 'interview.MOV', size: 1 }))?.reasons).to.deep.equal([
+        'name',
+        'duration',
+        'resolution',
+      ]);
+    },
+    'rejects other types and durations': async () => {
+      expect(scoreRelinkCandidate(interview, candidate({ type: 'audio' }))).to.equal(null);
+      expect(scoreRelinkCandidate(interview, candidate({ duration: 30 }))).to.equal(null);
+    },
+    'needs more than a matching size': async () => {
+      const media: OfflineMedia = { id: 'clip', name: 'clip.mp4', size: 5000, elementCount: 1 };
+      expect(scoreRelinkCandidate(media, candidate({ name: 'other.mp4' }))).to.equal(null);
+    },
+    'checks names and sizes before probing': async () => {
+      expect(mightMatch(interview, { name: 'interview.mov', size: 1 })).to.equal(true);
+      expect(mightMatch(interview, { name: 'b-roll.mp4', size: 5000 })).to.equal(true);
+      expect(mightMatch(interview, { name: 'b-roll.mp4', size: 1 })).to.equal(false);
+    },
+    'gives every candidate to one media at most': async () => {
+      const exact = candidate();
+      const stemOnly = candidate({ name: 'Interview.mov', size: 1 });
+      const copy: OfflineMedia = { ...interview, id: 'copy', size: 1 };
+      const matches = matchOfflineMedia([copy, interview], [stemOnly, exact]);
+      expect(matches.get('interview')?.candidate).to.equal(exact);
+      expect(matches.get('copy')?.candidate).to.equal(stemOnly);
+    },
+  },
+};
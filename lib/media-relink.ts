@@ -0,0 +1,187 @@
+import type { MediaFileData } from "@/lib/storage/types";
+import type { MediaType } from "@/types/media";
+import type { TimelineTrack } from "@/types/timeline";
+
+/**
+ * Media goes offline when its file is no longer in storage, e.g. after the
+ * browser cleared OPFS or after importing a package that only references its
+ * media. Offline media keeps its id, so relinking stores a file under that id
+ * and every element using it comes back.
+ */
+
+export interface OfflineMedia {
+  id: string;
+  name: string;
+  // Unknown when only timeline elements remember the media
+  type?: MediaType;
+  size?: number;
+  duration?: number;
+  width?: number;
+  height?: number;
+  sha256?: string;
+  elementCount: number; // Timeline elements using the media
+}
+
+// A file that might be the missing one, with what is known about it
+export interface RelinkCandidate {
+  name: string;
+  size: number;
+  type: MediaType;
+  duration?: number;
+  width?: number;
+  height?: number;
+  sha256?: string;
+}
+
+export type RelinkReason = "hash" | "name" | "size" | "duration" | "resolution";
+
+export interface RelinkMatch<C extends RelinkCandidate = RelinkCandidate> {
+  candidate: C;
+  score: number;
+  reasons: RelinkReason[];
+}
+
+// Seconds two durations may differ by and still be the same media
+const DURATION_TOLERANCE = 0.1;
+const MIN_MATCH_SCORE = 40;
+
+const stem = (name: string) => name.toLowerCase().replace(/\.[^.]*$/, "");
+
+/**
+ * Every offline media of the project: stored media without a file, and media
+ * that timeline elements use but storage does not know about at all
+ */
+export function findOfflineMedia({
+  timelines,
+  mediaFiles,
+  offlineMetadata,
+}: {
+  timelines: TimelineTrack[][];
+  mediaFiles: { id: string }[];
+  offlineMetadata: MediaFileData[];
+}): OfflineMedia[] {
+  const available = new Set(mediaFiles.map((media) => media.id));
+  const offline = new Map<string, OfflineMedia>();
+
+  for (const metadata of offlineMetadata) {
+    if (available.has(metadata.id)) continue;
+    offline.set(metadata.id, {
+      id: metadata.id,
+      name: metadata.name,
+      type: metadata.type,
+      size: metadata.size,
+      duration: metadata.duration,
+      width: metadata.width,
+      height: metadata.height,
+      sha256: metadata.sha256,
+      elementCount: 0,
+    });
+  }
+
+  for (const tracks of timelines) {
+    for (const element of tracks.flatMap((track) => track.elements)) {
+      if (element.type !== "media" || available.has(element.mediaId)) continue;
+      const media = offline.get(element.mediaId);
+      if (media) {
+        media.elementCount += 1;
+      } else {
+        offline.set(element.mediaId, {
+          id: element.mediaId,
+          name: element.name,
+          elementCount: 1,
+        });
+      }
+    }
+  }
+
+  return [...offline.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Cheap check on what a directory listing gives, before a file is probed
+export function mightMatch(
+  media: OfflineMedia,
+  file: { name: string; size: number }
+) {
+  return stem(file.name) === stem(media.name) || file.size === media.size;
+}
+
+/**
+ * How likely a candidate is the offline media. Null when it cannot be: a
+ * different type, hash or duration. A matching hash settles it, otherwise
+ * name, size, duration and resolution add up
+ */
+export function scoreRelinkCandidate<C extends RelinkCandidate>(
+  media: OfflineMedia,
+  candidate: C
+): RelinkMatch<C> | null {
+  if (media.type && media.type !== candidate.type) return null;
+  if (media.sha256 && candidate.sha256) {
+    return media.sha256 === candidate.sha256
+      ? { candidate, score: 100, reasons: ["hash"] }
+      : null;
+  }
+
+  let score = 0;
+  const reasons: RelinkReason[] = [];
+  if (candidate.name.toLowerCase() === media.name.toLowerCase()) {
+    score += 40;
+    reasons.push("name");
+  } else if (stem(candidate.name) === stem(media.name)) {
+    score += 25;
+    reasons.push("name");
+  }
+  if (media.size !== undefined && candidate.size === media.size) {
+    score += 20;
+    reasons.push("size");
+  }
+  if (media.duration !== undefined && candidate.duration !== undefined) {
+    if (Math.abs(media.duration - candidate.duration) > DURATION_TOLERANCE) {
+      return null;
+    }
+    score += 20;
+    reasons.push("duration");
+  }
+  if (
+    media.width !== undefined &&
+    media.height !== undefined &&
+    candidate.width !== undefined &&
+    candidate.height !== undefined
+  ) {
+    // A different resolution can be a proxy or the original of the same clip
+    if (media.width === candidate.width && media.height === candidate.height) {
+      score += 15;
+      reasons.push("resolution");
+    } else {
+      score -= 20;
+    }
+  }
+
+  return score >= MIN_MATCH_SCORE ? { candidate, score, reasons } : null;
+}
+
+/**
+ * Pairs offline media with candidates, best scores first. Every candidate
+ * relinks at most one media, media without a good enough candidate is left out
+ */
+export function matchOfflineMedia<C extends RelinkCandidate>(
+  offline: OfflineMedia[],
+  candidates: C[]
+): Map<string, RelinkMatch<C>> {
+  const scored: { mediaId: string; match: RelinkMatch<C> }[] = [];
+  for (const media of offline) {
+    for (const candidate of candidates) {
+      const match = scoreRelinkCandidate(media, candidate);
+      if (match) scored.push({ mediaId: media.id, match });
+    }
+  }
+  scored.sort((a, b) => b.match.score - a.match.score);
+
+  const matches = new Map<string, RelinkMatch<C>>();
+  const used = new Set<C>();
+  for (const { mediaId, match } of scored) {
+    if (matches.has(mediaId) || used.has(match.candidate)) continue;
+    matches.set(mediaId, match);
+    used.add(match.candidate);
+  }
+  return matches;
+}
@@ -0,0 +1,77 @@
+import type { Suite } from 'cynic';
+import { expect } from 'chai';
+import type { MediaElement } from '@/types/timeline';
+import { reframeTransform, sourceRange, subjectKeyframes } from './reframe';
+
+// A 2:1 source on a square canvas fills it at its own size, leaving 100 px to
+// pan on each side
+const source = { width: 200, height: 100 };
+const square = { width: 100, height: 100 };
+
+const clip = (overrides: Partial<MediaElement> = {}): MediaElement => ({
+  id: 'clip',
+  name: 'clip.mp4',
+  type: 'media',
+  mediaId: 'clip',
+  startTime: 0,
+  duration: 10,
+  trimStart: 0,
+  trimEnd: 0,
+  ...overrides,
+});
+
+const position = ({ x, y }: { x: number; y: number }) => [x, y];
+
+export default <Suite> {
+  'reframe transform': {
+    'fills the canvas around the frame center': async () => {
+      expect(reframeTransform(clip(), source, square)).to.deep.equal({
+        x: 50,
+        y: 50,
+        scaleX: 1,
+        scaleY: 1,
+        rotation: 0,
+        pivotX: 100,
+        pivotY: 50,
+      });
+    },
+    'moves the subject towards the center': async () => {
+      expect(position(reframeTransform(clip(), source, square, { x: 0.375, y: 0.5 }))).to.deep.equal([75, 50]);
+      expect(position(reframeTransform(clip(), source, square, { x: 0.625, y: 0.5 }))).to.deep.equal([25, 50]);
+    },
+    'clamps so the frame never leaves the canvas': async () => {
+      expect(position(reframeTransform(clip(), source, square, { x: 0, y: 0 }))).to.deep.equal([100, 50]);
+      expect(position(reframeTransform(clip(), source, square, { x: 1, y: 1 }))).to.deep.equal([0, 50]);
+    },
+    'pans the other way when flipped': async () => {
+      const flipped = clip({ flipX: true, flipY: true });
+      expect(position(reframeTransform(flipped, source, square, { x: 0.375, y: 0.5 }))).to.deep.equal([25, 50]);
+      const tall = { width: 100, height: 200 };
+      expect(position(reframeTransform(clip(), tall, square, { x: 0.5, y: 0.375 }))).to.deep.equal([50, 75]);
+      expect(position(reframeTransform(flipped, tall, square, { x: 0.5, y: 0.375 }))).to.deep.equal([50, 25]);
+    },
+    'scales and pivots on the cropped frame': async () => {
+      const cropped = clip({ crop: { left: 50, right: 50, top: 0, bottom: 0 } });
+      const transform = reframeTransform(cropped, source, { width: 200, height: 200 });
+      expect([transform.scaleX, transform.pivotX, transform.pivotY]).to.deep.equal([2, 100, 50]);
+      expect(position(transform)).to.deep.equal([100, 100]);
+      // The crop takes the pan room, an off center subject can't move the frame
+      expect(position(reframeTransform(cropped, source, { width: 200, height: 200 }, { x: 0.375, y: 0.5 }))).to.deep.equal([100, 100]);
+    },
+  },
+  'subject keyframes': {
+    'map source time to element time through the clip speed': async () => {
+      const element = clip({ speed: 2, trimStart: 3, duration: 4 });
+      expect(sourceRange(element)).to.deep.equal({ start: 6, end: 14 });
+      const { x, y } = subjectKeyframes(element, source, square, [
+        { time: 6, x: 0.5, y: 0.5 },
+        { time: 7, x: 0.375, y: 0.5 },
+      ]);
+      // Keyframe time counts from the untrimmed start, so the first sample
+      // lands on the trim point
+      expect(x.map(({ time, value }) => [time, value])).to.deep.equal([[3, 50], [3.5, 75]]);
+      expect(y.map(({ time, value }) => [time, value])).to.deep.equal([[3, 50], [3.5, 50]]);
+      expect(x.map(({ interpolation }) => interpolation)).to.deep.equal(['linear', 'linear']);
+    },
+  },
+};
@@ -0,0 +1,286 @@
+import type { CanvasSize } from "@/types/editor";
+import type { MediaFile } from "@/types/media";
+import type {
+  ElementKeyframe,
+  ElementTransform,
+  MediaElement,
+  TimelineTrack,
+} from "@/types/timeline";
+import { generateUUID } from "@/lib/utils";
+import { crop_frame } from "@/lib/engine/utils/utils/media-layout";
+
+/**
+ * Reframing fits clips to a new canvas aspect ratio. Every clip is scaled
+ * to fill the canvas and offset so its subject stays in view. Subjects are
+ * found on device with a cheap saliency estimate on tiny frames: local
+ * contrast plus frame to frame motion, with a bias towards the center.
+ * Tracked subjects become position keyframes.
+ */
+
+export type ReframeMode = "off" | "center" | "subject";
+
+// Subject position at a time of the source media, x and y are 0-1 of the frame
+export interface SubjectSample {
+  time: number; // Seconds of source media
+  x: number;
+  y: number;
+}
+
+const ANALYSIS_WIDTH = 64;
+const SAMPLE_INTERVAL = 0.5; // Seconds of source media between samples
+const MOTION_WEIGHT = 3;
+const CENTER_BIAS = 0.6;
+// Share of the new position taken per sample, keeps the framing from jittering
+const SMOOTHING = 0.35;
+const SEEK_TIMEOUT = 5000;
+
+type Luma = { data: Float32Array; width: number; height: number };
+
+function toLuma(image: ImageData): Luma {
+  const data = new Float32Array(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    data[i] = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+  }
+  return { data, width: image.width, height: image.height };
+}
+
+/**
+ * Saliency weighted centroid of a frame, null when nothing stands out
+ */
+export function saliencyCentroid(
+  luma: Luma,
+  previous: Luma | null
+): { x: number; y: number } | null {
+  const { data, width, height } = luma;
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const contrast =
+        Math.abs(data[i + 1] - data[i - 1]) +
+        Math.abs(data[i + width] - data[i - width]);
+      const motion = previous ? Math.abs(data[i] - previous.data[i]) : 0;
+      const dx = x / width - 0.5;
+      const dy = y / height - 0.5;
+      const bias = 1 - CENTER_BIAS * (dx * dx + dy * dy) * 2;
+      // squared so a few strong pixels outweigh a busy background
+      const weight = ((contrast + motion * MOTION_WEIGHT) * bias) ** 2;
+      total += weight;
+      sumX += weight * x;
+      sumY += weight * y;
+    }
+  }
+  if (total < 1e-6) return null;
+  return { x: sumX / total / width, y: sumY / total / height };
+}
+
+function analysisCanvas(sourceWidth: number, sourceHeight: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = ANALYSIS_WIDTH;
+  canvas.height = Math.max(
+    1,
+    Math.round((ANALYSIS_WIDTH * sourceHeight) / sourceWidth)
+  );
+  const context = canvas.getContext("2d", { willReadFrequently: true })!;
+  return { canvas, context };
+}
+
+function waitFor(target: HTMLMediaElement, event: string) {
+  return new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error(`Timed out waiting for ${event}`)),
+      SEEK_TIMEOUT
+    );
+    target.addEventListener(
+      event,
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Follows the subject of a video between two source times
+ */
+export async function trackSubject(
+  url: string,
+  start: number,
+  end: number,
+  signal?: AbortSignal
+): Promise<SubjectSample[]> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.src = url;
+  try {
+    await waitFor(video, "loadeddata");
+    const { canvas, context } = analysisCanvas(
+      video.videoWidth,
+      video.videoHeight
+    );
+    const samples: SubjectSample[] = [];
+    let previous: Luma | null = null;
+    let position = { x: 0.5, y: 0.5 };
+    for (let time = start; time <= end; time += SAMPLE_INTERVAL) {
+      if (signal?.aborted) break;
+      video.currentTime = Math.min(time, video.duration);
+      await waitFor(video, "seeked");
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const luma = toLuma(
+        context.getImageData(0, 0, canvas.width, canvas.height)
+      );
+      const centroid = saliencyCentroid(luma, previous);
+      if (centroid) {
+        position =
+          samples.length === 0
+            ? centroid
+            : {
+                x: position.x + (centroid.x - position.x) * SMOOTHING,
+                y: position.y + (centroid.y - position.y) * SMOOTHING,
+              };
+      }
+      samples.push({ time, ...position });
+      previous = luma;
+    }
+    return samples;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+}
+
+/**
+ * Subject of a still image
+ */
+export async function findSubject(url: string) {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  const { canvas, context } = analysisCanvas(
+    image.naturalWidth,
+    image.naturalHeight
+  );
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const luma = toLuma(context.getImageData(0, 0, canvas.width, canvas.height));
+  return saliencyCentroid(luma, null) ?? { x: 0.5, y: 0.5 };
+}
+
+/**
+ * Subjects of every video and image element that a reframe moves, by
+ * element id. Elements that fail to analyze are left centered
+ */
+export async function analyzeSubjects(
+  tracks: TimelineTrack[],
+  mediaFiles: MediaFile[],
+  signal?: AbortSignal
+) {
+  const subjects: Record<string, SubjectSample[]> = {};
+  for (const element of tracks.flatMap((track) => track.elements)) {
+    if (signal?.aborted) break;
+    if (element.type !== "media" || element.layoutSlot) continue;
+    const media = mediaFiles.find((file) => file.id === element.mediaId);
+    if (!media?.url) continue;
+    try {
+      if (media.type === "video") {
+        const { start, end } = sourceRange(element);
+        subjects[element.id] = await trackSubject(
+          media.url,
+          start,
+          end,
+          signal
+        );
+      } else if (media.type === "image") {
+        subjects[element.id] = [{ time: 0, ...(await findSubject(media.url)) }];
+      }
+    } catch (error) {
+      console.warn(`Could not find the subject of ${element.name}:`, error);
+    }
+  }
+  return subjects;
+}
+
+/**
+ * Source media range an element shows. Speed curves are not followed,
+ * the clip's base speed maps its keyframe time to source time
+ */
+export function sourceRange(element: MediaElement) {
+  const speed = element.speed ?? 1;
+  return {
+    start: element.trimStart * speed,
+    end: (element.trimStart + element.duration) * speed,
+  };
+}
+
+/**
+ * Transform that fills the canvas with the element's cropped frame, with
+ * the subject as close to the center as the frame allows
+ */
+export function reframeTransform(
+  element: MediaElement,
+  source: { width: number; height: number },
+  canvas: CanvasSize,
+  subject: { x: number; y: number } = { x: 0.5, y: 0.5 }
+): ElementTransform {
+  const frame = crop_frame(source.width, source.height, element.crop);
+  const scale = Math.max(
+    canvas.width / frame.width,
+    canvas.height / frame.height
+  );
+  const pivotX = frame.x + frame.width / 2;
+  const pivotY = frame.y + frame.height / 2;
+  const flipX = element.flipX ? -1 : 1;
+  const flipY = element.flipY ? -1 : 1;
+  const halfWidth = (frame.width * scale) / 2;
+  const halfHeight = (frame.height * scale) / 2;
+  const clamp = (value: number, half: number, size: number) =>
+    Math.min(half, Math.max(size - half, value));
+  return {
+    x: clamp(
+      canvas.width / 2 + (pivotX - subject.x * source.width) * scale * flipX,
+      halfWidth,
+      canvas.width
+    ),
+    y: clamp(
+      canvas.height / 2 + (pivotY - subject.y * source.height) * scale * flipY,
+      halfHeight,
+      canvas.height
+    ),
+    scaleX: scale,
+    scaleY: scale,
+    rotation: 0,
+    pivotX,
+    pivotY,
+  };
+}
+
+/**
+ * Position keyframes that follow tracked subject samples
+ */
+export function subjectKeyframes(
+  element: MediaElement,
+  source: { width: number; height: number },
+  canvas: CanvasSize,
+  samples: SubjectSample[]
+): { x: ElementKeyframe[]; y: ElementKeyframe[] } {
+  const speed = element.speed ?? 1;
+  const keyframes = samples.map((sample) => ({
+    time: sample.time / speed,
+    transform: reframeTransform(element, source, canvas, sample),
+  }));
+  const toKeyframes = (property: "x" | "y") =>
+    keyframes.map(({ time, transform }) => ({
+      id: generateUUID(),
+      time,
+      value: transform[property],
+      interpolation: "linear" as const,
+    }));
+  return { x: toKeyframes("x"), y: toKeyframes("y") };
+}
@@ -0,0 +1,236 @@
+// Video scopes measured from a rendered frame. Values are Rec. 709, on the
+// 8-bit code values of the canvas (no legal-range scaling)
+
+export type ScopeType = "waveform" | "vectorscope" | "histogram";
+
+// Frames are downscaled to this width before measuring
+export const SCOPE_SAMPLE_WIDTH = 320;
+// Code values, the height of the waveform and the bins of the histogram
+export const SCOPE_LEVELS = 256;
+export const VECTORSCOPE_SIZE = 256;
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
+}
+
+const KR = 0.2126;
+const KB = 0.0722;
+const KG = 1 - KR - KB;
+
+const luma = (r: number, g: number, b: number) => KR * r + KG * g + KB * b;
+
+export function computeHistogram({ data }: ImageData): Histogram {
+  const histogram: Histogram = {
+    red: new Uint32Array(SCOPE_LEVELS),
+    green: new Uint32Array(SCOPE_LEVELS),
+    blue: new Uint32Array(SCOPE_LEVELS),
+    luma: new Uint32Array(SCOPE_LEVELS),
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    histogram.red[data[i]]++;
+    histogram.green[data[i + 1]]++;
+    histogram.blue[data[i + 2]]++;
+    histogram.luma[Math.round(luma(data[i], data[i + 1], data[i + 2]))]++;
+  }
+  return histogram;
+}
+
+// Luma density per column, row 0 is code value 255
+export function computeWaveform({ data, width, height }: ImageData) {
+  const waveform = new Uint32Array(width * SCOPE_LEVELS);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const level = Math.round(luma(data[i], data[i + 1], data[i + 2]));
+      waveform[(SCOPE_LEVELS - 1 - level) * width + x]++;
+    }
+  }
+  return waveform;
+}
+
+// Chroma of a code value triplet, Cb and Cr in -0.5 to 0.5
+function chroma(r: number, g: number, b: number) {
+  const y = luma(r, g, b);
+  return {
+    cb: (b - y) / (2 * (1 - KB)) / 255,
+    cr: (r - y) / (2 * (1 - KR)) / 255,
+  };
+}
+
+const toScope = (value: number) =>
+  Math.min(
+    VECTORSCOPE_SIZE - 1,
+    Math.max(0, Math.round((value + 0.5) * (VECTORSCOPE_SIZE - 1)))
+  );
+
+// Cb/Cr density, Cb to the right and Cr up
+export function computeVectorscope({ data }: ImageData) {
+  const scope = new Uint32Array(VECTORSCOPE_SIZE * VECTORSCOPE_SIZE);
+  for (let i = 0; i < data.length; i += 4) {
+    const { cb, cr } = chroma(data[i], data[i + 1], data[i + 2]);
+    scope[toScope(-cr) * VECTORSCOPE_SIZE + toScope(cb)]++;
+  }
+  return scope;
+}
+
+/**
+ * Density to brightness, logarithmic so single pixels stay visible next to
+ * large flat areas. `reference` is the count drawn at full brightness
+ */
+function densityImage(
+  density: Uint32Array,
+  width: number,
+  height: number,
+  reference: number,
+  [r, g, b]: [number, number, number]
+) {
+  const image = new ImageData(width, height);
+  const scale = 1 / Math.log1p(Math.max(reference, 1));
+  for (let i = 0; i < density.length; i++) {
+    if (density[i] === 0) continue;
+    const value = Math.min(1, Math.log1p(density[i]) * scale * 1.5);
+    image.data[i * 4] = r * value;
+    image.data[i * 4 + 1] = g * value;
+    image.data[i * 4 + 2] = b * value;
+    image.data[i * 4 + 3] = 255;
+  }
+  return image;
+}
+
+function clear(ctx: CanvasRenderingContext2D) {
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+// Draws into a canvas of sample width × SCOPE_LEVELS
+export function drawWaveform(
+  ctx: CanvasRenderingContext2D,
+  waveform: Uint32Array,
+  sampleHeight: number
+) {
+  const { width } = ctx.canvas;
+  clear(ctx);
+  ctx.putImageData(
+    densityImage(waveform, width, SCOPE_LEVELS, sampleHeight, [120, 255, 140]),
+    0,
+    0
+  );
+  // 0, 25, 50, 75 and 100 IRE
+  ctx.strokeStyle = "rgb(255 255 255 / 0.2)";
+  ctx.lineWidth = 1;
+  for (let ire = 0; ire <= 100; ire += 25) {
+    const y = Math.round((1 - ire / 100) * (SCOPE_LEVELS - 1)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  }
+}
+
+// 75% color bar targets
+const VECTORSCOPE_TARGETS: [string, number, number, number][] = [
+  ["R", 191, 0, 0],
+  ["Mg", 191, 0, 191],
+  ["B", 0, 0, 191],
+  ["Cy", 0, 191, 191],
+  ["G", 0, 191, 0],
+  ["Yl", 191, 191, 0],
+];
+
+// Draws into a VECTORSCOPE_SIZE square canvas
+export function drawVectorscope(
+  ctx: CanvasRenderingContext2D,
+  scope: Uint32Array,
+  pixelCount: number
+) {
+  const center = (VECTORSCOPE_SIZE - 1) / 2;
+  clear(ctx);
+  ctx.putImageData(
+    densityImage(
+      scope,
+      VECTORSCOPE_SIZE,
+      VECTORSCOPE_SIZE,
+      pixelCount / 64,
+      [230, 230, 230]
+    ),
+    0,
+    0
+  );
+
+  ctx.strokeStyle = "rgb(255 255 255 / 0.25)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(center, center, center, 0, Math.PI * 2);
+  ctx.moveTo(0, center);
+  ctx.lineTo(VECTORSCOPE_SIZE, center);
+  ctx.moveTo(center, 0);
+  ctx.lineTo(center, VECTORSCOPE_SIZE);
+  ctx.stroke();
+
+  // Skin tone line, roughly 123° from the Cb axis
+  const skin = (123 * Math.PI) / 180;
+  ctx.strokeStyle = "rgb(255 200 150 / 0.35)";
+  ctx.beginPath();
+  ctx.moveTo(center, center);
+  ctx.lineTo(center + Math.cos(skin) * center, center - Math.sin(skin) * center);
+  ctx.stroke();
+
+  ctx.font = "10px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  for (const [label, r, g, b] of VECTORSCOPE_TARGETS) {
+    const { cb, cr } = chroma(r, g, b);
+    const x = toScope(cb);
+    const y = toScope(-cr);
+    ctx.strokeStyle = `rgb(${r + 64} ${g + 64} ${b + 64} / 0.8)`;
+    ctx.strokeRect(x - 5.5, y - 5.5, 11, 11);
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.fillText(label, x + (x > center ? 14 : -14), y);
+  }
+}
+
+// Draws into a SCOPE_LEVELS wide canvas, channels overlap additively
+export function drawHistogram(
+  ctx: CanvasRenderingContext2D,
+  histogram: Histogram
+) {
+  const { height } = ctx.canvas;
+  clear(ctx);
+  // Clipped pixels pile up in the end bins, they don't set the scale
+  const peak = Math.max(
+    1,
+    ...[histogram.red, histogram.green, histogram.blue].flatMap((bins) =>
+      Array.from(bins.subarray(1, SCOPE_LEVELS - 1))
+    )
+  );
+
+  const channels: [Uint32Array, string][] = [
+    [histogram.red, "rgb(255 60 60 / 0.7)"],
+    [histogram.green, "rgb(60 255 60 / 0.7)"],
+    [histogram.blue, "rgb(70 110 255 / 0.7)"],
+  ];
+  ctx.globalCompositeOperation = "lighter";
+  for (const [bins, color] of channels) {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(0, height);
+    bins.forEach((count, level) =>
+      ctx.lineTo(level, height - Math.min(1, count / peak) * height)
+    );
+    ctx.lineTo(SCOPE_LEVELS, height);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.globalCompositeOperation = "source-over";
+
+  ctx.strokeStyle = "rgb(255 255 255 / 0.8)";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  histogram.luma.forEach((count, level) =>
+    ctx.lineTo(level + 0.5, height - Math.min(1, count / peak) * height)
+  );
+  ctx.stroke();
+}
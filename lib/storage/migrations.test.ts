@@ -0,0 +1,135 @@
+import { Suite } from 'cynic';
+import { expect } from 'chai';
+import type { TimelineTrack } from '@/types/timeline';
+import type { SceneTimelineData, SerializedScene, TimelineData } from './types';
+import {
+  STORAGE_SCHEMA_VERSION,
+  migrateProjectRecords,
+  schemaVersionOf,
+  type ProjectRecords,
+  type StoredProject,
+} from './migrations';
+
+const now = '2025-01-01T00:00:00.000Z';
+const context = { now, createId: () => 'new-scene' };
+
+const tracks: TimelineTrack[] = [
+  {
+    id: 'main',
+    name: 'Main track',
+    type: 'media',
+    isMain: true,
+    elements: [
+      { id: 'clip', name: 'clip.mp4', type: 'media', mediaId: 'media', duration: 5, startTime: 0, trimStart: 0, trimEnd: 0 },
+    ],
+  },
+];
+
+const timeline = (lastModified = '2024-03-01T00:00:00.000Z'): TimelineData => ({ tracks, lastModified });
+
+const scene = (id: string, isMain: boolean): SerializedScene => ({
+  id,
+  name: id,
+  isMain,
+  createdAt: '2024-06-01T00:00:00.000Z',
+  updatedAt: '2024-06-01T00:00:00.000Z',
+});
+
+// Fixture projects, one per shape the storage has written
+
+// Version 1: no scenes, the timeline belongs to the project
+const legacyProject: StoredProject = {
+  id: 'legacy',
+  name: 'Legacy',
+  thumbnail: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-03-01T00:00:00.000Z',
+  backgroundColor: '#000000',
+};
+
+// Version 2: scenes, saved before canvas settings existed
+const scenesProject: StoredProject = {
+  ...legacyProject,
+  id: 'scenes',
+  name: 'Scenes',
+  scenes: [scene('main-scene', true), scene('intro', false)],
+  currentSceneId: 'intro',
+};
+
+// Version 3: the current shape
+const currentProject: StoredProject = {
+  ...scenesProject,
+  id: 'current',
+  name: 'Current',
+  fps: 24,
+  canvasSize: { width: 1080, height: 1920 },
+  canvasMode: 'custom',
+  schemaVersion: 3,
+};
+
+const sceneTimeline = (sceneId: string): SceneTimelineData => ({ sceneId, ...timeline() });
+
+export default <Suite> {
+  'storage migrations': {
+    'tells unversioned records apart by their scenes': async () => {
+      expect(schemaVersionOf(legacyProject)).to.equal(1);
+      expect(schemaVersionOf(scenesProject)).to.equal(2);
+      expect(schemaVersionOf(currentProject)).to.equal(3);
+    },
+    'moves a version 1 timeline into a new main scene': async () => {
+      const { records, report } = migrateProjectRecords(
+        { project: legacyProject, legacyTimeline: timeline(), timelines: [] },
+        context
+      );
+      expect(records.project.scenes).to.deep.equal([
+        { id: 'new-scene', name: 'Main scene', isMain: true, createdAt: now, updatedAt: now },
+      ]);
+      expect(records.project.currentSceneId).to.equal('new-scene');
+      expect(records.legacyTimeline).to.equal(null);
+      expect(records.timelines).to.deep.equal([sceneTimeline('new-scene')]);
+      expect(report.fromVersion).to.equal(1);
+      expect(report.toVersion).to.equal(STORAGE_SCHEMA_VERSION);
+      expect(report.steps).to.have.length(2);
+    },
+    'gives a version 1 project without a timeline an empty main scene': async () => {
+      const { records } = migrateProjectRecords({ project: legacyProject, legacyTimeline: null, timelines: [] }, context);
+      expect(records.project.scenes).to.have.length(1);
+      expect(records.timelines).to.deep.equal([]);
+    },
+    'fills in canvas settings on version 2 projects': async () => {
+      const timelines = [sceneTimeline('main-scene'), sceneTimeline('intro')];
+      const { records, report } = migrateProjectRecords({ project: scenesProject, legacyTimeline: null, timelines }, context);
+      expect(records.project).to.deep.equal({
+        ...scenesProject,
+        canvasSize: { width: 1920, height: 1080 },
+        canvasMode: 'preset',
+        fps: 30,
+        schemaVersion: 3,
+      });
+      expect(records.timelines).to.deep.equal(timelines);
+      expect(report.steps).to.deep.equal(['Fill in canvas size, canvas mode and frame rate']);
+    },
+    'leaves current projects untouched': async () => {
+      const records: ProjectRecords = { project: currentProject, legacyTimeline: null, timelines: [sceneTimeline('main-scene')] };
+      const migrated = migrateProjectRecords(records, context);
+      expect(migrated.records).to.deep.equal(records);
+      expect(migrated.report.steps).to.deep.equal([]);
+    },
+    'does not change the records it migrates': async () => {
+      const records: ProjectRecords = { project: legacyProject, legacyTimeline: timeline(), timelines: [] };
+      const copy = JSON.parse(JSON.stringify(records));
+      migrateProjectRecords(records, context);
+      expect(records).to.deep.equal(copy);
+    },
+    'refuses records from a newer schema': async () => {
+      const project = { ...currentProject, schemaVersion: STORAGE_SCHEMA_VERSION + 1 };
+      let error: unknown = null;
+      try {
+        migrateProjectRecords({ project, legacyTimeline: null, timelines: [] }, context);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error instanceof Error).to.equal(true);
+    },
+  },
+};
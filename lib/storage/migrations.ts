@@ -0,0 +1,163 @@
+import type {
+  SceneTimelineData,
+  SerializedProject,
+  SerializedScene,
+  TimelineData,
+} from "./types";
+
+/**
+ * Stored projects carry the schema version that wrote them. Migrations take
+ * every record of a project from one version to the next, in order. They are
+ * pure: ids and dates come from the context, so a migration can be planned,
+ * tested and replayed without touching storage.
+ *
+ * Versions:
+ * 1. A single timeline per project, no scenes
+ * 2. Scenes, a timeline per scene
+ * 3. Canvas size, canvas mode and frame rate on every project
+ */
+
+export const STORAGE_SCHEMA_VERSION = 3;
+
+// A project record as any schema version wrote it
+export type StoredProject = Omit<
+  SerializedProject,
+  "scenes" | "currentSceneId" | "canvasSize" | "canvasMode"
+> &
+  Partial<
+    Pick<
+      SerializedProject,
+      "scenes" | "currentSceneId" | "canvasSize" | "canvasMode"
+    >
+  >;
+
+// Every stored record of one project
+export interface ProjectRecords {
+  project: StoredProject;
+  // Project wide timeline written before scenes existed
+  legacyTimeline: TimelineData | null;
+  timelines: SceneTimelineData[];
+}
+
+export interface MigrationContext {
+  now: string;
+  createId: () => string;
+}
+
+export interface Migration {
+  version: number; // Schema version the migration produces
+  description: string;
+  migrate: (
+    records: ProjectRecords,
+    context: MigrationContext
+  ) => ProjectRecords;
+}
+
+export interface MigrationReport {
+  projectId: string;
+  projectName: string;
+  fromVersion: number;
+  toVersion: number;
+  steps: string[];
+}
+
+// Defaults new projects had when canvas settings were added. Kept here
+// rather than shared so the migration does not change if those do
+const CANVAS_DEFAULTS = {
+  canvasSize: { width: 1920, height: 1080 },
+  canvasMode: "preset" as const,
+  fps: 30,
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Move the project timeline into a main scene",
+    migrate: ({ project, legacyTimeline, timelines }, { now, createId }) => {
+      if (project.scenes?.length) {
+        return { project, legacyTimeline: null, timelines };
+      }
+      const mainScene: SerializedScene = {
+        id: createId(),
+        name: "Main scene",
+        isMain: true,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return {
+        project: {
+          ...project,
+          scenes: [mainScene],
+          currentSceneId: mainScene.id,
+        },
+        legacyTimeline: null,
+        timelines: legacyTimeline?.tracks.length
+          ? [
+              {
+                sceneId: mainScene.id,
+                tracks: legacyTimeline.tracks,
+                lastModified: legacyTimeline.lastModified,
+              },
+            ]
+          : timelines,
+      };
+    },
+  },
+  {
+    version: 3,
+    description: "Fill in canvas size, canvas mode and frame rate",
+    migrate: (records) => ({
+      ...records,
+      project: {
+        ...records.project,
+        canvasSize: records.project.canvasSize ?? CANVAS_DEFAULTS.canvasSize,
+        canvasMode: records.project.canvasMode ?? CANVAS_DEFAULTS.canvasMode,
+        fps: records.project.fps ?? CANVAS_DEFAULTS.fps,
+      },
+    }),
+  },
+];
+
+// Records from before versioning are told apart by their scenes
+export function schemaVersionOf(project: StoredProject) {
+  return project.schemaVersion ?? (project.scenes?.length ? 2 : 1);
+}
+
+/**
+ * Runs every migration newer than the records' version. Throws for records
+ * written by a newer schema, those are never downgraded
+ */
+export function migrateProjectRecords(
+  records: ProjectRecords,
+  context: MigrationContext
+): { records: ProjectRecords; report: MigrationReport } {
+  const fromVersion = schemaVersionOf(records.project);
+  if (fromVersion > STORAGE_SCHEMA_VERSION) {
+    throw new Error(
+      `Project "${records.project.name}" was saved with a newer storage schema (${fromVersion})`
+    );
+  }
+
+  const pending = MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion
+  );
+  let migrated = records;
+  for (const migration of pending) {
+    migrated = migration.migrate(migrated, context);
+    migrated = {
+      ...migrated,
+      project: { ...migrated.project, schemaVersion: migration.version },
+    };
+  }
+
+  return {
+    records: migrated,
+    report: {
+      projectId: records.project.id,
+      projectName: records.project.name,
+      fromVersion,
+      toVersion: STORAGE_SCHEMA_VERSION,
+      steps: pending.map((migration) => migration.description),
+    },
+  };
+}
@@ -0,0 +1,119 @@
+// Appends made within this window are written together
+const APPEND_BATCH_MS = 200;
+
+/**
+ * Append-only log of JSON entries in a single OPFS file, one entry per line.
+ * Writes go through a queue so appends and compactions never interleave.
+ * Appends are batched, every write copies the file so it isn't done per entry.
+ * A line cut short by a crash is skipped when the log is read back.
+ */
+export class OPFSJournal<T> {
+  private fileName: string;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending: T[] = [];
+  private batch: Promise<void> | null = null;
+
+  constructor(fileName: string) {
+    this.fileName = fileName;
+  }
+
+  private async getDirectory(): Promise<FileSystemDirectoryHandle> {
+    const opfsRoot = await navigator.storage.getDirectory();
+    return await opfsRoot.getDirectoryHandle("journals", { create: true });
+  }
+
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async write(entries: T[], append: boolean): Promise<void> {
+    const directory = await this.getDirectory();
+    const fileHandle = await directory.getFileHandle(this.fileName, {
+      create: true,
+    });
+    const size = append ? (await fileHandle.getFile()).size : 0;
+    const writable = await fileHandle.createWritable({
+      keepExistingData: append,
+    });
+    const lines = entries.map((entry) => `${JSON.stringify(entry)}\n`);
+    await writable.write({
+      type: "write",
+      position: size,
+      data: lines.join(""),
+    });
+    await writable.close();
+  }
+
+  private async readEntries(): Promise<T[]> {
+    try {
+      const directory = await this.getDirectory();
+      const fileHandle = await directory.getFileHandle(this.fileName);
+      const text = await (await fileHandle.getFile()).text();
+      const entries: T[] = [];
+      for (const line of text.split("\n")) {
+        if (!line) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          console.warn("Skipping a torn journal entry");
+        }
+      }
+      return entries;
+    } catch (error) {
+      if ((error as Error).name === "NotFoundError") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Resolves once the batch holding the entry is written
+  append(entry: T): Promise<void> {
+    this.pending.push(entry);
+    if (!this.batch) {
+      this.batch = this.enqueue(async () => {
+        await new Promise((resolve) => setTimeout(resolve, APPEND_BATCH_MS));
+        const entries = this.pending;
+        this.pending = [];
+        this.batch = null;
+        await this.write(entries, true);
+      });
+    }
+    return this.batch;
+  }
+
+  read(): Promise<T[]> {
+    return this.enqueue(() => this.readEntries());
+  }
+
+  // Drops the entries that are no longer needed, keeping the rest in order
+  compact(keep: (entry: T) => boolean): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.readEntries();
+      const kept = entries.filter(keep);
+      if (kept.length === entries.length) return;
+      if (kept.length === 0) {
+        await this.removeFile();
+      } else {
+        await this.write(kept, false);
+      }
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(() => this.removeFile());
+  }
+
+  private async removeFile(): Promise<void> {
+    try {
+      const directory = await this.getDirectory();
+      await directory.removeEntry(this.fileName);
+    } catch (error) {
+      if ((error as Error).name !== "NotFoundError") {
+        throw error;
+      }
+    }
+  }
+}
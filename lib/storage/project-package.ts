@@ -0,0 +1,267 @@
+import {
+  BlobReader,
+  BlobWriter,
+  TextReader,
+  ZipReader,
+  ZipWriter,
+  type FileEntry,
+} from "@zip.js/zip.js";
+import type { SavedSound } from "@/types/sounds";
+import type { TimelineTrack } from "@/types/timeline";
+import { generateUUID, sha256 } from "@/lib/utils";
+import { storageService } from "./storage-service";
+import { STORAGE_SCHEMA_VERSION, migrateProjectRecords } from "./migrations";
+import type {
+  MediaFileData,
+  SceneTimelineData,
+  SerializedProject,
+} from "./types";
+
+/**
+ * Project packages (.alphax) carry a whole project between browsers: every
+ * scene and timeline, media metadata, the fonts it uses and saved sounds.
+ * Media is bundled or only referenced, referenced media is relinked after
+ * import. LUTs travel inside the timelines' color grades. Every file is
+ * checked against its hash on import. See docs/project-package.md
+ */
+
+export const PACKAGE_EXTENSION = ".alphax";
+export const PACKAGE_FORMAT = "alphax-project";
+export const PACKAGE_FORMAT_VERSION = 1;
+
+export interface PackageMedia extends Omit<MediaFileData, "archived"> {
+  mimeType: string;
+  sha256: string; // Of the media file, bundled or not
+  path?: string; // Only when the media is bundled
+}
+
+export interface PackageManifest {
+  format: typeof PACKAGE_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // Storage schema of the project and timelines
+  exportedAt: string;
+  project: SerializedProject;
+  media: PackageMedia[];
+  fonts: string[];
+  // sha256 of every file in the package except the manifest
+  files: Record<string, string>;
+}
+
+const MANIFEST_PATH = "manifest.json";
+const SOUNDS_PATH = "sounds.json";
+const scenePath = (sceneId: string) => `scenes/${sceneId}.json`;
+
+function usedFonts(timelines: SceneTimelineData[]) {
+  const fonts = new Set<string>();
+  for (const { tracks } of timelines) {
+    for (const element of tracks.flatMap((track) => track.elements)) {
+      if (element.type === "text") fonts.add(element.fontFamily);
+    }
+  }
+  return [...fonts].sort();
+}
+
+export async function exportProjectPackage({
+  projectId,
+  bundleMedia,
+}: {
+  projectId: string;
+  bundleMedia: boolean;
+}): Promise<{ blob: Blob; fileName: string }> {
+  const project = await storageService.loadProject({ id: projectId });
+  if (!project) throw new Error("Project not found");
+
+  const zipWriter = new ZipWriter(new BlobWriter("application/zip"));
+  const files: Record<string, string> = {};
+  const add = async (path: string, blob: Blob) => {
+    files[path] = await sha256(blob);
+    await zipWriter.add(path, new BlobReader(blob));
+  };
+  const json = (value: unknown) =>
+    new Blob([JSON.stringify(value)], { type: "application/json" });
+
+  const timelines: SceneTimelineData[] = [];
+  for (const scene of project.scenes) {
+    const tracks =
+      (await storageService.loadTimeline({ projectId, sceneId: scene.id })) ??
+      [];
+    timelines.push({
+      sceneId: scene.id,
+      tracks,
+      lastModified: new Date().toISOString(),
+    });
+    await add(scenePath(scene.id), json(tracks));
+  }
+
+  const media: PackageMedia[] = [];
+  for (const item of await storageService.loadAllMediaFiles({ projectId })) {
+    if (item.url) URL.revokeObjectURL(item.url);
+    const extension = item.file.name.includes(".")
+      ? `.${item.file.name.split(".").pop()}`
+      : "";
+    const path = bundleMedia ? `media/${item.id}${extension}` : undefined;
+    if (path) await add(path, item.file);
+    media.push({
+      id: item.id,
+      name: item.name,
+      type: item.type,
+      size: item.file.size,
+      lastModified: item.file.lastModified,
+      width: item.width,
+      height: item.height,
+      duration: item.duration,
+      ephemeral: item.ephemeral,
+      mimeType: item.file.type,
+      sha256: path ? files[path] : await sha256(item.file),
+      path,
+    });
+  }
+
+  const { sounds } = await storageService.loadSavedSounds();
+  await add(SOUNDS_PATH, json(sounds));
+
+  const manifest: PackageManifest = {
+    format: PACKAGE_FORMAT,
+    formatVersion: PACKAGE_FORMAT_VERSION,
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: storageService.serializeProject(project),
+    media,
+    fonts: usedFonts(timelines),
+    files,
+  };
+  await zipWriter.add(
+    MANIFEST_PATH,
+    new TextReader(JSON.stringify(manifest, null, 2))
+  );
+
+  return {
+    blob: await zipWriter.close(),
+    fileName: `${project.name || "project"}${PACKAGE_EXTENSION}`,
+  };
+}
+
+/**
+ * Recreates a packaged project in storage under a fresh id and returns the
+ * id. Throws when the package is not one, is newer than this app or a file
+ * does not match its hash
+ */
+export async function importProjectPackage(file: File): Promise<string> {
+  const zipReader = new ZipReader(new BlobReader(file));
+  const projectId = generateUUID();
+  // Scenes whose timelines are written, removed again when the import fails
+  const sceneIds: string[] = [];
+
+  try {
+    const entries = new Map<string, FileEntry>(
+      (await zipReader.getEntries())
+        .filter((entry): entry is FileEntry => !entry.directory)
+        .map((entry) => [entry.filename, entry])
+    );
+    const read = async (path: string): Promise<Blob> => {
+      const entry = entries.get(path);
+      if (!entry) throw new Error(`The package is missing ${path}`);
+      return await entry.getData(new BlobWriter());
+    };
+
+    const manifest: PackageManifest = JSON.parse(
+      await (await read(MANIFEST_PATH)).text()
+    );
+    if (manifest.format !== PACKAGE_FORMAT) {
+      throw new Error("Not an AlphaX project package");
+    }
+    if (manifest.formatVersion > PACKAGE_FORMAT_VERSION) {
+      throw new Error("The package was made by a newer version of AlphaX");
+    }
+
+    const readVerified = async (path: string) => {
+      const blob = await read(path);
+      if ((await sha256(blob)) !== manifest.files[path]) {
+        throw new Error(`${path} in the package is damaged`);
+      }
+      return blob;
+    };
+
+    const timelines: SceneTimelineData[] = [];
+    for (const scene of manifest.project.scenes) {
+      const tracks: TimelineTrack[] = JSON.parse(
+        await (await readVerified(scenePath(scene.id))).text()
+      );
+      timelines.push({
+        sceneId: scene.id,
+        tracks,
+        lastModified: manifest.exportedAt,
+      });
+    }
+    const { records } = migrateProjectRecords(
+      { project: manifest.project, legacyTimeline: null, timelines },
+      { now: new Date().toISOString(), createId: generateUUID }
+    );
+    const sounds: SavedSound[] = JSON.parse(
+      await (await readVerified(SOUNDS_PATH)).text()
+    );
+
+    for (const media of manifest.media) {
+      const metadata: MediaFileData = {
+        id: media.id,
+        name: media.name,
+        type: media.type,
+        size: media.size,
+        lastModified: media.lastModified,
+        width: media.width,
+        height: media.height,
+        duration: media.duration,
+        ephemeral: media.ephemeral,
+        sha256: media.sha256,
+      };
+      if (media.path) {
+        const blob = await readVerified(media.path);
+        await storageService.saveMediaFile({
+          projectId,
+          mediaItem: {
+            ...metadata,
+            file: new File([blob], metadata.name, {
+              type: media.mimeType,
+              lastModified: metadata.lastModified,
+            }),
+          },
+        });
+      } else {
+        await storageService.saveMediaMetadata({ projectId, metadata });
+      }
+    }
+
+    for (const { sceneId, tracks } of records.timelines) {
+      sceneIds.push(sceneId);
+      await storageService.saveTimeline({ projectId, tracks, sceneId });
+    }
+
+    // The project goes after its media and timelines, so a failed import
+    // never shows up in the list
+    await storageService.saveProject({
+      project: {
+        ...storageService.deserializeProject(
+          records.project as SerializedProject
+        ),
+        id: projectId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+    // The sounds library is shared by every project and can't be rolled
+    // back, it's only added to once the project is in place
+    await storageService.importSavedSounds({ sounds });
+    return projectId;
+  } catch (error) {
+    await storageService.deleteProject({ id: projectId }).catch(() => {});
+    for (const sceneId of sceneIds) {
+      await storageService
+        .deleteProjectTimeline({ projectId, sceneId })
+        .catch(() => {});
+    }
+    await storageService.deleteProjectMedia({ projectId }).catch(() => {});
+    throw error;
+  } finally {
+    await zipReader.close();
+  }
+}
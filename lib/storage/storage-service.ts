@@ -2,8 +2,20 @@ import { TProject } from "@/types/project";
 import { MediaFile } from "@/types/media";
 import { IndexedDBAdapter } from "./indexeddb-adapter";
 import { OPFSAdapter } from "./opfs-adapter";
+import { OPFSJournal } from "./opfs-journal";
 import {
+  STORAGE_SCHEMA_VERSION,
+  MigrationReport,
+  ProjectRecords,
+  migrateProjectRecords,
+  schemaVersionOf,
+} from "./migrations";
+import {
+  JournalEntry,
+  JournalRecovery,
   MediaFileData,
+  ProjectSnapshot,
+  SceneTimelineData,
   StorageConfig,
   SerializedProject,
   SerializedScene,
@@ -11,10 +23,12 @@ import {
 } from "./types";
 import { TimelineTrack } from "@/types/timeline";
 import { SavedSoundsData, SavedSound, SoundEffect } from "@/types/sounds";
+import { generateUUID } from "@/lib/utils";
 
 class StorageService {
   private projectsAdapter: IndexedDBAdapter<SerializedProject>;
   private savedSoundsAdapter: IndexedDBAdapter<SavedSoundsData>;
+  private journals = new Map<string, OPFSJournal<JournalEntry>>();
   private config: StorageConfig;
 
   constructor() {
@@ -23,6 +37,7 @@ class StorageService {
       mediaDb: "video-editor-media",
       timelineDb: "video-editor-timelines",
       savedSoundsDb: "video-editor-saved-sounds",
+      snapshotsDb: "video-editor-snapshots",
       version: 1,
     };
 
@@ -71,8 +86,26 @@ class StorageService {
     );
   }
 
-  // Project operations
-  async saveProject({ project }: { project: TProject }): Promise<void> {
+  // Helper to get the project's journal, shared so its writes stay in order
+  private getProjectJournal({ projectId }: { projectId: string }) {
+    let journal = this.journals.get(projectId);
+    if (!journal) {
+      journal = new OPFSJournal<JournalEntry>(`timeline-${projectId}.jsonl`);
+      this.journals.set(projectId, journal);
+    }
+    return journal;
+  }
+
+  // Helper to get project-specific version history adapter
+  private getProjectSnapshotsAdapter({ projectId }: { projectId: string }) {
+    return new IndexedDBAdapter<ProjectSnapshot>(
+      `${this.config.snapshotsDb}-${projectId}`,
+      "snapshots",
+      this.config.version
+    );
+  }
+
+  serializeProject(project: TProject): SerializedProject {
     // Convert TProject to serializable format
     const serializedScenes: SerializedScene[] = project.scenes.map((scene) => ({
       id: scene.id,
@@ -97,16 +130,13 @@ class StorageService {
       fps: project.fps,
       canvasSize: project.canvasSize,
       canvasMode: project.canvasMode,
+      schemaVersion: STORAGE_SCHEMA_VERSION,
     };
 
-    await this.projectsAdapter.set(project.id, serializedProject);
+    return serializedProject;
   }
 
-  async loadProject({ id }: { id: string }): Promise<TProject | null> {
-    const serializedProject = await this.projectsAdapter.get(id);
-
-    if (!serializedProject) return null;
-
+  deserializeProject(serializedProject: SerializedProject): TProject {
     // Now convert serialized scenes back to Scene objects
     const scenes =
       serializedProject.scenes?.map((scene) => ({
@@ -137,6 +167,25 @@ class StorageService {
     return project;
   }
 
+  // Project operations
+  async saveProject({ project }: { project: TProject }): Promise<void> {
+    await this.projectsAdapter.set(project.id, this.serializeProject(project));
+  }
+
+  async loadProject({ id }: { id: string }): Promise<TProject | null> {
+    let serializedProject = await this.projectsAdapter.get(id);
+
+    if (!serializedProject) return null;
+
+    if (schemaVersionOf(serializedProject) < STORAGE_SCHEMA_VERSION) {
+      await this.migrateProject({ id });
+      serializedProject = await this.projectsAdapter.get(id);
+      if (!serializedProject) return null;
+    }
+
+    return this.deserializeProject(serializedProject);
+  }
+
   async loadAllProjects(): Promise<TProject[]> {
     const projectIds = await this.projectsAdapter.list();
     const projects: TProject[] = [];
@@ -188,6 +237,21 @@ class StorageService {
     await mediaMetadataAdapter.set(mediaItem.id, metadata);
   }
 
+  // Metadata of media whose file is not in storage yet, e.g. imported from a
+  // package that references its media instead of bundling it
+  async saveMediaMetadata({
+    projectId,
+    metadata,
+  }: {
+    projectId: string;
+    metadata: MediaFileData;
+  }): Promise<void> {
+    const { mediaMetadataAdapter } = this.getProjectMediaAdapters({
+      projectId,
+    });
+    await mediaMetadataAdapter.set(metadata.id, metadata);
+  }
+
   async loadMediaFile({
     projectId,
     id,
@@ -248,6 +312,8 @@ class StorageService {
     const mediaItems: MediaFile[] = [];
 
     for (const id of mediaIds) {
+      const metadata = await mediaMetadataAdapter.get(id);
+      if (metadata?.archived) continue;
       const item = await this.loadMediaFile({ projectId, id });
       if (item) {
         mediaItems.push(item);
@@ -257,6 +323,25 @@ class StorageService {
     return mediaItems;
   }
 
+  // Metadata of media whose file is missing from storage, see lib/media-relink
+  async loadOfflineMedia({
+    projectId,
+  }: {
+    projectId: string;
+  }): Promise<MediaFileData[]> {
+    const { mediaMetadataAdapter, mediaFilesAdapter } =
+      this.getProjectMediaAdapters({ projectId });
+
+    const fileIds = new Set(await mediaFilesAdapter.list());
+    const offline: MediaFileData[] = [];
+    for (const id of await mediaMetadataAdapter.list()) {
+      if (fileIds.has(id)) continue;
+      const metadata = await mediaMetadataAdapter.get(id);
+      if (metadata && !metadata.archived) offline.push(metadata);
+    }
+    return offline;
+  }
+
   async deleteMediaFile({
     projectId,
     id,
@@ -267,6 +352,16 @@ class StorageService {
     const { mediaMetadataAdapter, mediaFilesAdapter } =
       this.getProjectMediaAdapters({ projectId });
 
+    // Media a snapshot still uses is archived so the snapshot can be restored
+    const snapshots = await this.loadSnapshots({ projectId });
+    if (snapshots.some((snapshot) => snapshot.mediaIds.includes(id))) {
+      const metadata = await mediaMetadataAdapter.get(id);
+      if (metadata) {
+        await mediaMetadataAdapter.set(id, { ...metadata, archived: true });
+      }
+      return;
+    }
+
     await Promise.all([
       mediaFilesAdapter.remove(id),
       mediaMetadataAdapter.remove(id),
@@ -301,11 +396,20 @@ class StorageService {
       projectId,
       sceneId,
     });
+    const savedAt = Date.now();
     const timelineData: TimelineData = {
       tracks,
-      lastModified: new Date().toISOString(),
+      lastModified: new Date(savedAt).toISOString(),
+      schemaVersion: STORAGE_SCHEMA_VERSION,
     };
     await timelineAdapter.set("timeline", timelineData);
+
+    // The saved timeline holds every change journaled before it
+    if (sceneId && this.isOPFSSupported()) {
+      await this.getProjectJournal({ projectId }).compact(
+        (entry) => entry.sceneId !== sceneId || entry.time > savedAt
+      );
+    }
   }
 
   async loadTimeline({
@@ -325,13 +429,312 @@ class StorageService {
 
   async deleteProjectTimeline({
     projectId,
+    sceneId,
   }: {
     projectId: string;
+    sceneId?: string;
   }): Promise<void> {
-    const timelineAdapter = this.getProjectTimelineAdapter({ projectId });
+    const timelineAdapter = this.getProjectTimelineAdapter({
+      projectId,
+      sceneId,
+    });
     await timelineAdapter.remove("timeline");
   }
 
+  // Migration operations
+  private async loadProjectRecords({
+    id,
+  }: {
+    id: string;
+  }): Promise<ProjectRecords | null> {
+    const project = await this.projectsAdapter.get(id);
+    if (!project) return null;
+
+    const legacyTimeline = await this.getProjectTimelineAdapter({
+      projectId: id,
+    }).get("timeline");
+    const timelines = await Promise.all(
+      (project.scenes ?? []).map(async (scene) => {
+        const timelineData = await this.getProjectTimelineAdapter({
+          projectId: id,
+          sceneId: scene.id,
+        }).get("timeline");
+        return timelineData && { sceneId: scene.id, ...timelineData };
+      })
+    );
+
+    return {
+      project,
+      legacyTimeline,
+      timelines: timelines.filter((timeline) => timeline !== null),
+    };
+  }
+
+  /**
+   * Brings a stored project and its timelines up to the current schema.
+   * A dry run only reports the steps it would take
+   */
+  async migrateProject({
+    id,
+    dryRun = false,
+  }: {
+    id: string;
+    dryRun?: boolean;
+  }): Promise<MigrationReport | null> {
+    const records = await this.loadProjectRecords({ id });
+    if (!records) return null;
+
+    const { records: migrated, report } = migrateProjectRecords(records, {
+      now: new Date().toISOString(),
+      createId: generateUUID,
+    });
+    if (dryRun || report.steps.length === 0) return report;
+
+    await Promise.all(
+      migrated.timelines.map(({ sceneId, tracks, lastModified }) =>
+        this.getProjectTimelineAdapter({ projectId: id, sceneId }).set(
+          "timeline",
+          { tracks, lastModified, schemaVersion: STORAGE_SCHEMA_VERSION }
+        )
+      )
+    );
+    // The project goes last, an interrupted migration runs again on next load
+    await this.projectsAdapter.set(id, migrated.project as SerializedProject);
+    if (records.legacyTimeline && !migrated.legacyTimeline) {
+      await this.getProjectTimelineAdapter({ projectId: id }).remove(
+        "timeline"
+      );
+    }
+    return report;
+  }
+
+  async migrateAllProjects({
+    dryRun = false,
+  }: { dryRun?: boolean } = {}): Promise<MigrationReport[]> {
+    const reports: MigrationReport[] = [];
+    for (const id of await this.projectsAdapter.list()) {
+      try {
+        const report = await this.migrateProject({ id, dryRun });
+        if (report && report.steps.length > 0) {
+          reports.push(report);
+        }
+      } catch (error) {
+        console.error(`Failed to migrate project ${id}:`, error);
+      }
+    }
+    return reports;
+  }
+
+  // Journal operations. Timeline changes are journaled as they happen and
+  // compacted away once the timeline is saved, so a crash loses nothing.
+  // Engine state is derived from the timeline and is rebuilt from it on load
+  async appendJournalEntry({
+    projectId,
+    entry,
+  }: {
+    projectId: string;
+    entry: JournalEntry;
+  }): Promise<void> {
+    if (!this.isOPFSSupported()) return;
+    await this.getProjectJournal({ projectId }).append(entry);
+  }
+
+  // Replays journal entries over the saved timelines, null when the saved
+  // timelines already hold every change
+  async loadJournalRecovery({
+    projectId,
+  }: {
+    projectId: string;
+  }): Promise<JournalRecovery | null> {
+    if (!this.isOPFSSupported()) return null;
+    const journal = this.getProjectJournal({ projectId });
+    const entries = await journal.read();
+    if (entries.length === 0) return null;
+
+    const timelines: SceneTimelineData[] = [];
+    let changes = 0;
+    for (const sceneId of new Set(entries.map((entry) => entry.sceneId))) {
+      const sceneEntries = entries.filter((entry) => entry.sceneId === sceneId);
+      const saved = (await this.loadTimeline({ projectId, sceneId })) ?? [];
+      let tracks = saved;
+      for (const entry of sceneEntries) {
+        const byId = new Map(tracks.map((track) => [track.id, track]));
+        for (const track of entry.tracks) byId.set(track.id, track);
+        tracks = entry.trackIds.flatMap((id) => byId.get(id) ?? []);
+      }
+      if (JSON.stringify(tracks) === JSON.stringify(saved)) continue;
+      timelines.push({
+        sceneId,
+        tracks,
+        lastModified: new Date(sceneEntries.at(-1)!.time).toISOString(),
+      });
+      changes += sceneEntries.length;
+    }
+
+    if (timelines.length === 0) {
+      await journal.clear();
+      return null;
+    }
+    return {
+      timelines,
+      changes,
+      lastModified: new Date(entries.at(-1)!.time).toISOString(),
+    };
+  }
+
+  async clearJournal({ projectId }: { projectId: string }): Promise<void> {
+    if (!this.isOPFSSupported()) return;
+    await this.getProjectJournal({ projectId }).clear();
+  }
+
+  // Version history operations
+  async saveSnapshot({
+    project,
+    timelines,
+    mediaIds,
+    kind,
+    name,
+  }: {
+    project: TProject;
+    timelines: SceneTimelineData[];
+    mediaIds: string[];
+    kind: ProjectSnapshot["kind"];
+    name?: string;
+  }): Promise<ProjectSnapshot> {
+    const snapshot: ProjectSnapshot = {
+      id: generateUUID(),
+      projectId: project.id,
+      kind,
+      name,
+      createdAt: new Date().toISOString(),
+      project: this.serializeProject(project),
+      timelines,
+      mediaIds,
+    };
+    await this.getProjectSnapshotsAdapter({ projectId: project.id }).set(
+      snapshot.id,
+      snapshot
+    );
+    return snapshot;
+  }
+
+  async loadSnapshots({
+    projectId,
+  }: {
+    projectId: string;
+  }): Promise<ProjectSnapshot[]> {
+    const snapshotsAdapter = this.getProjectSnapshotsAdapter({ projectId });
+    const ids = await snapshotsAdapter.list();
+    const snapshots: ProjectSnapshot[] = [];
+
+    for (const id of ids) {
+      const snapshot = await snapshotsAdapter.get(id);
+      if (snapshot) {
+        snapshots.push(snapshot);
+      }
+    }
+
+    // Most recent first
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async deleteSnapshots({
+    projectId,
+    ids,
+  }: {
+    projectId: string;
+    ids: string[];
+  }): Promise<void> {
+    const snapshotsAdapter = this.getProjectSnapshotsAdapter({ projectId });
+    await Promise.all(ids.map((id) => snapshotsAdapter.remove(id)));
+
+    // Archived media no other snapshot uses can go now
+    const { mediaMetadataAdapter, mediaFilesAdapter } =
+      this.getProjectMediaAdapters({ projectId });
+    const snapshots = await this.loadSnapshots({ projectId });
+    const referenced = new Set(snapshots.flatMap((s) => s.mediaIds));
+
+    for (const id of await mediaMetadataAdapter.list()) {
+      const metadata = await mediaMetadataAdapter.get(id);
+      if (metadata?.archived && !referenced.has(id)) {
+        await Promise.all([
+          mediaFilesAdapter.remove(id),
+          mediaMetadataAdapter.remove(id),
+        ]);
+      }
+    }
+  }
+
+  async deleteProjectSnapshots({
+    projectId,
+  }: {
+    projectId: string;
+  }): Promise<void> {
+    await this.getProjectSnapshotsAdapter({ projectId }).clear();
+  }
+
+  /**
+   * Writes a snapshot back as the saved state of a project. Restoring into
+   * the snapshot's own project brings back its media and archives the rest,
+   * restoring into another project copies the media files over
+   */
+  async restoreSnapshot({
+    snapshot,
+    project,
+  }: {
+    snapshot: ProjectSnapshot;
+    project: Pick<TProject, "id" | "name" | "createdAt">;
+  }): Promise<TProject> {
+    // Snapshots keep the schema they were taken with
+    const { records } = migrateProjectRecords(
+      {
+        project: snapshot.project,
+        legacyTimeline: null,
+        timelines: snapshot.timelines,
+      },
+      { now: new Date().toISOString(), createId: generateUUID }
+    );
+
+    const restored: TProject = {
+      ...this.deserializeProject(records.project as SerializedProject),
+      id: project.id,
+      name: project.name,
+      createdAt: project.createdAt,
+      updatedAt: new Date(),
+    };
+
+    if (project.id === snapshot.projectId) {
+      const { mediaMetadataAdapter } = this.getProjectMediaAdapters({
+        projectId: project.id,
+      });
+      for (const id of await mediaMetadataAdapter.list()) {
+        const metadata = await mediaMetadataAdapter.get(id);
+        const archived = !snapshot.mediaIds.includes(id);
+        if (metadata && !!metadata.archived !== archived) {
+          await mediaMetadataAdapter.set(id, { ...metadata, archived });
+        }
+      }
+    } else {
+      for (const id of snapshot.mediaIds) {
+        const mediaItem = await this.loadMediaFile({
+          projectId: snapshot.projectId,
+          id,
+        });
+        if (!mediaItem) continue;
+        if (mediaItem.url) URL.revokeObjectURL(mediaItem.url);
+        await this.saveMediaFile({ projectId: project.id, mediaItem });
+      }
+    }
+
+    await Promise.all(
+      records.timelines.map(({ sceneId, tracks }) =>
+        this.saveTimeline({ projectId: project.id, tracks, sceneId })
+      )
+    );
+    await this.saveProject({ project: restored });
+    return restored;
+  }
+
   // Utility methods
   async clearAllData(): Promise<void> {
     // Clear all projects
@@ -442,6 +845,24 @@ class StorageService {
     }
   }
 
+  // Adds sounds saved elsewhere, e.g. in an imported project package
+  async importSavedSounds({ sounds }: { sounds: SavedSound[] }): Promise<void> {
+    try {
+      const currentData = await this.loadSavedSounds();
+      const savedIds = new Set(currentData.sounds.map((sound) => sound.id));
+      const newSounds = sounds.filter((sound) => !savedIds.has(sound.id));
+      if (newSounds.length === 0) return;
+
+      await this.savedSoundsAdapter.set("user-sounds", {
+        sounds: [...currentData.sounds, ...newSounds],
+        lastModified: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Failed to import saved sounds:", error);
+      throw error;
+    }
+  }
+
   async isSoundSaved({ soundId }: { soundId: number }): Promise<boolean> {
     try {
       const currentData = await this.loadSavedSounds();
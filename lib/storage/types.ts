@@ -20,6 +20,11 @@ export interface MediaFileData {
   duration?: number;
   ephemeral?: boolean;
   sourceStickerIconName?: string;
+  // Content hash, known for media imported from a project package
+  sha256?: string;
+  // Removed from the project but still referenced by a version history
+  // snapshot, hidden from the media panel until a restore brings it back
+  archived?: boolean;
   // File will be stored separately in OPFS
 }
 
@@ -27,6 +32,7 @@ export interface MediaFileData {
 export interface TimelineData {
   tracks: TimelineTrack[];
   lastModified: string;
+  schemaVersion?: number; // See migrations.ts
 }
 
 export interface SceneTimelineData {
@@ -45,7 +51,8 @@ export interface StorageConfig {
   mediaDb: string;
   timelineDb: string;
   savedSoundsDb: string;
-  version: number;
+  snapshotsDb: string;
+  version: number; // IndexedDB version, records carry their schema version
 }
 
 // Helper type for serialization - converts Date objects to strings
@@ -57,8 +64,37 @@ export type SerializedProject = Omit<
   updatedAt: string;
   scenes: SerializedScene[];
   bookmarks?: number[];
+  schemaVersion?: number; // See migrations.ts
 };
 
+// One timeline change in the crash recovery journal
+export interface JournalEntry {
+  time: number;
+  sceneId: string;
+  trackIds: string[]; // Order of the tracks after the change
+  tracks: TimelineTrack[]; // Only the tracks the change touched
+}
+
+// Timelines rebuilt from a journal that outlived its last save
+export interface JournalRecovery {
+  timelines: SceneTimelineData[];
+  changes: number;
+  lastModified: string;
+}
+
+// A saved version of a project with the timelines of all its scenes. Media
+// files are not copied, snapshots reference them by id
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  kind: "auto" | "checkpoint";
+  name?: string;
+  createdAt: string;
+  project: SerializedProject;
+  timelines: SceneTimelineData[];
+  mediaIds: string[];
+}
+
 // Extend FileSystemDirectoryHandle with missing async iterator methods
 declare global {
   interface FileSystemDirectoryHandle {
@@ -12,6 +12,19 @@ interface LayoutGuideSettings {
   platform: PlatformLayout | null;
 }
 
+// Element whose key color is picked by clicking the preview
+export interface KeyColorPickTarget {
+  trackId: string;
+  elementId: string;
+}
+
+// Mask shown with handles on the preview canvas
+export interface MaskEditTarget {
+  trackId: string;
+  elementId: string;
+  maskId: string;
+}
+
 interface EditorState {
   // Loading states
   isInitializing: boolean;
@@ -20,6 +33,12 @@ interface EditorState {
   // Editor UI settings
   canvasPresets: CanvasPreset[];
   layoutGuide: LayoutGuideSettings;
+  // Keyed clips show their matte in the preview
+  matteView: boolean;
+  keyColorPick: KeyColorPickTarget | null;
+  maskEdit: MaskEditTarget | null;
+  // Relink dialog for media whose file is missing
+  isRelinkMediaOpen: boolean;
 
   // Actions
   setInitializing: (loading: boolean) => void;
@@ -27,6 +46,10 @@ interface EditorState {
   initializeApp: () => Promise<void>;
   setLayoutGuide: (settings: Partial<LayoutGuideSettings>) => void;
   toggleLayoutGuide: (platform: PlatformLayout) => void;
+  setMatteView: (matteView: boolean) => void;
+  setKeyColorPick: (target: KeyColorPickTarget | null) => void;
+  setMaskEdit: (target: MaskEditTarget | null) => void;
+  setRelinkMediaOpen: (open: boolean) => void;
 }
 
 const DEFAULT_CANVAS_PRESETS: CanvasPreset[] = [
@@ -46,6 +69,10 @@ export const useEditorStore = create<EditorState>()(
       layoutGuide: {
         platform: null,
       },
+      matteView: false,
+      keyColorPick: null,
+      maskEdit: null,
+      isRelinkMediaOpen: false,
 
       // Actions
       setInitializing: (loading) => {
@@ -91,6 +118,22 @@ export const useEditorStore = create<EditorState>()(
           },
         }));
       },
+
+      setMatteView: (matteView) => {
+        set({ matteView });
+      },
+
+      setKeyColorPick: (target) => {
+        set({ keyColorPick: target });
+      },
+
+      setMaskEdit: (target) => {
+        set({ maskEdit: target });
+      },
+
+      setRelinkMediaOpen: (open) => {
+        set({ isRelinkMediaOpen: open });
+      },
     }),
     {
       name: "editor-settings",
@@ -0,0 +1,221 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { toast } from "sonner";
+import { downloadBlob, generateUUID } from "@/lib/utils";
+import {
+  exportProject,
+  getExportFileExtension,
+  getExportMimeType,
+} from "@/lib/export";
+import { useProjectStore } from "./project-store";
+import type { ExportJob, ExportPreset } from "@/types/export";
+
+// Finished jobs kept in the history list
+const MAX_HISTORY = 50;
+
+interface ExportQueueStore {
+  jobs: ExportJob[];
+  isRunning: boolean;
+  cancelRequestedId: string | null;
+
+  enqueue: (presets: ExportPreset[], includeAudio: boolean) => void;
+  runQueue: () => Promise<void>;
+  cancelJob: (jobId: string) => void;
+  rerunJob: (jobId: string) => void;
+  removeJob: (jobId: string) => void;
+  clearFinished: (projectId: string) => void;
+}
+
+const isFinished = (job: ExportJob) =>
+  job.status === "complete" ||
+  job.status === "failed" ||
+  job.status === "cancelled";
+
+/**
+ * Export jobs rendered one after another with the engine's VideoExport,
+ * which renders a single export at a time. Jobs and their status are
+ * persisted so the history survives a reload. The canvas is the render
+ * surface, so it stays locked while a job renders.
+ */
+export const useExportQueueStore = create<ExportQueueStore>()(
+  persist(
+    (set, get) => {
+      const updateJob = (jobId: string, updates: Partial<ExportJob>) => {
+        set((state) => ({
+          jobs: state.jobs.map((job) =>
+            job.id === jobId ? { ...job, ...updates } : job
+          ),
+        }));
+      };
+
+      const renderJob = async (job: ExportJob) => {
+        updateJob(job.id, {
+          status: "rendering",
+          progress: 0,
+          error: undefined,
+        });
+        const { preset } = job;
+        const result = await exportProject({
+          format: preset.format,
+          quality: preset.quality,
+          videoCodec: preset.videoCodec,
+          width: preset.width,
+          height: preset.height,
+          includeAudio: job.includeAudio,
+          onProgress: (progress) => {
+            // Persisted on every update, so only whole percents are stored
+            const rounded = Math.floor(progress * 100) / 100;
+            const current = get().jobs.find(({ id }) => id === job.id);
+            if (current && current.progress !== rounded) {
+              updateJob(job.id, { progress: rounded });
+            }
+          },
+          onCancel: () => get().cancelRequestedId === job.id,
+        });
+
+        if (result.cancelled) {
+          updateJob(job.id, { status: "cancelled", finishedAt: Date.now() });
+          return;
+        }
+        if (!result.success || !result.buffer) {
+          updateJob(job.id, {
+            status: "failed",
+            error: result.error ?? "Unknown error occurred",
+            finishedAt: Date.now(),
+          });
+          toast.error(`Export "${preset.name}" failed`);
+          return;
+        }
+
+        const fileName = `${job.projectName} - ${preset.name}${getExportFileExtension(preset.format)}`;
+        downloadBlob(
+          new Blob([result.buffer], { type: getExportMimeType(preset.format) }),
+          fileName
+        );
+        updateJob(job.id, {
+          status: "complete",
+          progress: 1,
+          fileName,
+          finishedAt: Date.now(),
+        });
+        toast.success(`Exported "${preset.name}"`);
+      };
+
+      return {
+        jobs: [],
+        isRunning: false,
+        cancelRequestedId: null,
+
+        enqueue: (presets, includeAudio) => {
+          const { activeProject } = useProjectStore.getState();
+          if (!activeProject || presets.length === 0) return;
+          const createdAt = Date.now();
+          const jobs: ExportJob[] = presets.map((preset) => ({
+            id: generateUUID(),
+            projectId: activeProject.id,
+            projectName: activeProject.name,
+            preset,
+            includeAudio,
+            status: "queued",
+            progress: 0,
+            createdAt,
+          }));
+          set((state) => ({ jobs: [...state.jobs, ...jobs] }));
+          get().runQueue();
+        },
+
+        runQueue: async () => {
+          if (get().isRunning) return;
+          set({ isRunning: true });
+          try {
+            // Only the open project can be rendered, other queued jobs wait
+            const nextJob = () =>
+              get().jobs.find(
+                (job) =>
+                  job.status === "queued" &&
+                  job.projectId === useProjectStore.getState().activeProject?.id
+              );
+            for (let job = nextJob(); job; job = nextJob()) {
+              await renderJob(job);
+              set({ cancelRequestedId: null });
+            }
+          } finally {
+            set({ isRunning: false, cancelRequestedId: null });
+          }
+        },
+
+        cancelJob: (jobId) => {
+          const job = get().jobs.find(({ id }) => id === jobId);
+          if (job?.status === "queued") {
+            updateJob(jobId, { status: "cancelled", finishedAt: Date.now() });
+          } else if (job?.status === "rendering") {
+            set({ cancelRequestedId: jobId });
+          }
+        },
+
+        rerunJob: (jobId) => {
+          const job = get().jobs.find(({ id }) => id === jobId);
+          if (!job || !isFinished(job)) return;
+          // Re-rendered from the current timeline, under a fresh history entry
+          set((state) => ({
+            jobs: [
+              ...state.jobs,
+              {
+                ...job,
+                id: generateUUID(),
+                status: "queued",
+                progress: 0,
+                error: undefined,
+                fileName: undefined,
+                createdAt: Date.now(),
+                finishedAt: undefined,
+              },
+            ],
+          }));
+          get().runQueue();
+        },
+
+        removeJob: (jobId) => {
+          set((state) => ({
+            jobs: state.jobs.filter(
+              (job) => job.id !== jobId || job.status === "rendering"
+            ),
+          }));
+        },
+
+        clearFinished: (projectId) => {
+          set((state) => ({
+            jobs: state.jobs.filter(
+              (job) => job.projectId !== projectId || !isFinished(job)
+            ),
+          }));
+        },
+      };
+    },
+    {
+      name: "export-queue",
+      partialize: (state) => {
+        const finished = state.jobs.filter(isFinished);
+        const dropped = new Set(finished.slice(0, -MAX_HISTORY));
+        return { jobs: state.jobs.filter((job) => !dropped.has(job)) };
+      },
+      // A render doesn't survive a reload, the job is kept so it can be re-run
+      merge: (persisted, current) => {
+        const jobs = (persisted as { jobs?: ExportJob[] } | undefined)?.jobs;
+        return {
+          ...current,
+          jobs: (jobs ?? []).map((job) =>
+            job.status === "rendering"
+              ? {
+                  ...job,
+                  status: "failed" as const,
+                  error: "Interrupted by a page reload",
+                  finishedAt: Date.now(),
+                }
+              : job
+          ),
+        };
+      },
+    }
+  )
+);
@@ -0,0 +1,46 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { generateUUID } from "@/lib/utils";
+import {
+  DEFAULT_LAYOUT_STYLE,
+  type LayoutTemplate,
+  type LayoutTemplateStyle,
+} from "@/lib/layout-templates";
+
+// Layouts saved by the user, shared by all projects
+interface LayoutTemplatesStore {
+  templates: LayoutTemplate[];
+  // Style used when applying a template, edited in the layout view
+  style: LayoutTemplateStyle;
+  saveTemplate: (template: Omit<LayoutTemplate, "id">) => string;
+  removeTemplate: (id: string) => void;
+  setStyle: (style: Partial<LayoutTemplateStyle>) => void;
+}
+
+export const useLayoutTemplatesStore = create<LayoutTemplatesStore>()(
+  persist(
+    (set) => ({
+      templates: [],
+      style: DEFAULT_LAYOUT_STYLE,
+
+      saveTemplate: (template) => {
+        const id = generateUUID();
+        set((state) => ({
+          templates: [...state.templates, { ...template, id }],
+        }));
+        return id;
+      },
+
+      removeTemplate: (id) =>
+        set((state) => ({
+          templates: state.templates.filter((template) => template.id !== id),
+        })),
+
+      setStyle: (style) =>
+        set((state) => ({ style: { ...state.style, ...style } })),
+    }),
+    {
+      name: "layout-templates",
+    }
+  )
+);
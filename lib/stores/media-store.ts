@@ -4,9 +4,13 @@ import { useTimelineStore } from "./timeline-store";
 import { generateUUID } from "@/lib/utils";
 import { MediaType, MediaFile } from "@/types/media";
 import { videoCache } from "@/lib/video-cache";
+import { processMediaFiles } from "@/lib/media-processing";
+import type { MediaFileData } from "@/lib/storage/types";
 
 interface MediaStore {
   mediaFiles: MediaFile[];
+  // Stored media whose file is missing, see lib/media-relink
+  offlineMedia: MediaFileData[];
   isLoading: boolean;
 
   // Actions
@@ -15,6 +19,13 @@ interface MediaStore {
     file: Omit<MediaFile, "id">
   ) => Promise<void>;
   removeMediaFile: (projectId: string, id: string) => Promise<void>;
+  // Stores a file for offline media under its id, which brings back every
+  // element using it
+  relinkMediaFile: (
+    projectId: string,
+    mediaId: string,
+    file: File
+  ) => Promise<void>;
   loadProjectMedia: (projectId: string) => Promise<void>;
   clearProjectMedia: (projectId: string) => Promise<void>;
   clearAllMedia: () => void;
@@ -137,6 +148,7 @@ export const getMediaAspectRatio = (item: MediaFile): number => {
 
 export const useMediaStore = create<MediaStore>((set, get) => ({
   mediaFiles: [],
+  offlineMedia: [],
   isLoading: false,
 
   addMediaFile: async (projectId, file) => {
@@ -209,6 +221,28 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
     }
   },
 
+  relinkMediaFile: async (projectId, mediaId, file) => {
+    const [processed] = await processMediaFiles([file]);
+    if (!processed) {
+      throw new Error(`Unsupported file type: ${file.name}`);
+    }
+    const stored = get().offlineMedia.find((media) => media.id === mediaId);
+    const relinked: MediaFile = {
+      ...processed,
+      id: mediaId,
+      name: stored?.name ?? processed.name,
+    };
+
+    await storageService.saveMediaFile({ projectId, mediaItem: relinked });
+    set((state) => ({
+      mediaFiles: [
+        ...state.mediaFiles.filter((media) => media.id !== mediaId),
+        relinked,
+      ],
+      offlineMedia: state.offlineMedia.filter((media) => media.id !== mediaId),
+    }));
+  },
+
   loadProjectMedia: async (projectId) => {
     set({ isLoading: true });
 
@@ -240,7 +274,10 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
         })
       );
 
-      set({ mediaFiles: updatedMediaItems });
+      set({
+        mediaFiles: updatedMediaItems,
+        offlineMedia: await storageService.loadOfflineMedia({ projectId }),
+      });
     } catch (error) {
       console.error("Failed to load media items:", error);
     } finally {
@@ -291,6 +328,6 @@ export const useMediaStore = create<MediaStore>((set, get) => ({
     });
 
     // Clear local state
-    set({ mediaFiles: [] });
+    set({ mediaFiles: [], offlineMedia: [] });
   },
 }));
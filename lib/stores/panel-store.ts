@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { ScopeType } from "@/lib/scopes";
 
 export type PanelPreset =
   | "default"
@@ -53,12 +54,20 @@ interface PanelState extends PanelSizes {
 
   mediaViewMode: "grid" | "list";
 
+  // Scopes dock next to the preview, its size is a share of the preview area
+  showScopes: boolean;
+  scopesPanel: number;
+  scopeType: ScopeType;
+
   setToolsPanel: (size: number) => void;
   setPreviewPanel: (size: number) => void;
   setPropertiesPanel: (size: number) => void;
   setMainContent: (size: number) => void;
   setTimeline: (size: number) => void;
   setMediaViewMode: (mode: "grid" | "list") => void;
+  setShowScopes: (show: boolean) => void;
+  setScopesPanel: (size: number) => void;
+  setScopeType: (type: ScopeType) => void;
 
   setActivePreset: (preset: PanelPreset) => void;
   resetPreset: (preset: PanelPreset) => void;
@@ -79,6 +88,9 @@ export const usePanelStore = create<PanelState>()(
       resetCounter: 0,
 
       mediaViewMode: "grid" as const,
+      showScopes: false,
+      scopesPanel: 30,
+      scopeType: "waveform" as ScopeType,
 
       setToolsPanel: (size) => {
         const { activePreset, presetCustomSizes } = get();
@@ -146,6 +158,9 @@ export const usePanelStore = create<PanelState>()(
         });
       },
       setMediaViewMode: (mode) => set({ mediaViewMode: mode }),
+      setShowScopes: (show) => set({ showScopes: show }),
+      setScopesPanel: (size) => set({ scopesPanel: size }),
+      setScopeType: (type) => set({ scopeType: type }),
 
       setActivePreset: (preset) => {
         const {
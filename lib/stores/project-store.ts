@@ -7,6 +7,8 @@ import { useTimelineStore } from "./timeline-store";
 import { useSceneStore } from "./scene-store";
 import { generateUUID } from "@/lib/utils";
 import { CanvasSize, CanvasMode } from "@/types/editor";
+import { analyzeSubjects, type ReframeMode } from "@/lib/reframe";
+import type { JournalRecovery } from "@/lib/storage/types";
 
 export const DEFAULT_CANVAS_SIZE: CanvasSize = { width: 1920, height: 1080 };
 export const DEFAULT_FPS = 30;
@@ -48,6 +50,8 @@ interface ProjectStore {
   isLoading: boolean;
   isInitialized: boolean;
   invalidProjectIds?: Set<string>;
+  // Changes journaled before the editor last closed that never got saved
+  pendingRecovery: JournalRecovery | null;
 
   // Actions
   createNewProject: (name: string) => Promise<string>;
@@ -58,13 +62,21 @@ interface ProjectStore {
   closeProject: () => void;
   renameProject: (projectId: string, name: string) => Promise<void>;
   duplicateProject: (projectId: string) => Promise<string>;
+  recoverUnsavedChanges: () => Promise<void>;
+  discardUnsavedChanges: () => Promise<void>;
   updateProjectBackground: (backgroundColor: string) => Promise<void>;
   updateBackgroundType: (
     type: "color" | "blur",
     options?: { backgroundColor?: string; blurIntensity?: BlurIntensity }
   ) => Promise<void>;
   updateProjectFps: (fps: number) => Promise<void>;
-  updateCanvasSize: (size: CanvasSize, mode: CanvasMode) => Promise<void>;
+  // A reframe fills the new canvas with every clip, "subject" tracks what
+  // each clip shows first
+  updateCanvasSize: (
+    size: CanvasSize,
+    mode: CanvasMode,
+    reframe?: ReframeMode
+  ) => Promise<void>;
 
   // Bookmark methods
   toggleBookmark: (time: number) => Promise<void>;
@@ -88,6 +100,7 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
   isLoading: true,
   isInitialized: false,
   invalidProjectIds: new Set<string>(),
+  pendingRecovery: null,
 
   // Implementation of bookmark methods
   toggleBookmark: async (time: number) => {
@@ -247,6 +260,16 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
             sceneId: currentScene?.id,
           }),
         ]);
+
+        try {
+          set({
+            pendingRecovery: await storageService.loadJournalRecovery({
+              projectId: id,
+            }),
+          });
+        } catch (error) {
+          console.error("Failed to read the recovery journal:", error);
+        }
       } else {
         throw new Error(`Project with id ${id} not found`);
       }
@@ -300,6 +323,8 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
       await Promise.all([
         storageService.deleteProjectMedia({ projectId: id }),
         storageService.deleteProjectTimeline({ projectId: id }),
+        storageService.deleteProjectSnapshots({ projectId: id }),
+        storageService.clearJournal({ projectId: id }),
         storageService.deleteProject({ id }),
       ]);
       await get().loadAllProjects(); // Refresh the list
@@ -322,7 +347,7 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
   },
 
   closeProject: () => {
-    set({ activeProject: null });
+    set({ activeProject: null, pendingRecovery: null });
 
     const mediaStore = useMediaStore.getState();
     const timelineStore = useTimelineStore.getState();
@@ -419,6 +444,48 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     }
   },
 
+  recoverUnsavedChanges: async () => {
+    const { activeProject, pendingRecovery } = get();
+    if (!activeProject || !pendingRecovery) return;
+
+    try {
+      await Promise.all(
+        pendingRecovery.timelines.map(({ sceneId, tracks }) =>
+          storageService.saveTimeline({
+            projectId: activeProject.id,
+            tracks,
+            sceneId,
+          })
+        )
+      );
+      await storageService.clearJournal({ projectId: activeProject.id });
+      await useTimelineStore.getState().loadProjectTimeline({
+        projectId: activeProject.id,
+        sceneId: useSceneStore.getState().currentScene?.id,
+      });
+      set({ pendingRecovery: null });
+      toast.success("Unsaved changes recovered");
+    } catch (error) {
+      console.error("Failed to recover unsaved changes:", error);
+      toast.error("Failed to recover unsaved changes", {
+        description:
+          error instanceof Error ? error.message : "Please try again",
+      });
+    }
+  },
+
+  discardUnsavedChanges: async () => {
+    const { activeProject } = get();
+    set({ pendingRecovery: null });
+    if (!activeProject) return;
+
+    try {
+      await storageService.clearJournal({ projectId: activeProject.id });
+    } catch (error) {
+      console.error("Failed to discard unsaved changes:", error);
+    }
+  },
+
   updateProjectBackground: async (backgroundColor: string) => {
     const { activeProject } = get();
     if (!activeProject) return;
@@ -494,9 +561,14 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     }
   },
 
-  updateCanvasSize: async (size: CanvasSize, mode: CanvasMode) => {
+  updateCanvasSize: async (
+    size: CanvasSize,
+    mode: CanvasMode,
+    reframe: ReframeMode = "off"
+  ) => {
     const { activeProject } = get();
     if (!activeProject) return;
+    const previous = activeProject.canvasSize;
 
     const updatedProject = {
       ...activeProject,
@@ -508,6 +580,28 @@ export const useProjectStore = create<ProjectStore>((set, get) => ({
     try {
       await storageService.saveProject({ project: updatedProject });
       set({ activeProject: updatedProject });
+      // Layout templates are relative to the canvas
+      if (reframe === "off") {
+        useTimelineStore.getState().reflowLayouts(size);
+      } else {
+        let subjects;
+        if (reframe === "subject") {
+          const toastId = toast.loading("Tracking subjects...");
+          try {
+            subjects = await analyzeSubjects(
+              useTimelineStore.getState().tracks,
+              useMediaStore.getState().mediaFiles
+            );
+          } finally {
+            toast.dismiss(toastId);
+          }
+        }
+        // One undo step for the reflow and the reframe
+        const timeline = useTimelineStore.getState();
+        timeline.pushHistory();
+        timeline.reflowLayouts(size, false);
+        timeline.reframeElements(previous, size, subjects, false);
+      }
       await get().loadAllProjects();
     } catch (error) {
       console.error("Failed to update canvas size:", error);
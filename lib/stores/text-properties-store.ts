@@ -1,7 +1,7 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 
-export type TextPropertiesTab = "transform" | "style";
+export type TextPropertiesTab = "transform" | "style" | "caption";
 
 export interface TextPropertiesTabMeta {
   value: TextPropertiesTab;
@@ -11,6 +11,8 @@ export interface TextPropertiesTabMeta {
 export const TEXT_PROPERTIES_TABS: ReadonlyArray<TextPropertiesTabMeta> = [
   { value: "transform", label: "Transform" },
   { value: "style", label: "Style" },
+  // Only shown for captions with word timings
+  { value: "caption", label: "Caption" },
 ] as const;
 
 export function isTextPropertiesTab(value: string): value is TextPropertiesTab {
@@ -7,6 +7,20 @@ import {
   TextElement,
   DragData,
   MediaElement,
+  AdjustmentElement,
+  AdjustmentItemDragData,
+  ElementFilter,
+  ColorGrade,
+  ElementKey,
+  ElementKeyframe,
+  ElementMask,
+  BlendMode,
+  ElementTrackMatte,
+  ElementTransform,
+  ElementCrop,
+  ElementLayoutSlot,
+  FitMode,
+  KeyframeProperty,
   sortTracksByOrder,
   ensureMainTrack,
   validateElementTrackCompatibility,
@@ -15,14 +29,34 @@ import { useMediaStore, getMediaAspectRatio } from "./media-store";
 import { MediaFile, MediaType } from "@/types/media";
 import { findBestCanvasPreset } from "@/lib/editor-utils";
 import { storageService } from "@/lib/storage/storage-service";
-import { useProjectStore } from "./project-store";
+import { useProjectStore, DEFAULT_CANVAS_SIZE } from "./project-store";
 import { useSceneStore } from "./scene-store";
 import { generateUUID } from "@/lib/utils";
 import { TIMELINE_CONSTANTS } from "@/lib/timeline-constants";
-import { checkElementOverlaps, resolveElementOverlaps } from "@/lib/timeline";
+import {
+  checkElementOverlaps,
+  resolveElementOverlaps,
+  retextCaptionWords,
+  retimeElement,
+} from "@/lib/timeline";
 import { DEFAULT_TEXT_ELEMENT } from "@/lib/text-constants";
+import {
+  layoutFrame,
+  placeInSlot,
+  type LayoutTemplateSlot,
+  type LayoutTemplateStyle,
+} from "@/lib/layout-templates";
+import type { CanvasSize } from "@/types/editor";
+import {
+  reframeTransform,
+  subjectKeyframes,
+  type SubjectSample,
+} from "@/lib/reframe";
 import { usePlaybackStore } from "./playback-store";
 
+// Keyframes closer than this (in seconds) are considered the same keyframe
+const KEYFRAME_TIME_EPSILON = 1 / 1000;
+
 // Helper function to manage element naming with suffixes
 const getElementNameWithSuffix = (
   originalName: string,
@@ -127,6 +161,11 @@ interface TimelineStore {
     pushHistory?: boolean
   ) => void;
   toggleTrackMute: (trackId: string) => void;
+  updateTrackMix: (
+    trackId: string,
+    updates: Partial<Pick<TimelineTrack, "volume" | "pan" | "solo">>,
+    pushHistory?: boolean
+  ) => void;
   splitAndKeepLeft: (
     trackId: string,
     elementId: string,
@@ -233,9 +272,150 @@ interface TimelineStore {
         | "y"
         | "rotation"
         | "opacity"
+        | "captionStyle"
       >
     >
   ) => void;
+  // Per-clip playback speed, optionally ramped by a speed curve
+  updateElementSpeed: (
+    trackId: string,
+    elementId: string,
+    speed: number,
+    speedCurve?: ElementKeyframe[]
+  ) => void;
+  updateElementAudio: (
+    trackId: string,
+    elementId: string,
+    updates: Partial<Pick<MediaElement, "gain" | "fadeIn" | "fadeOut">>,
+    pushHistory?: boolean
+  ) => void;
+  // Canvas placement, text keeps it in x/y/rotation/scale
+  updateElementTransform: (
+    trackId: string,
+    elementId: string,
+    transform: ElementTransform,
+    pushHistory?: boolean
+  ) => void;
+  // Filter chain of video and image elements, applied in order
+  addElementFilter: (
+    trackId: string,
+    elementId: string,
+    filter: Omit<ElementFilter, "id">
+  ) => string;
+  updateElementFilter: (
+    trackId: string,
+    elementId: string,
+    filterId: string,
+    updates: Partial<Pick<ElementFilter, "params" | "bypassed">>,
+    pushHistory?: boolean
+  ) => void;
+  removeElementFilter: (
+    trackId: string,
+    elementId: string,
+    filterId: string
+  ) => void;
+  moveElementFilter: (
+    trackId: string,
+    elementId: string,
+    filterId: string,
+    toIndex: number
+  ) => void;
+  // Primary color grade of video and image elements, undefined removes it
+  updateElementColorGrade: (
+    trackId: string,
+    elementId: string,
+    grade: ColorGrade | undefined,
+    pushHistory?: boolean
+  ) => void;
+  // Chroma or luma key of video and image elements, undefined removes it
+  updateElementKey: (
+    trackId: string,
+    elementId: string,
+    key: ElementKey | undefined,
+    pushHistory?: boolean
+  ) => void;
+  // Masks and track matte of video, image and text elements
+  updateElementMasks: (
+    trackId: string,
+    elementId: string,
+    masks: ElementMask[],
+    pushHistory?: boolean
+  ) => void;
+  updateElementTrackMatte: (
+    trackId: string,
+    elementId: string,
+    trackMatte: ElementTrackMatte | undefined
+  ) => void;
+  // Opacity and blend mode of video, image and text elements
+  updateElementBlend: (
+    trackId: string,
+    elementId: string,
+    updates: { opacity?: number; blendMode?: BlendMode },
+    pushHistory?: boolean
+  ) => void;
+  // Crop, flips and fit mode of video and image elements, undefined clears one
+  updateElementLayout: (
+    trackId: string,
+    elementId: string,
+    updates: {
+      crop?: ElementCrop;
+      flipX?: boolean;
+      flipY?: boolean;
+      fit?: FitMode;
+    },
+    pushHistory?: boolean
+  ) => void;
+  // Places video and image elements into layout template slots with the
+  // given gap, corners and border, as one undo step
+  applyLayout: (
+    placements: {
+      trackId: string;
+      elementId: string;
+      slot: LayoutTemplateSlot;
+    }[],
+    style: LayoutTemplateStyle,
+    pushHistory?: boolean
+  ) => void;
+  // Places every element of a layout again for a new canvas size
+  reflowLayouts: (canvas: CanvasSize, pushHistory?: boolean) => void;
+  // Fills a new canvas with every video and image element, following the
+  // tracked subject where given. Text keeps its relative position
+  reframeElements: (
+    previous: CanvasSize,
+    canvas: CanvasSize,
+    subjects?: Record<string, SubjectSample[]>,
+    pushHistory?: boolean
+  ) => void;
+  // Keyframes (time is in seconds from the untrimmed element start)
+  addKeyframe: (
+    trackId: string,
+    elementId: string,
+    property: KeyframeProperty,
+    keyframe: Omit<ElementKeyframe, "id">,
+    pushHistory?: boolean
+  ) => string;
+  updateKeyframe: (
+    trackId: string,
+    elementId: string,
+    property: KeyframeProperty,
+    keyframeId: string,
+    updates: Partial<Omit<ElementKeyframe, "id">>,
+    pushHistory?: boolean
+  ) => void;
+  removeKeyframe: (
+    trackId: string,
+    elementId: string,
+    property: KeyframeProperty,
+    keyframeId: string
+  ) => void;
+  // Replaces volume keyframes of several elements as one undo step
+  setVolumeEnvelopes: (
+    envelopes: {
+      trackId: string;
+      elementId: string;
+      keyframes: ElementKeyframe[];
+    }[]
+  ) => void;
   checkElementOverlap: (
     trackId: string,
     startTime: number,
@@ -244,7 +424,7 @@ interface TimelineStore {
   ) => boolean;
   findOrCreateTrack: (trackType: TrackType) => string;
   addElementAtTime: (
-    item: MediaFile | TextElement,
+    item: MediaFile | TextElement | AdjustmentItemDragData,
     currentTime?: number
   ) => boolean;
   addElementToNewTrack: (item: MediaFile | TextElement | DragData) => boolean;
@@ -288,13 +468,127 @@ export const useTimelineStore = create<TimelineStore>((set, get) => {
     }
   };
 
+  // Helper to journal a change right away, the next save compacts it
+  const journalTimeline = (previous: TimelineTrack[]) => {
+    const activeProject = useProjectStore.getState().activeProject;
+    const currentScene = useSceneStore.getState().currentScene;
+    if (!activeProject || !currentScene) return;
+
+    const { _tracks } = get();
+    storageService
+      .appendJournalEntry({
+        projectId: activeProject.id,
+        entry: {
+          time: Date.now(),
+          sceneId: currentScene.id,
+          trackIds: _tracks.map((track) => track.id),
+          // Edits replace the tracks they touch, the rest keep their identity
+          tracks: _tracks.filter((track) => !previous.includes(track)),
+        },
+      })
+      .catch((error) => console.error("Failed to journal timeline:", error));
+  };
+
   // Helper to update tracks and auto-save
   const updateTracksAndSave = (newTracks: TimelineTrack[]) => {
+    const previous = get()._tracks;
     updateTracks(newTracks);
+    journalTimeline(previous);
     // Auto-save in background
     setTimeout(autoSaveTimeline, 100);
   };
 
+  // Helper to cover a layout slot with a video or image element. The slot
+  // takes over the transform, crop and fit mode
+  const placeElement = (
+    element: MediaElement,
+    slot: ElementLayoutSlot,
+    canvas: CanvasSize
+  ): MediaElement => {
+    const media = useMediaStore
+      .getState()
+      .mediaFiles.find((file) => file.id === element.mediaId);
+    if (!media?.width || !media?.height) return element;
+    const { transform, crop } = placeInSlot(
+      slot,
+      { width: media.width, height: media.height },
+      canvas
+    );
+    const next: MediaElement = {
+      ...element,
+      transform,
+      crop,
+      layoutSlot: slot,
+    };
+    if (!crop) delete next.crop;
+    delete next.fit;
+    return next;
+  };
+
+  // Helper to replace one property's keyframes on an element
+  const updateElementKeyframes = (
+    trackId: string,
+    elementId: string,
+    property: KeyframeProperty,
+    update: (keyframes: ElementKeyframe[]) => ElementKeyframe[],
+    pushHistory = true
+  ) => {
+    if (pushHistory) get().pushHistory();
+    updateTracksAndSave(
+      get()._tracks.map((track) =>
+        track.id === trackId
+          ? {
+              ...track,
+              elements: track.elements.map((element) => {
+                if (element.id !== elementId) return element;
+                const keyframes = { ...element.keyframes };
+                const next = update(keyframes[property] ?? []).sort(
+                  (a, b) => a.time - b.time
+                );
+                if (next.length > 0) {
+                  keyframes[property] = next;
+                } else {
+                  delete keyframes[property];
+                }
+                return { ...element, keyframes };
+              }),
+            }
+          : track
+      )
+    );
+  };
+
+  // Helper to replace the filter chain of a media element
+  const updateElementFilters = (
+    trackId: string,
+    elementId: string,
+    update: (filters: ElementFilter[]) => ElementFilter[],
+    pushHistory = true
+  ) => {
+    if (pushHistory) get().pushHistory();
+    updateTracksAndSave(
+      get()._tracks.map((track) =>
+        track.id === trackId
+          ? {
+              ...track,
+              elements: track.elements.map((element) => {
+                if (element.id !== elementId || element.type === "text") {
+                  return element;
+                }
+                const filters = update(element.filters ?? []);
+                const next: MediaElement | AdjustmentElement = {
+                  ...element,
+                  filters,
+                };
+                if (filters.length === 0) delete next.filters;
+                return next;
+              }),
+            }
+          : track
+      )
+    );
+  };
+
   // Initialize with proper track ordering
   const initialTracks = ensureMainTrack([]);
   const sortedInitialTracks = sortTracksByOrder(initialTracks);
@@ -871,6 +1165,15 @@ export const useTimelineStore = create<TimelineStore>((set, get) => {
       );
     },
 
+    updateTrackMix: (trackId, updates, pushHistory = true) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId ? { ...track, ...updates } : track
+        )
+      );
+    },
+
     updateTextElement: (trackId, elementId, updates) => {
       get().pushHistory();
       updateTracksAndSave(
@@ -880,7 +1183,17 @@ export const useTimelineStore = create<TimelineStore>((set, get) => {
                 ...track,
                 elements: track.elements.map((element) =>
                   element.id === elementId && element.type === "text"
-                    ? { ...element, ...updates }
+                    ? {
+                        ...element,
+                        ...updates,
+                        ...(updates.content !== undefined &&
+                          element.words && {
+                            words: retextCaptionWords(
+                              element.words,
+                              updates.content
+                            ),
+                          }),
+                      }
                     : element
                 ),
               }
@@ -889,6 +1202,472 @@ export const useTimelineStore = create<TimelineStore>((set, get) => {
       );
     },
 
+    updateElementSpeed: (trackId, elementId, speed, speedCurve) => {
+      get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) => {
+          if (track.id !== trackId) return track;
+          const elements = track.elements.map((element) =>
+            element.id === elementId && element.type === "media"
+              ? retimeElement(element, speed, speedCurve)
+              : element
+          );
+          // A faster/slower clip changes length, push following clips if needed
+          return {
+            ...track,
+            elements: checkElementOverlaps(elements)
+              ? resolveElementOverlaps(elements)
+              : elements,
+          };
+        })
+      );
+    },
+
+    updateElementAudio: (trackId, elementId, updates, pushHistory = true) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId || element.type !== "media") {
+                    return element;
+                  }
+                  // Fades can't overlap or run past the visible clip
+                  const visible =
+                    element.duration - element.trimStart - element.trimEnd;
+                  const fadeIn = Math.max(
+                    0,
+                    Math.min(updates.fadeIn ?? element.fadeIn ?? 0, visible)
+                  );
+                  const fadeOut = Math.max(
+                    0,
+                    Math.min(
+                      updates.fadeOut ?? element.fadeOut ?? 0,
+                      visible - fadeIn
+                    )
+                  );
+                  return { ...element, ...updates, fadeIn, fadeOut };
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    updateElementTransform: (
+      trackId,
+      elementId,
+      transform,
+      pushHistory = true
+    ) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId) return element;
+                  if (element.type === "media") {
+                    const next: MediaElement = { ...element, transform };
+                    // Moving a placed element by hand takes it out of its layout
+                    if (
+                      JSON.stringify(transform) !==
+                      JSON.stringify(element.transform)
+                    ) {
+                      delete next.layoutSlot;
+                    }
+                    return next;
+                  }
+                  return {
+                    ...element,
+                    x: transform.x,
+                    y: transform.y,
+                    rotation: transform.rotation,
+                    scaleX: transform.scaleX,
+                    scaleY: transform.scaleY,
+                  };
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    addElementFilter: (trackId, elementId, filter) => {
+      const id = generateUUID();
+      updateElementFilters(trackId, elementId, (filters) => [
+        ...filters,
+        { ...filter, id },
+      ]);
+      return id;
+    },
+
+    updateElementFilter: (
+      trackId,
+      elementId,
+      filterId,
+      updates,
+      pushHistory = true
+    ) => {
+      updateElementFilters(
+        trackId,
+        elementId,
+        (filters) =>
+          filters.map((filter) => {
+            if (filter.id !== filterId) return filter;
+            const next: ElementFilter = { ...filter, ...updates };
+            if (!next.bypassed) delete next.bypassed;
+            return next;
+          }),
+        pushHistory
+      );
+    },
+
+    removeElementFilter: (trackId, elementId, filterId) => {
+      updateElementFilters(trackId, elementId, (filters) =>
+        filters.filter((filter) => filter.id !== filterId)
+      );
+    },
+
+    moveElementFilter: (trackId, elementId, filterId, toIndex) => {
+      updateElementFilters(trackId, elementId, (filters) => {
+        const filter = filters.find(({ id }) => id === filterId);
+        if (!filter) return filters;
+        const rest = filters.filter(({ id }) => id !== filterId);
+        const index = Math.max(0, Math.min(toIndex, rest.length));
+        return [...rest.slice(0, index), filter, ...rest.slice(index)];
+      });
+    },
+
+    updateElementColorGrade: (
+      trackId,
+      elementId,
+      grade,
+      pushHistory = true
+    ) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId || element.type !== "media") {
+                    return element;
+                  }
+                  const next: MediaElement = { ...element, colorGrade: grade };
+                  if (!grade) delete next.colorGrade;
+                  return next;
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    updateElementKey: (trackId, elementId, key, pushHistory = true) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId || element.type !== "media") {
+                    return element;
+                  }
+                  const next: MediaElement = { ...element, key };
+                  if (!key) delete next.key;
+                  return next;
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    updateElementMasks: (trackId, elementId, masks, pushHistory = true) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId || element.type === "adjustment") {
+                    return element;
+                  }
+                  const next: MediaElement | TextElement = {
+                    ...element,
+                    masks,
+                  };
+                  if (masks.length === 0) delete next.masks;
+                  // Keyframes of removed masks go with them
+                  if (next.keyframes) {
+                    const ids = new Set(masks.map((mask) => mask.id));
+                    next.keyframes = Object.fromEntries(
+                      Object.entries(next.keyframes).filter(
+                        ([property]) =>
+                          !property.startsWith("mask.") ||
+                          ids.has(property.split(".")[1])
+                      )
+                    );
+                  }
+                  return next;
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    updateElementTrackMatte: (trackId, elementId, trackMatte) => {
+      get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId || element.type === "adjustment") {
+                    return element;
+                  }
+                  const next: MediaElement | TextElement = {
+                    ...element,
+                    trackMatte,
+                  };
+                  if (!trackMatte) delete next.trackMatte;
+                  return next;
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    updateElementBlend: (trackId, elementId, updates, pushHistory = true) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId || element.type === "adjustment") {
+                    return element;
+                  }
+                  const next: MediaElement | TextElement = {
+                    ...element,
+                    ...updates,
+                  };
+                  // Normal blending is the default and is not stored
+                  if (next.blendMode === "normal") delete next.blendMode;
+                  return next;
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    updateElementLayout: (trackId, elementId, updates, pushHistory = true) => {
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) =>
+          track.id === trackId
+            ? {
+                ...track,
+                elements: track.elements.map((element) => {
+                  if (element.id !== elementId || element.type !== "media") {
+                    return element;
+                  }
+                  const next: MediaElement = { ...element, ...updates };
+                  // So does cropping it or fitting it to the canvas
+                  if ("crop" in updates || "fit" in updates) {
+                    delete next.layoutSlot;
+                  }
+                  if (!next.crop) delete next.crop;
+                  if (!next.flipX) delete next.flipX;
+                  if (!next.flipY) delete next.flipY;
+                  if (!next.fit) delete next.fit;
+                  return next;
+                }),
+              }
+            : track
+        )
+      );
+    },
+
+    applyLayout: (placements, style, pushHistory = true) => {
+      const canvas =
+        useProjectStore.getState().activeProject?.canvasSize ??
+        DEFAULT_CANVAS_SIZE;
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) => ({
+          ...track,
+          elements: track.elements.map((element) => {
+            const placement = placements.find(
+              (p) => p.trackId === track.id && p.elementId === element.id
+            );
+            if (!placement || element.type !== "media") return element;
+            const { slot } = placement;
+            const next = placeElement(
+              element,
+              { ...slot, gap: style.gap },
+              canvas
+            );
+            const frame = layoutFrame(slot, style);
+            if (frame) next.frame = frame;
+            else delete next.frame;
+            return next;
+          }),
+        }))
+      );
+    },
+
+    reflowLayouts: (canvas, pushHistory = true) => {
+      const placed = get()._tracks.some((track) =>
+        track.elements.some(
+          (element) => element.type === "media" && element.layoutSlot
+        )
+      );
+      if (!placed) return;
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) => ({
+          ...track,
+          elements: track.elements.map((element) =>
+            element.type === "media" && element.layoutSlot
+              ? placeElement(element, element.layoutSlot, canvas)
+              : element
+          ),
+        }))
+      );
+    },
+
+    reframeElements: (previous, canvas, subjects = {}, pushHistory = true) => {
+      const { mediaFiles } = useMediaStore.getState();
+      if (pushHistory) get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) => ({
+          ...track,
+          elements: track.elements.map((element) => {
+            if (element.type === "text") {
+              return {
+                ...element,
+                x: (element.x / previous.width) * canvas.width,
+                y: (element.y / previous.height) * canvas.height,
+              };
+            }
+            // Layouts follow the canvas on their own
+            if (element.type !== "media" || element.layoutSlot) return element;
+            const media = mediaFiles.find(
+              (file) => file.id === element.mediaId
+            );
+            if (
+              (media?.type !== "video" && media?.type !== "image") ||
+              !media.width ||
+              !media.height
+            ) {
+              return element;
+            }
+            const source = { width: media.width, height: media.height };
+            const samples = subjects[element.id] ?? [];
+            // The reframe replaces any animated placement
+            const { x, y, scaleX, scaleY, rotation, ...keyframes } =
+              element.keyframes ?? {};
+            const next: MediaElement = {
+              ...element,
+              transform: reframeTransform(element, source, canvas, samples[0]),
+              keyframes,
+            };
+            if (samples.length > 1) {
+              next.keyframes = {
+                ...keyframes,
+                ...subjectKeyframes(element, source, canvas, samples),
+              };
+            }
+            if (Object.keys(next.keyframes!).length === 0) {
+              delete next.keyframes;
+            }
+            delete next.fit;
+            return next;
+          }),
+        }))
+      );
+    },
+
+    addKeyframe: (trackId, elementId, property, keyframe, pushHistory) => {
+      const id = generateUUID();
+      updateElementKeyframes(
+        trackId,
+        elementId,
+        property,
+        (keyframes) => [
+          // A keyframe at the same time replaces the existing one
+          ...keyframes.filter(
+            (k) => Math.abs(k.time - keyframe.time) > KEYFRAME_TIME_EPSILON
+          ),
+          { ...keyframe, id },
+        ],
+        pushHistory
+      );
+      return id;
+    },
+
+    updateKeyframe: (
+      trackId,
+      elementId,
+      property,
+      keyframeId,
+      updates,
+      pushHistory
+    ) => {
+      updateElementKeyframes(
+        trackId,
+        elementId,
+        property,
+        (keyframes) =>
+          keyframes.map((k) => (k.id === keyframeId ? { ...k, ...updates } : k)),
+        pushHistory
+      );
+    },
+
+    removeKeyframe: (trackId, elementId, property, keyframeId) => {
+      updateElementKeyframes(trackId, elementId, property, (keyframes) =>
+        keyframes.filter((k) => k.id !== keyframeId)
+      );
+    },
+
+    setVolumeEnvelopes: (envelopes) => {
+      if (envelopes.length === 0) return;
+      get().pushHistory();
+      updateTracksAndSave(
+        get()._tracks.map((track) => ({
+          ...track,
+          elements: track.elements.map((element) => {
+            const envelope = envelopes.find(
+              (e) => e.trackId === track.id && e.elementId === element.id
+            );
+            if (!envelope) return element;
+            const keyframes = { ...element.keyframes };
+            if (envelope.keyframes.length > 0) {
+              keyframes.volume = [...envelope.keyframes].sort(
+                (a, b) => a.time - b.time
+              );
+            } else {
+              delete keyframes.volume;
+            }
+            return { ...element, keyframes };
+          }),
+        }))
+      );
+    },
+
     // Split element and keep only the left portion
     splitAndKeepLeft: (trackId, elementId, splitTime) => {
       const { _tracks } = get();
@@ -1399,7 +2178,7 @@ export const useTimelineStore = create<TimelineStore>((set, get) => {
       return get().addTrack(trackType);
     },
 
-    addElementAtTime: (item: MediaFile | TextElement, currentTime = 0) => {
+    addElementAtTime: (item, currentTime = 0) => {
       if (item.type === "text") {
         const targetTrackId = get().insertTrackAt("text", 0);
         get().addElementToTrack(
@@ -1409,6 +2188,16 @@ export const useTimelineStore = create<TimelineStore>((set, get) => {
         return true;
       }
 
+      // Adjustment layers go on a new top media track so they cover every clip
+      if (item.type === "adjustment") {
+        const targetTrackId = get().insertTrackAt("media", 0);
+        get().addElementToTrack(
+          targetTrackId,
+          buildAdjustmentElement(item, currentTime)
+        );
+        return true;
+      }
+
       const media = item as MediaFile;
       const trackType = media.type === "audio" ? "audio" : "media";
       const targetTrackId = get().insertTrackAt(trackType, 0);
@@ -1435,6 +2224,15 @@ export const useTimelineStore = create<TimelineStore>((set, get) => {
         return true;
       }
 
+      if (item.type === "adjustment") {
+        const targetTrackId = get().insertTrackAt("media", 0);
+        get().addElementToTrack(
+          targetTrackId,
+          buildAdjustmentElement(item as AdjustmentItemDragData, 0)
+        );
+        return true;
+      }
+
       const media = item as MediaFile;
       const trackType = media.type === "audio" ? "audio" : "media";
       const targetTrackId = get().insertTrackAt(trackType, 0);
@@ -1887,3 +2685,17 @@ function buildTextElement(
       typeof t.opacity === "number" ? t.opacity : DEFAULT_TEXT_ELEMENT.opacity,
   };
 }
+
+function buildAdjustmentElement(
+  raw: Pick<AdjustmentItemDragData, "name">,
+  startTime: number
+): CreateTimelineElement {
+  return {
+    type: "adjustment",
+    name: raw.name,
+    duration: TIMELINE_CONSTANTS.DEFAULT_ADJUSTMENT_DURATION,
+    startTime,
+    trimStart: 0,
+    trimEnd: 0,
+  };
+}
@@ -0,0 +1,239 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { toast } from "sonner";
+import { storageService } from "@/lib/storage/storage-service";
+import type {
+  ProjectSnapshot,
+  SceneTimelineData,
+  SerializedProject,
+} from "@/lib/storage/types";
+import { generateUUID } from "@/lib/utils";
+import { useProjectStore } from "./project-store";
+import { useSceneStore } from "./scene-store";
+import { useTimelineStore } from "./timeline-store";
+import { useMediaStore } from "./media-store";
+
+// Auto snapshots kept per project, checkpoints stay until deleted
+const AUTO_SNAPSHOT_LIMIT = 30;
+
+export const AUTO_SNAPSHOT_INTERVALS = [0, 2, 5, 10, 15, 30];
+
+interface VersionHistoryStore {
+  snapshots: ProjectSnapshot[]; // Of the active project, most recent first
+  isLoading: boolean;
+  // Minutes between automatic snapshots, 0 turns them off
+  autoSnapshotMinutes: number;
+
+  setAutoSnapshotMinutes: (minutes: number) => void;
+  loadSnapshots: (projectId: string) => Promise<void>;
+  // Auto snapshots are skipped when nothing changed since the last one
+  createSnapshot: (options?: {
+    kind?: ProjectSnapshot["kind"];
+    name?: string;
+  }) => Promise<ProjectSnapshot | null>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  restoreSnapshot: (id: string) => Promise<void>;
+  restoreAsNewProject: (id: string) => Promise<string>;
+}
+
+// Timelines of every scene, the open scene is taken from the editor
+async function captureTimelines(
+  projectId: string,
+  sceneIds: string[]
+): Promise<SceneTimelineData[]> {
+  const { currentScene } = useSceneStore.getState();
+  const { _tracks } = useTimelineStore.getState();
+  const lastModified = new Date().toISOString();
+  return Promise.all(
+    sceneIds.map(async (sceneId) => ({
+      sceneId,
+      tracks:
+        sceneId === currentScene?.id
+          ? _tracks
+          : ((await storageService.loadTimeline({ projectId, sceneId })) ?? []),
+      lastModified,
+    }))
+  );
+}
+
+function snapshotContent(
+  project: SerializedProject,
+  timelines: SceneTimelineData[],
+  mediaIds: string[]
+) {
+  return JSON.stringify({
+    project: { ...project, updatedAt: undefined },
+    timelines: timelines.map(({ sceneId, tracks }) => ({ sceneId, tracks })),
+    mediaIds,
+  });
+}
+
+export const useVersionHistoryStore = create<VersionHistoryStore>()(
+  persist(
+    (set, get) => ({
+      snapshots: [],
+      isLoading: false,
+      autoSnapshotMinutes: 5,
+
+      setAutoSnapshotMinutes: (minutes) =>
+        set({ autoSnapshotMinutes: minutes }),
+
+      loadSnapshots: async (projectId) => {
+        set({ isLoading: true });
+        try {
+          const snapshots = await storageService.loadSnapshots({ projectId });
+          if (useProjectStore.getState().activeProject?.id === projectId) {
+            set({ snapshots });
+          }
+        } catch (error) {
+          console.error("Failed to load version history:", error);
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      createSnapshot: async ({ kind = "auto", name } = {}) => {
+        const { activeProject } = useProjectStore.getState();
+        if (!activeProject) return null;
+
+        try {
+          const timelines = await captureTimelines(
+            activeProject.id,
+            activeProject.scenes.map((scene) => scene.id)
+          );
+          const mediaIds = useMediaStore
+            .getState()
+            .mediaFiles.map((media) => media.id);
+
+          const [latest] = get().snapshots;
+          if (
+            kind === "auto" &&
+            latest &&
+            snapshotContent(
+              latest.project,
+              latest.timelines,
+              latest.mediaIds
+            ) ===
+              snapshotContent(
+                storageService.serializeProject(activeProject),
+                timelines,
+                mediaIds
+              )
+          ) {
+            return null;
+          }
+
+          const snapshot = await storageService.saveSnapshot({
+            project: activeProject,
+            timelines,
+            mediaIds,
+            kind,
+            name,
+          });
+          const snapshots = [snapshot, ...get().snapshots];
+          const expired = snapshots
+            .filter((snapshot) => snapshot.kind === "auto")
+            .slice(AUTO_SNAPSHOT_LIMIT)
+            .map((snapshot) => snapshot.id);
+          if (expired.length > 0) {
+            await storageService.deleteSnapshots({
+              projectId: activeProject.id,
+              ids: expired,
+            });
+          }
+          set({
+            snapshots: snapshots.filter(
+              (snapshot) => !expired.includes(snapshot.id)
+            ),
+          });
+          return snapshot;
+        } catch (error) {
+          console.error("Failed to save snapshot:", error);
+          if (kind === "checkpoint") {
+            toast.error("Failed to save checkpoint");
+          }
+          return null;
+        }
+      },
+
+      deleteSnapshot: async (id) => {
+        const { activeProject } = useProjectStore.getState();
+        if (!activeProject) return;
+
+        try {
+          await storageService.deleteSnapshots({
+            projectId: activeProject.id,
+            ids: [id],
+          });
+          set((state) => ({
+            snapshots: state.snapshots.filter((snapshot) => snapshot.id !== id),
+          }));
+        } catch (error) {
+          console.error("Failed to delete snapshot:", error);
+          toast.error("Failed to delete snapshot");
+        }
+      },
+
+      restoreSnapshot: async (id) => {
+        const projectStore = useProjectStore.getState();
+        const { activeProject } = projectStore;
+        const snapshot = get().snapshots.find((snapshot) => snapshot.id === id);
+        if (!activeProject || !snapshot) return;
+
+        try {
+          // The current state is kept as a checkpoint so auto snapshots never
+          // expire it, and the restore can always be undone
+          const before = await get().createSnapshot({
+            kind: "checkpoint",
+            name: "Before restore",
+          });
+          if (!before) return;
+          await storageService.restoreSnapshot({
+            snapshot,
+            project: activeProject,
+          });
+          await projectStore.loadProject(activeProject.id);
+          await projectStore.loadAllProjects();
+          toast.success("Version restored");
+        } catch (error) {
+          console.error("Failed to restore snapshot:", error);
+          toast.error("Failed to restore version", {
+            description:
+              error instanceof Error ? error.message : "Please try again",
+          });
+        }
+      },
+
+      restoreAsNewProject: async (id) => {
+        const snapshot = get().snapshots.find((snapshot) => snapshot.id === id);
+        if (!snapshot) throw new Error("Snapshot not found");
+
+        try {
+          const project = await storageService.restoreSnapshot({
+            snapshot,
+            project: {
+              id: generateUUID(),
+              name: `${snapshot.project.name} (restored)`,
+              createdAt: new Date(),
+            },
+          });
+          await useProjectStore.getState().loadAllProjects();
+          return project.id;
+        } catch (error) {
+          console.error("Failed to restore snapshot as a new project:", error);
+          toast.error("Failed to restore as new project", {
+            description:
+              error instanceof Error ? error.message : "Please try again",
+          });
+          throw error;
+        }
+      },
+    }),
+    {
+      name: "version-history",
+      partialize: (state) => ({
+        autoSnapshotMinutes: state.autoSnapshotMinutes,
+      }),
+    }
+  )
+);
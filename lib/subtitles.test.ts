@@ -0,0 +1,119 @@
+import type { Suite } from 'cynic';
+import { expect } from 'chai';
+import type { TextElement, TimelineTrack } from '@/types/timeline';
+import { DEFAULT_CAPTION_ELEMENT } from './text-constants';
+import { cuesToTextElements, detectSubtitleFormat, parseSubtitles, serializeSubtitles, trackToCues } from './subtitles';
+
+const canvasSize = { width: 1920, height: 1080 };
+
+const caption = (id: string, overrides: Partial<TextElement> = {}): TextElement => ({
+  ...DEFAULT_CAPTION_ELEMENT,
+  id,
+  content: `Caption ${id}`,
+  startTime: Number(id),
+  duration: 1,
+  ...overrides,
+});
+
+const track = (elements: TextElement[]): TimelineTrack => ({ id: 'captions', name: 'Captions', type: 'text', elements });
+
+export default <Suite> {
+  'subtitle parsing': {
+    'reads SRT comma timestamps': async () => {
+      const cues = parseSubtitles('1\r\n00:00:01,500 --> 00:00:03,250\r\nHello\r\nworld\r\n\r\n2\r\n01:02:03,004 --> 01:02:04,000\r\nBye\r\n', 'srt');
+      expect(cues.map((cue) => [cue.id, cue.start, cue.end, cue.text])).to.deep.equal([
+        ['1', 1.5, 3.25, 'Hello\nworld'],
+        ['2', 3723.004, 3724, 'Bye'],
+      ]);
+    },
+    'reads VTT dot timestamps with and without hours': async () => {
+      const cues = parseSubtitles('WEBVTT\n\nNOTE a comment\n\nintro\n00:01.500 --> 00:00:02.000\nHi &amp; welcome\n');
+      expect(cues.map((cue) => [cue.id, cue.start, cue.end, cue.text])).to.deep.equal([['intro', 1.5, 2, 'Hi & welcome']]);
+    },
+    'detects the format from the name or the header': async () => {
+      expect(detectSubtitleFormat('', 'movie.VTT')).to.equal('vtt');
+      expect(detectSubtitleFormat('\uFEFFWEBVTT\n')).to.equal('vtt');
+      expect(detectSubtitleFormat('1\n00:00:00,000 --> 00:00:01,000\nHi')).to.equal('srt');
+    },
+    'reads VTT cue settings as percentages': async () => {
+      const [cue] = parseSubtitles('WEBVTT\n\n00:00.000 --> 00:01.000 line:10% position:25% align:start size:50%\nTop left\n');
+      expect(cue.settings).to.deep.equal({ line: 10, position: 25, align: 'left' });
+    },
+    'ignores line numbers and reads SRT alignment tags': async () => {
+      const [vtt] = parseSubtitles('WEBVTT\n\n00:00.000 --> 00:01.000 line:-1\nBottom\n');
+      expect(vtt.settings).to.deep.equal({});
+      const [srt] = parseSubtitles('1\n00:00:00,000 --> 00:00:01,000\n{\\an8}Top\n', 'srt');
+      expect(srt.text).to.equal('Top');
+      expect(srt.settings).to.deep.equal({ line: 10, position: 50, align: 'center' });
+    },
+    'folds styling tags into the cue style': async () => {
+      const [cue] = parseSubtitles('1\n00:00:00,000 --> 00:00:01,000\n<i><u>Quiet</u></i> <font color="#ff0000" face="Georgia">now</font>\n', 'srt');
+      expect(cue.text).to.equal('Quiet now');
+      expect(cue.style).to.deep.equal({
+        fontStyle: 'italic',
+        textDecoration: 'underline',
+        color: '#ff0000',
+        fontFamily: 'Georgia',
+      });
+    },
+    'applies VTT style blocks and classes': async () => {
+      const [cue] = parseSubtitles(
+        'WEBVTT\n\nSTYLE\n::cue { color: yellow }\n::cue(.quiet) { font-weight: 400; font-family: "Courier New", monospace }\n\n00:00.000 --> 00:01.000\n<c.quiet>Shh</c>\n'
+      );
+      expect(cue.style).to.deep.equal({ color: 'yellow', fontWeight: 'normal', fontFamily: 'Courier New' });
+    },
+  },
+  'subtitle export': {
+    'leaves default captions untagged': async () => {
+      const cues = trackToCues(track([caption('0')]), canvasSize);
+      expect(cues[0].style).to.deep.equal({});
+      expect(cues[0].settings).to.deep.equal({});
+      expect(serializeSubtitles(cues, 'srt')).to.equal('1\n00:00:00,000 --> 00:00:01,000\nCaption 0\n');
+      expect(serializeSubtitles(cues, 'vtt')).to.equal('WEBVTT\n\n00:00:00.000 --> 00:00:01.000\nCaption 0\n');
+    },
+    'tags what differs from the default caption': async () => {
+      const cues = trackToCues(track([caption('0', { fontStyle: 'italic', x: -480, textAlign: 'left' })]), canvasSize);
+      expect(serializeSubtitles(cues, 'srt')).to.equal('1\n00:00:00,000 --> 00:00:01,000\n{\\an1}<i>Caption 0</i>\n');
+      expect(serializeSubtitles(cues, 'vtt')).to.equal(
+        'WEBVTT\n\n00:00:00.000 --> 00:00:01.000 position:25% align:left\n<i>Caption 0</i>\n'
+      );
+    },
+    'leaves out hidden elements and trimmed time': async () => {
+      const cues = trackToCues(track([caption('2', { trimEnd: 0.25 }), caption('0', { hidden: true })]), canvasSize);
+      expect(cues.map((cue) => [cue.start, cue.end])).to.deep.equal([[2, 2.75]]);
+    },
+  },
+  'subtitle round trip': {
+    'keeps timing, text, style and placement': async () => {
+      const elements = [
+        caption('0'),
+        caption('1', { fontWeight: 'normal', color: '#00ff00', y: -324, textAlign: 'right' }),
+        caption('2', { content: 'a < b & c', textDecoration: 'line-through', fontFamily: 'Georgia' }),
+      ];
+      const cues = trackToCues(track(elements), canvasSize);
+      const imported = cuesToTextElements(parseSubtitles(serializeSubtitles(cues, 'vtt')), canvasSize);
+
+      const fields = (element: Omit<TextElement, 'id'>) => [
+        element.content,
+        element.startTime,
+        element.duration,
+        element.fontWeight,
+        element.color,
+        element.fontFamily,
+        element.textDecoration,
+        element.textAlign,
+        element.x,
+        Math.round(element.y),
+      ];
+      expect(imported.map(fields)).to.deep.equal(elements.map(fields));
+    },
+    'keeps timing and text through SRT': async () => {
+      const cues = trackToCues(track([caption('0'), caption('1.5', { content: 'Two\nlines' })]), canvasSize);
+      const parsed = parseSubtitles(serializeSubtitles(cues, 'srt'), 'srt');
+      expect(parsed.map((cue) => [cue.start, cue.end, cue.text])).to.deep.equal([
+        [0, 1, 'Caption 0'],
+        [1.5, 2.5, 'Two\nlines'],
+      ]);
+    },
+  },
+};
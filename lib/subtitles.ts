@@ -0,0 +1,452 @@
+import { DEFAULT_CAPTION_ELEMENT } from "./text-constants";
+import type { CanvasSize } from "@/types/editor";
+import type {
+  CreateTextElement,
+  TextElement,
+  TimelineTrack,
+} from "@/types/timeline";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export type SubtitleCueStyle = Partial<
+  Pick<
+    TextElement,
+    | "color"
+    | "backgroundColor"
+    | "fontFamily"
+    | "fontWeight"
+    | "fontStyle"
+    | "textDecoration"
+  >
+>;
+
+// Cue settings as defined by WebVTT, percentages of the video frame
+export interface SubtitleCueSettings {
+  line?: number;
+  position?: number;
+  align?: TextElement["textAlign"];
+}
+
+export interface SubtitleCue {
+  id?: string;
+  start: number; // seconds
+  end: number; // seconds
+  text: string; // plain text, markup removed
+  style: SubtitleCueStyle;
+  settings: SubtitleCueSettings;
+}
+
+const TIMING_PATTERN =
+  /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)/;
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&nbsp;": " ",
+  "&lrm;": "\u200E",
+  "&rlm;": "\u200F",
+};
+
+// SRT {\anN} tags use numpad layout: 7 8 9 top, 4 5 6 middle, 1 2 3 bottom
+const SRT_ALIGNMENT_ROWS = [90, 50, 10];
+const SRT_ALIGNMENT_COLUMNS: [number, TextElement["textAlign"]][] = [
+  [10, "left"],
+  [50, "center"],
+  [90, "right"],
+];
+
+export function detectSubtitleFormat(
+  content: string,
+  fileName?: string
+): SubtitleFormat {
+  if (fileName?.toLowerCase().endsWith(".vtt")) return "vtt";
+  if (fileName?.toLowerCase().endsWith(".srt")) return "srt";
+  return content.replace(/^\uFEFF/, "").startsWith("WEBVTT") ? "vtt" : "srt";
+}
+
+/**
+ * Parse SRT or WebVTT into cues. Inline tags are folded into a cue style
+ * because text elements carry one style for their whole content.
+ */
+export function parseSubtitles(
+  content: string,
+  format: SubtitleFormat = detectSubtitleFormat(content)
+): SubtitleCue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+
+  const classStyles = new Map<string, SubtitleCueStyle>();
+  let baseStyle: SubtitleCueStyle = {};
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    if (format === "vtt") {
+      if (block.startsWith("WEBVTT") || /^(NOTE|REGION)\b/.test(block)) {
+        continue;
+      }
+      if (block.startsWith("STYLE")) {
+        baseStyle = { ...baseStyle, ...parseStyleBlock(block, classStyles) };
+        continue;
+      }
+    }
+
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    const timing = lines[timingIndex]?.match(TIMING_PATTERN);
+    if (!timing) continue;
+
+    const [, start, end, settings] = timing;
+    const payload = lines.slice(timingIndex + 1).join("\n");
+    const cue = parsePayload(payload, classStyles);
+
+    cues.push({
+      id: timingIndex > 0 ? lines[timingIndex - 1].trim() : undefined,
+      start: parseTimestamp(start),
+      end: parseTimestamp(end),
+      text: cue.text,
+      style: { ...baseStyle, ...cue.style },
+      settings: {
+        ...(format === "vtt" ? parseCueSettings(settings) : {}),
+        ...cue.settings,
+      },
+    });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+export function serializeSubtitles(
+  cues: SubtitleCue[],
+  format: SubtitleFormat
+): string {
+  return format === "vtt" ? serializeVtt(cues) : serializeSrt(cues);
+}
+
+function serializeSrt(cues: SubtitleCue[]) {
+  return cues
+    .map((cue, index) => {
+      let text = cue.text;
+      const { style, settings } = cue;
+      if (style.fontWeight === "bold") text = `<b>${text}</b>`;
+      if (style.fontStyle === "italic") text = `<i>${text}</i>`;
+      if (style.textDecoration === "underline") text = `<u>${text}</u>`;
+      if (style.color || style.fontFamily) {
+        const color = style.color ? ` color="${style.color}"` : "";
+        const face = style.fontFamily ? ` face="${style.fontFamily}"` : "";
+        text = `<font${color}${face}>${text}</font>`;
+      }
+      const alignment = toSrtAlignment(settings);
+      if (alignment) text = `{\\an${alignment}}${text}`;
+
+      return `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${text}`;
+    })
+    .join("\n\n")
+    .concat("\n");
+}
+
+function serializeVtt(cues: SubtitleCue[]) {
+  // One class per distinct set of CSS-only properties
+  const classes = new Map<string, string>();
+  const rules: string[] = [];
+
+  const body = cues.map((cue) => {
+    let text = escapeText(cue.text);
+    const { style, settings } = cue;
+    if (style.fontWeight === "bold") text = `<b>${text}</b>`;
+    if (style.fontStyle === "italic") text = `<i>${text}</i>`;
+    if (style.textDecoration === "underline") text = `<u>${text}</u>`;
+
+    const declarations = [
+      style.color && `color: ${style.color}`,
+      style.backgroundColor && `background-color: ${style.backgroundColor}`,
+      style.fontFamily && `font-family: ${style.fontFamily}`,
+      // Captions are bold by default, so regular text needs saying
+      style.fontWeight === "normal" && "font-weight: normal",
+      style.textDecoration === "line-through" &&
+        "text-decoration: line-through",
+    ]
+      .filter(Boolean)
+      .join("; ");
+    if (declarations) {
+      let className = classes.get(declarations);
+      if (!className) {
+        className = `s${classes.size + 1}`;
+        classes.set(declarations, className);
+        rules.push(`::cue(.${className}) { ${declarations}; }`);
+      }
+      text = `<c.${className}>${text}</c>`;
+    }
+
+    const cueSettings = [
+      settings.line !== undefined && `line:${round(settings.line)}%`,
+      settings.position !== undefined &&
+        `position:${round(settings.position)}%`,
+      settings.align && `align:${settings.align}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    const timing = `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}`;
+    return [cue.id, cueSettings ? `${timing} ${cueSettings}` : timing, text]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  const style = rules.length > 0 ? [`STYLE\n${rules.join("\n")}`] : [];
+  return ["WEBVTT", ...style, ...body].join("\n\n").concat("\n");
+}
+
+/**
+ * Map cues onto text elements, placing VTT positions relative to the canvas
+ */
+export function cuesToTextElements(
+  cues: SubtitleCue[],
+  canvasSize: CanvasSize
+): CreateTextElement[] {
+  return cues
+    .filter((cue) => cue.end > cue.start && cue.text.trim())
+    .map((cue, index) => ({
+      ...DEFAULT_CAPTION_ELEMENT,
+      name: `Caption ${index + 1}`,
+      content: cue.text,
+      startTime: cue.start,
+      duration: cue.end - cue.start,
+      ...cue.style,
+      textAlign: cue.settings.align ?? DEFAULT_CAPTION_ELEMENT.textAlign,
+      x:
+        cue.settings.position === undefined
+          ? DEFAULT_CAPTION_ELEMENT.x
+          : (cue.settings.position / 100 - 0.5) * canvasSize.width,
+      y:
+        cue.settings.line === undefined
+          ? DEFAULT_CAPTION_ELEMENT.y
+          : (cue.settings.line / 100 - 0.5) * canvasSize.height,
+    }));
+}
+
+/**
+ * Collect the visible text elements of a track as cues, in timeline order.
+ * Cue styles only hold what differs from the default caption, which is what
+ * imported cues start from
+ */
+export function trackToCues(
+  track: TimelineTrack,
+  canvasSize: CanvasSize
+): SubtitleCue[] {
+  return track.elements
+    .filter(
+      (element): element is TextElement =>
+        element.type === "text" && !element.hidden
+    )
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((element) => {
+      const style: SubtitleCueStyle = {};
+      if (element.color !== DEFAULT_CAPTION_ELEMENT.color) {
+        style.color = element.color;
+      }
+      if (element.backgroundColor !== DEFAULT_CAPTION_ELEMENT.backgroundColor) {
+        style.backgroundColor = element.backgroundColor;
+      }
+      if (element.fontFamily !== DEFAULT_CAPTION_ELEMENT.fontFamily) {
+        style.fontFamily = element.fontFamily;
+      }
+      if (element.fontWeight !== DEFAULT_CAPTION_ELEMENT.fontWeight) {
+        style.fontWeight = element.fontWeight;
+      }
+      if (element.fontStyle !== DEFAULT_CAPTION_ELEMENT.fontStyle) {
+        style.fontStyle = element.fontStyle;
+      }
+      if (element.textDecoration !== DEFAULT_CAPTION_ELEMENT.textDecoration) {
+        style.textDecoration = element.textDecoration;
+      }
+
+      const settings: SubtitleCueSettings = {};
+      if (element.x !== DEFAULT_CAPTION_ELEMENT.x) {
+        settings.position = (element.x / canvasSize.width + 0.5) * 100;
+      }
+      if (element.y !== DEFAULT_CAPTION_ELEMENT.y) {
+        settings.line = (element.y / canvasSize.height + 0.5) * 100;
+      }
+      if (element.textAlign !== DEFAULT_CAPTION_ELEMENT.textAlign) {
+        settings.align = element.textAlign;
+      }
+
+      return {
+        start: element.startTime,
+        end:
+          element.startTime +
+          element.duration -
+          element.trimStart -
+          element.trimEnd,
+        text: element.content,
+        style,
+        settings,
+      };
+    });
+}
+
+function parseTimestamp(value: string) {
+  const parts = value.replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function formatTimestamp(seconds: number, separator: "," | ".") {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, length = 2) => n.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function parseCueSettings(settings: string): SubtitleCueSettings {
+  const result: SubtitleCueSettings = {};
+  for (const setting of settings.trim().split(/\s+/)) {
+    const [name, value] = setting.split(":");
+    if (!value) continue;
+    // Only percentages map onto the canvas, line numbers are ignored
+    const percent = value.match(/^(-?[\d.]+)%/);
+    if (name === "line" && percent) result.line = Number(percent[1]);
+    if (name === "position" && percent) result.position = Number(percent[1]);
+    if (name === "align") {
+      if (value === "start" || value === "left") result.align = "left";
+      if (value === "end" || value === "right") result.align = "right";
+      if (value === "center" || value === "middle") result.align = "center";
+    }
+  }
+  return result;
+}
+
+function parseStyleBlock(
+  block: string,
+  classStyles: Map<string, SubtitleCueStyle>
+): SubtitleCueStyle {
+  let baseStyle: SubtitleCueStyle = {};
+  for (const [, selector, body] of block.matchAll(
+    /::cue(?:\(([^)]*)\))?\s*\{([^}]*)\}/g
+  )) {
+    const style = parseDeclarations(body);
+    if (!selector) {
+      baseStyle = { ...baseStyle, ...style };
+      continue;
+    }
+    const className = selector.trim().match(/^\.([\w-]+)$/)?.[1];
+    if (className) {
+      classStyles.set(className, { ...classStyles.get(className), ...style });
+    }
+  }
+  return baseStyle;
+}
+
+function parseDeclarations(body: string): SubtitleCueStyle {
+  const style: SubtitleCueStyle = {};
+  for (const declaration of body.split(";")) {
+    const [property, ...rest] = declaration.split(":");
+    const value = rest.join(":").trim();
+    if (!value) continue;
+    switch (property.trim().toLowerCase()) {
+      case "color":
+        style.color = value;
+        break;
+      case "background":
+      case "background-color":
+        style.backgroundColor = value;
+        break;
+      case "font-family":
+        style.fontFamily = value.replace(/["']/g, "").split(",")[0].trim();
+        break;
+      case "font-weight":
+        style.fontWeight =
+          value === "bold" || Number(value) >= 600 ? "bold" : "normal";
+        break;
+      case "font-style":
+        style.fontStyle = value === "italic" ? "italic" : "normal";
+        break;
+      case "text-decoration":
+        if (value.includes("underline")) style.textDecoration = "underline";
+        else if (value.includes("line-through"))
+          style.textDecoration = "line-through";
+        else style.textDecoration = "none";
+        break;
+    }
+  }
+  return style;
+}
+
+function parsePayload(
+  payload: string,
+  classStyles: Map<string, SubtitleCueStyle>
+) {
+  const style: SubtitleCueStyle = {};
+  const settings: SubtitleCueSettings = {};
+
+  const alignment = payload.match(/\{\\an([1-9])\}/);
+  if (alignment) {
+    const index = Number(alignment[1]) - 1;
+    const [position, align] = SRT_ALIGNMENT_COLUMNS[index % 3];
+    settings.line = SRT_ALIGNMENT_ROWS[Math.floor(index / 3)];
+    settings.position = position;
+    settings.align = align;
+  }
+
+  for (const [, tag, attributes] of payload.matchAll(/<([a-z]+)([^>]*)>/gi)) {
+    switch (tag.toLowerCase()) {
+      case "b":
+        style.fontWeight = "bold";
+        break;
+      case "i":
+        style.fontStyle = "italic";
+        break;
+      case "u":
+        style.textDecoration = "underline";
+        break;
+      case "c":
+        for (const className of attributes.split(".").filter(Boolean)) {
+          Object.assign(style, classStyles.get(className.trim()));
+        }
+        break;
+      case "font": {
+        const color = attributes.match(/color\s*=\s*["']?([^"'\s>]+)/i);
+        const face = attributes.match(/face\s*=\s*["']([^"']+)["']/i);
+        if (color) style.color = color[1];
+        if (face) style.fontFamily = face[1];
+        break;
+      }
+    }
+  }
+
+  const text = payload
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&[a-z]+;/g, (entity) => ENTITIES[entity] ?? entity)
+    .trim();
+
+  return { text, style, settings };
+}
+
+function toSrtAlignment({ line, position }: SubtitleCueSettings) {
+  if (line === undefined && position === undefined) return null;
+  const row = line === undefined ? 0 : line < 33 ? 2 : line < 67 ? 1 : 0;
+  const column =
+    position === undefined ? 1 : position < 33 ? 0 : position < 67 ? 1 : 2;
+  return row * 3 + column + 1;
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function getSubtitleMimeType(format: SubtitleFormat) {
+  return format === "vtt" ? "text/vtt" : "application/x-subrip";
+}
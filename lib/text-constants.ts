@@ -1,4 +1,4 @@
-import { TextElement } from "@/types/timeline";
+import { CaptionStyle, TextElement } from "@/types/timeline";
 import { TIMELINE_CONSTANTS } from "./timeline-constants";
 
 export const DEFAULT_TEXT_ELEMENT: Omit<
@@ -25,3 +25,59 @@ export const DEFAULT_TEXT_ELEMENT: Omit<
   trimStart: 0,
   trimEnd: 0,
 };
+
+// Generated and imported captions use larger, bold text
+export const DEFAULT_CAPTION_ELEMENT: Omit<TextElement, "id"> = {
+  ...DEFAULT_TEXT_ELEMENT,
+  name: "Caption",
+  fontSize: 65,
+  fontWeight: "bold",
+};
+
+export const CAPTION_STYLE_PRESETS: {
+  id: string;
+  label: string;
+  style: CaptionStyle;
+}[] = [
+  {
+    id: "karaoke",
+    label: "Karaoke",
+    style: {
+      animation: "karaoke",
+      highlightColor: "#facc15",
+      upcomingOpacity: 1,
+      popScale: 1,
+    },
+  },
+  {
+    id: "highlight",
+    label: "Highlight word",
+    style: {
+      animation: "highlight",
+      highlightColor: "#ffffff",
+      highlightBackground: "#7c3aed",
+      upcomingOpacity: 1,
+      popScale: 1,
+    },
+  },
+  {
+    id: "pop-in",
+    label: "Pop in",
+    style: {
+      animation: "pop-in",
+      highlightColor: "#ffffff",
+      upcomingOpacity: 0,
+      popScale: 0.5,
+    },
+  },
+  {
+    id: "color-change",
+    label: "Color change",
+    style: {
+      animation: "color-change",
+      highlightColor: "#22c55e",
+      upcomingOpacity: 0.6,
+      popScale: 1,
+    },
+  },
+];
@@ -8,6 +8,7 @@
 import type { TimelineTrack } from "@/types/timeline";
 import type { MediaFile } from "@/types/media";
 import type { CanvasSize } from "@/types/project";
+import { omnislate } from "@/lib/engine/omnislate";
 
 export interface RenderTimelineFrameOptions {
   ctx: CanvasRenderingContext2D;
@@ -24,18 +25,13 @@ export interface RenderTimelineFrameOptions {
 
 /**
  * Render timeline frame using Omniclip Compositor
- * 
- * NOTE: The Omniclip Compositor uses PIXI.js for GPU-accelerated rendering:
- * - Creates PIXI.Application with canvas
- * - Manages video/image/text/audio sprites
- * - Handles transitions, filters, animations
- * - Provides real-time preview
- * 
- * Implementation in lib/engine/controllers/controllers/compositor/controller.ts
- * Key method: compositor.compose_effects(effects, timecode, exporting)
- * 
- * TODO: Mount PIXI canvas in preview-panel.tsx and use compositor directly
- * This stub can remain for fallback/compatibility but should delegate to compositor
+ *
+ * Draws the compositor's current frame (the PIXI canvas the preview shows)
+ * into `ctx`, scaled to its canvas. The compositor is driven by playback, so
+ * `time` is the frame it is expected to show rather than a seek target.
+ * Scopes read their pixels from here so they measure exactly what is shown.
+ *
+ * Falls back to the background fill until the engine is mounted.
  */
 export async function renderTimelineFrame(
   options: RenderTimelineFrameOptions
@@ -46,11 +42,14 @@ export async function renderTimelineFrame(
     backgroundType = "color",
   } = options;
 
-  // Temporary fallback: simple background fill
-  // Once engine context is wired, this will use compositor.app.render()
+  const compositor = omnislate.context.controllers.compositor;
+  if (compositor?.app?.renderer) {
+    compositor.draw_frame(ctx);
+    return;
+  }
+
   if (backgroundType === "color") {
     ctx.fillStyle = backgroundColor;
     ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
   }
 }
-
@@ -1,4 +1,14 @@
-import { TimelineElement } from "@/types/timeline";
+import {
+  CaptionWord,
+  ElementKeyframe,
+  MediaElement,
+  TimelineElement,
+} from "@/types/timeline";
+import {
+  local_to_source,
+  source_to_local,
+  type SpeedSettings,
+} from "@/lib/engine/utils/utils/effect-speed";
 
 // Helper function to check for element overlaps and prevent invalid timeline states
 export const checkElementOverlaps = (elements: TimelineElement[]): boolean => {
@@ -52,3 +62,73 @@ export const resolveElementOverlaps = (
 
   return resolvedElements;
 };
+
+// Speed settings of an element in engine units (milliseconds)
+const toSpeedSettings = (
+  speed?: number,
+  speedCurve?: ElementKeyframe[]
+): SpeedSettings => ({
+  speed,
+  speed_curve: speedCurve?.map((keyframe) => ({
+    ...keyframe,
+    time: keyframe.time * 1000,
+  })),
+});
+
+// Helper function to map element time (timeline clock) to seconds in the source media
+export const getElementSourceTime = (element: MediaElement, seconds: number) =>
+  local_to_source(
+    toSpeedSettings(element.speed, element.speedCurve),
+    seconds * 1000
+  ) / 1000;
+
+// Helper function to change element speed. Durations, trims and keyframes are
+// on the timeline clock, so they are rescaled to keep the same source range
+export const retimeElement = (
+  element: MediaElement,
+  speed: number,
+  speedCurve?: ElementKeyframe[]
+): MediaElement => {
+  const from = toSpeedSettings(element.speed, element.speedCurve);
+  const to = toSpeedSettings(speed, speedCurve);
+  const retime = (seconds: number) =>
+    source_to_local(to, local_to_source(from, seconds * 1000)) / 1000;
+
+  const duration = retime(element.duration);
+  const trimStart = retime(element.trimStart);
+  const trimEnd = duration - retime(element.duration - element.trimEnd);
+
+  const keyframes = element.keyframes
+    ? Object.fromEntries(
+        Object.entries(element.keyframes).map(([property, list]) => [
+          property,
+          list?.map((keyframe) => ({
+            ...keyframe,
+            time: retime(keyframe.time),
+          })),
+        ])
+      )
+    : undefined;
+
+  return {
+    ...element,
+    duration,
+    trimStart,
+    trimEnd: Math.max(0, trimEnd),
+    speed,
+    speedCurve: speedCurve && speedCurve.length > 0 ? speedCurve : undefined,
+    ...(keyframes && { keyframes }),
+  };
+};
+
+// Helper function to keep caption word timings when the text is edited. Word
+// timings only survive if the word count is unchanged, otherwise the caption
+// falls back to static text
+export const retextCaptionWords = (
+  words: CaptionWord[],
+  content: string
+): CaptionWord[] | undefined => {
+  const texts = content.trim().split(/\s+/).filter(Boolean);
+  if (texts.length !== words.length) return undefined;
+  return words.map((word, index) => ({ ...word, text: texts[index] }));
+};
@@ -0,0 +1,65 @@
+import type {
+  TranscriptionAvailability,
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionWord,
+} from "./types";
+import { wordsToTranscriptionResult } from "./utils";
+
+interface StubTranscriptionConfig {
+  // Seconds each word lasts and the pause after it
+  wordDuration?: number;
+  wordGap?: number;
+  language?: string;
+}
+
+/**
+ * Deterministic provider for tests and development. Ignores the audio and
+ * returns the given transcript with evenly spaced word timestamps.
+ */
+export class StubTranscriptionProvider implements TranscriptionProvider {
+  readonly id = "stub";
+  readonly name = "Stub transcription";
+  private words: TranscriptionWord[];
+  private language?: string;
+
+  constructor(
+    transcript: string | TranscriptionWord[],
+    {
+      wordDuration = 0.4,
+      wordGap = 0.1,
+      language,
+    }: StubTranscriptionConfig = {}
+  ) {
+    this.language = language;
+    this.words =
+      typeof transcript === "string"
+        ? transcript
+            .trim()
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((text, index) => ({
+              text,
+              start: index * (wordDuration + wordGap),
+              end: index * (wordDuration + wordGap) + wordDuration,
+            }))
+        : transcript;
+  }
+
+  async checkAvailability(): Promise<TranscriptionAvailability> {
+    return { available: true, missingFiles: [] };
+  }
+
+  async transcribe(
+    _audio: Blob,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    options.signal?.throwIfAborted();
+    options.onProgress?.(100, "Transcribing...");
+    return wordsToTranscriptionResult(
+      this.words.map((word) => ({ ...word })),
+      options.language ?? this.language
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import type { Suite } from 'cynic';
+import { expect } from 'chai';
+import { StubTranscriptionProvider } from './stub-provider';
+import { TranscriptionService } from './transcription-service';
+import { groupWordsIntoCaptions } from './utils';
+
+const audio = new Blob([]);
+
+const serviceWith = (provider: StubTranscriptionProvider) => {
+  const service = new TranscriptionService();
+  service.setProvider(provider);
+  return service;
+};
+
+export default <Suite> {
+  'transcription service': {
+    'transcribes through the provider it was given': async () => {
+      const service = serviceWith(new StubTranscriptionProvider('Hello there. How are you', { wordDuration: 0.5, wordGap: 0.25 }));
+      const result = await service.transcribe(audio);
+      expect(result.words.map((word) => [word.text, word.start, word.end])).to.deep.equal([
+        ['Hello', 0, 0.5],
+        ['there.', 0.75, 1.25],
+        ['How', 1.5, 2],
+        ['are', 2.25, 2.75],
+        ['you', 3, 3.5],
+      ]);
+      expect(result.segments.map((segment) => segment.text)).to.deep.equal(['Hello there.', 'How are you']);
+      expect(result.text).to.equal('Hello there. How are you');
+    },
+    'splits segments on long pauses': async () => {
+      const service = serviceWith(
+        new StubTranscriptionProvider([
+          { text: 'one', start: 0, end: 0.5 },
+          { text: 'two', start: 0.6, end: 1 },
+          { text: 'three', start: 3, end: 3.5 },
+        ])
+      );
+      const { segments } = await service.transcribe(audio);
+      expect(segments.map((segment) => [segment.text, segment.start, segment.end])).to.deep.equal([
+        ['one two', 0, 1],
+        ['three', 3, 3.5],
+      ]);
+    },
+    'prefers the requested language': async () => {
+      const service = serviceWith(new StubTranscriptionProvider('bonjour', { language: 'fr' }));
+      expect((await service.transcribe(audio)).language).to.equal('fr');
+      expect((await service.transcribe(audio, { language: 'en' })).language).to.equal('en');
+    },
+    'reports progress and stops when aborted': async () => {
+      const service = serviceWith(new StubTranscriptionProvider('a b c'));
+      const progress: number[] = [];
+      await service.transcribe(audio, { onProgress: (value) => progress.push(value) });
+      expect(progress).to.deep.equal([100]);
+
+      const controller = new AbortController();
+      controller.abort();
+      const aborted = await service.transcribe(audio, { signal: controller.signal }).then(
+        () => false,
+        () => true
+      );
+      expect(aborted).to.equal(true);
+    },
+    'is available with the stub': async () => {
+      const service = serviceWith(new StubTranscriptionProvider(''));
+      expect(await service.checkAvailability()).to.deep.equal({ available: true, missingFiles: [] });
+    },
+  },
+  'caption grouping': {
+    'never crosses a segment boundary': async () => {
+      const service = serviceWith(new StubTranscriptionProvider('one two three four. five six'));
+      const captions = groupWordsIntoCaptions(await service.transcribe(audio));
+      expect(captions.map((words) => words.map((word) => word.text).join(' '))).to.deep.equal([
+        'one two three',
+        'four.',
+        'five six',
+      ]);
+    },
+  },
+};
@@ -0,0 +1,34 @@
+import type {
+  TranscriptionAvailability,
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "./types";
+import { WhisperWasmProvider } from "./whisper-wasm-provider";
+
+class TranscriptionService {
+  private provider: TranscriptionProvider = new WhisperWasmProvider();
+
+  getProvider(): TranscriptionProvider {
+    return this.provider;
+  }
+
+  // Swap the engine, e.g. for a StubTranscriptionProvider in tests
+  setProvider(provider: TranscriptionProvider) {
+    this.provider = provider;
+  }
+
+  checkAvailability(): Promise<TranscriptionAvailability> {
+    return this.provider.checkAvailability();
+  }
+
+  transcribe(
+    audio: Blob,
+    options?: TranscriptionOptions
+  ): Promise<TranscriptionResult> {
+    return this.provider.transcribe(audio, options);
+  }
+}
+
+export const transcriptionService = new TranscriptionService();
+export { TranscriptionService };
@@ -0,0 +1,42 @@
+export interface TranscriptionWord {
+  text: string;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface TranscriptionSegment {
+  text: string;
+  start: number;
+  end: number;
+  words: TranscriptionWord[];
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  segments: TranscriptionSegment[];
+  words: TranscriptionWord[];
+}
+
+export interface TranscriptionOptions {
+  // ISO 639-1 code, omitted for auto-detection
+  language?: string;
+  onProgress?: (progress: number, step: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionAvailability {
+  available: boolean;
+  missingFiles: string[];
+}
+
+export interface TranscriptionProvider {
+  readonly id: string;
+  readonly name: string;
+  checkAvailability(): Promise<TranscriptionAvailability>;
+  // Takes the WAV produced by extractTimelineAudio()
+  transcribe(
+    audio: Blob,
+    options?: TranscriptionOptions
+  ): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,93 @@
+import type {
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord,
+} from "./types";
+
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+// Pause between words that starts a new segment, in seconds
+const SEGMENT_GAP = 1;
+
+/**
+ * Decode audio to mono PCM at the sample rate speech models expect
+ */
+export async function decodeAudioForTranscription(
+  audio: Blob,
+  sampleRate = TRANSCRIPTION_SAMPLE_RATE
+): Promise<Float32Array> {
+  // decodeAudioData resamples to the context rate
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0);
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Build a result from word timestamps, splitting segments on sentence ends
+ * and long pauses
+ */
+export function wordsToTranscriptionResult(
+  words: TranscriptionWord[],
+  language?: string
+): TranscriptionResult {
+  const segments: TranscriptionSegment[] = [];
+  let current: TranscriptionWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    segments.push({
+      text: current.map((word) => word.text).join(" "),
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous && word.start - previous.end > SEGMENT_GAP) {
+      flush();
+    }
+    current.push(word);
+    if (/[.!?]$/.test(word.text)) {
+      flush();
+    }
+  }
+  flush();
+
+  return {
+    text: segments.map((segment) => segment.text).join(" "),
+    language,
+    segments,
+    words,
+  };
+}
+
+/**
+ * Group words into short caption chunks that never cross a segment boundary
+ */
+export function groupWordsIntoCaptions(
+  result: TranscriptionResult,
+  maxWords = 3
+): TranscriptionWord[][] {
+  return result.segments.flatMap((segment) => {
+    const chunks: TranscriptionWord[][] = [];
+    for (let i = 0; i < segment.words.length; i += maxWords) {
+      chunks.push(segment.words.slice(i, i + maxWords));
+    }
+    return chunks;
+  });
+}
@@ -0,0 +1,166 @@
+import type {
+  TranscriptionAvailability,
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionWord,
+} from "./types";
+import {
+  decodeAudioForTranscription,
+  wordsToTranscriptionResult,
+} from "./utils";
+
+export interface WhisperWasmConfig {
+  // ES module build of transformers.js, served from /public
+  runtimeUrl: string;
+  // Directory holding the onnxruntime-web .wasm files
+  wasmPath: string;
+  // Directory holding model folders, e.g. /models/whisper-base/config.json
+  modelPath: string;
+  model: string;
+}
+
+export const DEFAULT_WHISPER_CONFIG: WhisperWasmConfig = {
+  runtimeUrl: "/models/transformers/transformers.min.js",
+  wasmPath: "/models/transformers/",
+  modelPath: "/models/",
+  model: "whisper-base",
+};
+
+// Whisper works on 30 second windows
+const CHUNK_LENGTH = 30;
+const CHUNK_STRIDE = 5;
+
+interface WhisperChunk {
+  text: string;
+  timestamp: [number, number | null];
+}
+
+interface WhisperOutput {
+  text: string;
+  chunks?: WhisperChunk[];
+}
+
+type WhisperPipeline = (
+  audio: Float32Array,
+  options: Record<string, unknown>
+) => Promise<WhisperOutput>;
+
+// The subset of the transformers.js module used here
+interface TransformersRuntime {
+  env: {
+    allowRemoteModels: boolean;
+    allowLocalModels: boolean;
+    localModelPath: string;
+    backends: { onnx: { wasm: { wasmPaths: string; proxy: boolean } } };
+  };
+  pipeline: (
+    task: "automatic-speech-recognition",
+    model: string,
+    options: { progress_callback?: (event: { progress?: number }) => void }
+  ) => Promise<WhisperPipeline>;
+}
+
+/**
+ * Runs Whisper in the browser through onnxruntime-web. The runtime and the
+ * model weights are loaded from local paths only, audio never leaves the device.
+ */
+export class WhisperWasmProvider implements TranscriptionProvider {
+  readonly id = "whisper-wasm";
+  readonly name = "Whisper (local)";
+  private config: WhisperWasmConfig;
+  private pipeline: Promise<WhisperPipeline> | null = null;
+
+  constructor(config: Partial<WhisperWasmConfig> = {}) {
+    this.config = { ...DEFAULT_WHISPER_CONFIG, ...config };
+  }
+
+  async checkAvailability(): Promise<TranscriptionAvailability> {
+    const { runtimeUrl, modelPath, model } = this.config;
+    const required = [runtimeUrl, `${modelPath}${model}/config.json`];
+
+    const missingFiles: string[] = [];
+    for (const url of required) {
+      try {
+        const response = await fetch(url, { method: "HEAD" });
+        if (!response.ok) missingFiles.push(url);
+      } catch {
+        missingFiles.push(url);
+      }
+    }
+
+    return { available: missingFiles.length === 0, missingFiles };
+  }
+
+  async transcribe(
+    audio: Blob,
+    { language, onProgress, signal }: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    onProgress?.(0, "Decoding audio...");
+    const samples = await decodeAudioForTranscription(audio);
+    signal?.throwIfAborted();
+
+    const transcriber = await this.loadPipeline(onProgress);
+    signal?.throwIfAborted();
+
+    onProgress?.(50, "Transcribing...");
+    const output = await transcriber(samples, {
+      return_timestamps: "word",
+      chunk_length_s: CHUNK_LENGTH,
+      stride_length_s: CHUNK_STRIDE,
+      task: "transcribe",
+      ...(language ? { language } : {}),
+    });
+    signal?.throwIfAborted();
+    onProgress?.(100, "Transcribing...");
+
+    return wordsToTranscriptionResult(toWords(output), language);
+  }
+
+  private loadPipeline(onProgress?: TranscriptionOptions["onProgress"]) {
+    if (!this.pipeline) {
+      this.pipeline = this.createPipeline(onProgress).catch((error) => {
+        // Allow retrying after the files have been added
+        this.pipeline = null;
+        throw error;
+      });
+    }
+    return this.pipeline;
+  }
+
+  private async createPipeline(
+    onProgress?: TranscriptionOptions["onProgress"]
+  ) {
+    const { runtimeUrl, wasmPath, modelPath, model } = this.config;
+    const runtime: TransformersRuntime = await import(
+      /* webpackIgnore: true */ runtimeUrl
+    );
+
+    runtime.env.allowRemoteModels = false;
+    runtime.env.allowLocalModels = true;
+    runtime.env.localModelPath = modelPath;
+    runtime.env.backends.onnx.wasm.wasmPaths = wasmPath;
+    // Run inference in a worker so the editor stays responsive
+    runtime.env.backends.onnx.wasm.proxy = true;
+
+    onProgress?.(0, "Loading model...");
+    return runtime.pipeline("automatic-speech-recognition", model, {
+      progress_callback: (event) => {
+        if (event.progress !== undefined) {
+          onProgress?.(event.progress / 2, "Loading model...");
+        }
+      },
+    });
+  }
+}
+
+function toWords({ chunks = [] }: WhisperOutput): TranscriptionWord[] {
+  return chunks
+    .map(({ text, timestamp: [start, end] }, index) => ({
+      text: text.trim(),
+      start,
+      // The last word of a window can come back without an end time
+      end: end ?? chunks[index + 1]?.timestamp[0] ?? start,
+    }))
+    .filter((word) => word.text.length > 0);
+}
@@ -88,3 +88,30 @@ export function getPlatformSpecialKey() {
 export function getPlatformAlternateKey() {
   return isAppleDevice() ? "⌥" : "Alt";
 }
+
+/**
+ * Hex encoded SHA-256 of the given blob
+ */
+export async function sha256(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await data.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Triggers a browser download for the given blob
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
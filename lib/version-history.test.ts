@@ -0,0 +1,59 @@
+import type { Suite } from 'cynic';
+import { expect } from 'chai';
+import type { SceneTimelineData } from '@/lib/storage/types';
+import type { MediaElement } from '@/types/timeline';
+import { describeDiff, diffTimelines } from './version-history';
+
+const clip = (id: string, startTime = 0): MediaElement => ({
+  id,
+  name: `${id}.mp4`,
+  type: 'media',
+  mediaId: id,
+  startTime,
+  duration: 5,
+  trimStart: 0,
+  trimEnd: 0,
+});
+
+// Scene timelines from { sceneId: { trackId: clips } }
+const timelines = (scenes: Record<string, Record<string, MediaElement[]>>): SceneTimelineData[] =>
+  Object.entries(scenes).map(([sceneId, tracks]) => ({
+    sceneId,
+    tracks: Object.entries(tracks).map(([id, elements]) => ({ id, name: id, type: 'media', elements })),
+    lastModified: '2026-01-01T00:00:00.000Z',
+  }));
+
+export default <Suite> {
+  'snapshot diffs': {
+    'finds no changes between equal timelines': async () => {
+      const before = timelines({ main: { video: [clip('a'), clip('b', 5)] } });
+      const after = timelines({ main: { video: [clip('a'), clip('b', 5)] } });
+      expect(diffTimelines(before, after)).to.deep.equal({ added: 0, removed: 0, moved: 0 });
+    },
+    'counts added and removed clips by id': async () => {
+      const before = timelines({ main: { video: [clip('a'), clip('b', 5)] } });
+      const after = timelines({ main: { video: [clip('a'), clip('c', 5), clip('d', 10)] } });
+      expect(diffTimelines(before, after)).to.deep.equal({ added: 2, removed: 1, moved: 0 });
+    },
+    'counts clips moved in time, to another track or another scene': async () => {
+      const before = timelines({ main: { video: [clip('a'), clip('b', 5), clip('c', 10)] }, intro: {} });
+      const after = timelines({ main: { video: [clip('a', 2)], overlay: [clip('b', 5)] }, intro: { video: [clip('c', 10)] } });
+      expect(diffTimelines(before, after)).to.deep.equal({ added: 0, removed: 0, moved: 3 });
+    },
+    'ignores start time rounding noise': async () => {
+      const before = timelines({ main: { video: [clip('a', 1)] } });
+      const after = timelines({ main: { video: [clip('a', 1.0001)] } });
+      expect(diffTimelines(before, after).moved).to.equal(0);
+    },
+  },
+  'snapshot diff descriptions': {
+    'names clips once and skips empty counts': async () => {
+      expect(describeDiff({ added: 3, removed: 1, moved: 0 })).to.equal('3 clips added, 1 removed');
+      expect(describeDiff({ added: 0, removed: 0, moved: 2 })).to.equal('2 clips moved');
+      expect(describeDiff({ added: 0, removed: 1, moved: 4 })).to.equal('1 clip removed, 4 moved');
+    },
+    'says when no clip changed': async () => {
+      expect(describeDiff({ added: 0, removed: 0, moved: 0 })).to.equal('No clip changes');
+    },
+  },
+};
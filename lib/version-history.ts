@@ -0,0 +1,74 @@
+import type { SceneTimelineData } from "@/lib/storage/types";
+
+/**
+ * Version history keeps timestamped snapshots of a project: automatic ones
+ * every few minutes while it changes, and checkpoints the user names.
+ * Snapshots are compared clip by clip, clips keep their ids across edits.
+ */
+
+export interface SnapshotDiff {
+  added: number;
+  removed: number;
+  moved: number; // Different start time, track or scene
+}
+
+type ClipPlacement = { sceneId: string; trackId: string; startTime: number };
+
+function clipPlacements(timelines: SceneTimelineData[]) {
+  const placements = new Map<string, ClipPlacement>();
+  for (const { sceneId, tracks } of timelines) {
+    for (const track of tracks) {
+      for (const element of track.elements) {
+        placements.set(element.id, {
+          sceneId,
+          trackId: track.id,
+          startTime: element.startTime,
+        });
+      }
+    }
+  }
+  return placements;
+}
+
+export function diffTimelines(
+  before: SceneTimelineData[],
+  after: SceneTimelineData[]
+): SnapshotDiff {
+  const previous = clipPlacements(before);
+  const next = clipPlacements(after);
+  const diff: SnapshotDiff = { added: 0, removed: 0, moved: 0 };
+  for (const [id, placement] of next) {
+    const old = previous.get(id);
+    if (!old) {
+      diff.added++;
+    } else if (
+      old.sceneId !== placement.sceneId ||
+      old.trackId !== placement.trackId ||
+      Math.abs(old.startTime - placement.startTime) > 1e-3
+    ) {
+      diff.moved++;
+    }
+  }
+  for (const id of previous.keys()) {
+    if (!next.has(id)) diff.removed++;
+  }
+  return diff;
+}
+
+// e.g. "3 clips added, 1 removed"
+export function describeDiff({ added, removed, moved }: SnapshotDiff) {
+  const parts = (
+    [
+      [added, "added"],
+      [removed, "removed"],
+      [moved, "moved"],
+    ] as const
+  )
+    .filter(([count]) => count > 0)
+    .map(([count, label], index) =>
+      index === 0
+        ? `${count} clip${count === 1 ? "" : "s"} ${label}`
+        : `${count} ${label}`
+    );
+  return parts.length > 0 ? parts.join(", ") : "No clip changes";
+}
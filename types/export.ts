@@ -1,9 +1,13 @@
 export type ExportFormat = "mp4" | "webm";
 export type ExportQuality = "low" | "medium" | "high" | "very_high";
+export type ExportVideoCodec = "h264" | "vp9" | "av1";
 
 export interface ExportOptions {
   format: ExportFormat;
   quality: ExportQuality;
+  videoCodec?: ExportVideoCodec;
+  width?: number;
+  height?: number;
   fps?: number;
   includeAudio?: boolean;
   onProgress?: (progress: number) => void;
@@ -16,3 +20,36 @@ export interface ExportResult {
   error?: string;
   cancelled?: boolean;
 }
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  format: ExportFormat;
+  quality: ExportQuality;
+  videoCodec?: ExportVideoCodec;
+  // Omitted to render at the project canvas size
+  width?: number;
+  height?: number;
+}
+
+export type ExportJobStatus =
+  | "queued"
+  | "rendering"
+  | "complete"
+  | "failed"
+  | "cancelled";
+
+export interface ExportJob {
+  id: string;
+  projectId: string;
+  projectName: string;
+  preset: ExportPreset;
+  includeAudio: boolean;
+  status: ExportJobStatus;
+  // 0..1
+  progress: number;
+  error?: string;
+  fileName?: string;
+  createdAt: number;
+  finishedAt?: number;
+}
@@ -3,6 +3,34 @@ import { generateUUID } from "@/lib/utils";
 
 export type TrackType = "media" | "text" | "audio";
 
+export type KeyframeInterpolation = "linear" | "bezier" | "hold";
+
+// Animatable properties. Filter params use `filter.<filter id>.<param>`, or
+// `filter.<FilterType>.<param>` for the first filter of that type, masks use
+// `mask.<mask id>.<x|y|width|height|feather>`
+export type KeyframeProperty =
+  | "x"
+  | "y"
+  | "scaleX"
+  | "scaleY"
+  | "rotation"
+  | "opacity"
+  | "volume"
+  | `filter.${string}`
+  | `mask.${string}`;
+
+export interface ElementKeyframe {
+  id: string;
+  time: number; // Seconds from the untrimmed element start (startTime - trimStart)
+  value: number;
+  interpolation: KeyframeInterpolation; // Towards the next keyframe
+  handles?: [number, number, number, number]; // cubic-bezier control points
+}
+
+export type ElementKeyframes = Partial<
+  Record<KeyframeProperty, ElementKeyframe[]>
+>;
+
 // Base element properties
 interface BaseTimelineElement {
   id: string;
@@ -12,13 +40,198 @@ interface BaseTimelineElement {
   trimStart: number;
   trimEnd: number;
   hidden?: boolean;
+  keyframes?: ElementKeyframes;
+}
+
+// Placement on the canvas in canvas pixels, the element is centered when omitted
+export interface ElementTransform {
+  x: number;
+  y: number;
+  scaleX: number;
+  scaleY: number;
+  rotation: number; // in degrees
+  pivotX: number; // Relative to the unscaled element
+  pivotY: number;
+}
+
+// One entry of a clip's filter chain, applied in array order
+export interface ElementFilter {
+  id: string;
+  type: string; // PIXI filter class name, e.g. "BlurFilter"
+  params: Record<string, unknown>; // Values for the filter's FilterSchemas entry
+  bypassed?: boolean;
+}
+
+export type ColorTriplet = [number, number, number];
+export type ColorCurvePoint = [number, number]; // Input, output in 0-1
+
+// Primary grade, applied before the filter chain. Wheels are per-channel
+// offsets from neutral (0)
+export interface ColorGrade {
+  lift: ColorTriplet;
+  gamma: ColorTriplet;
+  gain: ColorTriplet;
+  curves: Record<"master" | "red" | "green" | "blue", ColorCurvePoint[]>;
+  hsl?: HslQualifier;
+  lut?: ColorLut;
+  bypassed?: boolean;
+}
+
+// Picks a hue/saturation/luminance range and adjusts only those pixels
+export interface HslQualifier {
+  hue: number; // Center in degrees
+  range: number; // Width around the center in degrees
+  saturation: [number, number];
+  luminance: [number, number];
+  softness: number; // 0-1
+  adjust: { hue: number; saturation: number; lightness: number };
+}
+
+// Parsed .cube 3D LUT
+export interface ColorLut {
+  title: string;
+  size: number;
+  min: ColorTriplet;
+  max: ColorTriplet;
+  data: number[]; // size³ rgb triplets, red changing fastest
+  intensity: number; // 0-1
+}
+
+// Chroma or luma key, applied before the grade. Amounts are 0-1
+export type ElementKey =
+  | {
+      type: "chroma";
+      color: ColorTriplet; // 0-1
+      tolerance: number;
+      softness: number;
+      spill: number;
+      bypassed?: boolean;
+    }
+  | {
+      type: "luma";
+      threshold: number; // Luma below it is removed, above it when inverted
+      softness: number;
+      invert?: boolean;
+      bypassed?: boolean;
+    };
+
+// How a visual element is composited with everything beneath it
+export type BlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "color-burn"
+  | "hard-light"
+  | "soft-light"
+  | "difference"
+  | "exclusion"
+  | "add";
+
+// Mask of a visual element. The box is 0-1 of the element's frame from its
+// top left, bezier points are 0-1 of the box, feather is in frame pixels
+export interface ElementMask {
+  id: string;
+  shape: "rectangle" | "ellipse" | "bezier";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  points?: [number, number, number, number][]; // x, y and the out tangent
+  feather: number;
+  invert?: boolean; // Cuts the shape out instead
+}
+
+// Uses the element on the track above as alpha or luma, that element
+// is not drawn itself
+export interface ElementTrackMatte {
+  type: "alpha" | "luma";
+  invert?: boolean;
+}
+
+// Source pixels cut from each edge, the rest of the picture stays in place
+export interface ElementCrop {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Scales the cropped picture to the canvas and takes over the transform scale
+export type FitMode = "fit" | "fill" | "stretch";
+
+// Rounded corners and a border inside the visible frame, in canvas pixels
+export interface ElementFrame {
+  radius: number;
+  borderWidth: number;
+  borderColor: string;
+}
+
+// Slot of a layout template the element was placed in, 0-1 of the canvas.
+// The gap is in canvas pixels, a bleeding slot fills the canvas without it.
+// Transform and crop are placed again from it when the canvas size changes
+export interface ElementLayoutSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  gap: number;
+  bleed?: boolean;
+}
+
+// Transition from another element into this one. The overlap is already
+// part of both elements' trims, this only records which effect plays over it.
+export interface ElementTransition {
+  id: string;
+  name: string; // gl-transitions name
+  duration: number; // Seconds
+  fromElementId: string;
 }
 
 // Media element that references MediaStore
+// duration/trimStart/trimEnd are on the timeline clock, i.e. already divided by speed
 export interface MediaElement extends BaseTimelineElement {
   type: "media";
   mediaId: string;
   muted?: boolean;
+  speed?: number; // Playback rate, 1 = normal
+  speedCurve?: ElementKeyframe[]; // Speed ramp over element time, overrides speed
+  gain?: number; // Linear clip gain, 1 = unchanged
+  fadeIn?: number; // Seconds from the visible start
+  fadeOut?: number; // Seconds before the visible end
+  transform?: ElementTransform; // Video and image only
+  filters?: ElementFilter[]; // Video and image only
+  colorGrade?: ColorGrade; // Video and image only
+  key?: ElementKey; // Video and image only
+  masks?: ElementMask[]; // Video and image only
+  trackMatte?: ElementTrackMatte; // Video and image only
+  opacity?: number; // Video and image only, 0-1, opacity keyframes override it
+  blendMode?: BlendMode; // Video and image only
+  crop?: ElementCrop; // Video and image only
+  flipX?: boolean; // Video and image only
+  flipY?: boolean; // Video and image only
+  fit?: FitMode; // Video and image only
+  frame?: ElementFrame; // Video and image only
+  layoutSlot?: ElementLayoutSlot; // Video and image only
+  transitionIn?: ElementTransition; // Video and image only
+}
+
+// Adjustment layer, its filter chain applies to everything on the tracks
+// beneath it while it is active. Lives on media tracks
+export interface AdjustmentElement extends BaseTimelineElement {
+  type: "adjustment";
+  filters?: ElementFilter[];
+}
+
+export interface TextShadow {
+  color: string;
+  opacity: number; // 0-1
+  blur: number;
+  distance: number;
+  angle: number; // in radians
 }
 
 // Text element with embedded text data
@@ -37,15 +250,52 @@ export interface TextElement extends BaseTimelineElement {
   y: number; // Position relative to canvas center
   rotation: number; // in degrees
   opacity: number; // 0-1
+  scaleX?: number;
+  scaleY?: number;
+  strokeColor?: string;
+  strokeWidth?: number;
+  letterSpacing?: number;
+  lineHeight?: number;
+  shadow?: TextShadow;
+  // Word timings from transcription make this an animated caption
+  words?: CaptionWord[];
+  captionStyle?: CaptionStyle;
+  masks?: ElementMask[];
+  trackMatte?: ElementTrackMatte;
+  blendMode?: BlendMode;
+}
+
+export interface CaptionWord {
+  text: string;
+  start: number; // Seconds from the untrimmed element start, like keyframes
+  end: number;
+}
+
+export type CaptionAnimation =
+  | "karaoke"
+  | "highlight"
+  | "pop-in"
+  | "color-change";
+
+export interface CaptionStyle {
+  animation: CaptionAnimation;
+  highlightColor: string;
+  highlightBackground?: string; // Box behind the current word
+  upcomingOpacity: number; // 0-1, words not spoken yet
+  popScale: number; // Starting scale of a word popping in
 }
 
 // Typed timeline elements
-export type TimelineElement = MediaElement | TextElement;
+export type TimelineElement = MediaElement | TextElement | AdjustmentElement;
 
 // Creation types (without id, for addElementToTrack)
 export type CreateMediaElement = Omit<MediaElement, "id">;
 export type CreateTextElement = Omit<TextElement, "id">;
-export type CreateTimelineElement = CreateMediaElement | CreateTextElement;
+export type CreateAdjustmentElement = Omit<AdjustmentElement, "id">;
+export type CreateTimelineElement =
+  | CreateMediaElement
+  | CreateTextElement
+  | CreateAdjustmentElement;
 
 export interface TimelineElementProps {
   element: TimelineElement;
@@ -78,7 +328,16 @@ export interface TextItemDragData {
   content: string;
 }
 
-export type DragData = MediaItemDragData | TextItemDragData;
+export interface AdjustmentItemDragData {
+  id: string;
+  type: "adjustment";
+  name: string;
+}
+
+export type DragData =
+  | MediaItemDragData
+  | TextItemDragData
+  | AdjustmentItemDragData;
 
 export interface TimelineTrack {
   id: string;
@@ -87,6 +346,9 @@ export interface TimelineTrack {
   elements: TimelineElement[];
   muted?: boolean;
   isMain?: boolean;
+  volume?: number; // Linear track gain, 1 = unchanged
+  pan?: number; // -1 (left) to 1 (right)
+  solo?: boolean;
 }
 
 export function sortTracksByOrder(tracks: TimelineTrack[]): TimelineTrack[] {
@@ -135,7 +397,7 @@ export function ensureMainTrack(tracks: TimelineTrack[]): TimelineTrack[] {
 
 // Timeline validation utilities
 export function canElementGoOnTrack(
-  elementType: "text" | "media",
+  elementType: TimelineElement["type"],
   trackType: TrackType
 ): boolean {
   if (elementType === "text") {
@@ -144,20 +406,26 @@ export function canElementGoOnTrack(
   if (elementType === "media") {
     return trackType === "media" || trackType === "audio";
   }
+  if (elementType === "adjustment") {
+    return trackType === "media";
+  }
   return false;
 }
 
+const TRACK_COMPATIBILITY_ERRORS: Record<TimelineElement["type"], string> = {
+  text: "Text elements can only be placed on text tracks",
+  media: "Media elements can only be placed on media or audio tracks",
+  adjustment: "Adjustment layers can only be placed on media tracks",
+};
+
 export function validateElementTrackCompatibility(
-  element: { type: "text" | "media" },
+  element: { type: TimelineElement["type"] },
   track: { type: TrackType }
 ): { isValid: boolean; errorMessage?: string } {
   const isValid = canElementGoOnTrack(element.type, track.type);
 
   if (!isValid) {
-    const errorMessage =
-      element.type === "text"
-        ? "Text elements can only be placed on text tracks"
-        : "Media elements can only be placed on media or audio tracks";
+    const errorMessage = TRACK_COMPATIBILITY_ERRORS[element.type];
 
     return { isValid: false, errorMessage };
   }